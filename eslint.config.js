@@ -17,6 +17,7 @@ export default [
         process: "readonly",
         setTimeout: "readonly",
         clearTimeout: "readonly",
+        Buffer: "readonly",
       },
     },
     plugins: {
@@ -0,0 +1,134 @@
+/**
+ * CLI Files
+ *
+ * Expands the paths given on the command line into flow files. Each path may
+ * be a file, a directory (searched for flows) or a glob such as
+ * "force-app/main/default/flows/*.flow-meta.xml". Globs are expanded here
+ * too, for shells that do not expand them (Windows, quoted CI arguments).
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+
+const FLOW_FILE_SUFFIX = ".flow-meta.xml";
+const SKIPPED_DIRECTORIES = new Set(["node_modules", ".git", ".sfdx", ".sf"]);
+
+/**
+ * Turn a glob into a regular expression over "/"-separated paths.
+ * Supports "**", "*", "?" and "{a,b}".
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches any number of directories, including none
+        const slash = glob[i + 2] === "/";
+        pattern += slash ? "(?:.*/)?" : ".*";
+        i += slash ? 2 : 1;
+      } else {
+        pattern += "[^/]*";
+      }
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else if (char === "{") {
+      const end = glob.indexOf("}", i);
+      if (end === -1) {
+        pattern += "\\{";
+      } else {
+        const options = glob.slice(i + 1, end).split(",");
+        pattern += `(?:${options.map(escapeRegExp).join("|")})`;
+        i = end;
+      }
+    } else {
+      pattern += escapeRegExp(char);
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join("/");
+}
+
+/**
+ * Every file below a directory, skipping dependency and tool folders
+ */
+function walk(directory: string, files: string[] = []): string[] {
+  let entries: fs.Dirent[];
+  try {
+    entries = fs.readdirSync(directory, { withFileTypes: true });
+  } catch {
+    return files;
+  }
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (!SKIPPED_DIRECTORIES.has(entry.name)) {
+        walk(entryPath, files);
+      }
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+function isGlob(pattern: string): boolean {
+  return /[*?{]/.test(pattern);
+}
+
+/**
+ * Resolve one command-line path to the flow files it names
+ */
+function expandPattern(pattern: string, cwd: string): string[] {
+  if (!isGlob(pattern)) {
+    const resolved = path.resolve(cwd, pattern);
+    if (!fs.existsSync(resolved)) {
+      return [];
+    }
+    return fs.statSync(resolved).isDirectory()
+      ? walk(resolved).filter((file) => file.endsWith(FLOW_FILE_SUFFIX))
+      : [resolved];
+  }
+
+  // Only walk below the part of the pattern without wildcards
+  const segments = toPosix(pattern).split("/");
+  const firstGlob = segments.findIndex(isGlob);
+  const base = path.resolve(
+    cwd,
+    segments.slice(0, firstGlob).join("/") || "."
+  );
+  const matcher = globToRegExp(segments.slice(firstGlob).join("/"));
+  // A glob such as "force-app/**" also matches Apex and other metadata
+  return walk(base).filter(
+    (file) =>
+      file.endsWith(FLOW_FILE_SUFFIX) &&
+      matcher.test(toPosix(path.relative(base, file)))
+  );
+}
+
+/**
+ * Flow files named by the given paths, directories and globs, sorted and
+ * without duplicates. Patterns that match nothing are returned separately.
+ */
+export function resolveFlowFiles(
+  patterns: string[],
+  cwd: string = process.cwd()
+): { files: string[]; unmatched: string[] } {
+  const files = new Set<string>();
+  const unmatched: string[] = [];
+  for (const pattern of patterns) {
+    const matches = expandPattern(pattern, cwd);
+    if (matches.length === 0) {
+      unmatched.push(pattern);
+    }
+    matches.forEach((file) => files.add(file));
+  }
+  return { files: Array.from(files).sort(), unmatched };
+}
@@ -0,0 +1,52 @@
+/**
+ * CLI Flows
+ *
+ * Loads flow files for the CLI with the same parser, auto-layout and
+ * complexity calculation the diagram uses, so CI sees exactly what the
+ * extension shows.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { readFlowDocument } from "../utilities/flowDom";
+import { parseFlowDocument } from "../../webview-ui/src/parser/flowDocument";
+import { autoLayoutWithFaultLanes } from "../../webview-ui/src/layout";
+import type { FaultLaneInfo } from "../../webview-ui/src/layout";
+import { calculateComplexity } from "../../webview-ui/src/utils/complexity";
+import type { ComplexityMetrics } from "../../webview-ui/src/utils/complexity";
+import type { ParsedFlow } from "../../webview-ui/src/types";
+
+export interface LoadedFlow {
+  filePath: string;
+  /** File name without .flow-meta.xml */
+  name: string;
+  xml: string;
+  /** Parsed flow with nodes at their auto-layout positions */
+  flow: ParsedFlow;
+  /** Fault lanes from the layout, by fault connector id */
+  faultLanes: Map<string, FaultLaneInfo>;
+  complexity: ComplexityMetrics;
+}
+
+/**
+ * Read, parse and lay out a flow file
+ *
+ * @throws Error when the file cannot be read or is not flow metadata
+ */
+export function loadFlow(filePath: string): LoadedFlow {
+  const xml = fs.readFileSync(filePath, "utf8");
+  if (!/<Flow[\s>]/.test(xml)) {
+    throw new Error(`${filePath} is not flow metadata: no <Flow> element`);
+  }
+
+  const parsed = parseFlowDocument(readFlowDocument(xml));
+  const { nodes, faultLanes } = autoLayoutWithFaultLanes(parsed.nodes, parsed.edges);
+  return {
+    filePath,
+    name: path.basename(filePath).replace(/\.flow-meta\.xml$/, ""),
+    xml,
+    flow: { ...parsed, nodes },
+    faultLanes,
+    complexity: calculateComplexity(nodes, parsed.edges),
+  };
+}
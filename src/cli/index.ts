@@ -0,0 +1,461 @@
+#!/usr/bin/env node
+/**
+ * SF Flow Visualizer CLI
+ *
+ * Headless entry point (`sffv`) for CI pipelines and pre-commit hooks. Runs
+ * the same flow scanner, parser, layout and complexity code as the
+ * extension, writes machine-readable JSON or SARIF to stdout and exits
+ * non-zero when a quality gate fails. Not published to npm; build it with
+ * `npm run build:cli` and run it from the checkout:
+ *
+ *   node out/cli.js scan "force-app/**" --format sarif > flows.sarif
+ *   node out/cli.js complexity force-app --max 20
+ *   node out/cli.js export MyFlow.flow-meta.xml --format mermaid
+ *
+ * Exit codes: 0 passed, 1 gate failed, 2 usage or file error.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { version } from "../../package.json";
+import { analyzeFlowFile } from "../flowScannerService";
+import type { FlowScannerResult } from "../flowScannerService";
+import {
+  ScannerConfig,
+  parseScannerConfig,
+  readScannerConfigFile,
+} from "../scannerConfig";
+import { createFlowModelStore } from "../../webview-ui/src/model";
+import {
+  exportToMermaid,
+  exportToPlantUml,
+} from "../../webview-ui/src/utils/diagramText";
+import { getComplexityRange } from "../../webview-ui/src/utils/complexity";
+import { resolveFlowFiles } from "./files";
+import { LoadedFlow, loadFlow } from "./flows";
+import {
+  SarifFinding,
+  SarifLevel,
+  SarifRule,
+  buildSarifLog,
+  buildScannerSarifLog,
+} from "../utilities/sarif";
+import { renderFlowSvg } from "./svg";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface CliOptions {
+  command?: string;
+  paths: string[];
+  format?: string;
+  failOn: string;
+  max?: number;
+  out?: string;
+  config?: string;
+  verbose: boolean;
+  help: boolean;
+  version: boolean;
+}
+
+class UsageError extends Error {}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EXIT_PASSED = 0;
+const EXIT_GATE_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const SEVERITY_RANK: Record<string, number> = {
+  note: 1,
+  warning: 2,
+  error: 3,
+  never: Infinity,
+};
+
+const EXPORT_EXTENSIONS: Record<string, string> = {
+  svg: ".svg",
+  mermaid: ".mmd",
+  plantuml: ".puml",
+  json: ".json",
+};
+
+const COMPLEXITY_RULE: SarifRule = {
+  id: "FlowComplexity",
+  label: "Flow complexity",
+  description:
+    "The flow's cyclomatic complexity is above the maximum allowed. " +
+    "Split it into subflows or simplify its decisions and loops.",
+  level: "error",
+};
+
+const HELP = `sffv ${version} - Salesforce Flow quality checks from the command line
+
+Usage:
+  node out/cli.js scan <paths...> [--format json|sarif] [--fail-on error|warning|note|never]
+  node out/cli.js complexity <paths...> [--max <score>] [--format json|sarif]
+  node out/cli.js export <paths...> --format svg|mermaid|plantuml|json [--out <dir>]
+
+Paths may be flow files, directories (searched for *.flow-meta.xml) or
+quoted globs such as "force-app/**/flows/*.flow-meta.xml".
+
+scan reads rule settings and exceptions from --config, or else from a
+.flow-scanner.json or .flowscanner.yml in the current directory.
+
+Commands:
+  scan        Run the flow scanner rules. Fails when a violation is at or
+              above --fail-on (default: error).
+  complexity  Report cyclomatic complexity. Fails when a flow scores above
+              --max.
+  export      Write each flow as a diagram or as parsed JSON. Prints to
+              stdout for a single flow; --out is required for several.
+
+Options:
+  --format <format>   Output format (default: json)
+  --fail-on <level>   Lowest scan severity that fails the run
+  --max <score>       Highest complexity score that passes
+  --out <dir>         Directory to write exports to
+  --config <file>     Scanner configuration for scan
+  --verbose           Log progress to stderr
+  -h, --help          Show this help
+  -v, --version       Show the version`;
+
+// ============================================================================
+// ARGUMENTS
+// ============================================================================
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    paths: [],
+    failOn: "error",
+    verbose: false,
+    help: false,
+    version: false,
+  };
+
+  const takeValue = (flag: string, index: number): string => {
+    const value = argv[index + 1];
+    if (value === undefined || value.startsWith("--")) {
+      throw new UsageError(`${flag} needs a value`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case "-h":
+      case "--help":
+        options.help = true;
+        break;
+      case "-v":
+      case "--version":
+        options.version = true;
+        break;
+      case "--verbose":
+        options.verbose = true;
+        break;
+      case "--format":
+        options.format = takeValue(arg, i++);
+        break;
+      case "--fail-on":
+        options.failOn = takeValue(arg, i++);
+        break;
+      case "--out":
+        options.out = takeValue(arg, i++);
+        break;
+      case "--config":
+        options.config = takeValue(arg, i++);
+        break;
+      case "--max": {
+        const max = Number(takeValue(arg, i++));
+        if (!Number.isFinite(max)) {
+          throw new UsageError("--max must be a number");
+        }
+        options.max = max;
+        break;
+      }
+      default:
+        if (arg.startsWith("-")) {
+          throw new UsageError(`Unknown option ${arg}`);
+        }
+        if (options.command) {
+          options.paths.push(arg);
+        } else {
+          options.command = arg;
+        }
+    }
+  }
+  return options;
+}
+
+function requireFormat(options: CliOptions, allowed: string[]): string {
+  const format = options.format ?? allowed[0];
+  if (!allowed.includes(format)) {
+    throw new UsageError(
+      `--format must be one of ${allowed.join(", ")} for ${options.command}`
+    );
+  }
+  return format;
+}
+
+function requireFlowFiles(options: CliOptions): string[] {
+  if (options.paths.length === 0) {
+    throw new UsageError(`${options.command} needs at least one path`);
+  }
+  const { files, unmatched } = resolveFlowFiles(options.paths);
+  unmatched.forEach((pattern) =>
+    console.error(`sffv: no flow files match ${pattern}`)
+  );
+  if (files.length === 0) {
+    throw new UsageError("No flow files found");
+  }
+  return files;
+}
+
+function loadScannerConfig(options: CliOptions): ScannerConfig | undefined {
+  try {
+    if (!options.config) {
+      return readScannerConfigFile(process.cwd());
+    }
+    return parseScannerConfig(
+      fs.readFileSync(options.config, "utf8"),
+      options.config
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new UsageError(`Invalid scanner configuration: ${message}`);
+  }
+}
+
+// ============================================================================
+// OUTPUT
+// ============================================================================
+
+function writeJson(value: unknown): void {
+  process.stdout.write(JSON.stringify(value, null, 2) + "\n");
+}
+
+function toDisplayPath(filePath: string): string {
+  return path.relative(process.cwd(), filePath).split(path.sep).join("/");
+}
+
+// ============================================================================
+// COMMANDS
+// ============================================================================
+
+async function runScan(options: CliOptions): Promise<number> {
+  const format = requireFormat(options, ["json", "sarif"]);
+  if (SEVERITY_RANK[options.failOn] === undefined) {
+    throw new UsageError("--fail-on must be one of error, warning, note, never");
+  }
+  const config = loadScannerConfig(options);
+  const files = requireFlowFiles(options);
+
+  const scanned: { filePath: string; xml: string; result: FlowScannerResult }[] =
+    [];
+  for (const filePath of files) {
+    const xml = fs.readFileSync(filePath, "utf8");
+    const result = await analyzeFlowFile(filePath, { config });
+    scanned.push({ filePath, xml, result });
+  }
+
+  const failedScans = scanned.filter(({ result }) => !result.success);
+  failedScans.forEach(({ filePath, result }) =>
+    console.error(`sffv: could not scan ${filePath}: ${result.errorMessage}`)
+  );
+  const threshold = SEVERITY_RANK[options.failOn];
+  const gateFailed = scanned.some(({ result }) =>
+    result.violations.some(
+      (violation) => SEVERITY_RANK[violation.severity] >= threshold
+    )
+  );
+
+  if (format === "sarif") {
+    writeJson(
+      buildScannerSarifLog(
+        scanned.map(({ filePath, xml, result }) => ({
+          filePath,
+          xml,
+          violations: result.violations,
+        })),
+        version
+      )
+    );
+  } else {
+    const total = (severity: "error" | "warning" | "note") =>
+      scanned.reduce(
+        (sum, { result }) => sum + result.violationsBySeverity[severity],
+        0
+      );
+    writeJson({
+      version,
+      failOn: options.failOn,
+      passed: !gateFailed && failedScans.length === 0,
+      summary: {
+        flows: scanned.length,
+        error: total("error"),
+        warning: total("warning"),
+        note: total("note"),
+      },
+      flows: scanned.map(({ filePath, result }) => ({
+        file: toDisplayPath(filePath),
+        ...result,
+      })),
+    });
+  }
+
+  if (failedScans.length > 0) {
+    return EXIT_USAGE;
+  }
+  return gateFailed ? EXIT_GATE_FAILED : EXIT_PASSED;
+}
+
+function runComplexity(options: CliOptions): number {
+  const format = requireFormat(options, ["json", "sarif"]);
+  const flows = requireFlowFiles(options).map(loadFlow);
+  const max = options.max;
+  const isOverMax = (flow: LoadedFlow) =>
+    max !== undefined && flow.complexity.score > max;
+
+  if (format === "sarif") {
+    const findings: SarifFinding[] = flows.filter(isOverMax).map((flow) => ({
+      ruleId: COMPLEXITY_RULE.id,
+      level: COMPLEXITY_RULE.level as SarifLevel,
+      message:
+        `Cyclomatic complexity ${flow.complexity.score} is above the ` +
+        `maximum of ${max}`,
+      filePath: flow.filePath,
+      xml: flow.xml,
+    }));
+    writeJson(buildSarifLog([COMPLEXITY_RULE], findings, version));
+  } else {
+    writeJson({
+      version,
+      max: max ?? null,
+      passed: !flows.some(isOverMax),
+      flows: flows.map((flow) => {
+        const range = getComplexityRange(flow.complexity.score);
+        return {
+          file: toDisplayPath(flow.filePath),
+          label: flow.flow.metadata.label ?? flow.name,
+          score: flow.complexity.score,
+          rating: range.rating,
+          ratingLabel: range.label,
+          overMax: isOverMax(flow),
+          breakdown: flow.complexity.breakdown,
+          totalNodes: flow.complexity.totalNodes,
+          totalEdges: flow.complexity.totalEdges,
+          recommendations: flow.complexity.recommendations,
+        };
+      }),
+    });
+  }
+
+  return flows.some(isOverMax) ? EXIT_GATE_FAILED : EXIT_PASSED;
+}
+
+function renderExport(flow: LoadedFlow, format: string): string {
+  const store = createFlowModelStore(
+    flow.flow.nodes,
+    flow.flow.edges,
+    flow.flow.resources
+  );
+  const title = flow.flow.metadata.label ?? flow.name;
+  switch (format) {
+    case "svg":
+      return renderFlowSvg(flow.flow, flow.faultLanes);
+    case "mermaid":
+      return exportToMermaid(store, { title });
+    case "plantuml":
+      return exportToPlantUml(store, { title });
+    default:
+      return (
+        JSON.stringify(
+          {
+            file: toDisplayPath(flow.filePath),
+            ...flow.flow,
+            complexity: flow.complexity,
+          },
+          null,
+          2
+        ) + "\n"
+      );
+  }
+}
+
+function runExport(options: CliOptions): number {
+  if (!options.format) {
+    throw new UsageError("export needs --format svg|mermaid|plantuml|json");
+  }
+  const format = requireFormat(options, Object.keys(EXPORT_EXTENSIONS));
+  const files = requireFlowFiles(options);
+
+  if (!options.out) {
+    if (files.length > 1) {
+      throw new UsageError("--out is required when exporting several flows");
+    }
+    process.stdout.write(renderExport(loadFlow(files[0]), format));
+    return EXIT_PASSED;
+  }
+
+  fs.mkdirSync(options.out, { recursive: true });
+  for (const filePath of files) {
+    const flow = loadFlow(filePath);
+    const outPath = path.join(
+      options.out,
+      flow.name + EXPORT_EXTENSIONS[format]
+    );
+    fs.writeFileSync(outPath, renderExport(flow, format), "utf8");
+    console.error(`sffv: wrote ${toDisplayPath(outPath)}`);
+  }
+  return EXIT_PASSED;
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+async function main(argv: string[]): Promise<number> {
+  const options = parseArgs(argv);
+  if (options.version) {
+    process.stdout.write(`${version}\n`);
+    return EXIT_PASSED;
+  }
+  if (options.help || !options.command) {
+    process.stdout.write(`${HELP}\n`);
+    return options.help ? EXIT_PASSED : EXIT_USAGE;
+  }
+
+  // stdout carries the report only; the scanner service logs its progress
+  // with console.log, which goes to stderr with --verbose
+  console.log = options.verbose ? console.error : () => undefined;
+
+  switch (options.command) {
+    case "scan":
+      return runScan(options);
+    case "complexity":
+      return runComplexity(options);
+    case "export":
+      return runExport(options);
+    default:
+      throw new UsageError(`Unknown command ${options.command}`);
+  }
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`sffv: ${message}`);
+    if (error instanceof UsageError) {
+      console.error("Run sffv --help for usage.");
+    }
+    process.exitCode = EXIT_USAGE;
+  }
+);
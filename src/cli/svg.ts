@@ -0,0 +1,198 @@
+/**
+ * CLI SVG
+ *
+ * Draws a laid-out flow as a standalone SVG without a browser: each element
+ * as a card in its type colour with its label and type, and connectors
+ * routed by the canvas's ConnectorPathService, so fault lanes, loop-backs
+ * and GoTo connectors take the same paths and colours as in the diagram.
+ * Meant for docs and pull requests; the PNG and SVG exports in the
+ * extension remain the pixel-exact rendering.
+ */
+
+import { CONNECTOR_COLORS, NODE_CONFIG } from "../../webview-ui/src/constants";
+import type { FaultLaneInfo } from "../../webview-ui/src/layout";
+import { ConnectorPathService } from "../../webview-ui/src/services";
+import type {
+  DirectEdgeKind,
+  DirectEdgeRoute,
+} from "../../webview-ui/src/services";
+import type {
+  FlowEdge,
+  FlowNode,
+  ParsedFlow,
+} from "../../webview-ui/src/types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const PADDING = 40;
+const CARD_RADIUS = 8;
+const ACCENT_WIDTH = 6;
+const FONT_FAMILY = "Segoe UI, Helvetica, Arial, sans-serif";
+const MAX_LABEL_LENGTH = 36;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_LABEL_LENGTH
+    ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…`
+    : text;
+}
+
+function renderNode(node: FlowNode): string {
+  const config = NODE_CONFIG[node.type];
+  const color = config?.color ?? CONNECTOR_COLORS.default;
+  const centerY = node.y + node.height / 2;
+  const textX = node.x + ACCENT_WIDTH + 12;
+  return [
+    `<g data-element="${escapeXml(node.id)}">`,
+    `<rect x="${node.x}" y="${node.y}" width="${node.width}" ` +
+      `height="${node.height}" rx="${CARD_RADIUS}" fill="#ffffff" ` +
+      `stroke="#cbd5e1"/>`,
+    `<rect x="${node.x}" y="${node.y}" width="${ACCENT_WIDTH}" ` +
+      `height="${node.height}" rx="${CARD_RADIUS / 2}" fill="${color}"/>`,
+    `<text x="${textX}" y="${centerY - 4}" font-size="13" ` +
+      `font-weight="600" fill="#1e293b">${escapeXml(truncate(node.label))}</text>`,
+    `<text x="${textX}" y="${centerY + 13}" font-size="11" ` +
+      `fill="#64748b">${escapeXml(config?.label ?? node.type)}</text>`,
+    "</g>",
+  ].join("");
+}
+
+const EDGE_STYLES: Record<
+  DirectEdgeKind,
+  { color: string; marker: string; dash?: string }
+> = {
+  normal: { color: CONNECTOR_COLORS.default, marker: "arrow" },
+  fault: { color: CONNECTOR_COLORS.fault, marker: "arrow-red", dash: "6,4" },
+  goto: { color: CONNECTOR_COLORS.goto, marker: "arrow-blue", dash: "6,4" },
+  "loop-back": {
+    color: CONNECTOR_COLORS.highlight,
+    marker: "arrow-highlight",
+    dash: "8,4",
+  },
+};
+
+function renderMarker(id: string, color: string): string {
+  return (
+    `<marker id="${id}" markerWidth="6" markerHeight="5" refX="5" ` +
+    `refY="2.5" orient="auto"><polygon points="0 0, 6 2.5, 0 5" ` +
+    `fill="${color}"/></marker>`
+  );
+}
+
+/**
+ * Every point a connector passes through, for the drawing's bounds
+ */
+function getPathPoints(path: string): { x: number; y: number }[] {
+  return Array.from(
+    path.matchAll(/(-?\d+(?:\.\d+)?)[\s,]+(-?\d+(?:\.\d+)?)/g),
+    ([, x, y]) => ({ x: Number(x), y: Number(y) })
+  );
+}
+
+function renderEdge(edge: FlowEdge, route: DirectEdgeRoute): string {
+  const { path, kind, labelX, labelY } = route;
+  const style = EDGE_STYLES[kind];
+  const dash = style.dash ? ` stroke-dasharray="${style.dash}"` : "";
+  const line =
+    `<path d="${path.replace(/\s+/g, " ")}" fill="none" ` +
+    `stroke="${style.color}" stroke-width="1.5"${dash} ` +
+    `marker-end="url(#${style.marker})"/>`;
+  if (!edge.label) {
+    return line;
+  }
+  const labelColor = kind === "normal" ? "#475569" : style.color;
+  const label =
+    `<text x="${labelX}" y="${labelY + 4}" font-size="10" ` +
+    `text-anchor="middle" fill="${labelColor}">` +
+    `${escapeXml(truncate(edge.label))}</text>`;
+  return line + label;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * Render a flow whose nodes are already positioned (see loadFlow)
+ *
+ * @param faultLanes - Fault lanes from the layout, so fault connectors run
+ *   where the canvas draws them
+ */
+export function renderFlowSvg(
+  flow: ParsedFlow,
+  faultLanes: Map<string, FaultLaneInfo> = new Map()
+): string {
+  const nodesById = new Map(flow.nodes.map((node) => [node.id, node]));
+  const routes = flow.edges.flatMap((edge) => {
+    const source = nodesById.get(edge.source);
+    const target = nodesById.get(edge.target);
+    if (!source || !target) return [];
+    const laneX = faultLanes.get(edge.id)?.laneX;
+    return [
+      {
+        edge,
+        route: ConnectorPathService.routeDirectEdge(edge, source, target, laneX),
+      },
+    ];
+  });
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  const include = (x: number, y: number) => {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  };
+  flow.nodes.forEach((node) => {
+    include(node.x, node.y);
+    include(node.x + node.width, node.y + node.height);
+  });
+  // Fault lanes and loop-backs run outside the elements
+  routes.forEach(({ route }) =>
+    getPathPoints(route.path).forEach((point) => include(point.x, point.y))
+  );
+  if (flow.nodes.length === 0) {
+    minX = minY = maxX = maxY = 0;
+  }
+
+  const width = maxX - minX + PADDING * 2;
+  const height = maxY - minY + PADDING * 2;
+  const offsetX = PADDING - minX;
+  const offsetY = PADDING - minY;
+
+  const markers = Object.values(EDGE_STYLES).map((style) =>
+    renderMarker(style.marker, style.color)
+  );
+  const title = flow.metadata.label || "Flow";
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" ` +
+      `height="${height}" viewBox="0 0 ${width} ${height}" ` +
+      `font-family="${FONT_FAMILY}">`,
+    `<title>${escapeXml(title)}</title>`,
+    `<defs>${markers.join("")}</defs>`,
+    `<rect width="100%" height="100%" fill="#f8fafc"/>`,
+    `<g transform="translate(${offsetX},${offsetY})">`,
+    ...routes.map(({ edge, route }) => renderEdge(edge, route)),
+    ...flow.nodes.map(renderNode),
+    "</g>",
+    "</svg>",
+    "",
+  ].join("\n");
+}
@@ -1,5 +1,16 @@
 import * as vscode from "vscode";
 import { FlowPanel } from "./panels/FlowPanel";
+import { FlowEditorProvider } from "./panels/FlowEditorProvider";
+import { compareFlowWith } from "./flowCompare";
+import { generateFlowDocumentation } from "./flowDocumentation";
+import { FlowHistoryProvider } from "./views/FlowHistoryProvider";
+import { FlowExplorerProvider } from "./views/FlowExplorerProvider";
+import { FlowDependencyPanel } from "./panels/FlowDependencyPanel";
+import { FlowAutomationPanel } from "./panels/FlowAutomationPanel";
+import { FlowQualityReportPanel } from "./panels/FlowQualityReportPanel";
+import { FlowDiagnostics } from "./flowDiagnostics";
+import { pickAutomationObject } from "./flowAutomation";
+import { getFlowApiName } from "./flowWorkspace";
 
 /**
  * SF Flow Visualizer Extension
@@ -72,7 +83,72 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
-  context.subscriptions.push(showCommand, showFromExplorerCommand);
+  // Register the compare command (from editor, explorer or command palette)
+  const compareCommand = vscode.commands.registerCommand(
+    "sf-flow-visualizer.compareWith",
+    (uri?: vscode.Uri) => compareFlowWith(context.extensionUri, uri)
+  );
+
+  // Register the documentation command (from editor, explorer or command palette)
+  const documentationCommand = vscode.commands.registerCommand(
+    "sf-flow-visualizer.generateDocumentation",
+    (uri?: vscode.Uri) => generateFlowDocumentation(context.extensionUri, uri)
+  );
+
+  // Register the dependency graph command; a flow file selects that flow
+  const dependenciesCommand = vscode.commands.registerCommand(
+    "sf-flow-visualizer.showDependencies",
+    (uri?: vscode.Uri) => {
+      const fileUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+      const focusFlow =
+        fileUri && fileUri.fsPath.endsWith(".flow-meta.xml")
+          ? getFlowApiName(fileUri.fsPath)
+          : undefined;
+      FlowDependencyPanel.render(context.extensionUri, focusFlow);
+    }
+  );
+
+  // Register the automation map command; a record-triggered flow file
+  // maps its own object, otherwise the object is picked from a list
+  const automationCommand = vscode.commands.registerCommand(
+    "sf-flow-visualizer.showAutomation",
+    async (uri?: vscode.Uri) => {
+      const object = await pickAutomationObject(
+        uri ?? vscode.window.activeTextEditor?.document.uri
+      );
+      if (object) {
+        FlowAutomationPanel.render(context.extensionUri, object);
+      }
+    }
+  );
+
+  // Register the workspace quality report command
+  const qualityReportCommand = vscode.commands.registerCommand(
+    "sf-flow-visualizer.showQualityReport",
+    () => FlowQualityReportPanel.render(context)
+  );
+
+  context.subscriptions.push(
+    showCommand,
+    showFromExplorerCommand,
+    compareCommand,
+    documentationCommand,
+    dependenciesCommand,
+    automationCommand,
+    qualityReportCommand
+  );
+
+  // Register the "Flow Diagram" custom editor (Open With…)
+  context.subscriptions.push(FlowEditorProvider.register(context));
+
+  // Register the "Flow History" view (commits touching the active flow)
+  context.subscriptions.push(FlowHistoryProvider.register(context));
+
+  // Register the "Flow Explorer" view (every flow in the workspace)
+  context.subscriptions.push(FlowExplorerProvider.register());
+
+  // Publish scanner violations for open flow files to the Problems panel
+  context.subscriptions.push(FlowDiagnostics.register());
 
   if (autoOpenEnabled) {
     maybeRenderFlowForEditor(vscode.window.activeTextEditor);
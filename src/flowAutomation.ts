@@ -0,0 +1,146 @@
+/**
+ * Record-Triggered Automation
+ *
+ * Finds the record-triggered flows in the workspace and groups them by the
+ * sObject they run on, so every flow that fires when an object's records
+ * are saved or deleted can be laid out in order of execution.
+ */
+
+import * as vscode from "vscode";
+import { FlowMetadata, readFlowSummary } from "./flowMetadata";
+import {
+  FLOW_FILE_SUFFIX,
+  findFlowFiles,
+  getFlowApiName,
+  readFlowFile,
+} from "./flowWorkspace";
+
+/** Start element trigger types of flows that run when records change */
+export const RECORD_TRIGGER_TYPES = [
+  "RecordBeforeSave",
+  "RecordAfterSave",
+  "RecordBeforeDelete",
+];
+
+/**
+ * A record-triggered flow file, sent to the webview which parses the XML
+ */
+export interface RecordTriggeredFlow {
+  /** Flow API name (file name without .flow-meta.xml) */
+  name: string;
+  filePath: string;
+  xml: string;
+  triggerType: string;
+}
+
+interface ObjectItem extends vscode.QuickPickItem {
+  object: string;
+}
+
+/**
+ * sObject a flow is triggered on, if it is a record-triggered flow
+ */
+function getTriggerObject(metadata?: FlowMetadata): string | undefined {
+  return metadata?.object &&
+    RECORD_TRIGGER_TYPES.includes(metadata.triggerType ?? "")
+    ? metadata.object
+    : undefined;
+}
+
+/**
+ * Read every flow in the workspace and group the record-triggered ones by
+ * object API name. Flows in each group are sorted by API name.
+ */
+export async function findRecordTriggeredFlows(): Promise<
+  Map<string, RecordTriggeredFlow[]>
+> {
+  const uris = await findFlowFiles();
+  const byObject = new Map<string, RecordTriggeredFlow[]>();
+
+  await Promise.all(
+    uris.map(async (uri) => {
+      try {
+        const xml = await readFlowFile(uri);
+        const metadata = readFlowSummary(xml)?.metadata;
+        const object = getTriggerObject(metadata);
+        if (!metadata || !object) {
+          return;
+        }
+        const flows = byObject.get(object) ?? [];
+        flows.push({
+          name: getFlowApiName(uri.fsPath),
+          filePath: uri.fsPath,
+          xml,
+          triggerType: metadata.triggerType ?? "",
+        });
+        byObject.set(object, flows);
+      } catch (error) {
+        console.error(`[FlowAutomation] Failed to read ${uri.fsPath}`, error);
+      }
+    })
+  );
+
+  for (const flows of byObject.values()) {
+    flows.sort((a, b) => a.name.localeCompare(b.name));
+  }
+  return byObject;
+}
+
+/**
+ * Choose the object to map. A record-triggered flow file maps its own
+ * object; otherwise the objects with record-triggered flows are offered.
+ *
+ * @param uri - Flow file the command was run on, if any
+ * @returns Object API name, or undefined when cancelled or nothing was found
+ */
+export async function pickAutomationObject(
+  uri?: vscode.Uri
+): Promise<string | undefined> {
+  if (uri && uri.fsPath.endsWith(FLOW_FILE_SUFFIX)) {
+    try {
+      const xml = await readFlowFile(uri);
+      const object = getTriggerObject(readFlowSummary(xml)?.metadata);
+      if (object) {
+        return object;
+      }
+    } catch (error) {
+      console.error(`[FlowAutomation] Failed to read ${uri.fsPath}`, error);
+    }
+  }
+
+  const byObject = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Window,
+      title: "Finding record-triggered flows…",
+    },
+    () => findRecordTriggeredFlows()
+  );
+  if (byObject.size === 0) {
+    vscode.window.showInformationMessage(
+      "No record-triggered flows found in this workspace."
+    );
+    return undefined;
+  }
+
+  const items: ObjectItem[] = [...byObject.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([object, flows]) => {
+      const count = (triggerType: string) =>
+        flows.filter((flow) => flow.triggerType === triggerType).length;
+      return {
+        label: object,
+        description: `${flows.length} flow${flows.length === 1 ? "" : "s"}`,
+        detail: [
+          `${count("RecordBeforeSave")} before save`,
+          `${count("RecordAfterSave")} after save`,
+          `${count("RecordBeforeDelete")} before delete`,
+        ].join(" · "),
+        object,
+      };
+    });
+
+  const picked = await vscode.window.showQuickPick(items, {
+    placeHolder: "Object to show record-triggered automation for",
+  });
+  return picked?.object;
+}
@@ -0,0 +1,156 @@
+/**
+ * Flow Compare
+ *
+ * Implements "SFFV: Compare Flow With…": picks an older version of a flow
+ * (another file, a git revision, or HEAD) and opens a panel showing the
+ * differences against the current working copy.
+ */
+
+import * as vscode from "vscode";
+import * as path from "path";
+import { FlowPanel, FlowComparison } from "./panels/FlowPanel";
+import {
+  getFileAtRevision,
+  getFileHistory,
+  getRepositoryRoot,
+  toRepositoryPath,
+} from "./gitService";
+
+type CompareSource = "file" | "revision" | "head";
+
+interface CompareSourceItem extends vscode.QuickPickItem {
+  source: CompareSource;
+}
+
+const WORKING_COPY_LABEL = "Working Copy";
+
+/**
+ * Ask which version to compare against and open the comparison panel
+ *
+ * @param extensionUri - Extension root, for the webview assets
+ * @param uri - Flow file to compare; defaults to the active editor
+ */
+export async function compareFlowWith(
+  extensionUri: vscode.Uri,
+  uri?: vscode.Uri
+): Promise<void> {
+  const fileUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+  if (!fileUri || !fileUri.fsPath.endsWith(".flow-meta.xml")) {
+    vscode.window.showErrorMessage(
+      "Open a Flow XML file (*.flow-meta.xml) to compare."
+    );
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick<CompareSourceItem>(
+    [
+      {
+        label: "$(git-compare) Working Copy vs HEAD",
+        description: "Show uncommitted changes",
+        source: "head",
+      },
+      {
+        label: "$(git-commit) Git Revision…",
+        description: "Pick a commit that changed this flow",
+        source: "revision",
+      },
+      {
+        label: "$(file) Another Flow File…",
+        description: "Pick a flow file on disk",
+        source: "file",
+      },
+    ],
+    { placeHolder: `Compare ${path.basename(fileUri.fsPath)} with…` }
+  );
+  if (!picked) {
+    return;
+  }
+
+  try {
+    // Include unsaved edits in the working copy
+    const document = await vscode.workspace.openTextDocument(fileUri);
+    const base = await pickBaseVersion(picked.source, fileUri);
+    if (!base) {
+      return;
+    }
+
+    const comparison: FlowComparison = {
+      baseXml: base.xml,
+      baseLabel: base.label,
+      targetXml: document.getText(),
+      targetLabel:
+        picked.source === "file"
+          ? path.basename(fileUri.fsPath)
+          : WORKING_COPY_LABEL,
+    };
+    FlowPanel.renderComparison(extensionUri, fileUri.fsPath, comparison);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Failed to compare flow: ${message}`);
+  }
+}
+
+/**
+ * Load the older side of the comparison
+ */
+async function pickBaseVersion(
+  source: CompareSource,
+  fileUri: vscode.Uri
+): Promise<{ xml: string; label: string } | undefined> {
+  if (source === "file") {
+    const [otherUri] =
+      (await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        defaultUri: vscode.Uri.file(path.dirname(fileUri.fsPath)),
+        filters: { "Flow Metadata": ["xml"] },
+        openLabel: "Compare",
+      })) ?? [];
+    if (!otherUri) {
+      return undefined;
+    }
+    const otherDocument = await vscode.workspace.openTextDocument(otherUri);
+    return {
+      xml: otherDocument.getText(),
+      label: path.basename(otherUri.fsPath),
+    };
+  }
+
+  const repoRoot = await getRepositoryRoot(fileUri.fsPath);
+
+  if (source === "head") {
+    const xml = await getFileAtRevision(
+      repoRoot,
+      toRepositoryPath(repoRoot, fileUri.fsPath),
+      "HEAD"
+    );
+    return { xml, label: "HEAD" };
+  }
+
+  const commits = await getFileHistory(fileUri.fsPath);
+  if (commits.length === 0) {
+    vscode.window.showInformationMessage(
+      "This flow has no committed versions yet."
+    );
+    return undefined;
+  }
+
+  const commit = await vscode.window.showQuickPick(
+    commits.map((c) => ({
+      label: c.subject,
+      description: `${c.shortHash} · ${c.author}`,
+      detail: new Date(c.date).toLocaleString(),
+      commit: c,
+    })),
+    { placeHolder: "Select a commit to compare with", matchOnDescription: true }
+  );
+  if (!commit) {
+    return undefined;
+  }
+
+  const xml = await getFileAtRevision(
+    repoRoot,
+    commit.commit.filePath,
+    commit.commit.hash
+  );
+  return { xml, label: commit.commit.shortHash };
+}
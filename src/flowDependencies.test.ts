@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+import type { FlowDependencyNode } from "./flowDependencies";
+import { findCallCycles, readFlowCalls } from "./flowDependencies";
+
+// Only the workspace scan needs VS Code
+vi.mock("vscode", () => ({}));
+
+function flow(name: string, calls: string[]): FlowDependencyNode {
+  return {
+    name,
+    label: name,
+    calls: calls.map((flowName) => ({
+      flowName,
+      elementName: `Call_${flowName}`,
+      elementLabel: `Call ${flowName}`,
+      kind: "subflow",
+    })),
+  };
+}
+
+describe("readFlowCalls", () => {
+  it("reads subflows and flow actions, skipping other actions", () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<Flow xmlns="http://soap.sforce.com/2006/04/metadata">
+  <actionCalls>
+    <name>Send_Email</name>
+    <label>Send Email</label>
+    <actionName>emailSimple</actionName>
+    <actionType>emailSimple</actionType>
+  </actionCalls>
+  <actionCalls>
+    <name>Run_Cleanup</name>
+    <actionName>Cleanup_Flow</actionName>
+    <actionType>flow</actionType>
+  </actionCalls>
+  <subflows>
+    <name>Call_Child</name>
+    <label>Call Child</label>
+    <flowName>Child_Flow</flowName>
+  </subflows>
+</Flow>`;
+
+    expect(readFlowCalls(xml)).toEqual([
+      {
+        flowName: "Child_Flow",
+        elementName: "Call_Child",
+        elementLabel: "Call Child",
+        kind: "subflow",
+      },
+      {
+        flowName: "Cleanup_Flow",
+        elementName: "Run_Cleanup",
+        elementLabel: "Run_Cleanup",
+        kind: "action",
+      },
+    ]);
+  });
+
+  it("returns nothing for other metadata", () => {
+    expect(readFlowCalls("<CustomObject><subflows/></CustomObject>")).toEqual(
+      []
+    );
+  });
+});
+
+describe("findCallCycles", () => {
+  it("groups flows that call each other", () => {
+    const cycles = findCallCycles([
+      flow("A", ["B"]),
+      flow("B", ["C"]),
+      flow("C", ["A", "D"]),
+      flow("D", []),
+    ]);
+
+    expect(cycles.map((cycle) => [...cycle].sort())).toEqual([
+      ["A", "B", "C"],
+    ]);
+  });
+
+  it("counts a flow calling itself, but not a call chain", () => {
+    expect(
+      findCallCycles([
+        flow("Recursive", ["Recursive"]),
+        flow("Top", ["Middle"]),
+        flow("Middle", ["Missing_Flow"]),
+      ])
+    ).toEqual([["Recursive"]]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Flow Dependencies
+ *
+ * Builds the workspace call graph between flows: which flows start which
+ * other flows through Subflow elements or flow Action calls, and which of
+ * those calls form cycles.
+ */
+
+import { readFlowSummary } from "./flowMetadata";
+import { findFlowFiles, getFlowApiName, readFlowFile } from "./flowWorkspace";
+import {
+  getChildElements,
+  getChildText,
+  parseXml,
+} from "./utilities/xmlReader";
+
+/**
+ * One element in a flow that starts another flow
+ */
+export interface FlowCall {
+  /** API name of the called flow */
+  flowName: string;
+  /** Element making the call */
+  elementName: string;
+  elementLabel: string;
+  kind: "subflow" | "action";
+}
+
+export interface FlowDependencyNode {
+  /** Flow API name (file name without .flow-meta.xml) */
+  name: string;
+  label: string;
+  /** Undefined for flows that are called but not in the workspace */
+  filePath?: string;
+  processType?: string;
+  status?: string;
+  calls: FlowCall[];
+}
+
+export interface FlowDependencyGraph {
+  flows: FlowDependencyNode[];
+  /** Groups of flows that call each other in a loop, by API name */
+  cycles: string[][];
+}
+
+/**
+ * List the Subflow elements and flow Action calls in a flow's XML
+ */
+export function readFlowCalls(xml: string): FlowCall[] {
+  const root = parseXml(xml);
+  if (!root || root.tagName !== "Flow") {
+    return [];
+  }
+
+  const calls: FlowCall[] = [];
+  for (const el of getChildElements(root, "subflows")) {
+    const flowName = getChildText(el, "flowName");
+    if (flowName) {
+      const elementName = getChildText(el, "name");
+      calls.push({
+        flowName,
+        elementName,
+        elementLabel: getChildText(el, "label") || elementName,
+        kind: "subflow",
+      });
+    }
+  }
+  // Autolaunched flows can also be invoked as an action ("actionType" flow)
+  for (const el of getChildElements(root, "actionCalls")) {
+    const flowName = getChildText(el, "actionName");
+    if (getChildText(el, "actionType") === "flow" && flowName) {
+      const elementName = getChildText(el, "name");
+      calls.push({
+        flowName,
+        elementName,
+        elementLabel: getChildText(el, "label") || elementName,
+        kind: "action",
+      });
+    }
+  }
+  return calls;
+}
+
+/**
+ * Find call cycles with Tarjan's strongly connected components algorithm.
+ * A flow calling itself counts as a cycle of one.
+ */
+export function findCallCycles(flows: FlowDependencyNode[]): string[][] {
+  const callees = new Map(
+    flows.map((flow) => [
+      flow.name,
+      [...new Set(flow.calls.map((call) => call.flowName))],
+    ])
+  );
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let nextIndex = 0;
+
+  const visit = (name: string) => {
+    index.set(name, nextIndex);
+    lowLink.set(name, nextIndex);
+    nextIndex++;
+    stack.push(name);
+    onStack.add(name);
+
+    for (const callee of callees.get(name) ?? []) {
+      if (!index.has(callee)) {
+        visit(callee);
+        lowLink.set(name, Math.min(lowLink.get(name)!, lowLink.get(callee)!));
+      } else if (onStack.has(callee)) {
+        lowLink.set(name, Math.min(lowLink.get(name)!, index.get(callee)!));
+      }
+    }
+
+    if (lowLink.get(name) === index.get(name)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== name);
+
+      const callsItself = callees.get(name)?.includes(name) ?? false;
+      if (component.length > 1 || callsItself) {
+        cycles.push(component.reverse());
+      }
+    }
+  };
+
+  for (const flow of flows) {
+    if (!index.has(flow.name)) {
+      visit(flow.name);
+    }
+  }
+  return cycles;
+}
+
+/**
+ * Read every flow in the workspace and build the call graph.
+ * Called flows missing from the workspace (e.g. from managed packages)
+ * are included without a file path.
+ */
+export async function buildFlowDependencyGraph(): Promise<FlowDependencyGraph> {
+  const uris = await findFlowFiles();
+  const flows = new Map<string, FlowDependencyNode>();
+
+  await Promise.all(
+    uris.map(async (uri) => {
+      const name = getFlowApiName(uri.fsPath);
+      try {
+        const xml = await readFlowFile(uri);
+        const metadata = readFlowSummary(xml)?.metadata ?? {};
+        flows.set(name, {
+          name,
+          label: metadata.label || name,
+          filePath: uri.fsPath,
+          processType: metadata.processType,
+          status: metadata.status,
+          calls: readFlowCalls(xml),
+        });
+      } catch (error) {
+        console.error(`[FlowDependencies] Failed to read ${uri.fsPath}`, error);
+      }
+    })
+  );
+
+  for (const flow of [...flows.values()]) {
+    for (const call of flow.calls) {
+      if (!flows.has(call.flowName)) {
+        flows.set(call.flowName, {
+          name: call.flowName,
+          label: call.flowName,
+          calls: [],
+        });
+      }
+    }
+  }
+
+  const sorted = [...flows.values()].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+  return { flows: sorted, cycles: findCallCycles(sorted) };
+}
@@ -0,0 +1,312 @@
+/**
+ * Flow Diagnostics
+ *
+ * Publishes flow scanner violations for *.flow-meta.xml documents open in an
+ * editor tab to the Problems panel. Each violation is placed on the
+ * `<name>` of the element it is about, so it shows as a squiggle on that
+ * line, and offers a quick fix that opens the rule's documentation.
+ * Documents the extension opens itself (subflows, compare bases, report
+ * entries) have no tab and are not scanned.
+ */
+
+import * as vscode from "vscode";
+import { analyzeFlowXML } from "./flowScannerService";
+import type { FlowViolation } from "./flowScannerService";
+import {
+  FLOW_FILE_SUFFIX,
+  SCANNER_CONFIG_GLOB,
+  getFlowApiName,
+  loadScannerConfig,
+} from "./flowWorkspace";
+import { findElementNameRange } from "./utilities/xmlReader";
+
+// Delay before re-scanning an edited flow, so typing doesn't scan on every keystroke
+const RESCAN_DEBOUNCE_MS = 1000;
+
+const DIAGNOSTIC_SOURCE = "Flow Scanner";
+const ENABLED_SETTING = "sf-flow-visualizer.showScannerDiagnostics";
+const SCANNER_SETTINGS = [
+  "sf-flow-visualizer.scannerRules",
+  "sf-flow-visualizer.scannerExceptions",
+];
+
+const SEVERITIES: Record<string, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  note: vscode.DiagnosticSeverity.Information,
+};
+
+/**
+ * URI of the document a tab shows, for text editors and the flow diagram
+ */
+function getTabUri(tab: vscode.Tab): vscode.Uri | undefined {
+  const input = tab.input;
+  return input instanceof vscode.TabInputText ||
+    input instanceof vscode.TabInputCustom
+    ? input.uri
+    : undefined;
+}
+
+/**
+ * Keeps a diagnostic collection in step with the flow documents open in
+ * tabs and provides the "open documentation" quick fixes for it.
+ */
+export class FlowDiagnostics implements vscode.CodeActionProvider {
+  public static readonly providedCodeActionKinds = [
+    vscode.CodeActionKind.QuickFix,
+  ];
+
+  private readonly _collection: vscode.DiagnosticCollection;
+  private readonly _timers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Latest scan per document; results of older scans are dropped
+  private readonly _scanIds = new Map<string, number>();
+  private _nextScanId = 0;
+  private _enabled: boolean;
+
+  public static register(): vscode.Disposable {
+    const diagnostics = new FlowDiagnostics();
+    vscode.workspace.textDocuments.forEach((document) =>
+      diagnostics._scan(document)
+    );
+
+    // Rescan open flows when the team's scanner configuration changes
+    const configWatcher =
+      vscode.workspace.createFileSystemWatcher(SCANNER_CONFIG_GLOB);
+    const rescanAll = () =>
+      vscode.workspace.textDocuments.forEach((document) =>
+        diagnostics._scan(document)
+      );
+
+    return vscode.Disposable.from(
+      diagnostics._collection,
+      new vscode.Disposable(() => diagnostics._clearTimers()),
+      configWatcher,
+      configWatcher.onDidCreate(rescanAll),
+      configWatcher.onDidChange(rescanAll),
+      configWatcher.onDidDelete(rescanAll),
+      vscode.languages.registerCodeActionsProvider(
+        { pattern: `**/*${FLOW_FILE_SUFFIX}` },
+        diagnostics,
+        { providedCodeActionKinds: FlowDiagnostics.providedCodeActionKinds }
+      ),
+      vscode.workspace.onDidOpenTextDocument((document) =>
+        diagnostics._scan(document)
+      ),
+      // A document opens before its tab does, so scan again once it has one
+      vscode.window.tabGroups.onDidChangeTabs((event) => {
+        const opened = new Set(
+          event.opened.map((tab) => getTabUri(tab)?.toString())
+        );
+        vscode.workspace.textDocuments
+          .filter((document) => opened.has(document.uri.toString()))
+          .forEach((document) => diagnostics._scan(document));
+        event.closed.forEach((tab) => {
+          const uri = getTabUri(tab);
+          if (uri && !FlowDiagnostics._hasTab(uri)) {
+            diagnostics._forget(uri);
+          }
+        });
+      }),
+      vscode.workspace.onDidChangeTextDocument((event) =>
+        diagnostics._scheduleScan(event.document)
+      ),
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        diagnostics._forget(document.uri)
+      ),
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (event.affectsConfiguration(ENABLED_SETTING)) {
+          diagnostics._setEnabled(FlowDiagnostics._isEnabled());
+        } else if (
+          SCANNER_SETTINGS.some((setting) =>
+            event.affectsConfiguration(setting)
+          )
+        ) {
+          rescanAll();
+        }
+      })
+    );
+  }
+
+  private static _isEnabled(): boolean {
+    return vscode.workspace
+      .getConfiguration()
+      .get<boolean>(ENABLED_SETTING, true);
+  }
+
+  private static _hasTab(uri: vscode.Uri): boolean {
+    const key = uri.toString();
+    return vscode.window.tabGroups.all.some((group) =>
+      group.tabs.some((tab) => getTabUri(tab)?.toString() === key)
+    );
+  }
+
+  private constructor() {
+    this._collection =
+      vscode.languages.createDiagnosticCollection("sf-flow-visualizer");
+    this._enabled = FlowDiagnostics._isEnabled();
+  }
+
+  /**
+   * Quick fixes opening the documentation of the scanner rules at the cursor
+   */
+  public provideCodeActions(
+    _document: vscode.TextDocument,
+    _range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of context.diagnostics) {
+      const code = diagnostic.code;
+      if (
+        diagnostic.source !== DIAGNOSTIC_SOURCE ||
+        typeof code !== "object"
+      ) {
+        continue;
+      }
+      const action = new vscode.CodeAction(
+        `Open documentation for ${code.value}`,
+        vscode.CodeActionKind.QuickFix
+      );
+      action.command = {
+        command: "vscode.open",
+        title: action.title,
+        arguments: [code.target],
+      };
+      action.diagnostics = [diagnostic];
+      actions.push(action);
+    }
+    return actions;
+  }
+
+  private _setEnabled(enabled: boolean) {
+    this._enabled = enabled;
+    if (enabled) {
+      vscode.workspace.textDocuments.forEach((document) =>
+        this._scan(document)
+      );
+    } else {
+      this._clearTimers();
+      this._scanIds.clear();
+      this._collection.clear();
+    }
+  }
+
+  private _scheduleScan(document: vscode.TextDocument) {
+    if (!this._isScannable(document)) {
+      return;
+    }
+    const key = document.uri.toString();
+    const timer = this._timers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+    }
+    this._timers.set(
+      key,
+      setTimeout(() => {
+        this._timers.delete(key);
+        this._scan(document);
+      }, RESCAN_DEBOUNCE_MS)
+    );
+  }
+
+  private async _scan(document: vscode.TextDocument) {
+    if (!this._isScannable(document)) {
+      return;
+    }
+    const key = document.uri.toString();
+    const scanId = ++this._nextScanId;
+    this._scanIds.set(key, scanId);
+
+    const xml = document.getText();
+    const result = await analyzeFlowXML(xml, {
+      config: loadScannerConfig(document.uri),
+      flowName: getFlowApiName(document.uri.fsPath),
+    });
+    if (this._scanIds.get(key) !== scanId || document.isClosed) {
+      return;
+    }
+    if (!result.success) {
+      // Keep what was shown before; the flow may be mid-edit and not parse
+      console.warn(
+        "[FlowDiagnostics] Scan failed:",
+        document.uri.fsPath,
+        result.errorMessage
+      );
+      return;
+    }
+    this._collection.set(
+      document.uri,
+      result.violations.map((violation) =>
+        this._toDiagnostic(document, xml, violation)
+      )
+    );
+  }
+
+  private _toDiagnostic(
+    document: vscode.TextDocument,
+    xml: string,
+    violation: FlowViolation
+  ): vscode.Diagnostic {
+    const found = violation.elementName
+      ? findElementNameRange(xml, violation.elementName)
+      : undefined;
+    const range = found
+      ? new vscode.Range(
+          found.start.line,
+          found.start.character,
+          found.end.line,
+          found.end.character
+        )
+      : this._getFlowRange(document, xml);
+
+    const subject = violation.elementName
+      ? `${violation.ruleLabel} (${violation.elementName})`
+      : violation.ruleLabel;
+    const diagnostic = new vscode.Diagnostic(
+      range,
+      `${subject}: ${violation.message}`,
+      SEVERITIES[violation.severity]
+    );
+    diagnostic.source = DIAGNOSTIC_SOURCE;
+    diagnostic.code = violation.docLink
+      ? { value: violation.rule, target: vscode.Uri.parse(violation.docLink) }
+      : violation.rule;
+    return diagnostic;
+  }
+
+  /**
+   * The `<Flow>` start tag, for violations about the flow as a whole
+   */
+  private _getFlowRange(
+    document: vscode.TextDocument,
+    xml: string
+  ): vscode.Range {
+    const offset = Math.max(0, xml.search(/<Flow[\s>]/));
+    return document.lineAt(document.positionAt(offset).line).range;
+  }
+
+  private _forget(uri: vscode.Uri) {
+    const key = uri.toString();
+    const timer = this._timers.get(key);
+    if (timer) {
+      clearTimeout(timer);
+      this._timers.delete(key);
+    }
+    this._scanIds.delete(key);
+    this._collection.delete(uri);
+  }
+
+  private _clearTimers() {
+    this._timers.forEach((timer) => clearTimeout(timer));
+    this._timers.clear();
+  }
+
+  private _isScannable(document: vscode.TextDocument): boolean {
+    return (
+      this._enabled &&
+      document.uri.scheme === "file" &&
+      document.fileName.endsWith(FLOW_FILE_SUFFIX) &&
+      FlowDiagnostics._hasTab(document.uri)
+    );
+  }
+}
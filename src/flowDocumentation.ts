@@ -0,0 +1,68 @@
+/**
+ * Flow Documentation
+ *
+ * Implements "SFFV: Generate Flow Documentation": asks for Markdown or HTML,
+ * then opens the flow's panel, which builds the document and sends it back
+ * to be saved.
+ */
+
+import * as vscode from "vscode";
+import { FlowPanel, DocumentationFormat } from "./panels/FlowPanel";
+
+interface FormatItem extends vscode.QuickPickItem {
+  format: DocumentationFormat;
+}
+
+/**
+ * Ask for a document format and generate documentation for a flow
+ *
+ * @param extensionUri - Extension root, for the webview assets
+ * @param uri - Flow file to document; defaults to the active editor
+ */
+export async function generateFlowDocumentation(
+  extensionUri: vscode.Uri,
+  uri?: vscode.Uri
+): Promise<void> {
+  const fileUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+  if (!fileUri || !fileUri.fsPath.endsWith(".flow-meta.xml")) {
+    vscode.window.showErrorMessage(
+      "Open a Flow XML file (*.flow-meta.xml) to document."
+    );
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick<FormatItem>(
+    [
+      {
+        label: "$(markdown) Markdown",
+        description: "For READMEs, wikis and pull requests",
+        format: "markdown",
+      },
+      {
+        label: "$(globe) HTML",
+        description: "A single page to share or print",
+        format: "html",
+      },
+    ],
+    { placeHolder: "Documentation format" }
+  );
+  if (!picked) {
+    return;
+  }
+
+  try {
+    // Include unsaved edits
+    const document = await vscode.workspace.openTextDocument(fileUri);
+    FlowPanel.renderDocumentation(
+      extensionUri,
+      document.getText(),
+      fileUri.fsPath,
+      picked.format
+    );
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(
+      `Failed to generate flow documentation: ${message}`
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Flow Metadata
+ *
+ * Reads a flow's header metadata and complexity score on the extension host,
+ * without rendering it. Uses the webview's parser and complexity calculation
+ * so the numbers match what the diagram panel shows.
+ */
+
+import { readFlowDocument } from "./utilities/flowDom";
+import { parseFlowDocument } from "../webview-ui/src/parser/flowDocument";
+import {
+  calculateComplexity,
+  getLabel,
+} from "../webview-ui/src/utils/complexity";
+import type { FlowMetadata } from "../webview-ui/src/types";
+
+export type { FlowMetadata };
+export { getProcessTypeLabel } from "../webview-ui/src/utils/formatters";
+
+export interface FlowSummary {
+  metadata: FlowMetadata;
+  /** Cyclomatic complexity, as scored in the diagram panel */
+  complexity: number;
+}
+
+/**
+ * Get the complexity rating label for a score (Simple … Very High)
+ */
+export const getComplexityLabel = getLabel;
+
+/**
+ * Read the metadata and complexity of a flow file's XML.
+ * Returns undefined when the text is not a Flow.
+ */
+export function readFlowSummary(xml: string): FlowSummary | undefined {
+  if (!/<Flow[\s>]/.test(xml)) {
+    return undefined;
+  }
+
+  const parsed = parseFlowDocument(readFlowDocument(xml));
+  return {
+    metadata: parsed.metadata,
+    complexity: calculateComplexity(parsed.nodes, parsed.edges).score,
+  };
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from "vitest";
+import type { FlowViolation } from "./flowScannerService";
+import type { ScannedFlow } from "./flowQualityReport";
+import { exportQualityReport } from "./flowQualityReport";
+
+// Paths are reported relative to the first workspace folder
+vi.mock("vscode", () => ({
+  workspace: {
+    workspaceFolders: [{ uri: { fsPath: "/repo" } }],
+    asRelativePath: (filePath: string) => filePath.replace("/repo/", ""),
+  },
+}));
+// Exporting needs no scans
+vi.mock("./flowScannerService", () => ({}));
+
+const XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Flow xmlns="http://soap.sforce.com/2006/04/metadata">
+  <recordUpdates>
+    <name>Update_Account</name>
+  </recordUpdates>
+</Flow>`;
+
+const DML_IN_LOOP: FlowViolation = {
+  rule: "DMLStatementInLoop",
+  ruleLabel: "DML Statement In A Loop",
+  severity: "error",
+  message: 'Avoid DML in loops, e.g. "Update", to stay within limits',
+  elementName: "Update_Account",
+  elementType: "recordUpdates",
+  docLink: "https://example.com/rules/dml-in-loop",
+};
+
+const MISSING_DESCRIPTION: FlowViolation = {
+  rule: "FlowDescription",
+  ruleLabel: "Missing Flow Description",
+  severity: "note",
+  message: "Describe the flow",
+};
+
+function scanned(name: string, violations: FlowViolation[]): ScannedFlow {
+  return {
+    entry: {
+      name,
+      filePath: `/repo/force-app/flows/${name}.flow-meta.xml`,
+      label: name.replace(/_/g, " "),
+      processType: "AutoLaunchedFlow",
+      violations,
+    },
+    xml: XML,
+  };
+}
+
+const FLOWS = [
+  scanned("Account_Sync", [DML_IN_LOOP, MISSING_DESCRIPTION]),
+  scanned("Lead_Router", [DML_IN_LOOP]),
+];
+const SCANNED_AT = "2024-05-01T10:00:00.000Z";
+
+describe("exportQualityReport", () => {
+  it("writes one CSV row per violation with workspace paths", () => {
+    const csv = exportQualityReport(FLOWS, SCANNED_AT, "csv", "1.2.0");
+
+    const lines = csv.split("\r\n");
+    expect(lines[0]).toBe(
+      "Flow,Label,Process Type,Severity,Rule,Rule Label,Element," +
+        "Element Type,Message,File"
+    );
+    expect(lines[1]).toBe(
+      "Account_Sync,Account Sync,AutoLaunchedFlow,error,DMLStatementInLoop," +
+        "DML Statement In A Loop,Update_Account,recordUpdates," +
+        '"Avoid DML in loops, e.g. ""Update"", to stay within limits",' +
+        "force-app/flows/Account_Sync.flow-meta.xml"
+    );
+    expect(lines[2]).toBe(
+      "Account_Sync,Account Sync,AutoLaunchedFlow,note,FlowDescription," +
+        "Missing Flow Description,,,Describe the flow," +
+        "force-app/flows/Account_Sync.flow-meta.xml"
+    );
+    expect(lines).toHaveLength(5);
+    expect(lines[4]).toBe("");
+  });
+
+  it("writes JSON with the scan totals and workspace paths", () => {
+    const json = JSON.parse(
+      exportQualityReport(FLOWS, SCANNED_AT, "json", "1.2.0")
+    );
+
+    expect(json.totals).toEqual({
+      scannedAt: SCANNED_AT,
+      flows: 2,
+      error: 2,
+      warning: 0,
+      note: 1,
+    });
+    expect(json.flows[1]).toEqual({
+      name: "Lead_Router",
+      label: "Lead Router",
+      processType: "AutoLaunchedFlow",
+      violations: [DML_IN_LOOP],
+      file: "force-app/flows/Lead_Router.flow-meta.xml",
+    });
+  });
+
+  it("writes SARIF rules once, with results on the element's name", () => {
+    const sarif = JSON.parse(
+      exportQualityReport(FLOWS, SCANNED_AT, "sarif", "1.2.0")
+    );
+
+    const [run] = sarif.runs;
+    expect(sarif.version).toBe("2.1.0");
+    expect(run.tool.driver.version).toBe("1.2.0");
+    expect(
+      run.tool.driver.rules.map((rule: { id: string }) => rule.id)
+    ).toEqual(["DMLStatementInLoop", "FlowDescription"]);
+    expect(run.tool.driver.rules[0].helpUri).toBe(DML_IN_LOOP.docLink);
+    expect(run.results).toHaveLength(3);
+    expect(run.results[0]).toMatchObject({
+      ruleId: "DMLStatementInLoop",
+      level: "error",
+      message: { text: "DML Statement In A Loop: Update_Account" },
+    });
+    expect(run.results[0].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: "force-app/flows/Account_Sync.flow-meta.xml" },
+      region: { startLine: 4, startColumn: 11, endLine: 4, endColumn: 25 },
+    });
+    expect(run.results[1].locations[0].physicalLocation.region).toEqual({
+      startLine: 1,
+    });
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Workspace Quality Report
+ *
+ * Runs the flow scanner over every flow in the workspace for the quality
+ * report panel. Files are scanned where they are, without the temp-file
+ * round trip of a single-flow analysis. The totals of each scan are kept
+ * per workspace to show the trend, and the report exports as CSV, JSON
+ * or SARIF for tech-debt reviews and dashboards.
+ */
+
+import * as vscode from "vscode";
+import * as path from "path";
+import { analyzeFlowFile } from "./flowScannerService";
+import type { FlowViolation } from "./flowScannerService";
+import { readFlowSummary } from "./flowMetadata";
+import {
+  findFlowFiles,
+  getFlowApiName,
+  loadScannerConfig,
+  readFlowFile,
+} from "./flowWorkspace";
+import { buildScannerSarifLog } from "./utilities/sarif";
+
+/**
+ * Scanner results for one flow file
+ */
+export interface FlowQualityEntry {
+  /** Flow API name (file name without .flow-meta.xml) */
+  name: string;
+  filePath: string;
+  label: string;
+  processType?: string;
+  status?: string;
+  violations: FlowViolation[];
+  /** Set when the flow could not be scanned */
+  errorMessage?: string;
+}
+
+/**
+ * A scanned flow with the XML it was scanned from, kept in the extension
+ * host to locate SARIF results; only the entry is sent to the webview
+ */
+export interface ScannedFlow {
+  entry: FlowQualityEntry;
+  xml: string;
+}
+
+export interface QualityScanTotals {
+  /** ISO timestamp of the scan */
+  scannedAt: string;
+  flows: number;
+  error: number;
+  warning: number;
+  note: number;
+}
+
+export interface WorkspaceQualityReport {
+  scannedAt: string;
+  flows: FlowQualityEntry[];
+  /** Totals of earlier scans of this workspace, oldest first */
+  history: QualityScanTotals[];
+}
+
+export type QualityReportFormat = "csv" | "json" | "sarif";
+
+// Workspace state key for the totals of earlier scans
+const HISTORY_KEY = "qualityReportHistory";
+const MAX_HISTORY = 20;
+
+const CSV_HEADERS = [
+  "Flow",
+  "Label",
+  "Process Type",
+  "Severity",
+  "Rule",
+  "Rule Label",
+  "Element",
+  "Element Type",
+  "Message",
+  "File",
+];
+
+// ============================================================================
+// SCANNING
+// ============================================================================
+
+/**
+ * Scan every flow in the workspace, one file at a time, reporting progress.
+ * Returns undefined when the scan is cancelled.
+ */
+export async function scanWorkspaceFlows(
+  progress: vscode.Progress<{ message?: string; increment?: number }>,
+  token: vscode.CancellationToken
+): Promise<ScannedFlow[] | undefined> {
+  const uris = await findFlowFiles();
+  const scanned: ScannedFlow[] = [];
+
+  for (const uri of uris) {
+    if (token.isCancellationRequested) {
+      return undefined;
+    }
+    const name = getFlowApiName(uri.fsPath);
+    progress.report({
+      message: `${scanned.length + 1}/${uris.length} ${name}`,
+      increment: 100 / uris.length,
+    });
+
+    try {
+      const xml = await readFlowFile(uri);
+      const metadata = readFlowSummary(xml)?.metadata;
+      const result = await analyzeFlowFile(uri.fsPath, {
+        config: loadScannerConfig(uri),
+      });
+      scanned.push({
+        xml,
+        entry: {
+          name,
+          filePath: uri.fsPath,
+          label: metadata?.label || name,
+          processType: metadata?.processType,
+          status: metadata?.status,
+          violations: result.violations,
+          errorMessage: result.success ? undefined : result.errorMessage,
+        },
+      });
+    } catch (error) {
+      console.error(`[FlowQualityReport] Failed to read ${uri.fsPath}`, error);
+    }
+  }
+
+  return scanned.sort((a, b) => a.entry.name.localeCompare(b.entry.name));
+}
+
+/**
+ * Violation counts of a scan
+ */
+export function getQualityScanTotals(
+  scannedAt: string,
+  flows: FlowQualityEntry[]
+): QualityScanTotals {
+  const totals: QualityScanTotals = {
+    scannedAt,
+    flows: flows.length,
+    error: 0,
+    warning: 0,
+    note: 0,
+  };
+  flows.forEach((flow) =>
+    flow.violations.forEach((violation) => totals[violation.severity]++)
+  );
+  return totals;
+}
+
+/**
+ * Totals of earlier scans, then record this scan's totals for next time
+ */
+export async function updateQualityHistory(
+  state: vscode.Memento,
+  totals: QualityScanTotals
+): Promise<QualityScanTotals[]> {
+  const history = state.get<QualityScanTotals[]>(HISTORY_KEY, []);
+  await state.update(HISTORY_KEY, [...history, totals].slice(-MAX_HISTORY));
+  return history;
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+function escapeCsvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Path relative to the workspace folder holding the file, with "/" separators
+ */
+function toWorkspacePath(filePath: string): string {
+  return vscode.workspace
+    .asRelativePath(filePath, false)
+    .split(path.sep)
+    .join("/");
+}
+
+function exportCsv(flows: ScannedFlow[]): string {
+  const rows = flows.flatMap(({ entry }) =>
+    entry.violations.map((violation) => [
+      entry.name,
+      entry.label,
+      entry.processType ?? "",
+      violation.severity,
+      violation.rule,
+      violation.ruleLabel,
+      violation.elementName ?? "",
+      violation.elementType ?? "",
+      violation.message,
+      toWorkspacePath(entry.filePath),
+    ])
+  );
+  return (
+    [CSV_HEADERS, ...rows]
+      .map((cells) => cells.map(escapeCsvCell).join(","))
+      .join("\r\n") + "\r\n"
+  );
+}
+
+function exportJson(flows: ScannedFlow[], scannedAt: string): string {
+  const entries = flows.map(({ entry }) => entry);
+  const report = {
+    scannedAt,
+    totals: getQualityScanTotals(scannedAt, entries),
+    flows: entries.map(({ filePath, ...entry }) => ({
+      ...entry,
+      file: toWorkspacePath(filePath),
+    })),
+  };
+  return JSON.stringify(report, null, 2) + "\n";
+}
+
+function exportSarif(flows: ScannedFlow[], version: string): string {
+  // Locations are relative to the first workspace folder, the repository
+  // root in most projects
+  const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  const log = buildScannerSarifLog(
+    flows.map(({ entry, xml }) => ({
+      filePath: entry.filePath,
+      xml,
+      violations: entry.violations,
+    })),
+    version,
+    root
+  );
+  return JSON.stringify(log, null, 2) + "\n";
+}
+
+/**
+ * Write the report in the given format
+ *
+ * @param version - Extension version, recorded as the SARIF tool version
+ */
+export function exportQualityReport(
+  flows: ScannedFlow[],
+  scannedAt: string,
+  format: QualityReportFormat,
+  version: string
+): string {
+  switch (format) {
+    case "csv":
+      return exportCsv(flows);
+    case "sarif":
+      return exportSarif(flows, version);
+    default:
+      return exportJson(flows, scannedAt);
+  }
+}
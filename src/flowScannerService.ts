@@ -5,7 +5,13 @@
  * and returns results to the webview
  */
 
-import { parse, scan } from "@flow-scanner/lightning-flow-scanner-core";
+import * as path from "path";
+import {
+  getRules,
+  parse,
+  scan,
+} from "@flow-scanner/lightning-flow-scanner-core";
+import { ScannerConfig, findScannerException } from "./scannerConfig";
 
 export interface FlowScannerResult {
   success: boolean;
@@ -17,6 +23,8 @@ export interface FlowScannerResult {
     note: number;
   };
   totalViolations: number;
+  /** Violations matched by a configured exception; not counted above */
+  suppressedViolations: FlowViolation[];
   errorMessage?: string;
 }
 
@@ -28,6 +36,15 @@ export interface FlowViolation {
   elementName?: string;
   elementType?: string;
   docLink?: string;
+  /** Where the exception that suppresses the violation is declared */
+  suppressedBy?: string;
+}
+
+export interface FlowScanOptions {
+  /** Rules, severities and exceptions; library defaults when omitted */
+  config?: ScannerConfig;
+  /** Flow API name to match exceptions against; defaults to the file name */
+  flowName?: string;
 }
 
 // Severity overrides for rules where we want different severity than the library default
@@ -43,8 +60,15 @@ const SEVERITY_OVERRIDES: Record<string, "error" | "warning" | "note"> = {
 
 function mapSeverity(
   ruleName: string,
-  scannerSeverity?: string
+  scannerSeverity?: string,
+  config?: ScannerConfig
 ): "error" | "warning" | "note" {
+  // The team's configuration wins over our overrides
+  const configured = config?.rules[ruleName]?.severity;
+  if (configured) {
+    return configured;
+  }
+
   // Check for override first
   if (SEVERITY_OVERRIDES[ruleName]) {
     return SEVERITY_OVERRIDES[ruleName];
@@ -64,121 +88,200 @@ function mapSeverity(
 }
 
 /**
- * Analyze a flow XML string using lightning-flow-scanner
+ * Library rule options for the configured thresholds and expressions.
+ * Every enabled rule is listed, so rules the configuration doesn't mention
+ * still run with their defaults. Undefined when no rules are configured.
  */
-export async function analyzeFlowXML(
-  flowXml: string
-): Promise<FlowScannerResult> {
-  const os = await import("os");
-  const fs = await import("fs/promises");
-  const path = await import("path");
-
-  let tmpFilePath: string | null = null;
+function getRuleOptions(config?: ScannerConfig) {
+  if (!config || Object.keys(config.rules).length === 0) {
+    return undefined;
+  }
+  const rules: Record<string, { threshold?: number; expression?: string }> =
+    {};
+  for (const rule of getRules()) {
+    const options = config.rules[rule.name] ?? {};
+    if (options.enabled === false) {
+      continue;
+    }
+    rules[rule.name] = {
+      ...(options.threshold !== undefined && { threshold: options.threshold }),
+      ...(options.expression !== undefined && {
+        expression: options.expression,
+      }),
+    };
+  }
+  return { rules };
+}
 
-  try {
-    console.log("[Extension FlowScanner] Starting analysis...");
+/**
+ * Parse and scan a flow file, mapping the rule results to violations.
+ * Throws when the scanner fails.
+ */
+async function scanFlowFile(
+  filePath: string,
+  options: FlowScanOptions
+): Promise<FlowScannerResult> {
+  const { config } = options;
+  const flowName =
+    options.flowName ?? path.basename(filePath).replace(".flow-meta.xml", "");
 
-    // Write XML to temp file since parse() expects file paths
-    const tmpDir = os.tmpdir();
-    tmpFilePath = path.join(tmpDir, `flow-${Date.now()}.flow-meta.xml`);
-    await fs.writeFile(tmpFilePath, flowXml, "utf-8");
-    console.log("[Extension FlowScanner] Wrote temp file:", tmpFilePath);
+  // Parse the flow XML from file path
+  const flows = await parse([filePath]);
+  console.log(`[Extension FlowScanner] Parsed ${flows.length} flow(s)`);
 
-    // Parse the flow XML from file path
-    const flows = await parse([tmpFilePath]);
-    console.log(`[Extension FlowScanner] Parsed ${flows.length} flow(s)`);
+  // Run the scanner (library defaults unless rules are configured)
+  const ruleOptions = getRuleOptions(config);
+  const scanResults = ruleOptions
+    ? await scan(flows, ruleOptions)
+    : await scan(flows);
+  console.log(
+    `[Extension FlowScanner] Scan found ${scanResults.length} result(s)`
+  );
 
-    // Run the scanner (use library defaults for all rules)
-    const scanResults = await scan(flows);
-    console.log(
-      `[Extension FlowScanner] Scan found ${scanResults.length} result(s)`
-    );
+  // Extract violations
+  const violations: FlowViolation[] = [];
+  const suppressedViolations: FlowViolation[] = [];
+  let cyclomaticComplexity = 0;
 
-    // Extract violations
-    const violations: FlowViolation[] = [];
-    let cyclomaticComplexity = 0;
+  for (const result of scanResults) {
+    if (!result.ruleResults || result.ruleResults.length === 0) {
+      continue;
+    }
 
-    for (const result of scanResults) {
-      if (!result.ruleResults || result.ruleResults.length === 0) {
+    for (const ruleResult of result.ruleResults) {
+      // Get metadata directly from the rule definition provided by flow-scanner
+      const ruleDef = ruleResult.ruleDefinition;
+      const ruleName = ruleResult.ruleName || "Unknown";
+      if (config?.rules[ruleName]?.enabled === false) {
         continue;
       }
+      const ruleLabel = ruleDef?.label || ruleName;
+      const ruleDescription =
+        ruleDef?.description || "Flow quality issue detected.";
+      const docLink = ruleDef?.docRefs?.[0]?.path;
 
-      for (const ruleResult of result.ruleResults) {
-        // Get metadata directly from the rule definition provided by flow-scanner
-        const ruleDef = ruleResult.ruleDefinition;
-        const ruleName = ruleResult.ruleName || "Unknown";
-        const ruleLabel = ruleDef?.label || ruleName;
-        const ruleDescription =
-          ruleDef?.description || "Flow quality issue detected.";
-        const docLink = ruleDef?.docRefs?.[0]?.path;
-
-        const ruleViolations = ruleResult.details || [];
-
-        console.log(
-          "[Extension FlowScanner] Rule:",
-          ruleName,
-          "occurs:",
-          ruleResult.occurs,
-          "violations:",
-          ruleViolations.length
-        );
+      const ruleViolations = ruleResult.details || [];
+
+      console.log(
+        "[Extension FlowScanner] Rule:",
+        ruleName,
+        "occurs:",
+        ruleResult.occurs,
+        "violations:",
+        ruleViolations.length
+      );
 
-        for (const violation of ruleViolations) {
-          violations.push({
-            rule: ruleName,
-            ruleLabel,
-            severity: mapSeverity(ruleName, ruleResult.severity),
-            message: ruleDescription,
-            elementName: violation.name,
-            elementType: violation.metaType || violation.type,
-            docLink,
+      for (const violation of ruleViolations) {
+        const mapped: FlowViolation = {
+          rule: ruleName,
+          ruleLabel,
+          severity: mapSeverity(ruleName, ruleResult.severity, config),
+          message: ruleDescription,
+          elementName: violation.name,
+          elementType: violation.metaType || violation.type,
+          docLink,
+        };
+        const exception =
+          config && findScannerException(config, flowName, mapped);
+        if (exception) {
+          suppressedViolations.push({
+            ...mapped,
+            suppressedBy: exception.source,
           });
+        } else {
+          violations.push(mapped);
         }
+      }
 
-        // Extract cyclomatic complexity
-        if (ruleName === "CyclomaticComplexity" && ruleViolations.length > 0) {
-          const match = ruleViolations[0].name?.match(/(\d+)/);
-          if (match) {
-            cyclomaticComplexity = parseInt(match[1], 10);
-          }
+      // Extract cyclomatic complexity
+      if (ruleName === "CyclomaticComplexity" && ruleViolations.length > 0) {
+        const match = ruleViolations[0].name?.match(/(\d+)/);
+        if (match) {
+          cyclomaticComplexity = parseInt(match[1], 10);
         }
       }
     }
+  }
 
-    // Count by severity
-    const violationsBySeverity = {
-      error: violations.filter((v) => v.severity === "error").length,
-      warning: violations.filter((v) => v.severity === "warning").length,
-      note: violations.filter((v) => v.severity === "note").length,
-    };
+  // Count by severity
+  const violationsBySeverity = {
+    error: violations.filter((v) => v.severity === "error").length,
+    warning: violations.filter((v) => v.severity === "warning").length,
+    note: violations.filter((v) => v.severity === "note").length,
+  };
 
-    console.log(
-      `[Extension FlowScanner] Analysis complete: ${violations.length} violations found`
-    );
+  console.log(
+    `[Extension FlowScanner] Analysis complete: ${violations.length} violations found`
+  );
 
-    return {
-      success: true,
-      violations,
-      cyclomaticComplexity,
-      violationsBySeverity,
-      totalViolations: violations.length,
-    };
+  return {
+    success: true,
+    violations,
+    cyclomaticComplexity,
+    violationsBySeverity,
+    totalViolations: violations.length,
+    suppressedViolations,
+  };
+}
+
+function toFailedResult(error: unknown): FlowScannerResult {
+  console.error("[Extension FlowScanner] Analysis error:", error);
+  return {
+    success: false,
+    violations: [],
+    cyclomaticComplexity: 0,
+    violationsBySeverity: { error: 0, warning: 0, note: 0 },
+    totalViolations: 0,
+    suppressedViolations: [],
+    errorMessage: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Analyze a flow file on disk using lightning-flow-scanner
+ */
+export async function analyzeFlowFile(
+  filePath: string,
+  options: FlowScanOptions = {}
+): Promise<FlowScannerResult> {
+  try {
+    console.log("[Extension FlowScanner] Starting analysis of", filePath);
+    return await scanFlowFile(filePath, options);
   } catch (error) {
-    console.error("[Extension FlowScanner] Analysis error:", error);
-    return {
-      success: false,
-      violations: [],
-      cyclomaticComplexity: 0,
-      violationsBySeverity: { error: 0, warning: 0, note: 0 },
-      totalViolations: 0,
-      errorMessage: error instanceof Error ? error.message : String(error),
-    };
+    return toFailedResult(error);
+  }
+}
+
+/**
+ * Analyze a flow XML string using lightning-flow-scanner
+ */
+export async function analyzeFlowXML(
+  flowXml: string,
+  options: FlowScanOptions = {}
+): Promise<FlowScannerResult> {
+  const os = await import("os");
+  const fs = await import("fs/promises");
+
+  let tmpDir: string | null = null;
+
+  try {
+    console.log("[Extension FlowScanner] Starting analysis...");
+
+    // Write XML to temp file since parse() expects file paths. Each scan
+    // gets its own directory, as the Problems panel scans flows concurrently.
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "flow-"));
+    const tmpFilePath = path.join(tmpDir, "flow.flow-meta.xml");
+    await fs.writeFile(tmpFilePath, flowXml, "utf-8");
+    console.log("[Extension FlowScanner] Wrote temp file:", tmpFilePath);
+
+    return await scanFlowFile(tmpFilePath, options);
+  } catch (error) {
+    return toFailedResult(error);
   } finally {
-    // Clean up temp file
-    if (tmpFilePath) {
+    // Clean up temp directory
+    if (tmpDir) {
       try {
-        const fs = await import("fs/promises");
-        await fs.unlink(tmpFilePath);
+        await fs.rm(tmpDir, { recursive: true, force: true });
         console.log("[Extension FlowScanner] Cleaned up temp file");
       } catch (cleanupError) {
         console.warn(
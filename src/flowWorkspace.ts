@@ -0,0 +1,143 @@
+/**
+ * Flow Workspace
+ *
+ * Locates flow metadata files and the flow scanner configuration in the
+ * open workspace folders.
+ */
+
+import * as vscode from "vscode";
+import * as path from "path";
+import {
+  SCANNER_CONFIG_FILES,
+  ScannerConfig,
+  mergeScannerConfigs,
+  readScannerConfigFile,
+  toScannerConfig,
+} from "./scannerConfig";
+
+export const FLOW_FILE_SUFFIX = ".flow-meta.xml";
+export const FLOW_FILE_GLOB = `**/*${FLOW_FILE_SUFFIX}`;
+export const FLOW_FILE_EXCLUDE = "**/node_modules/**";
+export const SCANNER_CONFIG_GLOB = `**/{${SCANNER_CONFIG_FILES.join(",")}}`;
+
+const SCANNER_SETTINGS_SOURCE = "VS Code settings";
+
+// Configuration errors already shown, so a broken file warns once rather
+// than on every scan
+const reportedConfigErrors = new Set<string>();
+
+/**
+ * Find the file for a flow API name, e.g. the target of a subflow element.
+ * A file next to `nearFilePath` wins over matches elsewhere in the workspace,
+ * since source-format projects keep every flow in one folder.
+ */
+export async function findFlowFile(
+  flowName: string,
+  nearFilePath?: string
+): Promise<vscode.Uri | undefined> {
+  const fileName = `${flowName}${FLOW_FILE_SUFFIX}`;
+
+  if (nearFilePath) {
+    const sibling = vscode.Uri.file(
+      path.join(path.dirname(nearFilePath), fileName)
+    );
+    try {
+      await vscode.workspace.fs.stat(sibling);
+      return sibling;
+    } catch {
+      // Not next to the calling flow; search the workspace
+    }
+  }
+
+  const [match] = await vscode.workspace.findFiles(
+    `**/${fileName}`,
+    FLOW_FILE_EXCLUDE,
+    1
+  );
+  return match;
+}
+
+/**
+ * Every flow file in the workspace, skipping installed packages
+ */
+export async function findFlowFiles(): Promise<vscode.Uri[]> {
+  return vscode.workspace.findFiles(FLOW_FILE_GLOB, FLOW_FILE_EXCLUDE);
+}
+
+/**
+ * Read a flow file from disk as text
+ */
+export async function readFlowFile(uri: vscode.Uri): Promise<string> {
+  const bytes = await vscode.workspace.fs.readFile(uri);
+  return Buffer.from(bytes).toString("utf8");
+}
+
+/**
+ * Text of a flow file, with unsaved edits when it is open. Files that are
+ * not open are read from disk: opening them as documents would have them
+ * scanned and tracked like flows the user opened.
+ */
+export async function readFlowText(uri: vscode.Uri): Promise<string> {
+  const key = uri.toString();
+  const document = vscode.workspace.textDocuments.find(
+    (openDocument) => openDocument.uri.toString() === key
+  );
+  return document ? document.getText() : readFlowFile(uri);
+}
+
+/**
+ * Flow API name from its file name, e.g. "Account_After_Save"
+ */
+export function getFlowApiName(filePath: string): string {
+  return path.basename(filePath).replace(FLOW_FILE_SUFFIX, "");
+}
+
+function readScannerConfig(
+  read: () => ScannerConfig | undefined
+): ScannerConfig | undefined {
+  try {
+    return read();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!reportedConfigErrors.has(message)) {
+      reportedConfigErrors.add(message);
+      vscode.window.showWarningMessage(
+        `Flow scanner configuration ignored: ${message}`
+      );
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Scanner configuration for a flow: the configuration file at the root of
+ * its workspace folder, overlaid with the scannerRules and
+ * scannerExceptions settings. Invalid configuration is reported and skipped.
+ */
+export function loadScannerConfig(resource?: vscode.Uri): ScannerConfig {
+  const folder =
+    (resource && vscode.workspace.getWorkspaceFolder(resource)) ??
+    vscode.workspace.workspaceFolders?.[0];
+  const settings = vscode.workspace.getConfiguration(
+    "sf-flow-visualizer",
+    resource
+  );
+
+  const configs = [
+    readScannerConfig(
+      () => folder && readScannerConfigFile(folder.uri.fsPath)
+    ),
+    readScannerConfig(() =>
+      toScannerConfig(
+        {
+          rules: settings.get("scannerRules"),
+          exceptions: settings.get("scannerExceptions"),
+        },
+        SCANNER_SETTINGS_SOURCE
+      )
+    ),
+  ];
+  return mergeScannerConfigs(
+    ...configs.filter((config): config is ScannerConfig => !!config)
+  );
+}
@@ -0,0 +1,133 @@
+/**
+ * Git Service
+ *
+ * Reads flow files from git history using the local `git` binary,
+ * so older versions can be shown without checking them out.
+ */
+
+import { execFile } from "child_process";
+import * as path from "path";
+
+export interface GitCommit {
+  hash: string;
+  shortHash: string;
+  author: string;
+  authorEmail: string;
+  date: string; // ISO 8601
+  subject: string;
+  /** Repository-relative path of the file in this commit (follows renames) */
+  filePath: string;
+}
+
+// Field and record separators for `git log --format`
+const FIELD_SEPARATOR = "\x1f";
+const RECORD_SEPARATOR = "\x1e";
+
+// Flow files can be large; git output is buffered in memory
+const MAX_OUTPUT_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Run a git command and resolve with its stdout
+ */
+function runGit(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      args,
+      { cwd, maxBuffer: MAX_OUTPUT_BYTES },
+      (error, stdout, stderr) => {
+        if (error) {
+          const message = stderr?.toString().trim() || error.message;
+          reject(new Error(message));
+          return;
+        }
+        resolve(stdout.toString());
+      }
+    );
+  });
+}
+
+/**
+ * Get the root folder of the repository containing a file
+ */
+export async function getRepositoryRoot(filePath: string): Promise<string> {
+  const output = await runGit(
+    ["rev-parse", "--show-toplevel"],
+    path.dirname(filePath)
+  );
+  return output.trim();
+}
+
+/**
+ * Get a file's path relative to its repository root, with forward slashes
+ */
+export function toRepositoryPath(repoRoot: string, filePath: string): string {
+  return path.relative(repoRoot, filePath).split(path.sep).join("/");
+}
+
+/**
+ * Read a file as it was at a given revision
+ *
+ * @param repoRoot - Repository root folder
+ * @param repoPath - Repository-relative path of the file at that revision
+ * @param revision - Commit hash, branch, tag or other revision (e.g. "HEAD")
+ */
+export function getFileAtRevision(
+  repoRoot: string,
+  repoPath: string,
+  revision: string
+): Promise<string> {
+  return runGit(["show", `${revision}:${repoPath}`], repoRoot);
+}
+
+/**
+ * List the commits that touched a file, newest first
+ */
+export async function getFileHistory(
+  filePath: string,
+  maxCount = 100
+): Promise<GitCommit[]> {
+  const repoRoot = await getRepositoryRoot(filePath);
+  const format = [
+    `${RECORD_SEPARATOR}%H`,
+    "%h",
+    "%an",
+    "%ae",
+    "%aI",
+    "%s",
+  ].join(FIELD_SEPARATOR);
+
+  const output = await runGit(
+    [
+      "log",
+      "--follow",
+      `--max-count=${maxCount}`,
+      `--format=${format}`,
+      "--name-only",
+      "--",
+      toRepositoryPath(repoRoot, filePath),
+    ],
+    repoRoot
+  );
+
+  return output
+    .split(RECORD_SEPARATOR)
+    .filter((record) => record.trim())
+    .map((record) => {
+      // Header line, blank line, then the file's path in that commit
+      const [header, ...rest] = record.split("\n");
+      const [hash, shortHash, author, authorEmail, date, subject] =
+        header.split(FIELD_SEPARATOR);
+      const filePathInCommit =
+        rest.map((line) => line.trim()).find((line) => line) || "";
+      return {
+        hash,
+        shortHash,
+        author,
+        authorEmail,
+        date,
+        subject,
+        filePath: filePathInCommit,
+      };
+    });
+}
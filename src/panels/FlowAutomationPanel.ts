@@ -0,0 +1,159 @@
+import * as vscode from "vscode";
+import {
+  getWebviewContent,
+  getWebviewOptions,
+} from "../utilities/getWebviewContent";
+import { findRecordTriggeredFlows } from "../flowAutomation";
+import { FlowPanel } from "./FlowPanel";
+
+/**
+ * FlowAutomationPanel lays out the record-triggered flows of one sObject in
+ * order of execution. Each object gets its own panel; showing an object
+ * again rescans the workspace.
+ */
+export class FlowAutomationPanel {
+  private static _panels = new Map<string, FlowAutomationPanel>();
+  private readonly _panel: vscode.WebviewPanel;
+  private readonly _extensionUri: vscode.Uri;
+  private readonly _object: string;
+  private _disposables: vscode.Disposable[] = [];
+  private _webviewReady = false;
+
+  /**
+   * Show the automation map for an object (e.g. "Account")
+   */
+  public static render(extensionUri: vscode.Uri, object: string) {
+    const existing = FlowAutomationPanel._panels.get(object);
+    if (existing) {
+      existing._panel.reveal(existing._panel.viewColumn);
+      existing._postAutomation();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      "sf-flow-visualizer.automation",
+      `${object} Automation`,
+      vscode.ViewColumn.Beside,
+      {
+        ...getWebviewOptions(extensionUri),
+        retainContextWhenHidden: true,
+      }
+    );
+
+    panel.iconPath = {
+      light: vscode.Uri.joinPath(extensionUri, "assets", "icon-light.svg"),
+      dark: vscode.Uri.joinPath(extensionUri, "assets", "icon-dark.svg"),
+    };
+
+    FlowAutomationPanel._panels.set(
+      object,
+      new FlowAutomationPanel(panel, extensionUri, object)
+    );
+  }
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    extensionUri: vscode.Uri,
+    object: string
+  ) {
+    this._panel = panel;
+    this._extensionUri = extensionUri;
+    this._object = object;
+
+    this._panel.webview.html = getWebviewContent(
+      this._panel.webview,
+      extensionUri,
+      "automation"
+    );
+
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    this._panel.webview.onDidReceiveMessage(
+      (message) => {
+        switch (message.command) {
+          case "alert":
+            vscode.window.showErrorMessage(message.text);
+            return;
+          case "ready":
+            this._webviewReady = true;
+            this._postAutomation();
+            return;
+          case "refreshAutomation":
+            this._postAutomation();
+            return;
+          case "openFlow":
+            if (message.payload && typeof message.payload.filePath === "string") {
+              this._openFlow(message.payload.filePath);
+            }
+            return;
+        }
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  /**
+   * Dispose of the panel
+   */
+  public dispose() {
+    if (FlowAutomationPanel._panels.get(this._object) === this) {
+      FlowAutomationPanel._panels.delete(this._object);
+    }
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  /**
+   * Scan the workspace and send the object's record-triggered flows to the
+   * webview, which parses them and works out the order of execution
+   */
+  private async _postAutomation() {
+    if (!this._webviewReady) {
+      // Sent once the webview reports it is ready
+      return;
+    }
+
+    try {
+      const byObject = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Window,
+          title: `Finding ${this._object} record-triggered flows…`,
+        },
+        () => findRecordTriggeredFlows()
+      );
+      this._panel.webview.postMessage({
+        command: "loadAutomation",
+        payload: {
+          object: this._object,
+          flows: (byObject.get(this._object) ?? []).map(
+            ({ name, filePath, xml }) => ({ name, filePath, xml })
+          ),
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(
+        `Failed to find record-triggered flows: ${message}`
+      );
+    }
+  }
+
+  private async _openFlow(filePath: string) {
+    try {
+      const document = await vscode.workspace.openTextDocument(
+        vscode.Uri.file(filePath)
+      );
+      FlowPanel.render(this._extensionUri, document.getText(), filePath);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to open flow file: ${error}`);
+    }
+  }
+}
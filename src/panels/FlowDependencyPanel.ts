@@ -0,0 +1,157 @@
+import * as vscode from "vscode";
+import {
+  getWebviewContent,
+  getWebviewOptions,
+} from "../utilities/getWebviewContent";
+import { buildFlowDependencyGraph } from "../flowDependencies";
+import { FlowPanel } from "./FlowPanel";
+
+/**
+ * FlowDependencyPanel shows the workspace call graph between flows.
+ * A single panel is reused; showing it again rescans the workspace.
+ */
+export class FlowDependencyPanel {
+  private static _current: FlowDependencyPanel | undefined;
+  private readonly _panel: vscode.WebviewPanel;
+  private readonly _extensionUri: vscode.Uri;
+  private _disposables: vscode.Disposable[] = [];
+  private _webviewReady = false;
+  // Flow to select once the graph is shown
+  private _focusFlow: string | undefined;
+
+  /**
+   * Show the dependency graph, optionally selecting a flow so its callers
+   * and callees are listed
+   */
+  public static render(extensionUri: vscode.Uri, focusFlow?: string) {
+    const existing = FlowDependencyPanel._current;
+    if (existing) {
+      existing._focusFlow = focusFlow;
+      existing._panel.reveal(existing._panel.viewColumn);
+      existing._postGraph();
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      "sf-flow-visualizer.dependencies",
+      "Flow Dependencies",
+      vscode.ViewColumn.Beside,
+      {
+        ...getWebviewOptions(extensionUri),
+        retainContextWhenHidden: true,
+      }
+    );
+
+    panel.iconPath = {
+      light: vscode.Uri.joinPath(extensionUri, "assets", "icon-light.svg"),
+      dark: vscode.Uri.joinPath(extensionUri, "assets", "icon-dark.svg"),
+    };
+
+    FlowDependencyPanel._current = new FlowDependencyPanel(
+      panel,
+      extensionUri,
+      focusFlow
+    );
+  }
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    extensionUri: vscode.Uri,
+    focusFlow?: string
+  ) {
+    this._panel = panel;
+    this._extensionUri = extensionUri;
+    this._focusFlow = focusFlow;
+
+    this._panel.webview.html = getWebviewContent(
+      this._panel.webview,
+      extensionUri,
+      "dependencies"
+    );
+
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    this._panel.webview.onDidReceiveMessage(
+      (message) => {
+        switch (message.command) {
+          case "alert":
+            vscode.window.showErrorMessage(message.text);
+            return;
+          case "ready":
+            this._webviewReady = true;
+            this._postGraph();
+            return;
+          case "refreshDependencies":
+            this._postGraph();
+            return;
+          case "openFlow":
+            if (message.payload && typeof message.payload.filePath === "string") {
+              this._openFlow(message.payload.filePath);
+            }
+            return;
+        }
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  /**
+   * Dispose of the panel
+   */
+  public dispose() {
+    if (FlowDependencyPanel._current === this) {
+      FlowDependencyPanel._current = undefined;
+    }
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  /**
+   * Scan the workspace and send the call graph to the webview
+   */
+  private async _postGraph() {
+    if (!this._webviewReady) {
+      // Sent once the webview reports it is ready
+      return;
+    }
+
+    try {
+      const graph = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Window,
+          title: "Analyzing flow dependencies…",
+        },
+        () => buildFlowDependencyGraph()
+      );
+      this._panel.webview.postMessage({
+        command: "loadDependencies",
+        payload: graph,
+        flowName: this._focusFlow,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(
+        `Failed to analyze flow dependencies: ${message}`
+      );
+    }
+  }
+
+  private async _openFlow(filePath: string) {
+    try {
+      const document = await vscode.workspace.openTextDocument(
+        vscode.Uri.file(filePath)
+      );
+      FlowPanel.render(this._extensionUri, document.getText(), filePath);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to open flow file: ${error}`);
+    }
+  }
+}
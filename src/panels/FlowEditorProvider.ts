@@ -0,0 +1,34 @@
+import * as vscode from "vscode";
+import { FlowPanel } from "./FlowPanel";
+
+/**
+ * Custom text editor that shows *.flow-meta.xml files as a flow diagram.
+ * The editor is bound to the TextDocument, so dirty state, undo and save
+ * stay with VS Code while the diagram follows the document's content.
+ */
+export class FlowEditorProvider implements vscode.CustomTextEditorProvider {
+  public static readonly viewType = "sf-flow-visualizer.flowDiagram";
+  private readonly _extensionUri: vscode.Uri;
+
+  public static register(context: vscode.ExtensionContext): vscode.Disposable {
+    return vscode.window.registerCustomEditorProvider(
+      FlowEditorProvider.viewType,
+      new FlowEditorProvider(context.extensionUri),
+      {
+        webviewOptions: { retainContextWhenHidden: true },
+        supportsMultipleEditorsPerDocument: true,
+      }
+    );
+  }
+
+  private constructor(extensionUri: vscode.Uri) {
+    this._extensionUri = extensionUri;
+  }
+
+  public resolveCustomTextEditor(
+    document: vscode.TextDocument,
+    webviewPanel: vscode.WebviewPanel
+  ): void {
+    FlowPanel.attach(webviewPanel, this._extensionUri, document);
+  }
+}
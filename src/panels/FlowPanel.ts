@@ -1,19 +1,52 @@
 import * as vscode from "vscode";
-import { getUri } from "../utilities/getUri";
-import { getNonce } from "../utilities/getNonce";
+import {
+  getWebviewContent,
+  getWebviewOptions,
+} from "../utilities/getWebviewContent";
 import * as path from "path";
+import { readFlowCalls } from "../flowDependencies";
 import { analyzeFlowXML } from "../flowScannerService";
+import {
+  findFlowFile,
+  getFlowApiName,
+  loadScannerConfig,
+  readFlowText,
+} from "../flowWorkspace";
+import type { GitCommit } from "../gitService";
+
+// Delay before pushing buffer edits to the diagram, so typing doesn't re-parse on every keystroke
+const LIVE_UPDATE_DEBOUNCE_MS = 300;
+
+// Called flows looked up for the governor limit analysis, so a large call
+// tree doesn't open every flow in the workspace
+const MAX_RESOLVED_SUBFLOWS = 50;
+
+// Save dialog filters for text exports, keyed by the suggested file extension
+const TEXT_EXPORT_FILTERS: Record<string, Record<string, string[]>> = {
+  ".mmd": { Mermaid: ["mmd"], Markdown: ["md"] },
+  ".puml": { PlantUML: ["puml"] },
+  ".md": { Markdown: ["md"] },
+  ".html": { HTML: ["html"] },
+  ".csv": { CSV: ["csv"] },
+};
 
 /**
- * FlowPanel class manages the webview panel for flow visualization
+ * FlowPanel class manages the webview panels for flow visualization.
+ * One panel is kept per source file, so several flows can be open side by side.
  */
 export class FlowPanel {
-  public static currentPanel: FlowPanel | undefined;
+  private static readonly _panels = new Map<string, FlowPanel>();
+  private static readonly _historyPanels = new Map<string, FlowPanel>();
   private readonly _panel: vscode.WebviewPanel;
   private readonly _extensionUri: vscode.Uri;
   private _disposables: vscode.Disposable[] = [];
   private _webviewReady = false;
-  private _sourceFilePath: string;
+  private readonly _sourceFilePath: string;
+  private _xmlContent: string;
+  private _liveUpdateTimer: ReturnType<typeof setTimeout> | undefined;
+  private readonly _comparison: FlowComparison | undefined;
+  private _revision: FlowRevision | undefined;
+  private _pendingDocumentation: DocumentationFormat | undefined;
 
   private static _context: vscode.ExtensionContext | undefined;
   private static _latestAutoOpenPreference: boolean | undefined;
@@ -24,39 +57,60 @@ export class FlowPanel {
 
   public static setAutoOpenPreference(enabled: boolean) {
     FlowPanel._latestAutoOpenPreference = enabled;
-    if (FlowPanel.currentPanel) {
-      FlowPanel.currentPanel._postAutoOpenPreference(enabled);
-    }
+    FlowPanel._panels.forEach((flowPanel) =>
+      flowPanel._postAutoOpenPreference(enabled)
+    );
+  }
+
+  private static _panelKey(fileName: string): string {
+    return vscode.Uri.file(fileName).fsPath;
   }
 
   private constructor(
     panel: vscode.WebviewPanel,
     extensionUri: vscode.Uri,
     xmlContent: string,
-    fileName: string
+    fileName: string,
+    content: FlowPanelContent = {}
   ) {
     this._panel = panel;
     this._extensionUri = extensionUri;
     this._sourceFilePath = fileName;
+    this._xmlContent = xmlContent;
+    this._comparison = content.comparison;
+    this._revision = content.revision;
 
     // Set the webview's initial html content
-    this._panel.webview.html = this._getWebviewContent(
+    this._panel.webview.html = getWebviewContent(
       this._panel.webview,
       extensionUri
     );
 
     // Send the XML content to the webview after it's ready
     setTimeout(() => {
-      this._panel.webview.postMessage({
-        command: "loadXml",
-        payload: xmlContent,
-        fileName: path.basename(fileName),
-      });
+      this._postXml();
     }, 500);
 
     // Listen for when the panel is disposed
     this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
 
+    // Re-render while the source document is being edited
+    // (comparisons and historical versions are snapshots and are not updated)
+    vscode.workspace.onDidChangeTextDocument(
+      (event) => {
+        if (
+          this._comparison ||
+          this._revision ||
+          event.document.uri.fsPath !== this._sourceFilePath
+        ) {
+          return;
+        }
+        this._scheduleLiveUpdate(event.document);
+      },
+      null,
+      this._disposables
+    );
+
     // Handle messages from the webview
     this._panel.webview.onDidReceiveMessage(
       (message) => {
@@ -70,11 +124,7 @@ export class FlowPanel {
           case "ready":
             this._webviewReady = true;
             // Webview is ready, send the XML content
-            this._panel.webview.postMessage({
-              command: "loadXml",
-              payload: xmlContent,
-              fileName: path.basename(fileName),
-            });
+            this._postXml();
             // Also send persisted state
             if (FlowPanel._context) {
               const themeMode =
@@ -97,6 +147,10 @@ export class FlowPanel {
             if (FlowPanel._latestAutoOpenPreference !== undefined) {
               this._postAutoOpenPreference(FlowPanel._latestAutoOpenPreference);
             }
+            if (this._pendingDocumentation) {
+              this._requestDocumentation(this._pendingDocumentation);
+              this._pendingDocumentation = undefined;
+            }
             return;
           case "saveState":
             // Persist state to globalState
@@ -125,7 +179,12 @@ export class FlowPanel {
               console.log("[FlowPanel] Received analyzeFlow request", {
                 requestId,
               });
-              analyzeFlowXML(flowXml).then((result) => {
+              analyzeFlowXML(flowXml, {
+                config: loadScannerConfig(
+                  vscode.Uri.file(this._sourceFilePath)
+                ),
+                flowName: getFlowApiName(this._sourceFilePath),
+              }).then((result) => {
                 console.log("[FlowPanel] Sending analysis result", {
                   requestId,
                   violationCount: result.violations.length,
@@ -144,6 +203,21 @@ export class FlowPanel {
               this._saveImage(message.payload.dataUrl, message.payload.fileName);
             }
             return;
+          case "saveText":
+            if (message.payload && message.payload.content) {
+              this._saveText(message.payload.content, message.payload.fileName);
+            }
+            return;
+          case "openSubflow":
+            if (message.payload && typeof message.payload.flowName === "string") {
+              this._openSubflow(message.payload.flowName);
+            }
+            return;
+          case "resolveSubflows":
+            if (typeof message.payload === "string") {
+              this._resolveSubflows(message.payload, message.requestId);
+            }
+            return;
         }
       },
       null,
@@ -161,20 +235,16 @@ export class FlowPanel {
     options: FlowPanelRenderOptions = {}
   ) {
     const flowName = path.basename(fileName).replace(".flow-meta.xml", "");
+    const panelKey = FlowPanel._panelKey(fileName);
+    const existingPanel = FlowPanel._panels.get(panelKey);
 
-    if (FlowPanel.currentPanel) {
-      // If panel exists, update it with new content
-      FlowPanel.currentPanel._panel.reveal(
-        vscode.ViewColumn.Beside,
+    if (existingPanel) {
+      // Reveal the panel for this file where it already is, keeping its view state
+      existingPanel._panel.reveal(
+        existingPanel._panel.viewColumn,
         options.preserveFocus ?? false
       );
-      // Update panel title to reflect the new flow
-      FlowPanel.currentPanel._panel.title = `Flow: ${flowName}`;
-      FlowPanel.currentPanel._panel.webview.postMessage({
-        command: "loadXml",
-        payload: xmlContent,
-        fileName: path.basename(fileName),
-      });
+      existingPanel._update(xmlContent);
     } else {
       // Create a new panel
       const panel = vscode.window.createWebviewPanel(
@@ -182,12 +252,8 @@ export class FlowPanel {
         `Flow: ${flowName}`,
         vscode.ViewColumn.Beside,
         {
-          enableScripts: true,
+          ...getWebviewOptions(extensionUri),
           retainContextWhenHidden: true,
-          localResourceRoots: [
-            vscode.Uri.joinPath(extensionUri, "webview-ui", "build"),
-            vscode.Uri.joinPath(extensionUri, "webview-ui", "build", "assets"),
-          ],
         }
       );
 
@@ -196,17 +262,16 @@ export class FlowPanel {
         dark: vscode.Uri.joinPath(extensionUri, "assets", "icon-dark.svg"),
       };
 
-      FlowPanel.currentPanel = new FlowPanel(
-        panel,
-        extensionUri,
-        xmlContent,
-        fileName
+      FlowPanel._panels.set(
+        panelKey,
+        new FlowPanel(panel, extensionUri, xmlContent, panelKey)
       );
 
-      if (options.preserveFocus && options.sourceEditor) {
+      const sourceEditor = options.sourceEditor;
+      if (options.preserveFocus && sourceEditor) {
         setTimeout(() => {
-          vscode.window.showTextDocument(options.sourceEditor.document, {
-            viewColumn: options.sourceEditor.viewColumn,
+          vscode.window.showTextDocument(sourceEditor.document, {
+            viewColumn: sourceEditor.viewColumn,
             preserveFocus: false,
           });
         }, 0);
@@ -214,11 +279,135 @@ export class FlowPanel {
     }
   }
 
+  /**
+   * Show a flow and ask its panel to generate documentation for it.
+   * The webview builds the document, since it holds the parsed flow and
+   * can render the diagram image, and sends it back to be saved.
+   */
+  public static renderDocumentation(
+    extensionUri: vscode.Uri,
+    xmlContent: string,
+    fileName: string,
+    format: DocumentationFormat
+  ) {
+    FlowPanel.render(extensionUri, xmlContent, fileName);
+    FlowPanel._panels
+      .get(FlowPanel._panelKey(fileName))
+      ?._requestDocumentation(format);
+  }
+
+  /**
+   * Open a panel comparing two versions of a flow.
+   * Every comparison gets its own panel, like VS Code's diff editors.
+   */
+  public static renderComparison(
+    extensionUri: vscode.Uri,
+    fileName: string,
+    comparison: FlowComparison
+  ) {
+    const flowName = path.basename(fileName).replace(".flow-meta.xml", "");
+    const panel = vscode.window.createWebviewPanel(
+      "sf-flow-visualizer",
+      `Compare: ${flowName} (${comparison.baseLabel} ↔ ${comparison.targetLabel})`,
+      vscode.ViewColumn.Beside,
+      {
+        ...getWebviewOptions(extensionUri),
+        retainContextWhenHidden: true,
+      }
+    );
+
+    panel.iconPath = {
+      light: vscode.Uri.joinPath(extensionUri, "assets", "icon-light.svg"),
+      dark: vscode.Uri.joinPath(extensionUri, "assets", "icon-dark.svg"),
+    };
+
+    new FlowPanel(
+      panel,
+      extensionUri,
+      comparison.targetXml,
+      FlowPanel._panelKey(fileName),
+      { comparison }
+    );
+  }
+
+  /**
+   * Show a flow as it was in a past commit.
+   * Each file has one history panel, reused while stepping through commits.
+   */
+  public static renderRevision(
+    extensionUri: vscode.Uri,
+    xmlContent: string,
+    fileName: string,
+    revision: FlowRevision
+  ) {
+    const flowName = path.basename(fileName).replace(".flow-meta.xml", "");
+    const title = `Flow: ${flowName} @ ${revision.shortHash}`;
+    const panelKey = FlowPanel._panelKey(fileName);
+    const existingPanel = FlowPanel._historyPanels.get(panelKey);
+
+    if (existingPanel) {
+      existingPanel._panel.title = title;
+      existingPanel._panel.reveal(existingPanel._panel.viewColumn, true);
+      existingPanel._revision = revision;
+      existingPanel._xmlContent = xmlContent;
+      existingPanel._postXml({ preserveView: true });
+      return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+      "sf-flow-visualizer",
+      title,
+      vscode.ViewColumn.Beside,
+      {
+        ...getWebviewOptions(extensionUri),
+        retainContextWhenHidden: true,
+      }
+    );
+
+    panel.iconPath = {
+      light: vscode.Uri.joinPath(extensionUri, "assets", "icon-light.svg"),
+      dark: vscode.Uri.joinPath(extensionUri, "assets", "icon-dark.svg"),
+    };
+
+    FlowPanel._historyPanels.set(
+      panelKey,
+      new FlowPanel(panel, extensionUri, xmlContent, panelKey, { revision })
+    );
+  }
+
+  /**
+   * Show a flow in a webview panel created by VS Code, e.g. for the custom editor.
+   * The panel is bound to its document and is not tracked in the side-panel registry.
+   */
+  public static attach(
+    panel: vscode.WebviewPanel,
+    extensionUri: vscode.Uri,
+    document: vscode.TextDocument
+  ): FlowPanel {
+    panel.webview.options = getWebviewOptions(extensionUri);
+    return new FlowPanel(
+      panel,
+      extensionUri,
+      document.getText(),
+      document.uri.fsPath
+    );
+  }
+
   /**
    * Dispose of the panel
    */
   public dispose() {
-    FlowPanel.currentPanel = undefined;
+    if (FlowPanel._panels.get(this._sourceFilePath) === this) {
+      FlowPanel._panels.delete(this._sourceFilePath);
+    }
+    if (FlowPanel._historyPanels.get(this._sourceFilePath) === this) {
+      FlowPanel._historyPanels.delete(this._sourceFilePath);
+    }
+
+    if (this._liveUpdateTimer) {
+      clearTimeout(this._liveUpdateTimer);
+      this._liveUpdateTimer = undefined;
+    }
 
     this._panel.dispose();
 
@@ -231,42 +420,57 @@ export class FlowPanel {
   }
 
   /**
-   * Get the webview HTML content
+   * Refresh the flow shown in this panel, keeping its view state
    */
-  private _getWebviewContent(
-    webview: vscode.Webview,
-    extensionUri: vscode.Uri
-  ): string {
-    const scriptUri = getUri(webview, extensionUri, [
-      "webview-ui",
-      "build",
-      "assets",
-      "index.js",
-    ]);
-    const styleUri = getUri(webview, extensionUri, [
-      "webview-ui",
-      "build",
-      "assets",
-      "index.css",
-    ]);
-    const nonce = getNonce();
-
-    return `
-      <!DOCTYPE html>
-      <html lang="en">
-        <head>
-          <meta charset="UTF-8" />
-          <meta name="viewport" content="width=device-width, initial-scale=1.0" />
-          <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}'; font-src ${webview.cspSource}; img-src ${webview.cspSource} data:;">
-          <link rel="stylesheet" type="text/css" href="${styleUri}">
-          <title>SF Flow Visualizer</title>
-        </head>
-        <body>
-          <div id="root"></div>
-          <script nonce="${nonce}" type="module" src="${scriptUri}"></script>
-        </body>
-      </html>
-    `;
+  private _update(xmlContent: string) {
+    if (this._liveUpdateTimer) {
+      clearTimeout(this._liveUpdateTimer);
+      this._liveUpdateTimer = undefined;
+    }
+    if (xmlContent === this._xmlContent) {
+      return;
+    }
+    this._xmlContent = xmlContent;
+    this._postXml({ preserveView: true });
+  }
+
+  /**
+   * Debounce edits to the source document and push them as incremental
+   * updates, so the webview keeps its zoom, pan, selection and collapse state
+   */
+  private _scheduleLiveUpdate(document: vscode.TextDocument) {
+    if (this._liveUpdateTimer) {
+      clearTimeout(this._liveUpdateTimer);
+    }
+
+    this._liveUpdateTimer = setTimeout(() => {
+      this._liveUpdateTimer = undefined;
+      const xmlContent = document.getText();
+      if (xmlContent === this._xmlContent) {
+        return;
+      }
+      this._xmlContent = xmlContent;
+      this._postXml({ preserveView: true });
+    }, LIVE_UPDATE_DEBOUNCE_MS);
+  }
+
+  private _postXml(options: { preserveView?: boolean } = {}) {
+    if (this._comparison) {
+      this._panel.webview.postMessage({
+        command: "loadDiff",
+        payload: this._comparison,
+        fileName: path.basename(this._sourceFilePath),
+      });
+      return;
+    }
+
+    this._panel.webview.postMessage({
+      command: "loadXml",
+      payload: this._xmlContent,
+      fileName: path.basename(this._sourceFilePath),
+      preserveView: options.preserveView ?? false,
+      revision: this._revision,
+    });
   }
 
   private _postAutoOpenPreference(enabled: boolean) {
@@ -298,9 +502,12 @@ export class FlowPanel {
   }
 
   private async _saveImage(dataUrl: string, defaultFileName: string) {
-    // Remove header
-    const base64Data = dataUrl.replace(/^data:image\/png;base64,/, "");
-    const buffer = Buffer.from(base64Data, "base64");
+    // PNG arrives base64-encoded; SVG arrives as URI-encoded markup
+    const isSvg = dataUrl.startsWith("data:image/svg+xml");
+    const data = dataUrl.slice(dataUrl.indexOf(",") + 1);
+    const buffer = isSvg
+      ? Buffer.from(decodeURIComponent(data), "utf8")
+      : Buffer.from(data, "base64");
 
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
     const defaultUri = workspaceFolder
@@ -311,9 +518,7 @@ export class FlowPanel {
 
     const uri = await vscode.window.showSaveDialog({
       defaultUri: defaultUri,
-      filters: {
-        Images: ["png"],
-      },
+      filters: isSvg ? { "SVG Images": ["svg"] } : { Images: ["png"] },
     });
 
     if (uri) {
@@ -325,6 +530,133 @@ export class FlowPanel {
       }
     }
   }
+
+  /**
+   * Find the flow a subflow element calls and show it in this panel.
+   * The webview keeps the breadcrumb trail back to the calling flow.
+   */
+  private async _openSubflow(flowName: string) {
+    try {
+      const uri = await findFlowFile(flowName, this._sourceFilePath);
+      if (!uri) {
+        vscode.window.showWarningMessage(
+          `Subflow "${flowName}" was not found in the workspace.`
+        );
+        return;
+      }
+      this._panel.webview.postMessage({
+        command: "loadSubflow",
+        payload: await readFlowText(uri),
+        fileName: path.basename(uri.fsPath),
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(
+        `Failed to open subflow "${flowName}": ${message}`
+      );
+    }
+  }
+
+  /**
+   * Find the flows a flow calls, and the flows those call, for the governor
+   * limit analysis. Flows not found in the workspace are left out.
+   */
+  private async _resolveSubflows(flowXml: string, requestId: string) {
+    const flows: Record<string, string> = {};
+    const pending = readFlowCalls(flowXml).map((call) => call.flowName);
+    const seen = new Set<string>();
+    try {
+      while (pending.length > 0 && seen.size < MAX_RESOLVED_SUBFLOWS) {
+        const flowName = pending.shift()!;
+        if (seen.has(flowName)) {
+          continue;
+        }
+        seen.add(flowName);
+        const uri = await findFlowFile(flowName, this._sourceFilePath);
+        if (!uri) {
+          continue;
+        }
+        flows[flowName] = await readFlowText(uri);
+        pending.push(
+          ...readFlowCalls(flows[flowName]).map((call) => call.flowName)
+        );
+      }
+    } catch (error) {
+      console.error("[FlowPanel] Failed to resolve subflows", error);
+    }
+    // Answer even after a failure, with the flows found so far
+    this._panel.webview.postMessage({
+      command: "subflowsResolved",
+      payload: flows,
+      requestId,
+    });
+  }
+
+  private _requestDocumentation(format: DocumentationFormat) {
+    if (!this._webviewReady) {
+      // Sent after the XML once the webview reports it is ready
+      this._pendingDocumentation = format;
+      return;
+    }
+    this._panel.webview.postMessage({ command: "generateDocumentation", format });
+  }
+
+  /**
+   * Save a text export (Mermaid, PlantUML or documentation), defaulting to
+   * the flow's own folder so it can be committed next to the metadata
+   */
+  private async _saveText(content: string, defaultFileName: string) {
+    const extension = path.extname(defaultFileName);
+    const isMermaid = extension === ".mmd";
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        path.join(path.dirname(this._sourceFilePath), defaultFileName)
+      ),
+      filters: TEXT_EXPORT_FILTERS[extension],
+    });
+
+    if (uri) {
+      // Markdown renders Mermaid from a fenced code block
+      const text =
+        isMermaid && uri.fsPath.endsWith(".md")
+          ? `\`\`\`mermaid\n${content}\`\`\`\n`
+          : content;
+      try {
+        await vscode.workspace.fs.writeFile(uri, Buffer.from(text, "utf8"));
+        vscode.window.showInformationMessage(`Saved to ${uri.fsPath}`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to save file: ${error}`);
+      }
+    }
+  }
+}
+
+/**
+ * Two versions of a flow shown side by side in one merged diagram
+ */
+export interface FlowComparison {
+  baseXml: string;
+  targetXml: string;
+  baseLabel: string;
+  targetLabel: string;
+}
+
+/**
+ * Commit a historical flow version was taken from
+ */
+export type FlowRevision = Omit<GitCommit, "filePath">;
+
+/**
+ * Output format of "SFFV: Generate Flow Documentation"
+ */
+export type DocumentationFormat = "markdown" | "html";
+
+/**
+ * What a panel shows instead of the live source file
+ */
+interface FlowPanelContent {
+  comparison?: FlowComparison;
+  revision?: FlowRevision;
 }
 
 interface FlowPanelRenderOptions {
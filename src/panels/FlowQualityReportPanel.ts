@@ -0,0 +1,238 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import {
+  getWebviewContent,
+  getWebviewOptions,
+} from "../utilities/getWebviewContent";
+import {
+  QualityReportFormat,
+  ScannedFlow,
+  WorkspaceQualityReport,
+  exportQualityReport,
+  getQualityScanTotals,
+  scanWorkspaceFlows,
+  updateQualityHistory,
+} from "../flowQualityReport";
+import { FlowPanel } from "./FlowPanel";
+
+// Save dialog filters for report exports
+const REPORT_EXPORT_FILTERS: Record<
+  QualityReportFormat,
+  Record<string, string[]>
+> = {
+  csv: { CSV: ["csv"] },
+  json: { JSON: ["json"] },
+  sarif: { SARIF: ["sarif", "json"] },
+};
+
+/**
+ * FlowQualityReportPanel shows the scanner results of every flow in the
+ * workspace. A single panel is reused; showing it again rescans.
+ */
+export class FlowQualityReportPanel {
+  private static _current: FlowQualityReportPanel | undefined;
+  private readonly _panel: vscode.WebviewPanel;
+  private readonly _context: vscode.ExtensionContext;
+  private _disposables: vscode.Disposable[] = [];
+  private _webviewReady = false;
+  private _scanning = false;
+  // Last scan, kept with the flow XML for exports
+  private _scanned: ScannedFlow[] = [];
+  private _scannedAt = "";
+
+  /**
+   * Show the workspace quality report, scanning every flow
+   */
+  public static render(context: vscode.ExtensionContext) {
+    const existing = FlowQualityReportPanel._current;
+    if (existing) {
+      existing._panel.reveal(existing._panel.viewColumn);
+      existing._postReport();
+      return;
+    }
+
+    const extensionUri = context.extensionUri;
+    const panel = vscode.window.createWebviewPanel(
+      "sf-flow-visualizer.qualityReport",
+      "Flow Quality Report",
+      vscode.ViewColumn.Active,
+      {
+        ...getWebviewOptions(extensionUri),
+        retainContextWhenHidden: true,
+      }
+    );
+
+    panel.iconPath = {
+      light: vscode.Uri.joinPath(extensionUri, "assets", "icon-light.svg"),
+      dark: vscode.Uri.joinPath(extensionUri, "assets", "icon-dark.svg"),
+    };
+
+    FlowQualityReportPanel._current = new FlowQualityReportPanel(
+      panel,
+      context
+    );
+  }
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    context: vscode.ExtensionContext
+  ) {
+    this._panel = panel;
+    this._context = context;
+
+    this._panel.webview.html = getWebviewContent(
+      this._panel.webview,
+      context.extensionUri,
+      "qualityReport"
+    );
+
+    this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+    this._panel.webview.onDidReceiveMessage(
+      (message) => {
+        switch (message.command) {
+          case "alert":
+            vscode.window.showErrorMessage(message.text);
+            return;
+          case "ready":
+            this._webviewReady = true;
+            this._postReport();
+            return;
+          case "refreshQualityReport":
+            this._postReport();
+            return;
+          case "openFlow":
+            if (message.payload && typeof message.payload.filePath === "string") {
+              this._openFlow(message.payload.filePath);
+            }
+            return;
+          case "exportQualityReport":
+            if (
+              message.payload &&
+              Object.prototype.hasOwnProperty.call(
+                REPORT_EXPORT_FILTERS,
+                message.payload.format
+              )
+            ) {
+              this._exportReport(message.payload.format);
+            }
+            return;
+        }
+      },
+      null,
+      this._disposables
+    );
+  }
+
+  /**
+   * Dispose of the panel
+   */
+  public dispose() {
+    if (FlowQualityReportPanel._current === this) {
+      FlowQualityReportPanel._current = undefined;
+    }
+
+    this._panel.dispose();
+
+    while (this._disposables.length) {
+      const disposable = this._disposables.pop();
+      if (disposable) {
+        disposable.dispose();
+      }
+    }
+  }
+
+  /**
+   * Scan the workspace and send the report to the webview
+   */
+  private async _postReport() {
+    if (!this._webviewReady || this._scanning) {
+      // Sent once the webview reports it is ready, or when the scan running
+      // now completes
+      return;
+    }
+
+    this._scanning = true;
+    try {
+      const scanned = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Scanning workspace flows",
+          cancellable: true,
+        },
+        (progress, token) => scanWorkspaceFlows(progress, token)
+      );
+      if (!scanned) {
+        return;
+      }
+
+      const scannedAt = new Date().toISOString();
+      const flows = scanned.map(({ entry }) => entry);
+      const history = await updateQualityHistory(
+        this._context.workspaceState,
+        getQualityScanTotals(scannedAt, flows)
+      );
+      this._scanned = scanned;
+      this._scannedAt = scannedAt;
+
+      const report: WorkspaceQualityReport = { scannedAt, flows, history };
+      this._panel.webview.postMessage({
+        command: "loadQualityReport",
+        payload: report,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(
+        `Failed to scan workspace flows: ${message}`
+      );
+    } finally {
+      this._scanning = false;
+    }
+  }
+
+  private async _exportReport(format: QualityReportFormat) {
+    if (this._scanned.length === 0) {
+      vscode.window.showInformationMessage("No flows were scanned to export.");
+      return;
+    }
+
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? "";
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        path.join(folder, `flow-quality-report.${format}`)
+      ),
+      filters: REPORT_EXPORT_FILTERS[format],
+    });
+    if (!uri) {
+      return;
+    }
+
+    const content = exportQualityReport(
+      this._scanned,
+      this._scannedAt,
+      format,
+      this._context.extension.packageJSON.version
+    );
+    try {
+      await vscode.workspace.fs.writeFile(uri, Buffer.from(content, "utf8"));
+      vscode.window.showInformationMessage(`Saved to ${uri.fsPath}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to save file: ${error}`);
+    }
+  }
+
+  private async _openFlow(filePath: string) {
+    try {
+      const document = await vscode.workspace.openTextDocument(
+        vscode.Uri.file(filePath)
+      );
+      FlowPanel.render(
+        this._context.extensionUri,
+        document.getText(),
+        filePath
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to open flow file: ${error}`);
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, expect, it } from "vitest";
+import type { FlowViolation } from "./flowScannerService";
+import {
+  findScannerException,
+  mergeScannerConfigs,
+  parseScannerConfig,
+  readScannerConfigFile,
+  toScannerConfig,
+} from "./scannerConfig";
+
+function violation(rule: string, elementName?: string): FlowViolation {
+  return {
+    rule,
+    ruleLabel: rule,
+    severity: "warning",
+    message: rule,
+    elementName,
+  };
+}
+
+describe("parseScannerConfig", () => {
+  it("reads rules and exceptions from YAML", () => {
+    const config = parseScannerConfig(
+      `rules:
+  CyclomaticComplexity: { threshold: 30 }
+  FlowDescription: { enabled: false }
+exceptions:
+  Account_After_Save:
+    HardcodedId: [Get_Queue]
+  "*":
+    MissingNullHandler: "*"
+`,
+      "/repo/.flowscanner.yml"
+    );
+
+    expect(config.rules).toEqual({
+      CyclomaticComplexity: { threshold: 30 },
+      FlowDescription: { enabled: false },
+    });
+    expect(config.exceptions).toEqual([
+      {
+        flow: "Account_After_Save",
+        rule: "HardcodedId",
+        elements: ["Get_Queue"],
+        source: ".flowscanner.yml",
+      },
+      {
+        flow: "*",
+        rule: "MissingNullHandler",
+        elements: ["*"],
+        source: ".flowscanner.yml",
+      },
+    ]);
+  });
+
+  it("names the file when it does not parse", () => {
+    expect(() =>
+      parseScannerConfig("{ rules: ", "/repo/.flow-scanner.json")
+    ).toThrow(/^\.flow-scanner\.json: /);
+  });
+});
+
+describe("toScannerConfig", () => {
+  it("treats an empty file as no configuration", () => {
+    expect(toScannerConfig(null, "settings")).toEqual({
+      rules: {},
+      exceptions: [],
+    });
+  });
+
+  it("names the invalid entry", () => {
+    const invalid = (value: unknown) => () =>
+      toScannerConfig(value, "settings");
+
+    expect(invalid([])).toThrow(
+      "settings: expected an object with rules and exceptions"
+    );
+    expect(
+      invalid({ rules: { HardcodedUrl: { severity: "fatal" } } })
+    ).toThrow(
+      "settings: rules.HardcodedUrl.severity must be one of error, warning, note"
+    );
+    expect(invalid({ rules: { FlowName: { expression: 1 } } })).toThrow(
+      "settings: rules.FlowName.expression must be a string"
+    );
+    expect(invalid({ exceptions: { My_Flow: { HardcodedId: [1] } } })).toThrow(
+      "settings: exceptions.My_Flow.HardcodedId must be a list of element names"
+    );
+  });
+});
+
+describe("readScannerConfigFile", () => {
+  it("prefers .flow-scanner.json and returns undefined without a file", () => {
+    const folder = fs.mkdtempSync(path.join(os.tmpdir(), "scanner-config-"));
+    try {
+      expect(readScannerConfigFile(folder)).toBeUndefined();
+
+      fs.writeFileSync(
+        path.join(folder, ".flowscanner.yml"),
+        "rules:\n  FlowDescription: { enabled: false }\n"
+      );
+      fs.writeFileSync(
+        path.join(folder, ".flow-scanner.json"),
+        '{ "rules": { "HardcodedUrl": { "severity": "error" } } }'
+      );
+
+      expect(readScannerConfigFile(folder)?.rules).toEqual({
+        HardcodedUrl: { severity: "error" },
+      });
+    } finally {
+      fs.rmSync(folder, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("mergeScannerConfigs", () => {
+  it("overrides rule settings field by field and keeps every exception", () => {
+    const file = toScannerConfig(
+      {
+        rules: { CyclomaticComplexity: { threshold: 30, severity: "note" } },
+        exceptions: { "*": { HardcodedId: ["*"] } },
+      },
+      ".flow-scanner.json"
+    );
+    const settings = toScannerConfig(
+      {
+        rules: { CyclomaticComplexity: { severity: "error" } },
+        exceptions: { My_Flow: { FlowName: ["*"] } },
+      },
+      "settings"
+    );
+
+    const merged = mergeScannerConfigs(file, settings);
+
+    expect(merged.rules).toEqual({
+      CyclomaticComplexity: { threshold: 30, severity: "error" },
+    });
+    expect(merged.exceptions.map((exception) => exception.source)).toEqual([
+      ".flow-scanner.json",
+      "settings",
+    ]);
+  });
+});
+
+describe("findScannerException", () => {
+  const config = toScannerConfig(
+    {
+      exceptions: {
+        Account_After_Save: { HardcodedId: ["Get_Queue"] },
+        "*": { MissingNullHandler: ["*"] },
+      },
+    },
+    ".flowscanner.yml"
+  );
+
+  it("matches the flow, rule and element, with * for any", () => {
+    expect(
+      findScannerException(
+        config,
+        "Account_After_Save",
+        violation("HardcodedId", "Get_Queue")
+      )?.flow
+    ).toBe("Account_After_Save");
+    expect(
+      findScannerException(
+        config,
+        "Lead_Router",
+        violation("MissingNullHandler")
+      )?.flow
+    ).toBe("*");
+  });
+
+  it("does not match other flows, rules or elements", () => {
+    expect(
+      findScannerException(
+        config,
+        "Lead_Router",
+        violation("HardcodedId", "Get_Queue")
+      )
+    ).toBeUndefined();
+    expect(
+      findScannerException(
+        config,
+        "Account_After_Save",
+        violation("HardcodedId", "Get_Owner")
+      )
+    ).toBeUndefined();
+    expect(
+      findScannerException(
+        config,
+        "Account_After_Save",
+        violation("HardcodedId")
+      )
+    ).toBeUndefined();
+  });
+});
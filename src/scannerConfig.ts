@@ -0,0 +1,244 @@
+/**
+ * Scanner Configuration
+ *
+ * A team's flow scanner standards: which rules run, their thresholds and
+ * severities, and the flows or elements exempt from a rule. They are read
+ * from a `.flow-scanner.json` or `.flowscanner.yml` file at the workspace
+ * root, in the scanner's own format, and VS Code settings layer on top:
+ *
+ *   rules:
+ *     CyclomaticComplexity: { threshold: 30 }
+ *     HardcodedUrl: { severity: error }
+ *     FlowDescription: { enabled: false }
+ *   exceptions:
+ *     Account_After_Save:
+ *       HardcodedId: [Get_Queue]
+ *     "*":
+ *       MissingNullHandler: ["*"]
+ *
+ * Exceptions key flow API names, then rule names, then element names;
+ * "*" matches every flow or element.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { parse as parseYaml } from "yaml";
+import type { FlowViolation } from "./flowScannerService";
+
+export interface ScannerRuleConfig {
+  /** False to skip the rule */
+  enabled?: boolean;
+  /** Replaces the rule's default severity */
+  severity?: FlowViolation["severity"];
+  /** Limit for rules that measure, e.g. CyclomaticComplexity */
+  threshold?: number;
+  /** Pattern for rules that match, e.g. FlowName or APIVersion */
+  expression?: string;
+}
+
+export interface ScannerException {
+  /** Flow API name, or "*" for every flow */
+  flow: string;
+  rule: string;
+  /** Element names, or "*" for every element */
+  elements: string[];
+  /** Where the exception is declared, shown with what it suppresses */
+  source: string;
+}
+
+export interface ScannerConfig {
+  rules: Record<string, ScannerRuleConfig>;
+  exceptions: ScannerException[];
+}
+
+/** Configuration file names, in order of preference */
+export const SCANNER_CONFIG_FILES = [".flow-scanner.json", ".flowscanner.yml"];
+
+const SEVERITIES = ["error", "warning", "note"];
+
+const EMPTY_SCANNER_CONFIG: ScannerConfig = {
+  rules: {},
+  exceptions: [],
+};
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function toRuleConfig(
+  rule: string,
+  value: unknown,
+  source: string
+): ScannerRuleConfig {
+  if (!isObject(value)) {
+    throw new Error(`${source}: rules.${rule} must be an object`);
+  }
+  const { enabled, severity, threshold, expression } = value;
+  if (enabled !== undefined && typeof enabled !== "boolean") {
+    throw new Error(`${source}: rules.${rule}.enabled must be true or false`);
+  }
+  if (
+    severity !== undefined &&
+    (typeof severity !== "string" || !SEVERITIES.includes(severity))
+  ) {
+    throw new Error(
+      `${source}: rules.${rule}.severity must be one of ` +
+        SEVERITIES.join(", ")
+    );
+  }
+  if (threshold !== undefined && typeof threshold !== "number") {
+    throw new Error(`${source}: rules.${rule}.threshold must be a number`);
+  }
+  if (expression !== undefined && typeof expression !== "string") {
+    throw new Error(`${source}: rules.${rule}.expression must be a string`);
+  }
+  return {
+    enabled,
+    severity: severity as ScannerRuleConfig["severity"],
+    threshold,
+    expression,
+  };
+}
+
+function toExceptions(value: unknown, source: string): ScannerException[] {
+  if (!isObject(value)) {
+    throw new Error(`${source}: exceptions must be an object`);
+  }
+  return Object.entries(value).flatMap(([flow, rules]) => {
+    if (!isObject(rules)) {
+      throw new Error(`${source}: exceptions.${flow} must be an object`);
+    }
+    return Object.entries(rules).map(([rule, elements]) => {
+      // A single element may be given without a list
+      const list = typeof elements === "string" ? [elements] : elements;
+      if (
+        !Array.isArray(list) ||
+        !list.every((element) => typeof element === "string")
+      ) {
+        throw new Error(
+          `${source}: exceptions.${flow}.${rule} must be a list of ` +
+            "element names"
+        );
+      }
+      return { flow, rule, elements: list, source };
+    });
+  });
+}
+
+/**
+ * Validate parsed configuration. Throws an Error naming the source and
+ * the invalid entry.
+ *
+ * @param source - File name or settings section, for messages and for
+ * the suppressions the exceptions create
+ */
+export function toScannerConfig(
+  value: unknown,
+  source: string
+): ScannerConfig {
+  if (value === null || value === undefined) {
+    return EMPTY_SCANNER_CONFIG;
+  }
+  if (!isObject(value)) {
+    throw new Error(`${source}: expected an object with rules and exceptions`);
+  }
+
+  const rules: Record<string, ScannerRuleConfig> = {};
+  if (value.rules !== undefined && value.rules !== null) {
+    if (!isObject(value.rules)) {
+      throw new Error(`${source}: rules must be an object`);
+    }
+    Object.entries(value.rules).forEach(([rule, config]) => {
+      rules[rule] = toRuleConfig(rule, config, source);
+    });
+  }
+
+  const exceptions =
+    value.exceptions === undefined || value.exceptions === null
+      ? []
+      : toExceptions(value.exceptions, source);
+
+  return { rules, exceptions };
+}
+
+/**
+ * Parse a configuration file's text, as JSON or YAML by its extension
+ */
+export function parseScannerConfig(
+  text: string,
+  fileName: string
+): ScannerConfig {
+  const source = path.basename(fileName);
+  let value: unknown;
+  try {
+    value = fileName.endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`${source}: ${message}`);
+  }
+  return toScannerConfig(value, source);
+}
+
+/**
+ * Read the first configuration file found in a folder. Returns undefined
+ * when the folder has none and throws when the file is invalid.
+ */
+export function readScannerConfigFile(
+  folderPath: string
+): ScannerConfig | undefined {
+  for (const fileName of SCANNER_CONFIG_FILES) {
+    const filePath = path.join(folderPath, fileName);
+    if (fs.existsSync(filePath)) {
+      return parseScannerConfig(fs.readFileSync(filePath, "utf8"), filePath);
+    }
+  }
+  return undefined;
+}
+
+// ============================================================================
+// APPLYING
+// ============================================================================
+
+/**
+ * Layer configurations; later ones override earlier rule settings field by
+ * field, and every configuration's exceptions apply
+ */
+export function mergeScannerConfigs(
+  ...configs: ScannerConfig[]
+): ScannerConfig {
+  const rules: Record<string, ScannerRuleConfig> = {};
+  configs.forEach((config) =>
+    Object.entries(config.rules).forEach(([rule, options]) => {
+      const defined = Object.fromEntries(
+        Object.entries(options).filter(([, value]) => value !== undefined)
+      );
+      rules[rule] = { ...rules[rule], ...defined };
+    })
+  );
+  return {
+    rules,
+    exceptions: configs.flatMap((config) => config.exceptions),
+  };
+}
+
+/**
+ * The exception that suppresses a violation, if any
+ */
+export function findScannerException(
+  config: ScannerConfig,
+  flowName: string,
+  violation: FlowViolation
+): ScannerException | undefined {
+  return config.exceptions.find(
+    (exception) =>
+      (exception.flow === "*" || exception.flow === flowName) &&
+      exception.rule === violation.rule &&
+      (exception.elements.includes("*") ||
+        (violation.elementName !== undefined &&
+          exception.elements.includes(violation.elementName)))
+  );
+}
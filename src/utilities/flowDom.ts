@@ -0,0 +1,80 @@
+/**
+ * Flow DOM
+ *
+ * Presents the extension's XML reader as the document the webview's flow
+ * parser reads. The parser only walks elements (tag names, children,
+ * parents and text), so this lets the extension host and the CLI run the
+ * same parser, layout and complexity code as the diagram without a DOM.
+ */
+
+import type {
+  FlowXmlDocument,
+  FlowXmlElement,
+} from "../../webview-ui/src/parser/flowDocument";
+import { XmlElement, getTextContent, parseXml } from "./xmlReader";
+
+// ============================================================================
+// ELEMENTS
+// ============================================================================
+
+class FlowDomElement implements FlowXmlElement {
+  readonly tagName: string;
+  readonly children: FlowDomElement[];
+  readonly parentElement: FlowDomElement | null;
+  private readonly source: XmlElement;
+
+  constructor(source: XmlElement, parent: FlowDomElement | null) {
+    this.source = source;
+    this.tagName = source.tagName;
+    this.parentElement = parent;
+    this.children = source.children.map(
+      (child) => new FlowDomElement(child, this)
+    );
+  }
+
+  get textContent(): string {
+    return getTextContent(this.source);
+  }
+
+  getElementsByTagName(tag: string): FlowDomElement[] {
+    const result: FlowDomElement[] = [];
+    const visit = (el: FlowDomElement) => {
+      for (const child of el.children) {
+        if (child.tagName === tag) {
+          result.push(child);
+        }
+        visit(child);
+      }
+    };
+    visit(this);
+    return result;
+  }
+}
+
+class FlowDomDocument implements FlowXmlDocument {
+  readonly documentElement: FlowDomElement | null;
+
+  constructor(root: XmlElement | undefined) {
+    this.documentElement = root ? new FlowDomElement(root, null) : null;
+  }
+
+  getElementsByTagName(tag: string): FlowDomElement[] {
+    const root = this.documentElement;
+    if (!root) {
+      return [];
+    }
+    const descendants = root.getElementsByTagName(tag);
+    return root.tagName === tag ? [root, ...descendants] : descendants;
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Read flow XML into a document for parseFlowDocument
+ */
+export function readFlowDocument(xml: string): FlowXmlDocument {
+  return new FlowDomDocument(parseXml(xml));
+}
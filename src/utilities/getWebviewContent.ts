@@ -0,0 +1,73 @@
+import { Uri, Webview, WebviewOptions } from "vscode";
+import { getUri } from "./getUri";
+import { getNonce } from "./getNonce";
+
+/**
+ * Which screen of the webview app a panel shows
+ */
+export type WebviewView =
+  | "flow"
+  | "dependencies"
+  | "automation"
+  | "qualityReport";
+
+/**
+ * Webview options for panels that load the React app from webview-ui/build.
+ *
+ * @param extensionUri The URI of the directory containing the extension
+ * @returns Options enabling scripts and the build folder as a resource root
+ */
+export function getWebviewOptions(extensionUri: Uri): WebviewOptions {
+  return {
+    enableScripts: true,
+    localResourceRoots: [
+      Uri.joinPath(extensionUri, "webview-ui", "build"),
+      Uri.joinPath(extensionUri, "webview-ui", "build", "assets"),
+    ],
+  };
+}
+
+/**
+ * A helper function which builds the HTML page hosting the React app.
+ *
+ * @param webview A reference to the extension webview
+ * @param extensionUri The URI of the directory containing the extension
+ * @param view The screen to render, read by the app from the root element
+ * @returns The HTML document for the webview
+ */
+export function getWebviewContent(
+  webview: Webview,
+  extensionUri: Uri,
+  view: WebviewView = "flow"
+): string {
+  const scriptUri = getUri(webview, extensionUri, [
+    "webview-ui",
+    "build",
+    "assets",
+    "index.js",
+  ]);
+  const styleUri = getUri(webview, extensionUri, [
+    "webview-ui",
+    "build",
+    "assets",
+    "index.css",
+  ]);
+  const nonce = getNonce();
+
+  return `
+      <!DOCTYPE html>
+      <html lang="en">
+        <head>
+          <meta charset="UTF-8" />
+          <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+          <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}'; font-src ${webview.cspSource}; img-src ${webview.cspSource} data:;">
+          <link rel="stylesheet" type="text/css" href="${styleUri}">
+          <title>SF Flow Visualizer</title>
+        </head>
+        <body>
+          <div id="root" data-view="${view}"></div>
+          <script nonce="${nonce}" type="module" src="${scriptUri}"></script>
+        </body>
+      </html>
+    `;
+}
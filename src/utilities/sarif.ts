@@ -0,0 +1,170 @@
+/**
+ * SARIF
+ *
+ * Writes flow scanner and complexity findings as a SARIF 2.1.0 log, the
+ * format GitHub code scanning, Azure DevOps and most CI dashboards read.
+ * Used by the CLI and the workspace quality report export. Each result
+ * points at the `<name>` of the flow element it is about, so the finding
+ * is annotated on the right line of the flow metadata.
+ */
+
+import * as path from "path";
+import { findElementNameRange } from "./xmlReader";
+import type { FlowViolation } from "../flowScannerService";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SarifLevel = "error" | "warning" | "note";
+
+export interface SarifRule {
+  id: string;
+  label: string;
+  description: string;
+  level: SarifLevel;
+  helpUri?: string;
+}
+
+/**
+ * Scanner violations of one flow file, with the XML they were found in
+ */
+export interface ScannedFlowFile {
+  filePath: string;
+  xml: string;
+  violations: FlowViolation[];
+}
+
+export interface SarifFinding {
+  ruleId: string;
+  level: SarifLevel;
+  message: string;
+  filePath: string;
+  /** Flow XML the finding is in, to locate the element */
+  xml: string;
+  elementName?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const TOOL_NAME = "sffv";
+const TOOL_URI = "https://github.com/Avinava/vscode-sf-flow-visualiser";
+
+// ============================================================================
+// LOG
+// ============================================================================
+
+function toArtifactUri(filePath: string, cwd: string): string {
+  const relative = path.relative(cwd, filePath);
+  return relative.split(path.sep).join("/");
+}
+
+function toResult(finding: SarifFinding, cwd: string) {
+  const range = finding.elementName
+    ? findElementNameRange(finding.xml, finding.elementName)
+    : undefined;
+  return {
+    ruleId: finding.ruleId,
+    level: finding.level,
+    message: { text: finding.message },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: toArtifactUri(finding.filePath, cwd) },
+          // SARIF lines and columns are 1-based
+          region: range
+            ? {
+                startLine: range.start.line + 1,
+                startColumn: range.start.character + 1,
+                endLine: range.end.line + 1,
+                endColumn: range.end.character + 1,
+              }
+            : { startLine: 1 },
+        },
+        ...(finding.elementName
+          ? {
+              logicalLocations: [
+                { name: finding.elementName, kind: "element" },
+              ],
+            }
+          : {}),
+      },
+    ],
+  };
+}
+
+/**
+ * Build a SARIF log with a single run for the given rules and findings.
+ * File paths are written relative to `cwd`, the repository root in CI.
+ */
+export function buildSarifLog(
+  rules: SarifRule[],
+  findings: SarifFinding[],
+  version: string,
+  cwd: string = process.cwd()
+): object {
+  return {
+    $schema: SARIF_SCHEMA,
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version,
+            informationUri: TOOL_URI,
+            rules: rules.map((rule) => ({
+              id: rule.id,
+              name: rule.id,
+              shortDescription: { text: rule.label },
+              fullDescription: { text: rule.description },
+              ...(rule.helpUri ? { helpUri: rule.helpUri } : {}),
+              defaultConfiguration: { level: rule.level },
+            })),
+          },
+        },
+        results: findings.map((finding) => toResult(finding, cwd)),
+      },
+    ],
+  };
+}
+
+/**
+ * Build a SARIF log of flow scanner violations, with one rule per scanner
+ * rule that was violated
+ */
+export function buildScannerSarifLog(
+  files: ScannedFlowFile[],
+  version: string,
+  cwd?: string
+): object {
+  const rules = new Map<string, SarifRule>();
+  const findings: SarifFinding[] = [];
+  files.forEach(({ filePath, xml, violations }) =>
+    violations.forEach((violation) => {
+      if (!rules.has(violation.rule)) {
+        rules.set(violation.rule, {
+          id: violation.rule,
+          label: violation.ruleLabel,
+          description: violation.message,
+          level: violation.severity,
+          helpUri: violation.docLink,
+        });
+      }
+      findings.push({
+        ruleId: violation.rule,
+        level: violation.severity,
+        message: violation.elementName
+          ? `${violation.ruleLabel}: ${violation.elementName}`
+          : violation.ruleLabel,
+        filePath,
+        xml,
+        elementName: violation.elementName,
+      });
+    })
+  );
+  return buildSarifLog(Array.from(rules.values()), findings, version, cwd);
+}
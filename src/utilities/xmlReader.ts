@@ -0,0 +1,187 @@
+/**
+ * XML Reader
+ *
+ * Builds a lightweight element tree from flow metadata XML. This is the
+ * only XML reader on the extension host and in the CLI, which have no
+ * DOMParser: read elements with it directly, or wrap it with
+ * readFlowDocument (flowDom.ts) to run the webview's flow parser.
+ */
+
+export interface XmlElement {
+  tagName: string;
+  children: XmlElement[];
+  /** Text and CDATA directly inside this element, entities decoded */
+  text: string;
+}
+
+// Comments, CDATA, declarations/processing instructions, closing tags,
+// opening (or self-closing) tags, and text runs
+const TOKEN_PATTERN =
+  /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<[?!][\s\S]*?>|<\/([^\s>]+)\s*>|<([^\s/>]+)[^>]*?(\/)?>|([^<]+)/g;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Parse an XML document and return its root element, or undefined when the
+ * text contains no elements. Mismatched closing tags are tolerated.
+ */
+export function parseXml(xml: string): XmlElement | undefined {
+  const document: XmlElement = { tagName: "#document", children: [], text: "" };
+  const stack: XmlElement[] = [document];
+
+  for (const match of xml.matchAll(TOKEN_PATTERN)) {
+    const [, cdata, closeTag, openTag, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closeTag) {
+      const index = stack.map((el) => el.tagName).lastIndexOf(closeTag);
+      if (index > 0) {
+        stack.length = index;
+      }
+    } else if (openTag) {
+      const element: XmlElement = { tagName: openTag, children: [], text: "" };
+      current.children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    } else if (text !== undefined) {
+      current.text += decodeEntities(text);
+    }
+  }
+
+  return document.children[0];
+}
+
+/**
+ * Descendants of an element with the given tag, in document order
+ * (same results as Element.getElementsByTagName)
+ */
+export function getElementsByTagName(
+  el: XmlElement,
+  tag: string
+): XmlElement[] {
+  const result: XmlElement[] = [];
+  const visit = (parent: XmlElement) => {
+    for (const child of parent.children) {
+      if (child.tagName === tag) {
+        result.push(child);
+      }
+      visit(child);
+    }
+  };
+  visit(el);
+  return result;
+}
+
+/**
+ * Direct children of an element with the given tag
+ */
+export function getChildElements(el: XmlElement, tag: string): XmlElement[] {
+  return el.children.filter((child) => child.tagName === tag);
+}
+
+/**
+ * All text inside an element, including its descendants
+ */
+export function getTextContent(el: XmlElement): string {
+  return el.text + el.children.map(getTextContent).join("");
+}
+
+/**
+ * Text content of the first descendant with the given tag
+ */
+export function getText(el: XmlElement, tag: string): string {
+  const found = getElementsByTagName(el, tag)[0];
+  return found ? getTextContent(found) : "";
+}
+
+/**
+ * Text content of the first direct child with the given tag
+ */
+export function getChildText(el: XmlElement, tag: string): string {
+  const found = getChildElements(el, tag)[0];
+  return found ? getTextContent(found) : "";
+}
+
+/**
+ * Zero-based line and character in the XML text
+ */
+export interface XmlPosition {
+  line: number;
+  character: number;
+}
+
+export interface XmlRange {
+  start: XmlPosition;
+  end: XmlPosition;
+}
+
+function positionAt(xml: string, offset: number): XmlPosition {
+  const before = xml.slice(0, offset);
+  const lineStart = before.lastIndexOf("\n") + 1;
+  return {
+    line: before.split("\n").length - 1,
+    character: offset - lineStart,
+  };
+}
+
+/**
+ * Range of a flow element's API name: the text of the `<name>` directly
+ * inside a top-level element of `<Flow>`, such as a decision or a variable.
+ * Undefined when the flow has no element with that name.
+ */
+export function findElementNameRange(
+  xml: string,
+  elementName: string
+): XmlRange | undefined {
+  const stack: string[] = [];
+
+  for (const match of xml.matchAll(TOKEN_PATTERN)) {
+    const [token, , closeTag, openTag, selfClosing] = match;
+
+    if (closeTag) {
+      const index = stack.lastIndexOf(closeTag);
+      if (index >= 0) {
+        stack.length = index;
+      }
+    } else if (openTag && !selfClosing) {
+      stack.push(openTag);
+      // <Flow> → element → <name>
+      if (openTag === "name" && stack.length === 3) {
+        const textStart = (match.index ?? 0) + token.length;
+        const textEnd = xml.indexOf("<", textStart);
+        const raw = xml.slice(textStart, textEnd === -1 ? undefined : textEnd);
+        const name = raw.trim();
+        if (decodeEntities(name) === elementName) {
+          const start = textStart + raw.indexOf(name);
+          return {
+            start: positionAt(xml, start),
+            end: positionAt(xml, start + name.length),
+          };
+        }
+      }
+    }
+  }
+  return undefined;
+}
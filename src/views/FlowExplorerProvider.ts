@@ -0,0 +1,312 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import {
+  FlowSummary,
+  getComplexityLabel,
+  getProcessTypeLabel,
+  readFlowSummary,
+} from "../flowMetadata";
+import {
+  FLOW_FILE_GLOB,
+  findFlowFiles,
+  getFlowApiName,
+  readFlowFile,
+} from "../flowWorkspace";
+
+interface FlowEntry extends FlowSummary {
+  uri: vscode.Uri;
+  label: string;
+}
+
+interface GroupNode {
+  kind: "group";
+  id: string;
+  label: string;
+  icon: string;
+  flows: FlowEntry[];
+  children: ExplorerNode[];
+}
+
+interface FlowItemNode {
+  kind: "flow";
+  id: string;
+  entry: FlowEntry;
+}
+
+type ExplorerNode = GroupNode | FlowItemNode;
+
+// Theme colors for the complexity badge, Simple → Very High
+const COMPLEXITY_COLORS: Record<string, string> = {
+  Simple: "charts.green",
+  Moderate: "charts.blue",
+  Complex: "charts.yellow",
+  "High Risk": "charts.orange",
+  "Very High": "charts.red",
+};
+
+const STATUS_ICONS: Record<string, string> = {
+  Active: "pass-filled",
+  Draft: "edit",
+  Obsolete: "archive",
+  InvalidDraft: "warning",
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  InvalidDraft: "Invalid Draft",
+};
+
+/**
+ * Tree view listing every flow in the workspace, grouped by process type,
+ * trigger object and status. Selecting a flow opens it in the diagram panel.
+ */
+export class FlowExplorerProvider
+  implements vscode.TreeDataProvider<ExplorerNode>
+{
+  public static readonly viewId = "sf-flow-visualizer.flowExplorer";
+  public static readonly refreshCommand =
+    "sf-flow-visualizer.refreshFlowExplorer";
+
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private _view: vscode.TreeView<ExplorerNode> | undefined;
+  // Parsed flows by file path; undefined until the first scan
+  private _flows: Map<string, FlowEntry> | undefined;
+
+  public static register(): vscode.Disposable {
+    const provider = new FlowExplorerProvider();
+    const view = vscode.window.createTreeView(FlowExplorerProvider.viewId, {
+      treeDataProvider: provider,
+      showCollapseAll: true,
+    });
+    provider._view = view;
+
+    // Keep the cache in step with the files instead of rescanning everything
+    const watcher = vscode.workspace.createFileSystemWatcher(FLOW_FILE_GLOB);
+    return vscode.Disposable.from(
+      view,
+      watcher,
+      provider._onDidChangeTreeData,
+      watcher.onDidCreate((uri) => provider._update(uri)),
+      watcher.onDidChange((uri) => provider._update(uri)),
+      watcher.onDidDelete((uri) => provider._remove(uri)),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => provider.refresh()),
+      vscode.commands.registerCommand(FlowExplorerProvider.refreshCommand, () =>
+        provider.refresh()
+      )
+    );
+  }
+
+  private constructor() {}
+
+  /**
+   * Forget the cached flows and scan the workspace again
+   */
+  public refresh() {
+    this._flows = undefined;
+    this._onDidChangeTreeData.fire();
+  }
+
+  public getTreeItem(node: ExplorerNode): vscode.TreeItem {
+    if (node.kind === "group") {
+      const item = new vscode.TreeItem(
+        node.label,
+        vscode.TreeItemCollapsibleState.Collapsed
+      );
+      item.id = node.id;
+      item.description = String(node.flows.length);
+      item.iconPath = new vscode.ThemeIcon(node.icon);
+      item.contextValue = "flowGroup";
+      return item;
+    }
+
+    const { entry } = node;
+    const { metadata, complexity } = entry;
+    const rating = getComplexityLabel(complexity);
+    const item = new vscode.TreeItem(
+      entry.label,
+      vscode.TreeItemCollapsibleState.None
+    );
+    item.id = node.id;
+    item.resourceUri = entry.uri;
+    item.description = [
+      metadata.apiVersion ? `v${metadata.apiVersion}` : undefined,
+      `Complexity ${complexity}`,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+    item.iconPath = new vscode.ThemeIcon(
+      "type-hierarchy",
+      new vscode.ThemeColor(COMPLEXITY_COLORS[rating])
+    );
+    item.tooltip = new vscode.MarkdownString(
+      [
+        `**${entry.label}**`,
+        `${getProcessTypeLabel(metadata.processType)}` +
+          (metadata.object ? ` on \`${metadata.object}\`` : ""),
+        `Status: ${getStatusLabel(metadata.status)} · ` +
+          `API ${metadata.apiVersion || "—"} · ` +
+          `Complexity ${complexity} (${rating})`,
+        `\`${vscode.workspace.asRelativePath(entry.uri)}\``,
+      ].join("\n\n")
+    );
+    item.contextValue = "flow";
+    item.command = {
+      command: "sf-flow-visualizer.showFromExplorer",
+      title: "Visualize Flow",
+      arguments: [entry.uri],
+    };
+    return item;
+  }
+
+  public async getChildren(node?: ExplorerNode): Promise<ExplorerNode[]> {
+    if (node) {
+      return node.kind === "group" ? node.children : [];
+    }
+
+    if (!this._flows) {
+      this._flows = await this._scan();
+    }
+    if (this._view) {
+      this._view.message =
+        this._flows.size === 0
+          ? "No flow files (*.flow-meta.xml) found in this workspace."
+          : undefined;
+    }
+    return buildTree([...this._flows.values()]);
+  }
+
+  // ==========================================================================
+  // DISCOVERY
+  // ==========================================================================
+
+  private async _scan(): Promise<Map<string, FlowEntry>> {
+    const flows = new Map<string, FlowEntry>();
+    const uris = await findFlowFiles();
+    const entries = await Promise.all(uris.map(readFlowEntry));
+    for (const entry of entries) {
+      if (entry) {
+        flows.set(entry.uri.fsPath, entry);
+      }
+    }
+    return flows;
+  }
+
+  private async _update(uri: vscode.Uri) {
+    const excluded = uri.fsPath.includes(`${path.sep}node_modules${path.sep}`);
+    if (!this._flows || excluded) {
+      return;
+    }
+    const entry = await readFlowEntry(uri);
+    if (entry) {
+      this._flows.set(uri.fsPath, entry);
+    } else {
+      this._flows.delete(uri.fsPath);
+    }
+    this._onDidChangeTreeData.fire();
+  }
+
+  private _remove(uri: vscode.Uri) {
+    if (this._flows?.delete(uri.fsPath)) {
+      this._onDidChangeTreeData.fire();
+    }
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Read and summarize a flow file; undefined if unreadable or not a Flow
+ */
+async function readFlowEntry(uri: vscode.Uri): Promise<FlowEntry | undefined> {
+  try {
+    const summary = readFlowSummary(await readFlowFile(uri));
+    if (!summary) {
+      return undefined;
+    }
+    return {
+      ...summary,
+      uri,
+      label: summary.metadata.label || getFlowApiName(uri.fsPath),
+    };
+  } catch (error) {
+    console.error(`[FlowExplorer] Failed to read ${uri.fsPath}`, error);
+    return undefined;
+  }
+}
+
+function getStatusLabel(status?: string): string {
+  return STATUS_LABELS[status || ""] || status || "No Status";
+}
+
+/**
+ * Group entries by a key, sorted by group label
+ */
+function groupBy(
+  flows: FlowEntry[],
+  key: (flow: FlowEntry) => string
+): Array<[string, FlowEntry[]]> {
+  const groups = new Map<string, FlowEntry[]>();
+  for (const flow of flows) {
+    const label = key(flow);
+    groups.set(label, [...(groups.get(label) ?? []), flow]);
+  }
+  return [...groups.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+/**
+ * Build Type → Object → Status → Flow groups. The object level is only
+ * added for types that have triggered flows.
+ */
+function buildTree(flows: FlowEntry[]): ExplorerNode[] {
+  const statusGroups = (parentId: string, entries: FlowEntry[]) =>
+    groupBy(entries, (flow) => getStatusLabel(flow.metadata.status)).map(
+      ([status, statusFlows]): GroupNode => {
+        const id = `${parentId}/${status}`;
+        return {
+          kind: "group",
+          id,
+          label: status,
+          icon:
+            STATUS_ICONS[statusFlows[0].metadata.status || ""] ||
+            "circle-outline",
+          flows: statusFlows,
+          children: [...statusFlows]
+            .sort((a, b) => a.label.localeCompare(b.label))
+            .map((entry) => ({
+              kind: "flow",
+              id: `${id}/${entry.uri.toString()}`,
+              entry,
+            })),
+        };
+      }
+    );
+
+  return groupBy(flows, (flow) =>
+    getProcessTypeLabel(flow.metadata.processType)
+  ).map(([type, typeFlows]): GroupNode => {
+    const id = `type/${type}`;
+    const hasObjects = typeFlows.some((flow) => flow.metadata.object);
+    return {
+      kind: "group",
+      id,
+      label: type,
+      icon: "folder",
+      flows: typeFlows,
+      children: hasObjects
+        ? groupBy(typeFlows, (flow) => flow.metadata.object || "No Object").map(
+            ([object, objectFlows]): GroupNode => ({
+              kind: "group",
+              id: `${id}/${object}`,
+              label: object,
+              icon: "database",
+              flows: objectFlows,
+              children: statusGroups(`${id}/${object}`, objectFlows),
+            })
+          )
+        : statusGroups(id, typeFlows),
+    };
+  });
+}
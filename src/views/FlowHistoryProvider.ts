@@ -0,0 +1,146 @@
+import * as vscode from "vscode";
+import * as path from "path";
+import { FlowPanel } from "../panels/FlowPanel";
+import {
+  GitCommit,
+  getFileAtRevision,
+  getFileHistory,
+  getRepositoryRoot,
+} from "../gitService";
+
+/**
+ * Tree view listing the commits that touched the active flow file.
+ * Selecting a commit renders that version of the flow in a history panel.
+ */
+export class FlowHistoryProvider implements vscode.TreeDataProvider<GitCommit> {
+  public static readonly viewId = "sf-flow-visualizer.flowHistory";
+  public static readonly showRevisionCommand =
+    "sf-flow-visualizer.showFlowRevision";
+  public static readonly refreshCommand =
+    "sf-flow-visualizer.refreshFlowHistory";
+
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  private readonly _extensionUri: vscode.Uri;
+  private _view: vscode.TreeView<GitCommit> | undefined;
+  private _filePath: string | undefined;
+
+  public static register(context: vscode.ExtensionContext): vscode.Disposable {
+    const provider = new FlowHistoryProvider(context.extensionUri);
+    const view = vscode.window.createTreeView(FlowHistoryProvider.viewId, {
+      treeDataProvider: provider,
+    });
+    provider._view = view;
+    provider._setFile(vscode.window.activeTextEditor?.document);
+
+    return vscode.Disposable.from(
+      view,
+      provider._onDidChangeTreeData,
+      vscode.window.onDidChangeActiveTextEditor((editor) =>
+        provider._setFile(editor?.document)
+      ),
+      // Commits usually follow a save; re-read the history for the shown file
+      vscode.workspace.onDidSaveTextDocument((document) => {
+        if (document.uri.fsPath === provider._filePath) {
+          provider.refresh();
+        }
+      }),
+      vscode.commands.registerCommand(FlowHistoryProvider.refreshCommand, () =>
+        provider.refresh()
+      ),
+      vscode.commands.registerCommand(
+        FlowHistoryProvider.showRevisionCommand,
+        (filePath: string, commit: GitCommit) =>
+          provider._showRevision(filePath, commit)
+      )
+    );
+  }
+
+  private constructor(extensionUri: vscode.Uri) {
+    this._extensionUri = extensionUri;
+  }
+
+  public refresh() {
+    this._onDidChangeTreeData.fire();
+  }
+
+  public getTreeItem(commit: GitCommit): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      commit.subject,
+      vscode.TreeItemCollapsibleState.None
+    );
+    const date = new Date(commit.date);
+    item.id = commit.hash;
+    item.description = `${commit.author}, ${date.toLocaleDateString()}`;
+    item.iconPath = new vscode.ThemeIcon("git-commit");
+    item.tooltip = new vscode.MarkdownString(
+      `**${commit.subject}**\n\n` +
+        `${commit.author} <${commit.authorEmail}>\n\n` +
+        `${date.toLocaleString()} · \`${commit.shortHash}\``
+    );
+    item.command = {
+      command: FlowHistoryProvider.showRevisionCommand,
+      title: "Show Flow at This Commit",
+      arguments: [this._filePath, commit],
+    };
+    return item;
+  }
+
+  public async getChildren(element?: GitCommit): Promise<GitCommit[]> {
+    if (element || !this._filePath || !this._view) {
+      return [];
+    }
+
+    try {
+      const commits = await getFileHistory(this._filePath);
+      this._view.message =
+        commits.length === 0 ? "This flow has no commits yet." : undefined;
+      return commits;
+    } catch (error) {
+      console.error("[FlowHistory] Failed to read git history", error);
+      this._view.message = "This flow is not in a git repository.";
+      return [];
+    }
+  }
+
+  /**
+   * Follow the active editor; keep the last flow when focus moves elsewhere
+   */
+  private _setFile(document?: vscode.TextDocument) {
+    if (!document || !document.fileName.endsWith(".flow-meta.xml")) {
+      if (!this._filePath && this._view) {
+        this._view.message = "Open a flow file to see its history.";
+      }
+      return;
+    }
+    if (document.uri.fsPath === this._filePath) {
+      return;
+    }
+
+    this._filePath = document.uri.fsPath;
+    if (this._view) {
+      this._view.description = path
+        .basename(this._filePath)
+        .replace(".flow-meta.xml", "");
+    }
+    this.refresh();
+  }
+
+  private async _showRevision(filePath: string, commit: GitCommit) {
+    try {
+      const repoRoot = await getRepositoryRoot(filePath);
+      const xmlContent = await getFileAtRevision(
+        repoRoot,
+        commit.filePath,
+        commit.hash
+      );
+      FlowPanel.renderRevision(this._extensionUri, xmlContent, filePath, commit);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(
+        `Failed to load flow at ${commit.shortHash}: ${message}`
+      );
+    }
+  }
+}
@@ -3,7 +3,12 @@ import React, { useState, useCallback, useEffect, useMemo, useRef } from "react"
 // Import from modular structure
 import { FlowHeader, EdgeRenderer, FlowNodeComponent } from "./components";
 import { FlowCanvas, CanvasToolbar, Sidebar, Minimap } from "./components";
+import { BreadcrumbNavigation } from "./components";
 import { ErrorBoundary, EmptyState, LoadingOverlay } from "./components";
+import { DependencyGraph } from "./components/DependencyGraph";
+import { AutomationMap } from "./components/AutomationMap";
+import { QualityReport } from "./components/QualityReport";
+import type { TabView, ExportFormat } from "./components";
 
 // Import custom hooks
 import {
@@ -12,7 +17,11 @@ import {
   useCanvasInteraction,
   useNodeSelection,
   useEdgeSelection,
+  useSubflowNavigation,
+  useFlowSimulation,
+  useGovernorLimits,
 } from "./hooks";
+import type { LoadXmlOptions } from "./hooks";
 
 // Import context
 import {
@@ -23,12 +32,35 @@ import {
 } from "./context";
 
 // Import utilities
-import { computeVisibility, getBranchingNodeIds } from "./utils/collapse";
+import {
+  computeVisibility,
+  getBranchingNodeIds,
+  getCollapsedAncestors,
+} from "./utils/collapse";
 import { calculateComplexity } from "./utils/complexity";
+import { exportToMermaid, exportToPlantUml } from "./utils/diagramText";
+import {
+  enumerateFlowPaths,
+  exportTestPlanCsv,
+  exportTestPlanMarkdown,
+} from "./utils/flowPaths";
+import { generateFlowDocumentation } from "./utils/flowDocumentation";
+import type { LimitRisk } from "./utils/governorLimits";
+import type { DocumentationFormat } from "./utils/flowDocumentation";
+import { createFlowModelStore } from "./model";
 import {
+  DiffStatus,
+  FlowBreadcrumb,
+  FlowComparison,
   FlowNode,
+  FlowRevision,
+  ReferenceAccess,
 } from "./types";
-import { analyzeFlow, FlowQualityMetrics, FlowViolation } from "./utils/flow-scanner";
+import {
+  analyzeFlow,
+  FlowQualityMetrics,
+  getViolationsByNode,
+} from "./utils/flow-scanner";
 
 // Import types
 import { BoundingBox } from "./hooks/useCanvasInteraction";
@@ -36,7 +68,7 @@ import { BoundingBox } from "./hooks/useCanvasInteraction";
 import { getVSCodeApi } from "./utils/vscodeApi";
 
 // ... (keep existing imports)
-import { toPng } from "html-to-image";
+import { toPng, toSvg } from "html-to-image";
 
 // ============================================================================
 // MAIN APP CONTENT
@@ -45,15 +77,18 @@ import { toPng } from "html-to-image";
 const AppContent: React.FC = () => {
   // Sidebar visibility state
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const [sidebarTab, setSidebarTab] = useState<"details" | "quality">(
-    "details"
-  );
+  const [sidebarTab, setSidebarTab] = useState<TabView>("details");
   const [autoOpenViewerEnabled, setAutoOpenViewerEnabled] = useState(true);
   const [qualityMetrics, setQualityMetrics] =
     useState<FlowQualityMetrics | null>(null);
   
+  // Commit shown in a history panel (null for the working copy)
+  const [revision, setRevision] = useState<FlowRevision | null>(null);
+
   // Track when a new flow is loaded to trigger auto-center
   const shouldAutoCenter = useRef(false);
+  // Viewport to restore instead of auto-centering (returning to a parent flow)
+  const pendingViewport = useRef<FlowBreadcrumb["viewport"] | null>(null);
 
   // Get VS Code API
   const vscode = useMemo(() => getVSCodeApi(), []);
@@ -98,7 +133,8 @@ const AppContent: React.FC = () => {
   const { toggleTheme, isDark, toggleAnimation } = useTheme();
 
   // Collapse context for branching nodes
-  const { collapsedNodes, isCollapsed, toggleCollapse } = useCollapse();
+  const { collapsedNodes, isCollapsed, toggleCollapse, expand } =
+    useCollapse();
 
   // Flow parsing and layout hook
   const {
@@ -106,10 +142,14 @@ const AppContent: React.FC = () => {
     autoLayoutEnabled,
     setAutoLayoutEnabled,
     loadFlow,
+    loadDiff,
+    flowDiff,
     goToTargetCounts,
     faultLanes,
+    isFreeForm,
     fileName,
     isLoading,
+    xmlInput,
   } = useFlowParser();
 
   // Compute visibility based on collapsed nodes
@@ -129,12 +169,91 @@ const AppContent: React.FC = () => {
     return new Set(getBranchingNodeIds(parsedData.nodes));
   }, [parsedData.nodes]);
 
+  // Flow model with the variable reference index
+  const flowModel = useMemo(
+    () =>
+      createFlowModelStore(
+        parsedData.nodes,
+        parsedData.edges,
+        parsedData.resources
+      ),
+    [parsedData.nodes, parsedData.edges, parsedData.resources]
+  );
+
+  // Selected variable / record field and the elements that read or write it
+  const [selectedReference, setSelectedReference] = useState<string | null>(
+    null
+  );
+
+  const referenceUsages = useMemo(
+    () =>
+      selectedReference ? flowModel.getReferenceUsages(selectedReference) : null,
+    [flowModel, selectedReference]
+  );
+
+  const referencingNodes = useMemo(
+    () =>
+      selectedReference
+        ? flowModel.getReferencingNodes(selectedReference)
+        : new Map<string, ReferenceAccess[]>(),
+    [flowModel, selectedReference]
+  );
+
+  // Change status per element while comparing two versions
+  const nodeDiffStatus = useMemo(
+    () =>
+      new Map<string, DiffStatus>(
+        (flowDiff?.nodes ?? []).map((change) => [change.id, change.status])
+      ),
+    [flowDiff]
+  );
+
+  // Simulate mode: walk the flow with user-chosen outcomes
+  const {
+    isSimulating,
+    simulation,
+    unreachableNodes,
+    startSimulation,
+    stopSimulation,
+    chooseEdge,
+    chooseIterations,
+    undoChoice,
+    restartSimulation,
+  } = useFlowSimulation({ flowModel });
+
+  // Queries and DML inside loops, followed through subflows in the workspace
+  const {
+    analysis: limitAnalysis,
+    isResolving: isResolvingSubflows,
+    selectedRisk,
+    selectRisk,
+  } = useGovernorLimits({
+    flowModel,
+    flowName: fileName.replace(".flow-meta.xml", ""),
+    xmlContent: parsedData.xmlContent,
+  });
+  const riskPath = useMemo(
+    () => new Set(selectedRisk?.edgeIds ?? []),
+    [selectedRisk]
+  );
+  // The Limits tab is only shown for flows that touch the database
+  const hasLimitOperations = limitAnalysis.estimates.some(
+    (estimate) =>
+      estimate.queries + estimate.dmlStatements + estimate.unknownCalls > 0
+  );
+
   // Calculate complexity metrics
   const complexityMetrics = useMemo(() => {
     if (parsedData.nodes.length === 0) return null;
     return calculateComplexity(parsedData.nodes, parsedData.edges);
   }, [parsedData.nodes, parsedData.edges]);
 
+  // Start-to-end paths, as the test scenarios behind the complexity score
+  const flowPaths = useMemo(() => {
+    if (parsedData.nodes.length === 0) return null;
+    return enumerateFlowPaths(flowModel);
+  }, [parsedData.nodes, flowModel]);
+
   // Analyze flow quality when XML changes or scan is toggled
   useEffect(() => {
     let isMounted = true;
@@ -154,36 +273,16 @@ const AppContent: React.FC = () => {
     };
   }, [parsedData.xmlContent, scanEnabled]);
 
-  // Create mapping of violations by element name for node badges
-  const violationsByElement = useMemo(() => {
-    if (!qualityMetrics)
-      return new Map<
-        string,
-        Array<{
-          severity: "error" | "warning" | "note";
-          rule: string;
-          message: string;
-        }>
-      >();
-
-    const map = new Map<
-      string,
-      Array<{
-        severity: "error" | "warning" | "note";
-        rule: string;
-        message: string;
-      }>
-    >();
-    qualityMetrics.violations.forEach((violation: FlowViolation) => {
-      if (violation.elementName) {
-        if (!map.has(violation.elementName)) {
-          map.set(violation.elementName, []);
-        }
-        map.get(violation.elementName)!.push(violation);
-      }
-    });
-    return map;
-  }, [qualityMetrics]);
+  // Map violations onto canvas nodes for badges and the issues filter
+  const violationsByNode = useMemo(
+    () =>
+      getViolationsByNode(parsedData.nodes, qualityMetrics?.violations ?? []),
+    [parsedData.nodes, qualityMetrics]
+  );
+
+  // Dim nodes without violations; only while there are violations to show
+  const [showIssuesOnly, setShowIssuesOnly] = useState(false);
+  const issuesOnly = showIssuesOnly && violationsByNode.size > 0;
 
   // Filter visible nodes and edges
   const visibleNodes = useMemo(() => {
@@ -234,8 +333,10 @@ const AppContent: React.FC = () => {
     zoomOut,
     resetView,
     fitToView,
+    focusNode,
     setNodeBoundsGetter,
     setPan,
+    setScale,
   } = useCanvasInteraction({
     onToggleTheme: toggleTheme,
     onToggleAnimation: toggleAnimation,
@@ -260,38 +361,162 @@ const AppContent: React.FC = () => {
   const handleEdgeClick = useCallback(
     (edgeId: string) => {
       clearSelection();
+      selectRisk(null);
       selectEdge(edgeId);
     },
-    [clearSelection, selectEdge]
+    [clearSelection, selectRisk, selectEdge]
   );
 
+  // Parent flows while drilled into a subflow
+  const { trail, enterSubflow, navigateTo, updateParent, clearTrail } =
+    useSubflowNavigation();
+
   // Handle new flow from VS Code - mark for auto-center
   const handleLoadXml = useCallback(
-    (xml: string, newFileName?: string) => {
+    (xml: string, newFileName?: string, options?: LoadXmlOptions) => {
+      // Edits to a parent's file while a subflow is shown update the trail
+      if (
+        options?.preserveView &&
+        newFileName !== undefined &&
+        updateParent(newFileName, xml)
+      ) {
+        return;
+      }
+      setRevision(options?.revision ?? null);
+      // Live edits of the open file keep the current view intact
+      if (options?.preserveView) {
+        loadFlow(xml, newFileName, { preserveView: true });
+        return;
+      }
+      clearTrail();
       loadFlow(xml, newFileName);
       clearSelection();
       clearEdgeSelection();
+      setSelectedReference(null);
+      stopSimulation();
       // Mark that we should auto-center when nodes are loaded
       shouldAutoCenter.current = true;
     },
-    [loadFlow, clearSelection, clearEdgeSelection]
+    [
+      loadFlow,
+      clearSelection,
+      clearEdgeSelection,
+      updateParent,
+      clearTrail,
+      stopSimulation,
+    ]
   );
 
+  // Show a subflow in place, remembering the current flow in the trail
+  const handleLoadSubflow = useCallback(
+    (xml: string, newFileName?: string) => {
+      enterSubflow({
+        fileName,
+        label:
+          parsedData.metadata.label || fileName.replace(".flow-meta.xml", ""),
+        xml: xmlInput,
+        revision,
+        viewport: { scale: state.scale, pan: state.pan },
+      });
+      setRevision(null);
+      loadFlow(xml, newFileName);
+      clearSelection();
+      clearEdgeSelection();
+      setSelectedReference(null);
+      stopSimulation();
+      shouldAutoCenter.current = true;
+    },
+    [
+      enterSubflow,
+      fileName,
+      parsedData.metadata.label,
+      xmlInput,
+      revision,
+      state,
+      loadFlow,
+      clearSelection,
+      clearEdgeSelection,
+      stopSimulation,
+    ]
+  );
+
+  // Return to a parent flow from the breadcrumb trail
+  const handleBreadcrumbNavigate = useCallback(
+    (index: number) => {
+      const level = navigateTo(index);
+      if (!level) return;
+      setRevision(level.revision);
+      loadFlow(level.xml, level.fileName);
+      clearSelection();
+      clearEdgeSelection();
+      setSelectedReference(null);
+      stopSimulation();
+      pendingViewport.current = level.viewport;
+    },
+    [navigateTo, loadFlow, clearSelection, clearEdgeSelection, stopSimulation]
+  );
+
+  // Compare two versions of a flow - start with the list of changes open
+  const handleLoadDiff = useCallback(
+    (comparison: FlowComparison, newFileName?: string) => {
+      loadDiff(comparison, newFileName);
+      clearSelection();
+      clearEdgeSelection();
+      setSelectedReference(null);
+      stopSimulation();
+      setSidebarTab("changes");
+      setSidebarOpen(true);
+      shouldAutoCenter.current = true;
+    },
+    [loadDiff, clearSelection, clearEdgeSelection, stopSimulation]
+  );
+
+  // Keep the selected node in sync with re-parsed data (live edits replace node objects)
+  useEffect(() => {
+    if (!selectedNode) return;
+    const updated = parsedData.nodes.find((n) => n.id === selectedNode.id);
+    if (!updated) {
+      clearSelection();
+    } else if (updated !== selectedNode) {
+      selectNode(updated);
+    }
+  }, [parsedData.nodes, selectedNode, selectNode, clearSelection]);
+
   // Auto-center flow when nodes are first loaded (same as home button)
   useEffect(() => {
-    if (shouldAutoCenter.current && visibleNodes.length > 0) {
+    if (pendingViewport.current && visibleNodes.length > 0) {
+      setScale(pendingViewport.current.scale);
+      setPan(pendingViewport.current.pan);
+      pendingViewport.current = null;
+      shouldAutoCenter.current = false;
+    } else if (shouldAutoCenter.current && visibleNodes.length > 0) {
       // Use the same function as home button for consistent behavior
       resetView();
       shouldAutoCenter.current = false;
     }
-  }, [visibleNodes, resetView]);
+  }, [visibleNodes, resetView, setScale, setPan]);
+
+  // Documentation requested by the extension, generated once the flow is rendered
+  const [pendingDocumentation, setPendingDocumentation] =
+    useState<DocumentationFormat | null>(null);
 
   // VS Code messaging hook - must be last to use other callbacks
   const { postMessage } = useVSCodeMessaging({
     onLoadXml: handleLoadXml,
+    onLoadDiff: handleLoadDiff,
     onAutoOpenPreference: setAutoOpenViewerEnabled,
+    onGenerateDocumentation: setPendingDocumentation,
+    onLoadSubflow: handleLoadSubflow,
   });
 
+  // Ask the extension to find the called flow in the workspace
+  const handleOpenSubflow = useCallback(
+    (flowName: string) => {
+      postMessage({ command: "openSubflow", payload: { flowName } });
+    },
+    [postMessage]
+  );
+
   const handleToggleAutoOpenPreference = useCallback(() => {
     postMessage({
       command: "setAutoOpenPreference",
@@ -299,68 +524,186 @@ const AppContent: React.FC = () => {
     });
   }, [autoOpenViewerEnabled, postMessage]);
 
-  const handleExportImage = useCallback(async () => {
-    // Use the inner content div which contains the nodes/edges
-    const flowContent = document.getElementById("flow-canvas-content");
+  /**
+   * Render the visible diagram to an image data URL, or null when empty
+   */
+  const captureDiagram = useCallback(
+    async (format: "png" | "svg"): Promise<string | null> => {
+      // Use the inner content div which contains the nodes/edges
+      const flowContent = document.getElementById("flow-canvas-content");
+      if (!flowContent || visibleNodes.length === 0) return null;
+
+      // Calculate bounds of all visible nodes
+      let minX = Infinity;
+      let minY = Infinity;
+      let maxX = -Infinity;
+      let maxY = -Infinity;
+
+      visibleNodes.forEach((node) => {
+        minX = Math.min(minX, node.x);
+        minY = Math.min(minY, node.y);
+        maxX = Math.max(maxX, node.x + node.width);
+        maxY = Math.max(maxY, node.y + node.height);
+      });
 
-    if (flowContent && visibleNodes.length > 0) {
-      try {
-        // Calculate bounds of all visible nodes
-        let minX = Infinity;
-        let minY = Infinity;
-        let maxX = -Infinity;
-        let maxY = -Infinity;
-
-        visibleNodes.forEach((node) => {
-          minX = Math.min(minX, node.x);
-          minY = Math.min(minY, node.y);
-          maxX = Math.max(maxX, node.x + node.width);
-          maxY = Math.max(maxY, node.y + node.height);
-        });
+      // Add padding
+      const padding = 100;
+      const width = maxX - minX + padding * 2 + 200; // Add extra buffer for right-side clipping
+      const height = maxY - minY + padding * 2;
+
+      // Capture with specific dimensions and transform reset
+      const captureOptions = {
+        backgroundColor: isDark ? "#0f172a" : "#ffffff",
+        width: width,
+        height: height,
+        style: {
+          transform: `translate(${-minX + padding}px, ${-minY + padding}px) scale(1)`,
+          transformOrigin: "0 0",
+          width: `${width}px`,
+          height: `${height}px`,
+          // Override any fixed dimensions from the container
+          maxWidth: "none",
+          maxHeight: "none",
+        },
+      };
+
+      // SVG keeps computed styles, icons and edge markers inline as vector
+      // markup; fonts are left to the viewer so the file stays plain text
+      return format === "svg"
+        ? toSvg(flowContent, { ...captureOptions, skipFonts: true })
+        : toPng(flowContent, { ...captureOptions, pixelRatio: 2 });
+    },
+    [isDark, visibleNodes]
+  );
 
-        // Add padding
-        const padding = 100;
-        const width = maxX - minX + padding * 2 + 200; // Add extra buffer for right-side clipping
-        const height = maxY - minY + padding * 2;
-
-        // Capture with specific dimensions and transform reset
-        const dataUrl = await toPng(flowContent, {
-          backgroundColor: isDark ? "#0f172a" : "#ffffff",
-          width: width,
-          height: height,
-          style: {
-            transform: `translate(${-minX + padding}px, ${-minY + padding}px) scale(1)`,
-            transformOrigin: "0 0",
-            width: `${width}px`,
-            height: `${height}px`,
-            // Override any fixed dimensions from the container
-            maxWidth: "none",
-            maxHeight: "none",
-          },
-          pixelRatio: 2,
+  const handleExport = useCallback(async (format: ExportFormat) => {
+    const baseName = fileName.replace(".flow-meta.xml", "");
+
+    // Diagram-as-code is generated from the full model, not the visible canvas
+    if (format === "mermaid" || format === "plantuml") {
+      const options = { title: parsedData.metadata.label || baseName };
+      postMessage({
+        command: "saveText",
+        payload: {
+          content:
+            format === "mermaid"
+              ? exportToMermaid(flowModel, options)
+              : exportToPlantUml(flowModel, options),
+          fileName: `${baseName}.${format === "mermaid" ? "mmd" : "puml"}`,
+        },
+      });
+      return;
+    }
+
+    if (format === "test-plan-markdown" || format === "test-plan-csv") {
+      const result = flowPaths ?? enumerateFlowPaths(flowModel);
+      postMessage({
+        command: "saveText",
+        payload: {
+          content:
+            format === "test-plan-markdown"
+              ? exportTestPlanMarkdown(result, {
+                  title: parsedData.metadata.label || baseName,
+                })
+              : exportTestPlanCsv(result),
+          fileName: `${baseName}-test-plan.${
+            format === "test-plan-markdown" ? "md" : "csv"
+          }`,
+        },
+      });
+      return;
+    }
+
+    try {
+      const dataUrl = await captureDiagram(format);
+      if (!dataUrl) {
+        postMessage({
+          command: "alert",
+          text: "No flow content to export.",
         });
+        return;
+      }
+
+      postMessage({
+        command: "saveImage",
+        payload: {
+          dataUrl,
+          fileName: `${baseName}.${format}`,
+        },
+      });
+    } catch (error) {
+      console.error("Failed to export image:", error);
+      postMessage({
+        command: "alert",
+        text: "Failed to export image. See console for details.",
+      });
+    }
+  }, [
+    fileName,
+    postMessage,
+    captureDiagram,
+    flowModel,
+    flowPaths,
+    parsedData.metadata,
+  ]);
+
+  // Generate documentation once the requested flow has been parsed and drawn
+  useEffect(() => {
+    if (
+      !pendingDocumentation ||
+      isLoading ||
+      !xmlInput ||
+      parsedData.xmlContent !== xmlInput ||
+      !complexityMetrics
+    ) {
+      return;
+    }
+    const format = pendingDocumentation;
+    setPendingDocumentation(null);
 
+    const generate = async () => {
+      try {
+        // Run the scanner even when scanning is switched off in the toolbar
+        const [diagram, quality] = await Promise.all([
+          captureDiagram("png"),
+          analyzeFlow(xmlInput),
+        ]);
+        const content = generateFlowDocumentation(
+          {
+            flow: parsedData,
+            fileName,
+            complexity: complexityMetrics,
+            violations: quality.violations,
+            diagram,
+          },
+          format
+        );
         postMessage({
-          command: "saveImage",
+          command: "saveText",
           payload: {
-            dataUrl,
-            fileName: `${fileName.replace(".flow-meta.xml", "")}.png`,
+            content,
+            fileName: `${fileName.replace(".flow-meta.xml", "")}.${format === "html" ? "html" : "md"}`,
           },
         });
       } catch (error) {
-        console.error("Failed to export image:", error);
+        console.error("Failed to generate documentation:", error);
         postMessage({
           command: "alert",
-          text: "Failed to export image. See console for details.",
+          text: "Failed to generate flow documentation. See console for details.",
         });
       }
-    } else {
-      postMessage({
-        command: "alert",
-        text: "No flow content to export.",
-      });
-    }
-  }, [isDark, fileName, postMessage, visibleNodes]);
+    };
+    generate();
+  }, [
+    pendingDocumentation,
+    isLoading,
+    xmlInput,
+    parsedData,
+    complexityMetrics,
+    fileName,
+    captureDiagram,
+    postMessage,
+  ]);
 
 
 
@@ -376,6 +719,54 @@ const AppContent: React.FC = () => {
     [selectNode]
   );
 
+  // Show a violation's element: expand the branches hiding it, then pan and
+  // zoom to it. The sidebar stays on the Quality tab.
+  const handleLocateNode = useCallback(
+    (node: FlowNode) => {
+      getCollapsedAncestors(
+        node.id,
+        collapsedNodes,
+        parsedData.nodes,
+        parsedData.edges
+      ).forEach(expand);
+      focusNode(node);
+      selectNode(node);
+    },
+    [
+      collapsedNodes,
+      parsedData.nodes,
+      parsedData.edges,
+      expand,
+      focusNode,
+      selectNode,
+    ]
+  );
+
+  // Highlight the path to an operation inside a loop and show its element
+  const handleRiskSelect = useCallback(
+    (risk: LimitRisk | null) => {
+      selectRisk(risk);
+      if (risk) {
+        clearEdgeSelection();
+        handleLocateNode(risk.node);
+      }
+    },
+    [selectRisk, clearEdgeSelection, handleLocateNode]
+  );
+
+  // Start simulating with the log open, or stop and go back to details
+  const handleToggleSimulation = useCallback(() => {
+    if (isSimulating) {
+      stopSimulation();
+      setSidebarTab((tab) => (tab === "simulation" ? "details" : tab));
+      return;
+    }
+    clearEdgeSelection();
+    startSimulation();
+    setSidebarTab("simulation");
+    setSidebarOpen(true);
+  }, [isSimulating, startSimulation, stopSimulation, clearEdgeSelection]);
+
   return (
     <div
       className={`flex flex-col h-screen w-full overflow-hidden font-sans text-sm transition-colors duration-200
@@ -385,7 +776,14 @@ const AppContent: React.FC = () => {
       <FlowHeader
         metadata={parsedData.metadata}
         fileName={fileName}
+        revision={revision}
         complexity={complexityMetrics}
+        flowPaths={flowPaths}
+        onExportTestPlan={(format) =>
+          handleExport(
+            format === "csv" ? "test-plan-csv" : "test-plan-markdown"
+          )
+        }
         qualityMetrics={qualityMetrics}
         onOpenQualityTab={() => {
           setSidebarTab("quality");
@@ -408,9 +806,37 @@ const AppContent: React.FC = () => {
           selectedNode={selectedNode}
           nodes={parsedData.nodes}
           edges={parsedData.edges}
+          resources={parsedData.resources}
           qualityMetrics={qualityMetrics}
           activeTab={sidebarTab}
           onTabChange={setSidebarTab}
+          selectedReference={selectedReference}
+          referenceUsages={referenceUsages}
+          onReferenceSelect={setSelectedReference}
+          onNodeSelect={handleNodeSelect}
+          onLocateNode={handleLocateNode}
+          flowDiff={flowDiff}
+          simulation={
+            simulation && {
+              simulation,
+              onChooseEdge: chooseEdge,
+              onChooseIterations: chooseIterations,
+              onUndo: undoChoice,
+              onRestart: restartSimulation,
+              onStop: handleToggleSimulation,
+              onNodeSelect: selectNode,
+            }
+          }
+          limits={
+            hasLimitOperations && !flowDiff
+              ? {
+                  analysis: limitAnalysis,
+                  isResolving: isResolvingSubflows,
+                  selectedRisk,
+                  onRiskSelect: handleRiskSelect,
+                }
+              : null
+          }
         />
 
         {/* CANVAS AREA */}
@@ -428,7 +854,22 @@ const AppContent: React.FC = () => {
             onToggleAutoLayout={() => setAutoLayoutEnabled(!autoLayoutEnabled)}
             onToggleAutoOpen={handleToggleAutoOpenPreference}
             onToggleScan={toggleScan}
-            onExportImage={handleExportImage}
+            issuesOnly={issuesOnly}
+            issuesFilterDisabled={violationsByNode.size === 0}
+            onToggleIssuesOnly={() => setShowIssuesOnly((value) => !value)}
+            onExport={handleExport}
+            isSimulating={isSimulating}
+            simulationDisabled={!!flowDiff}
+            onToggleSimulation={handleToggleSimulation}
+          />
+
+          {/* Subflow breadcrumbs */}
+          <BreadcrumbNavigation
+            trail={trail}
+            currentLabel={
+              parsedData.metadata.label || fileName.replace(".flow-meta.xml", "")
+            }
+            onNavigate={handleBreadcrumbNavigate}
           />
 
           {/* Canvas */}
@@ -443,9 +884,16 @@ const AppContent: React.FC = () => {
               nodes={visibleNodes}
               edges={visibleEdges}
               selectedNodeId={selectedNode?.id}
-              highlightedPath={highlightedPath}
+              highlightedPath={
+                simulation
+                  ? simulation.traversedEdges
+                  : selectedRisk
+                    ? riskPath
+                    : highlightedPath
+              }
               onEdgeClick={handleEdgeClick}
               faultLanes={faultLanes}
+              freeForm={isFreeForm}
             />
 
             {/* Nodes - render visible nodes */}
@@ -460,7 +908,14 @@ const AppContent: React.FC = () => {
                 isBranchingNode={branchingNodeIds.has(node.id)}
                 onSelect={handleNodeSelect}
                 onToggleCollapse={toggleCollapse}
-                violations={violationsByElement.get(node.id) || []}
+                issues={violationsByNode.get(node.id)}
+                referenceAccess={referencingNodes.get(node.id)}
+                diffStatus={nodeDiffStatus.get(node.id)}
+                simulationSteps={simulation?.stepNumbers.get(node.id)}
+                isSimulationPending={simulation?.pending?.node.id === node.id}
+                isUnreachable={unreachableNodes.has(node.id)}
+                isDimmed={issuesOnly && !violationsByNode.has(node.id)}
+                onOpenSubflow={flowDiff ? undefined : handleOpenSubflow}
                 onOpenQualityTab={() => {
                   setSidebarTab("quality");
                   setSidebarOpen(true);
@@ -485,12 +940,24 @@ const AppContent: React.FC = () => {
 // ============================================================================
 // MAIN APP COMPONENT WITH PROVIDERS
 // ============================================================================
+
+// Screen chosen by the extension panel hosting this webview
+const WEBVIEW_VIEW = document.getElementById("root")?.dataset.view ?? "flow";
+
 const App: React.FC = () => {
   return (
     <ThemeProvider>
       <CollapseProvider>
         <ErrorBoundary>
-          <AppContent />
+          {WEBVIEW_VIEW === "dependencies" ? (
+            <DependencyGraph />
+          ) : WEBVIEW_VIEW === "automation" ? (
+            <AutomationMap />
+          ) : WEBVIEW_VIEW === "qualityReport" ? (
+            <QualityReport />
+          ) : (
+            <AppContent />
+          )}
         </ErrorBoundary>
       </CollapseProvider>
     </ThemeProvider>
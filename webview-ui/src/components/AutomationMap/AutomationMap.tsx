@@ -0,0 +1,446 @@
+/**
+ * Automation Map Component
+ *
+ * Record-triggered flows on one sObject, laid out in order of execution:
+ * before-save, after-save, then asynchronous and scheduled paths, with
+ * before-delete flows last. Flows are numbered by trigger order, and fields
+ * written by several flows or checked by a later flow's entry conditions
+ * are highlighted to help track down flows interfering with each other.
+ */
+
+import React, { useState, useMemo, useCallback } from "react";
+import {
+  AlertTriangle,
+  ArrowDown,
+  Clock,
+  ExternalLink,
+  Filter,
+  ListOrdered,
+  PenLine,
+  RefreshCw,
+} from "lucide-react";
+import type { ObjectAutomation } from "../../types";
+import { useVSCodeMessaging } from "../../hooks";
+import {
+  getEntryConditionDependencies,
+  getExecutionPhases,
+  getSharedFieldWrites,
+  getTriggerOrderTies,
+  readAutomationFlow,
+} from "../../utils/automationMap";
+import type {
+  AutomationEvent,
+  AutomationFlow,
+  FieldDependency,
+} from "../../utils/automationMap";
+import {
+  formatOperator,
+  formatRecordTriggerType,
+} from "../../utils/formatters";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EVENT_OPTIONS: Array<{
+  value?: AutomationEvent;
+  label: string;
+  /** Completes "…run when a record is" */
+  when?: string;
+}> = [
+  { label: "All events" },
+  { value: "Create", label: "Create", when: "created" },
+  { value: "Update", label: "Update", when: "updated" },
+  { value: "Delete", label: "Delete", when: "deleted" },
+];
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+const EntryCriteria: React.FC<{ flow: AutomationFlow }> = ({ flow }) => {
+  if (flow.filterFormula) {
+    return (
+      <code className="text-xs bg-slate-100 dark:bg-slate-900/50 text-slate-700 dark:text-slate-300 px-2 py-1 rounded font-mono block break-all">
+        {flow.filterFormula}
+      </code>
+    );
+  }
+  if (flow.entryConditions.length === 0) {
+    return (
+      <div className="text-xs text-slate-400 italic">
+        No entry conditions: runs for every record
+      </div>
+    );
+  }
+
+  const logic = flow.filterLogic || "and";
+  return (
+    <div className="text-xs text-slate-600 dark:text-slate-300">
+      {logic !== "and" && (
+        <div className="mb-1 text-slate-500 dark:text-slate-400">
+          Logic:{" "}
+          <code className="bg-slate-200 dark:bg-slate-700 px-1 rounded">
+            {logic === "or" ? "Any condition" : logic}
+          </code>
+        </div>
+      )}
+      <ol className="space-y-0.5">
+        {flow.entryConditions.map((cond, index) => (
+          <li key={index} className="flex gap-1.5 font-mono">
+            <span className="text-slate-400">{index + 1}.</span>
+            <span className="text-blue-600 dark:text-blue-400">{cond.field}</span>
+            <span className="text-slate-500">{formatOperator(cond.operator)}</span>
+            <span className="text-green-600 dark:text-green-400 truncate">
+              {cond.value || <span className="italic text-slate-400">(empty)</span>}
+            </span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+interface AutomationFlowCardProps {
+  flow: AutomationFlow;
+  position: number;
+  isAsyncPhase: boolean;
+  sharesTriggerOrder: boolean;
+  sharedWrites: Map<string, AutomationFlow[]>;
+  dependencies: FieldDependency[];
+  onOpen: (flow: AutomationFlow) => void;
+}
+
+const AutomationFlowCard: React.FC<AutomationFlowCardProps> = ({
+  flow,
+  position,
+  isAsyncPhase,
+  sharesTriggerOrder,
+  sharedWrites,
+  dependencies,
+  onOpen,
+}) => (
+  <div
+    className={`flex gap-3 rounded-lg border bg-white dark:bg-slate-800 p-3 shadow-sm
+      ${flow.isActive
+        ? "border-slate-200 dark:border-slate-600"
+        : "border-dashed border-slate-300 dark:border-slate-600 opacity-60"}`}
+  >
+    <div className="flex-shrink-0 w-7 h-7 rounded-full bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300 flex items-center justify-center text-xs font-bold">
+      {position}
+    </div>
+
+    <div className="flex-1 min-w-0 space-y-2">
+      {/* Title and badges */}
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => onOpen(flow)}
+          className="font-semibold text-slate-800 dark:text-slate-100 hover:text-blue-600 dark:hover:text-blue-400 hover:underline truncate"
+          title="Open the flow"
+        >
+          {flow.label}
+        </button>
+        <span className="text-[11px] text-slate-400">{flow.name}</span>
+        <span
+          className={`text-[11px] px-1.5 py-0.5 rounded
+            ${sharesTriggerOrder
+              ? "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400"
+              : "bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300"}`}
+          title={
+            sharesTriggerOrder
+              ? "Another flow in this phase has the same trigger order; API names decide which runs first"
+              : flow.triggerOrder === undefined
+                ? "No trigger order: runs after orders 1-1000 and before 1001-2000, in the order flows were created"
+                : undefined
+          }
+        >
+          {flow.triggerOrder === undefined
+            ? "No trigger order"
+            : `Order ${flow.triggerOrder}`}
+        </span>
+        {!flow.isActive && (
+          <span className="text-[11px] px-1.5 py-0.5 rounded bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300">
+            {flow.status} · does not run
+          </span>
+        )}
+        <div className="flex-1" />
+        <button
+          onClick={() => onOpen(flow)}
+          className="p-1 hover:bg-slate-100 dark:hover:bg-slate-700 rounded"
+          title="Open the flow"
+        >
+          <ExternalLink size={14} className="text-slate-500" />
+        </button>
+      </div>
+
+      <div className="text-xs text-slate-500 dark:text-slate-400">
+        {formatRecordTriggerType(flow.recordTriggerType)}
+        {flow.requiresRecordChange &&
+          " · only when the record changes to meet the conditions"}
+      </div>
+
+      {isAsyncPhase ? (
+        <ul className="space-y-1">
+          {flow.scheduledPaths.map((path) => (
+            <li
+              key={path.name || path.label}
+              className="flex items-center gap-1.5 text-xs text-slate-600 dark:text-slate-300"
+            >
+              <Clock size={12} className="text-slate-400" />
+              {path.label}
+              {path.timeOffset !== undefined && (
+                <span className="text-slate-400">
+                  ({path.timeOffset} {path.timeOffsetUnit})
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <>
+          <div className="flex gap-1.5">
+            <Filter size={12} className="mt-0.5 flex-shrink-0 text-slate-400" />
+            <div className="flex-1 min-w-0">
+              <EntryCriteria flow={flow} />
+            </div>
+          </div>
+
+          {dependencies.map((dependency) => (
+            <div
+              key={dependency.field}
+              className="flex items-start gap-1.5 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 px-2 py-1 rounded"
+            >
+              <AlertTriangle size={12} className="mt-0.5 flex-shrink-0" />
+              <span>
+                Entry condition on <code>{dependency.field}</code> depends on{" "}
+                {dependency.writtenBy.map((other) => other.label).join(", ")},
+                which run{dependency.writtenBy.length === 1 ? "s" : ""} earlier
+              </span>
+            </div>
+          ))}
+
+          {flow.fieldWrites.length > 0 && (
+            <div className="flex flex-wrap items-center gap-1">
+              <PenLine size={12} className="text-slate-400" />
+              {flow.fieldWrites.map((field) => {
+                const writers = sharedWrites.get(field);
+                const others = writers?.filter((other) => other !== flow);
+                return (
+                  <span
+                    key={field}
+                    className={`text-[11px] font-mono px-1.5 py-0.5 rounded
+                      ${others
+                        ? "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400"
+                        : "bg-slate-100 text-slate-600 dark:bg-slate-700 dark:text-slate-300"}`}
+                    title={
+                      others
+                        ? `Also written by ${others.map((other) => other.label).join(", ")}`
+                        : undefined
+                    }
+                  >
+                    {field}
+                  </span>
+                );
+              })}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  </div>
+);
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export const AutomationMap: React.FC = () => {
+  const [automation, setAutomation] = useState<ObjectAutomation | null>(null);
+  const [event, setEvent] = useState<AutomationEvent | undefined>();
+  const [showInactive, setShowInactive] = useState(false);
+
+  const handleLoadAutomation = useCallback((loaded: ObjectAutomation) => {
+    setAutomation(loaded);
+  }, []);
+
+  const { postMessage } = useVSCodeMessaging({
+    onLoadAutomation: handleLoadAutomation,
+  });
+
+  // Parse every flow's START node once per scan
+  const flows = useMemo(
+    () =>
+      (automation?.flows ?? [])
+        .map(readAutomationFlow)
+        .filter((flow): flow is AutomationFlow => flow !== null),
+    [automation]
+  );
+
+  const visibleFlows = useMemo(
+    () => flows.filter((flow) => showInactive || flow.isActive),
+    [flows, showInactive]
+  );
+  const phases = useMemo(
+    () => getExecutionPhases(visibleFlows, event),
+    [visibleFlows, event]
+  );
+
+  // Interference is only possible between flows that actually run
+  const activeInPhases = useMemo(
+    () => [
+      ...new Set(
+        phases.flatMap((phase) => phase.flows).filter((flow) => flow.isActive)
+      ),
+    ],
+    [phases]
+  );
+  const sharedWrites = useMemo(
+    () => getSharedFieldWrites(activeInPhases),
+    [activeInPhases]
+  );
+  // Before-save then after-save: the flows of one save, in order
+  const saveOrder = useMemo(
+    () =>
+      phases
+        .filter((phase) => phase.id === "beforeSave" || phase.id === "afterSave")
+        .flatMap((phase) => phase.flows)
+        .filter((flow) => flow.isActive),
+    [phases]
+  );
+
+  const handleOpen = useCallback(
+    (flow: AutomationFlow) => {
+      postMessage({ command: "openFlow", payload: { filePath: flow.filePath } });
+    },
+    [postMessage]
+  );
+
+  if (!automation) {
+    return (
+      <div className="flex h-screen items-center justify-center text-sm text-slate-500 dark:text-slate-400 bg-slate-50 dark:bg-slate-900">
+        Finding record-triggered flows…
+      </div>
+    );
+  }
+
+  const inactiveCount = flows.filter((flow) => !flow.isActive).length;
+  const eventWhen = EVENT_OPTIONS.find((option) => option.value === event)?.when;
+
+  return (
+    <div className="flex flex-col h-screen w-full overflow-hidden font-sans text-sm bg-slate-100 dark:bg-slate-900">
+      {/* HEADER */}
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700">
+        <ListOrdered size={18} className="text-blue-500" />
+        <div className="font-semibold text-slate-800 dark:text-slate-100">
+          {automation.object} Record-Triggered Automation
+        </div>
+        <div className="text-xs text-slate-500 dark:text-slate-400">
+          {flows.length - inactiveCount} active
+          {inactiveCount > 0 && ` · ${inactiveCount} inactive`}
+        </div>
+        {sharedWrites.size > 0 && (
+          <div
+            className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400"
+            title={[...sharedWrites.keys()].join(", ")}
+          >
+            <AlertTriangle size={12} />
+            {sharedWrites.size} field{sharedWrites.size > 1 ? "s" : ""} written
+            by several flows
+          </div>
+        )}
+        <div className="flex-1" />
+        <div className="flex rounded-md border border-slate-200 dark:border-slate-600 overflow-hidden">
+          {EVENT_OPTIONS.map((option) => (
+            <button
+              key={option.label}
+              onClick={() => setEvent(option.value)}
+              className={`px-2.5 py-1 text-xs
+                ${event === option.value
+                  ? "bg-blue-500 text-white"
+                  : "text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1.5 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showInactive}
+            onChange={(e) => setShowInactive(e.target.checked)}
+          />
+          Show inactive flows
+        </label>
+        <button
+          onClick={() => postMessage({ command: "refreshAutomation" })}
+          className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md"
+          title="Rescan workspace"
+        >
+          <RefreshCw size={16} className="text-slate-600 dark:text-slate-300" />
+        </button>
+      </div>
+
+      {/* ORDER OF EXECUTION */}
+      <div className="flex-1 overflow-y-auto">
+        <div className="max-w-4xl mx-auto p-4 space-y-3">
+          {phases.length === 0 && (
+            <div className="text-center text-slate-500 dark:text-slate-400 py-12">
+              No {showInactive ? "" : "active "}record-triggered flows on{" "}
+              {automation.object}
+              {eventWhen && ` run when a record is ${eventWhen}`}.
+            </div>
+          )}
+
+          {phases.map((phase) => {
+            const ties = getTriggerOrderTies(phase);
+            return (
+              <React.Fragment key={phase.id}>
+                {phase.precededBy && (
+                  <div className="flex items-center gap-2 text-xs text-slate-400 dark:text-slate-500 py-1">
+                    <ArrowDown size={12} className="flex-shrink-0" />
+                    <span className="italic">{phase.precededBy}</span>
+                  </div>
+                )}
+                <section className="rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/40 p-3">
+                  <div className="mb-3">
+                    <div className="flex items-center gap-2">
+                      <h2 className="font-semibold text-slate-800 dark:text-slate-100">
+                        {phase.title}
+                      </h2>
+                      <span className="text-xs text-slate-400">
+                        {phase.flows.length} flow{phase.flows.length > 1 ? "s" : ""}
+                      </span>
+                    </div>
+                    <div className="text-xs text-slate-500 dark:text-slate-400">
+                      {phase.description}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    {phase.flows.map((flow, index) => (
+                      <AutomationFlowCard
+                        key={flow.name}
+                        flow={flow}
+                        position={index + 1}
+                        isAsyncPhase={phase.id === "asyncPaths"}
+                        sharesTriggerOrder={ties.has(flow.name)}
+                        sharedWrites={sharedWrites}
+                        dependencies={
+                          flow.isActive && saveOrder.includes(flow)
+                            ? getEntryConditionDependencies(saveOrder, flow)
+                            : []
+                        }
+                        onOpen={handleOpen}
+                      />
+                    ))}
+                  </div>
+                </section>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AutomationMap;
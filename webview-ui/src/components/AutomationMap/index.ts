@@ -0,0 +1,5 @@
+/**
+ * Automation Map Component Exports
+ */
+
+export { AutomationMap } from "./AutomationMap";
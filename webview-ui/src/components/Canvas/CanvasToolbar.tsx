@@ -1,8 +1,8 @@
 /**
  * Canvas Toolbar Component
  *
- * Provides zoom controls, auto-layout toggle, theme toggle, and fit-to-view
- * for the flow canvas.
+ * Provides zoom controls, auto-layout toggle, theme toggle, simulate toggle,
+ * and fit-to-view for the flow canvas.
  */
 
 import React from "react";
@@ -21,11 +21,45 @@ import {
   EyeOff,
   Workflow,
   ShieldCheck,
+  Filter,
   Download,
+  FileImage,
+  FileCode,
+  FileText,
+  Network,
+  Footprints,
+  FileSpreadsheet,
+  ListChecks,
 } from "lucide-react";
 import { useTheme } from "../../context";
 import { Tooltip } from "../Tooltip";
 
+/** Formats offered by the toolbar's export menu */
+export type ExportFormat =
+  | "png"
+  | "svg"
+  | "mermaid"
+  | "plantuml"
+  | "test-plan-markdown"
+  | "test-plan-csv";
+
+const EXPORT_OPTIONS: Array<{
+  format: ExportFormat;
+  label: string;
+  icon: React.ElementType;
+}> = [
+  { format: "png", label: "PNG Image", icon: FileImage },
+  { format: "svg", label: "SVG Vector", icon: FileCode },
+  { format: "mermaid", label: "Mermaid", icon: Network },
+  { format: "plantuml", label: "PlantUML", icon: FileText },
+  {
+    format: "test-plan-markdown",
+    label: "Test Plan (Markdown)",
+    icon: ListChecks,
+  },
+  { format: "test-plan-csv", label: "Test Plan (CSV)", icon: FileSpreadsheet },
+];
+
 export interface CanvasToolbarProps {
   scale: number;
   autoLayoutEnabled: boolean;
@@ -39,7 +73,16 @@ export interface CanvasToolbarProps {
   scanEnabled: boolean;
 
   onToggleScan: () => void;
-  onExportImage: () => void;
+  /** Dim every node without scanner violations */
+  issuesOnly: boolean;
+  /** The issues filter is unavailable, e.g. no violations are on the canvas */
+  issuesFilterDisabled?: boolean;
+  onToggleIssuesOnly: () => void;
+  onExport: (format: ExportFormat) => void;
+  isSimulating: boolean;
+  /** Simulate mode is unavailable, e.g. while comparing versions */
+  simulationDisabled?: boolean;
+  onToggleSimulation: () => void;
 }
 
 export const CanvasToolbar: React.FC<CanvasToolbarProps> = ({
@@ -54,10 +97,17 @@ export const CanvasToolbar: React.FC<CanvasToolbarProps> = ({
   onToggleAutoLayout,
   onToggleAutoOpen,
   onToggleScan,
-  onExportImage,
+  issuesOnly,
+  issuesFilterDisabled = false,
+  onToggleIssuesOnly,
+  onExport,
+  isSimulating,
+  simulationDisabled = false,
+  onToggleSimulation,
 }) => {
   const { isDark, toggleTheme, animateFlow, toggleAnimation } = useTheme();
   const [showShortcuts, setShowShortcuts] = React.useState(false);
+  const [showExportMenu, setShowExportMenu] = React.useState(false);
 
   return (
     <>
@@ -96,14 +146,38 @@ export const CanvasToolbar: React.FC<CanvasToolbarProps> = ({
           </button>
         </Tooltip>
         <div className="w-px h-5 bg-slate-200 dark:bg-slate-600 mx-0.5"></div>
-        <Tooltip content="Export as Image">
-          <button
-            onClick={onExportImage}
-            className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md transition-colors"
-          >
-            <Download size={16} className="text-slate-600 dark:text-slate-300" />
-          </button>
-        </Tooltip>
+        <div
+          className="relative"
+          onMouseLeave={() => setShowExportMenu(false)}
+        >
+          <Tooltip content="Export">
+            <button
+              onClick={() => setShowExportMenu(!showExportMenu)}
+              className={`p-1.5 rounded-md transition-colors ${showExportMenu ? "bg-slate-100 dark:bg-slate-700" : "hover:bg-slate-100 dark:hover:bg-slate-700"}`}
+            >
+              <Download size={16} className="text-slate-600 dark:text-slate-300" />
+            </button>
+          </Tooltip>
+          {showExportMenu && (
+            <div className="absolute top-full left-1/2 -translate-x-1/2 pt-1 z-20">
+              <div className="bg-white dark:bg-slate-800 rounded-lg shadow-lg border border-slate-200 dark:border-slate-700 py-1 min-w-[140px]">
+                {EXPORT_OPTIONS.map(({ format, label, icon: Icon }) => (
+                  <button
+                    key={format}
+                    onClick={() => {
+                      setShowExportMenu(false);
+                      onExport(format);
+                    }}
+                    className="w-full px-3 py-1.5 flex items-center gap-2 text-xs text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors whitespace-nowrap"
+                  >
+                    <Icon size={14} className="text-slate-500 dark:text-slate-400" />
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
         <div className="w-px h-5 bg-slate-200 dark:bg-slate-600 mx-0.5"></div>
         <Tooltip content="Toggle Quality Scan">
           <button
@@ -119,6 +193,52 @@ export const CanvasToolbar: React.FC<CanvasToolbarProps> = ({
             <span className="hidden md:inline">Scan</span>
           </button>
         </Tooltip>
+        <Tooltip
+          content={
+            issuesFilterDisabled
+              ? "No scanner issues on the canvas"
+              : issuesOnly
+                ? "Show All Nodes"
+                : "Show Only Nodes with Issues"
+          }
+        >
+          <button
+            onClick={onToggleIssuesOnly}
+            disabled={issuesFilterDisabled}
+            className={`px-2 py-1.5 rounded-md flex items-center gap-1.5 text-xs font-medium transition-colors whitespace-nowrap disabled:opacity-40
+            ${
+              issuesOnly && !issuesFilterDisabled
+                ? "bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300"
+                : "hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300"
+            }`}
+          >
+            <Filter size={14} className="flex-shrink-0" />
+            <span className="hidden md:inline">Issues</span>
+          </button>
+        </Tooltip>
+        <Tooltip
+          content={
+            simulationDisabled
+              ? "Simulate is unavailable while comparing versions"
+              : isSimulating
+                ? "Stop Simulating"
+                : "Simulate a Path"
+          }
+        >
+          <button
+            onClick={onToggleSimulation}
+            disabled={simulationDisabled}
+            className={`px-2 py-1.5 rounded-md flex items-center gap-1.5 text-xs font-medium transition-colors whitespace-nowrap disabled:opacity-40
+            ${
+              isSimulating
+                ? "bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300"
+                : "hover:bg-slate-100 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300"
+            }`}
+          >
+            <Footprints size={14} className="flex-shrink-0" />
+            <span className="hidden md:inline">Simulate</span>
+          </button>
+        </Tooltip>
         <Tooltip content="Auto-Layout">
           <button
             onClick={onToggleAutoLayout}
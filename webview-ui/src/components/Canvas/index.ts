@@ -8,7 +8,7 @@ export { FlowCanvas } from "./FlowCanvas";
 export type { FlowCanvasProps } from "./FlowCanvas";
 
 export { CanvasToolbar } from "./CanvasToolbar";
-export type { CanvasToolbarProps } from "./CanvasToolbar";
+export type { CanvasToolbarProps, ExportFormat } from "./CanvasToolbar";
 
 export { Minimap } from "./Minimap";
 export type { MinimapProps } from "./Minimap";
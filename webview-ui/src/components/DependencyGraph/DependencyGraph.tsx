@@ -0,0 +1,529 @@
+/**
+ * Dependency Graph Component
+ *
+ * Workspace call graph between flows (Subflow elements and flow Action
+ * calls). Selecting a flow lists who calls it and what it calls; call
+ * cycles are outlined in red.
+ */
+
+import React, { useState, useMemo, useCallback, useEffect, useRef } from "react";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  ArrowRight,
+  ExternalLink,
+  Maximize,
+  Network,
+  RefreshCw,
+  Search,
+} from "lucide-react";
+import type { FlowDependencyGraph, FlowDependencyNode } from "../../types";
+import { useVSCodeMessaging, useCanvasInteraction } from "../../hooks";
+import type { BoundingBox } from "../../hooks/useCanvasInteraction";
+import { FlowCanvas } from "../Canvas";
+import {
+  getCallees,
+  getCallers,
+  getDependencyEdgePath,
+  getDependencyEdges,
+  layoutDependencyGraph,
+} from "../../utils/dependencyGraph";
+import type { FlowLink, PositionedFlow } from "../../utils/dependencyGraph";
+import { getProcessTypeLabel } from "../../utils/formatters";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EDGE_COLORS = {
+  default: "#94a3b8",
+  selected: "#3b82f6",
+  cycle: "#ef4444",
+};
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+interface FlowLinkListProps {
+  title: string;
+  icon: React.ReactNode;
+  links: FlowLink[];
+  emptyText: string;
+  onSelect: (name: string) => void;
+}
+
+const FlowLinkList: React.FC<FlowLinkListProps> = ({
+  title,
+  icon,
+  links,
+  emptyText,
+  onSelect,
+}) => (
+  <div>
+    <div className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400 mb-2">
+      {icon}
+      {title} ({links.length})
+    </div>
+    {links.length === 0 ? (
+      <div className="text-xs text-slate-400 italic">{emptyText}</div>
+    ) : (
+      <ul className="space-y-1.5">
+        {links.map((link) => (
+          <li key={link.name}>
+            <button
+              onClick={() => onSelect(link.name)}
+              className="w-full text-left px-2 py-1.5 rounded-md hover:bg-slate-100 dark:hover:bg-slate-700"
+            >
+              <div className="text-sm text-blue-600 dark:text-blue-400 truncate">
+                {link.flow?.label || link.name}
+              </div>
+              <div className="text-[11px] text-slate-500 dark:text-slate-400 truncate">
+                {link.calls
+                  .map(
+                    (call) =>
+                      `${call.elementLabel} (${call.kind === "action" ? "Action" : "Subflow"})`
+                  )
+                  .join(", ")}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+interface DependencyNodeCardProps {
+  node: PositionedFlow;
+  isSelected: boolean;
+  isDimmed: boolean;
+  inCycle: boolean;
+  onSelect: (name: string) => void;
+  onOpen: (flow: FlowDependencyNode) => void;
+}
+
+const DependencyNodeCard: React.FC<DependencyNodeCardProps> = ({
+  node,
+  isSelected,
+  isDimmed,
+  inCycle,
+  onSelect,
+  onOpen,
+}) => {
+  const { flow } = node;
+  const isExternal = !flow.filePath;
+
+  return (
+    <div
+      className={`flow-node absolute rounded-lg border bg-white dark:bg-slate-800 px-3 py-2 cursor-pointer shadow-sm transition-all
+        ${isSelected
+          ? "border-blue-500 ring-2 ring-blue-200 dark:ring-blue-900 shadow-lg"
+          : inCycle
+            ? "border-red-400 ring-2 ring-red-100 dark:ring-red-900/50"
+            : isExternal
+              ? "border-dashed border-slate-300 dark:border-slate-600"
+              : "border-slate-200 dark:border-slate-600 hover:shadow-md"}
+        ${isDimmed ? "opacity-40" : ""}`}
+      style={{
+        left: node.x,
+        top: node.y,
+        width: node.width,
+        height: node.height,
+      }}
+      onClick={(e) => {
+        e.stopPropagation();
+        onSelect(flow.name);
+      }}
+      onDoubleClick={(e) => {
+        e.stopPropagation();
+        onOpen(flow);
+      }}
+      title={
+        isExternal
+          ? `${flow.name} is not in this workspace`
+          : "Double-click to open the flow"
+      }
+    >
+      <div className="text-sm font-semibold text-slate-800 dark:text-slate-100 truncate">
+        {flow.label}
+      </div>
+      <div className="text-[11px] text-slate-500 dark:text-slate-400 truncate">
+        {isExternal
+          ? "Not in workspace"
+          : `${getProcessTypeLabel(flow.processType)}${flow.status ? ` · ${flow.status}` : ""}`}
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export const DependencyGraph: React.FC = () => {
+  const [graph, setGraph] = useState<FlowDependencyGraph | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [showUnconnected, setShowUnconnected] = useState(false);
+  // Fit the graph to the view after a scan or when the visible set changes
+  const shouldFit = useRef(false);
+
+  const handleLoadDependencies = useCallback(
+    (newGraph: FlowDependencyGraph, flowName?: string) => {
+      setGraph(newGraph);
+      setSelected((current) => flowName ?? current);
+      shouldFit.current = true;
+    },
+    []
+  );
+
+  const toggleUnconnected = useCallback((show: boolean) => {
+    setShowUnconnected(show);
+    shouldFit.current = true;
+  }, []);
+
+  const { postMessage } = useVSCodeMessaging({
+    onLoadDependencies: handleLoadDependencies,
+  });
+
+  const edges = useMemo(
+    () => (graph ? getDependencyEdges(graph) : []),
+    [graph]
+  );
+
+  const cycleMembers = useMemo(
+    () => new Set(graph?.cycles.flat() ?? []),
+    [graph]
+  );
+
+  // Flows without calls in either direction are hidden unless asked for
+  const layout = useMemo(() => {
+    if (!graph) return null;
+    const linked = new Set(edges.flatMap((edge) => [edge.source, edge.target]));
+    const flows = graph.flows.filter(
+      (flow) =>
+        showUnconnected || linked.has(flow.name) || flow.name === selected
+    );
+    return layoutDependencyGraph(flows, edges);
+  }, [graph, edges, showUnconnected, selected]);
+
+  const positions = useMemo(
+    () =>
+      new Map(layout?.nodes.map((node) => [node.flow.name, node]) ?? []),
+    [layout]
+  );
+
+  const callers = useMemo(
+    () => (graph && selected ? getCallers(graph, selected) : []),
+    [graph, selected]
+  );
+  const callees = useMemo(
+    () => (graph && selected ? getCallees(graph, selected) : []),
+    [graph, selected]
+  );
+  const relatedNames = useMemo(
+    () =>
+      new Set([
+        ...callers.map((link) => link.name),
+        ...callees.map((link) => link.name),
+      ]),
+    [callers, callees]
+  );
+  const selectedFlow = graph?.flows.find((flow) => flow.name === selected);
+
+  // Canvas pan and zoom
+  const getNodeBounds = useCallback((): BoundingBox | null => {
+    if (!layout || layout.nodes.length === 0) return null;
+    const minX = Math.min(...layout.nodes.map((node) => node.x));
+    const minY = Math.min(...layout.nodes.map((node) => node.y));
+    const maxX = Math.max(...layout.nodes.map((node) => node.x + node.width));
+    const maxY = Math.max(...layout.nodes.map((node) => node.y + node.height));
+    return { minX, minY, maxX, maxY, width: maxX - minX, height: maxY - minY };
+  }, [layout]);
+
+  const { state, onMouseDown, onWheel, fitToView, setNodeBoundsGetter } =
+    useCanvasInteraction();
+
+  useEffect(() => {
+    setNodeBoundsGetter(getNodeBounds);
+  }, [setNodeBoundsGetter, getNodeBounds]);
+
+  useEffect(() => {
+    if (shouldFit.current && layout && layout.nodes.length > 0) {
+      fitToView();
+      shouldFit.current = false;
+    }
+  }, [layout, fitToView]);
+
+  const handleOpen = useCallback(
+    (flow: FlowDependencyNode) => {
+      if (flow.filePath) {
+        postMessage({
+          command: "openFlow",
+          payload: { filePath: flow.filePath },
+        });
+      }
+    },
+    [postMessage]
+  );
+
+  const searchResults = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    if (!graph || !query) return [];
+    return graph.flows.filter(
+      (flow) =>
+        flow.name.toLowerCase().includes(query) ||
+        flow.label.toLowerCase().includes(query)
+    );
+  }, [graph, search]);
+
+  if (!graph || !layout) {
+    return (
+      <div className="flex h-screen items-center justify-center text-sm text-slate-500 dark:text-slate-400 bg-slate-50 dark:bg-slate-900">
+        Analyzing flow dependencies…
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-screen w-full overflow-hidden font-sans text-sm bg-slate-100 dark:bg-slate-900">
+      {/* HEADER */}
+      <div className="flex items-center gap-3 px-4 py-2 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700">
+        <Network size={18} className="text-blue-500" />
+        <div className="font-semibold text-slate-800 dark:text-slate-100">
+          Flow Dependencies
+        </div>
+        <div className="text-xs text-slate-500 dark:text-slate-400">
+          {graph.flows.length} flows · {edges.length} calls
+        </div>
+        {graph.cycles.length > 0 && (
+          <div className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400">
+            <AlertTriangle size={12} />
+            {graph.cycles.length} cycle{graph.cycles.length > 1 ? "s" : ""}
+          </div>
+        )}
+        <div className="flex-1" />
+        <label className="flex items-center gap-1.5 text-xs text-slate-600 dark:text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showUnconnected}
+            onChange={(e) => toggleUnconnected(e.target.checked)}
+          />
+          Show unconnected flows
+        </label>
+        <button
+          onClick={fitToView}
+          className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md"
+          title="Fit to view"
+        >
+          <Maximize size={16} className="text-slate-600 dark:text-slate-300" />
+        </button>
+        <button
+          onClick={() => postMessage({ command: "refreshDependencies" })}
+          className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md"
+          title="Rescan workspace"
+        >
+          <RefreshCw size={16} className="text-slate-600 dark:text-slate-300" />
+        </button>
+      </div>
+
+      <div className="flex flex-1 overflow-hidden">
+        {/* CANVAS */}
+        <div className="flex-1 relative overflow-hidden">
+          {layout.nodes.length === 0 ? (
+            <div className="absolute inset-0 flex items-center justify-center text-slate-500 dark:text-slate-400">
+              No flow in this workspace calls another flow.
+            </div>
+          ) : (
+            <FlowCanvas
+              pan={state.pan}
+              scale={state.scale}
+              onMouseDown={onMouseDown}
+              onWheel={onWheel}
+            >
+              <svg
+                className="absolute top-0 left-0 overflow-visible pointer-events-none"
+                width="1"
+                height="1"
+              >
+                <defs>
+                  {Object.entries(EDGE_COLORS).map(([key, color]) => (
+                    <marker
+                      key={key}
+                      id={`dependency-arrow-${key}`}
+                      viewBox="0 0 10 10"
+                      refX="9"
+                      refY="5"
+                      markerWidth="7"
+                      markerHeight="7"
+                      orient="auto"
+                    >
+                      <path d="M 0 0 L 10 5 L 0 10 z" fill={color} />
+                    </marker>
+                  ))}
+                </defs>
+                {layout.edges.map((edge) => {
+                  const source = positions.get(edge.source);
+                  const target = positions.get(edge.target);
+                  if (!source || !target) return null;
+                  const isSelected =
+                    edge.source === selected || edge.target === selected;
+                  const color = isSelected
+                    ? "selected"
+                    : edge.inCycle
+                      ? "cycle"
+                      : "default";
+                  // Dashed when the flow is only started from Action elements
+                  const isActionCall = edge.calls.every(
+                    (call) => call.kind === "action"
+                  );
+                  return (
+                    <path
+                      key={edge.id}
+                      d={getDependencyEdgePath(source, target)}
+                      fill="none"
+                      stroke={EDGE_COLORS[color]}
+                      strokeWidth={isSelected ? 2.5 : 1.5}
+                      strokeDasharray={isActionCall ? "6 4" : undefined}
+                      opacity={selected && !isSelected ? 0.3 : 1}
+                      markerEnd={`url(#dependency-arrow-${color})`}
+                    />
+                  );
+                })}
+              </svg>
+
+              {layout.nodes.map((node) => (
+                <DependencyNodeCard
+                  key={node.flow.name}
+                  node={node}
+                  isSelected={node.flow.name === selected}
+                  isDimmed={
+                    !!selected &&
+                    node.flow.name !== selected &&
+                    !relatedNames.has(node.flow.name)
+                  }
+                  inCycle={cycleMembers.has(node.flow.name)}
+                  onSelect={setSelected}
+                  onOpen={handleOpen}
+                />
+              ))}
+            </FlowCanvas>
+          )}
+        </div>
+
+        {/* DETAILS PANEL */}
+        <div className="w-80 flex-shrink-0 overflow-y-auto bg-white dark:bg-slate-800 border-l border-slate-200 dark:border-slate-700 p-4 space-y-5">
+          {/* Search */}
+          <div>
+            <div className="relative">
+              <Search size={14} className="absolute left-2 top-1/2 -translate-y-1/2 text-slate-400" />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Find a flow…"
+                className="w-full pl-7 pr-2 py-1.5 text-sm rounded-md border border-slate-200 dark:border-slate-600 bg-transparent text-slate-800 dark:text-slate-100"
+              />
+            </div>
+            {searchResults.length > 0 && (
+              <ul className="mt-1 max-h-48 overflow-y-auto border border-slate-200 dark:border-slate-700 rounded-md">
+                {searchResults.map((flow) => (
+                  <li key={flow.name}>
+                    <button
+                      onClick={() => {
+                        setSelected(flow.name);
+                        setSearch("");
+                      }}
+                      className="w-full text-left px-2 py-1 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 truncate"
+                    >
+                      {flow.label}
+                      <span className="ml-1 text-[11px] text-slate-400">{flow.name}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {selectedFlow ? (
+            <>
+              <div>
+                <div className="text-base font-semibold text-slate-800 dark:text-slate-100">
+                  {selectedFlow.label}
+                </div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">
+                  {selectedFlow.name}
+                </div>
+                {selectedFlow.filePath ? (
+                  <button
+                    onClick={() => handleOpen(selectedFlow)}
+                    className="mt-2 flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                  >
+                    <ExternalLink size={12} />
+                    Open flow
+                  </button>
+                ) : (
+                  <div className="mt-2 text-xs text-slate-400 italic">
+                    Not in this workspace (installed package or another project)
+                  </div>
+                )}
+              </div>
+              <FlowLinkList
+                title="Called by"
+                icon={<ArrowLeft size={12} />}
+                links={callers}
+                emptyText="No flow in this workspace calls this flow."
+                onSelect={setSelected}
+              />
+              <FlowLinkList
+                title="Calls"
+                icon={<ArrowRight size={12} />}
+                links={callees}
+                emptyText="This flow does not call other flows."
+                onSelect={setSelected}
+              />
+            </>
+          ) : (
+            <div className="text-xs text-slate-500 dark:text-slate-400">
+              Select a flow to see which flows call it and which flows it
+              calls. Dashed connectors are flow Action calls; solid ones are
+              Subflow elements.
+            </div>
+          )}
+
+          {/* Cycles */}
+          {graph.cycles.length > 0 && (
+            <div>
+              <div className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-red-600 dark:text-red-400 mb-2">
+                <AlertTriangle size={12} />
+                Call Cycles ({graph.cycles.length})
+              </div>
+              <ul className="space-y-2">
+                {graph.cycles.map((cycle) => (
+                  <li
+                    key={cycle.join(">")}
+                    className="text-xs text-slate-600 dark:text-slate-300 bg-red-50 dark:bg-red-900/20 rounded-md px-2 py-1.5"
+                  >
+                    {[...cycle, cycle[0]].map((name, index) => (
+                      <React.Fragment key={`${name}-${index}`}>
+                        {index > 0 && " → "}
+                        <button
+                          onClick={() => setSelected(name)}
+                          className="text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          {name}
+                        </button>
+                      </React.Fragment>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DependencyGraph;
@@ -0,0 +1,5 @@
+/**
+ * Dependency Graph Component Exports
+ */
+
+export { DependencyGraph } from "./DependencyGraph";
@@ -12,6 +12,7 @@ import {
   // GRID_H_GAP,
   CONNECTOR_COLORS,
   CONNECTOR_WIDTHS,
+  DIFF_CONNECTOR_STYLES,
 } from "../../constants";
 import {
   getBranchEdgesForNode,
@@ -266,15 +267,24 @@ export const BranchLines: React.FC<BranchLinesProps> = ({
         isPathHighlighted ||
         branchHighlighted ||
         edge.target === selectedNodeId;
-      const dropStrokeColor = dropHighlighted
-        ? CONNECTOR_COLORS.highlight
-        : CONNECTOR_COLORS.default;
       const dropStrokeWidth = dropHighlighted
         ? CONNECTOR_WIDTHS.highlight
         : CONNECTOR_WIDTHS.default;
-      const dropMarker = dropHighlighted
-        ? "url(#arrow-highlight)"
-        : "url(#arrow)";
+      // Compare mode: colour changed connectors unless they are highlighted
+      const dropDiff =
+        edge.diffStatus && edge.diffStatus !== "unchanged" && !dropHighlighted
+          ? DIFF_CONNECTOR_STYLES[edge.diffStatus]
+          : null;
+      const dropStrokeColor = dropDiff
+        ? dropDiff.color
+        : dropHighlighted
+          ? CONNECTOR_COLORS.highlight
+          : CONNECTOR_COLORS.default;
+      const dropMarker = dropDiff
+        ? dropDiff.marker
+        : dropHighlighted
+          ? "url(#arrow-highlight)"
+          : "url(#arrow)";
 
       // Use horizontal-first strategy for LOOP "For Each" branches and START scheduled paths
       // This prevents the unnecessary vertical drop when branches spread horizontally
@@ -308,6 +318,7 @@ export const BranchLines: React.FC<BranchLinesProps> = ({
             fill="none"
             stroke={dropStrokeColor}
             strokeWidth={dropStrokeWidth}
+            strokeDasharray={dropDiff?.dasharray}
             markerEnd={dropMarker}
             style={{ pointerEvents: "none" }}
           />
@@ -12,6 +12,7 @@ import type { FlowNode, FlowEdge } from "../../types";
 import {
   CONNECTOR_COLORS,
   CONNECTOR_WIDTHS,
+  DIFF_CONNECTOR_STYLES,
   FAULT_LANE_CLEARANCE,
 } from "../../constants";
 import { ConnectorPathService } from "../../services";
@@ -376,111 +377,22 @@ export const DirectEdges: React.FC<DirectEdgesProps> = ({
     const tgt = nodeMap.get(edge.target);
     if (!src || !tgt) return;
 
-    const srcCenterX = src.x + src.width / 2;
-    const srcBottomY = src.y + src.height;
-    const srcRightX = src.x + src.width;
-    const srcCenterY = src.y + src.height / 2;
-
-    const tgtCenterX = tgt.x + tgt.width / 2;
-    const tgtTopY = tgt.y;
-    const tgtLeftX = tgt.x;
-    const tgtRightX = tgt.x + tgt.width;
-    const tgtCenterY = tgt.y + tgt.height / 2;
-
-    const isFault = edge.type === "fault";
-    const isFaultEnd = edge.type === "fault-end";
-    const isGoTo = edge.isGoTo === true || edge.type === "goto";
-    const isFaultGoTo = isFault && isGoTo;
-    const isLoopBack = !isFault && !isFaultEnd && tgtTopY < srcBottomY;
     const isPathHighlighted = highlightedPath?.has(edge.id) ?? false;
     const isHighlighted =
       isPathHighlighted ||
       (!!selectedNodeId &&
         (edge.source === selectedNodeId || edge.target === selectedNodeId));
 
-    let path: string;
-    let faultLabelX: number | null = null;
-    let faultLabelY: number | null = null;
-    const showAsRed = isFault || isFaultEnd;
-    const showAsBlue = isGoTo && !showAsRed;
-
-    // Get the pre-calculated fault lane info for this edge
-    const faultLaneInfo = calculatedFaultLanes.get(edge.id);
-
-    if (isFaultEnd) {
-      // Straight horizontal line for fault-end (target is at same Y level)
-      path = ConnectorPathService.createStraightPath(
-        { x: srcRightX, y: srcCenterY },
-        { x: tgtLeftX, y: srcCenterY }
-      );
-      faultLabelX = (srcRightX + tgtLeftX) / 2;
-      faultLabelY = srcCenterY - 12;
-    } else if (isFaultGoTo) {
-      // Fault GoTo: use the pre-calculated lane for consistent routing
-      const laneX = faultLaneInfo?.laneX ?? (srcRightX + FAULT_LANE_CLEARANCE);
-      const targetInFaultLane = tgt.x > laneX;
-
-      if (targetInFaultLane) {
-        // Target is to the right of our lane - connect from left
-        path = ConnectorPathService.createFaultGoToPath(
-          { x: srcRightX, y: srcCenterY },
-          { x: tgtLeftX, y: tgtCenterY },
-          { laneX, targetInFaultLane: true }
-        );
-      } else {
-        // Target is to the left of our lane - connect from right
-        path = ConnectorPathService.createFaultGoToPath(
-          { x: srcRightX, y: srcCenterY },
-          { x: tgtRightX, y: tgtCenterY },
-          { laneX, targetInFaultLane: false }
-        );
-      }
-      faultLabelX = (srcRightX + laneX) / 2;
-      faultLabelY = srcCenterY - 12;
-    } else if (isFault) {
-      // Regular fault path: use the pre-calculated lane
-      const laneX = faultLaneInfo?.laneX ?? (srcRightX + FAULT_LANE_CLEARANCE);
-      
-      path = ConnectorPathService.createFaultPath(
-        { x: srcRightX, y: srcCenterY },
-        { x: tgtLeftX, y: tgtCenterY },
-        { laneX }
-      );
-      faultLabelX = (srcRightX + laneX) / 2;
-      faultLabelY = srcCenterY - 12;
-    } else if (isLoopBack) {
-      path = ConnectorPathService.createLoopBackPath(
-        { x: srcCenterX, y: srcBottomY },
-        { x: tgtCenterX, y: tgtTopY }
-      );
-    } else if (Math.abs(tgtCenterX - srcCenterX) < 5) {
-      // Straight vertical line
-      path = ConnectorPathService.createStraightPath(
-        { x: srcCenterX, y: srcBottomY },
-        { x: tgtCenterX, y: tgtTopY }
-      );
-    } else {
-      // Orthogonal routing
-      path = ConnectorPathService.createOrthogonalPath(
-        { x: srcCenterX, y: srcBottomY },
-        { x: tgtCenterX, y: tgtTopY }
-      );
-    }
-
-    // Calculate label position
-    let labelX = (srcCenterX + tgtCenterX) / 2;
-    let labelY = srcBottomY + 20;
-
-    if (faultLabelX !== null && faultLabelY !== null) {
-      labelX = faultLabelX;
-      labelY = faultLabelY;
-    } else if (isLoopBack) {
-      // Position loop-back label on the left side of the loop
-      const minX = Math.min(srcCenterX, tgtCenterX);
-      const offsetX = Math.max(60, Math.abs(srcCenterX - tgtCenterX) / 2 + 50);
-      labelX = minX - offsetX - 10;
-      labelY = (srcBottomY + tgtTopY) / 2;
-    }
+    // Fault connectors use their pre-calculated lane
+    const { path, kind, labelX, labelY } = ConnectorPathService.routeDirectEdge(
+      edge,
+      src,
+      tgt,
+      calculatedFaultLanes.get(edge.id)?.laneX
+    );
+    const showAsRed = kind === "fault";
+    const showAsBlue = kind === "goto";
+    const isLoopBack = kind === "loop-back";
 
     // Determine stroke styling
     let strokeColor = CONNECTOR_COLORS.default;
@@ -511,6 +423,14 @@ export const DirectEdges: React.FC<DirectEdgesProps> = ({
       }
     }
 
+    // Compare mode: colour changed connectors unless they are highlighted
+    if (edge.diffStatus && edge.diffStatus !== "unchanged" && !isHighlighted) {
+      const diffStyle = DIFF_CONNECTOR_STYLES[edge.diffStatus];
+      strokeColor = diffStyle.color;
+      markerEnd = diffStyle.marker;
+      strokeDasharray = diffStyle.dasharray ?? strokeDasharray;
+    }
+
     elements.push(
       <g key={edge.id}>
         {/* Invisible hit area for easier clicking */}
@@ -79,6 +79,42 @@ export const EdgeMarkers: React.FC = () => (
     >
       <polygon points="0 0, 6 2.5, 0 5" fill={CONNECTOR_COLORS.highlight} />
     </marker>
+
+    {/* Compare mode: added connector arrow */}
+    <marker
+      id="arrow-added"
+      markerWidth="6"
+      markerHeight="5"
+      refX="5"
+      refY="2.5"
+      orient="auto"
+    >
+      <polygon points="0 0, 6 2.5, 0 5" fill={CONNECTOR_COLORS.added} />
+    </marker>
+
+    {/* Compare mode: removed connector arrow */}
+    <marker
+      id="arrow-removed"
+      markerWidth="6"
+      markerHeight="5"
+      refX="5"
+      refY="2.5"
+      orient="auto"
+    >
+      <polygon points="0 0, 6 2.5, 0 5" fill={CONNECTOR_COLORS.removed} />
+    </marker>
+
+    {/* Compare mode: modified connector arrow */}
+    <marker
+      id="arrow-modified"
+      markerWidth="6"
+      markerHeight="5"
+      refX="5"
+      refY="2.5"
+      orient="auto"
+    >
+      <polygon points="0 0, 6 2.5, 0 5" fill={CONNECTOR_COLORS.modified} />
+    </marker>
   </defs>
 );
 
@@ -2,7 +2,8 @@
  * Edge Renderer Component
  *
  * Main edge rendering component that orchestrates branch lines,
- * merge lines, and direct edges.
+ * merge lines, and direct edges. Flows shown at their free-form canvas
+ * positions are drawn by FreeFormEdges instead.
  *
  * Based on Salesforce's alcConnector patterns.
  */
@@ -22,6 +23,7 @@ import {
   getHandledMergeEdges,
 } from "./MergeLines";
 import { DirectEdges } from "./DirectEdges";
+import { FreeFormEdges } from "./FreeFormEdges";
 import { FlowAnimation } from "./FlowAnimation";
 import { useTheme } from "../../context";
 
@@ -33,6 +35,8 @@ export interface EdgeRendererProps {
   onEdgeClick?: (edgeId: string) => void;
   /** Pre-calculated fault lane information for consistent connector routing */
   faultLanes?: Map<string, FaultLaneInfo>;
+  /** Nodes are at free-form canvas positions; route each connector on its own */
+  freeForm?: boolean;
 }
 
 /**
@@ -45,6 +49,7 @@ export const EdgeRenderer: React.FC<EdgeRendererProps> = ({
   highlightedPath,
   onEdgeClick,
   faultLanes,
+  freeForm = false,
 }) => {
   const { animateFlow } = useTheme();
 
@@ -77,6 +82,23 @@ export const EdgeRenderer: React.FC<EdgeRendererProps> = ({
     return set;
   }, [handledByBranches, handledByMerges]);
 
+  if (freeForm) {
+    return (
+      <svg className="absolute top-0 left-0 w-1 h-1 overflow-visible">
+        <EdgeMarkers />
+        {animateFlow && <FlowAnimation />}
+        <FreeFormEdges
+          nodes={nodes}
+          edges={edges}
+          selectedNodeId={selectedNodeId}
+          animateFlow={animateFlow}
+          highlightedPath={highlightedPath}
+          onEdgeClick={onEdgeClick}
+        />
+      </svg>
+    );
+  }
+
   return (
     <svg className="absolute top-0 left-0 w-1 h-1 overflow-visible">
       <EdgeMarkers />
@@ -0,0 +1,185 @@
+/**
+ * Free-Form Edges Component
+ *
+ * Renders connectors between nodes at arbitrary positions, for flows shown
+ * on the free-form canvas. Unlike the auto-layout renderers there are no
+ * branch or merge lines: every connector is routed on its own through
+ * ConnectorPathService based on where its target sits relative to its source.
+ */
+
+import React from "react";
+import type { FlowNode, FlowEdge, Point } from "../../types";
+import {
+  CONNECTOR_COLORS,
+  CONNECTOR_WIDTHS,
+  DIFF_CONNECTOR_STYLES,
+} from "../../constants";
+import { ConnectorPathService } from "../../services";
+import { EdgeLabel } from "./EdgeLabel";
+
+export interface FreeFormEdgesProps {
+  nodes: FlowNode[];
+  edges: FlowEdge[];
+  selectedNodeId?: string;
+  animateFlow?: boolean;
+  highlightedPath?: Set<string>;
+  onEdgeClick?: (edgeId: string) => void;
+}
+
+// Minimum clearance before a target counts as "below" or "beside" its source
+const ROUTING_CLEARANCE = 20;
+
+interface RoutedConnector {
+  path: string;
+  label: Point;
+}
+
+/**
+ * Pick anchor points and a path shape for a connector between two nodes
+ */
+function routeConnector(src: FlowNode, tgt: FlowNode): RoutedConnector {
+  const srcCenterX = src.x + src.width / 2;
+  const srcCenterY = src.y + src.height / 2;
+  const srcBottomY = src.y + src.height;
+  const tgtCenterX = tgt.x + tgt.width / 2;
+  const tgtCenterY = tgt.y + tgt.height / 2;
+
+  // Target below: leave from the bottom, enter from the top
+  if (tgt.y - srcBottomY >= ROUTING_CLEARANCE) {
+    const from = { x: srcCenterX, y: srcBottomY };
+    const to = { x: tgtCenterX, y: tgt.y };
+    return {
+      path: ConnectorPathService.createOrthogonalPath(from, to, {
+        bendStrategy: "midpoint",
+      }),
+      label: { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 },
+    };
+  }
+
+  // Target beside: leave and enter through the facing sides
+  const toRight = tgt.x - (src.x + src.width) >= ROUTING_CLEARANCE;
+  const toLeft = src.x - (tgt.x + tgt.width) >= ROUTING_CLEARANCE;
+  if (toRight || toLeft) {
+    const from = { x: toRight ? src.x + src.width : src.x, y: srcCenterY };
+    const to = { x: toRight ? tgt.x : tgt.x + tgt.width, y: tgtCenterY };
+    return {
+      path: ConnectorPathService.createHorizontalOrthogonalPath(from, to),
+      label: { x: (from.x + to.x) / 2, y: from.y - 12 },
+    };
+  }
+
+  // Target above in the same column: wrap around the left side
+  const from = { x: srcCenterX, y: srcBottomY };
+  const to = { x: tgtCenterX, y: tgt.y };
+  const offsetX = Math.max(60, Math.abs(from.x - to.x) / 2 + 50);
+  return {
+    path: ConnectorPathService.createLoopBackPath(from, to),
+    label: {
+      x: Math.min(from.x, to.x) - offsetX - 10,
+      y: (from.y + to.y) / 2,
+    },
+  };
+}
+
+/**
+ * Renders every connector for the free-form canvas
+ */
+export const FreeFormEdges: React.FC<FreeFormEdgesProps> = ({
+  nodes,
+  edges,
+  selectedNodeId,
+  animateFlow,
+  highlightedPath,
+  onEdgeClick,
+}) => {
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+
+  return (
+    <>
+      {edges.map((edge) => {
+        const src = nodeMap.get(edge.source);
+        const tgt = nodeMap.get(edge.target);
+        if (!src || !tgt) return null;
+
+        const { path, label } = routeConnector(src, tgt);
+
+        const showAsRed = edge.type === "fault" || edge.type === "fault-end";
+        const showAsBlue =
+          !showAsRed && (edge.isGoTo === true || edge.type === "goto");
+        const isHighlighted =
+          (highlightedPath?.has(edge.id) ?? false) ||
+          (!!selectedNodeId &&
+            (edge.source === selectedNodeId || edge.target === selectedNodeId));
+
+        let strokeColor = CONNECTOR_COLORS.default;
+        let markerEnd = "url(#arrow)";
+        let strokeDasharray: string | undefined = undefined;
+        let strokeWidth = CONNECTOR_WIDTHS.default;
+
+        if (showAsRed) {
+          strokeColor = CONNECTOR_COLORS.fault;
+          markerEnd = animateFlow ? "url(#arrow-red-animated)" : "url(#arrow-red)";
+          strokeDasharray = "6,4";
+        } else if (showAsBlue) {
+          strokeColor = CONNECTOR_COLORS.goto;
+          markerEnd = "url(#arrow-blue)";
+          strokeDasharray = "6,4";
+        }
+
+        if (isHighlighted) {
+          strokeWidth = CONNECTOR_WIDTHS.highlight;
+          if (!showAsRed && !showAsBlue) {
+            strokeColor = CONNECTOR_COLORS.highlight;
+            markerEnd = "url(#arrow-highlight)";
+          }
+        }
+
+        // Compare mode: colour changed connectors unless they are highlighted
+        if (edge.diffStatus && edge.diffStatus !== "unchanged" && !isHighlighted) {
+          const diffStyle = DIFF_CONNECTOR_STYLES[edge.diffStatus];
+          strokeColor = diffStyle.color;
+          markerEnd = diffStyle.marker;
+          strokeDasharray = diffStyle.dasharray ?? strokeDasharray;
+        }
+
+        return (
+          <g key={edge.id}>
+            {/* Invisible hit area for easier clicking */}
+            <path
+              d={path}
+              fill="none"
+              stroke="transparent"
+              strokeWidth={16}
+              style={{ cursor: "pointer", pointerEvents: "stroke" }}
+              onClick={() => onEdgeClick?.(edge.id)}
+            />
+            <path
+              d={path}
+              fill="none"
+              stroke={strokeColor}
+              strokeWidth={strokeWidth}
+              strokeDasharray={strokeDasharray}
+              markerEnd={markerEnd}
+              style={{ pointerEvents: "none" }}
+            />
+            {animateFlow && !showAsRed && !showAsBlue && (
+              <path d={path} className="flow-animated-path" />
+            )}
+            {edge.label && (
+              <EdgeLabel
+                x={label.x}
+                y={label.y}
+                label={edge.label}
+                isFault={showAsRed}
+                isGoTo={showAsBlue}
+                isHighlighted={isHighlighted && !showAsRed && !showAsBlue}
+              />
+            )}
+          </g>
+        );
+      })}
+    </>
+  );
+};
+
+export default FreeFormEdges;
@@ -7,7 +7,11 @@
 
 import React from "react";
 import type { FlowNode, FlowEdge } from "../../types";
-import { CONNECTOR_COLORS, CONNECTOR_WIDTHS } from "../../constants";
+import {
+  CONNECTOR_COLORS,
+  CONNECTOR_WIDTHS,
+  DIFF_CONNECTOR_STYLES,
+} from "../../constants";
 import { ConnectorPathService } from "../../services";
 
 const CORNER_RADIUS = 12;
@@ -241,9 +245,16 @@ export const MergeLines: React.FC<MergeLinesProps> = ({
       const isPathHighlighted = highlightedPath?.has(edge.id) ?? false;
       const sourceHighlighted =
         isPathHighlighted || edge.source === selectedNodeId;
-      const sourceStrokeColor = sourceHighlighted
-        ? CONNECTOR_COLORS.highlight
-        : CONNECTOR_COLORS.default;
+      // Compare mode: colour changed connectors unless they are highlighted
+      const sourceDiff =
+        edge.diffStatus && edge.diffStatus !== "unchanged" && !sourceHighlighted
+          ? DIFF_CONNECTOR_STYLES[edge.diffStatus]
+          : null;
+      const sourceStrokeColor = sourceDiff
+        ? sourceDiff.color
+        : sourceHighlighted
+          ? CONNECTOR_COLORS.highlight
+          : CONNECTOR_COLORS.default;
       const sourceStrokeWidth = sourceHighlighted
         ? CONNECTOR_WIDTHS.highlight
         : CONNECTOR_WIDTHS.default;
@@ -276,6 +287,7 @@ export const MergeLines: React.FC<MergeLinesProps> = ({
             fill="none"
             stroke={sourceStrokeColor}
             strokeWidth={sourceStrokeWidth}
+            strokeDasharray={sourceDiff?.dasharray}
             style={{ pointerEvents: "none" }}
           />
           {/* Animated overlay for source connection */}
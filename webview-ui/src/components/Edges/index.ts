@@ -29,4 +29,7 @@ export type { MergeLineInfo, MergeLinesProps } from "./MergeLines";
 export { DirectEdges } from "./DirectEdges";
 export type { DirectEdgesProps } from "./DirectEdges";
 
+export { FreeFormEdges } from "./FreeFormEdges";
+export type { FreeFormEdgesProps } from "./FreeFormEdges";
+
 export { FlowAnimation } from "./FlowAnimation";
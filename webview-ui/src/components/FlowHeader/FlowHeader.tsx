@@ -2,7 +2,8 @@
  * Flow Header Component
  *
  * Displays flow metadata in a header bar similar to Salesforce Flow Builder.
- * Shows: flow name, description, status, object, trigger type, API version, complexity.
+ * Shows: flow name, description, status, object, trigger type, API version, complexity,
+ * and the commit when a past version from git history is shown.
  *
  * Based on Salesforce's Flow Builder header patterns.
  */
@@ -23,15 +24,19 @@ import {
   ShieldCheck,
   ShieldAlert,
   ChevronRight,
+  GitCommit,
+  ListChecks,
 } from "lucide-react";
-import type { FlowMetadata } from "../../types";
+import type { FlowMetadata, FlowRevision } from "../../types";
 import type { ComplexityMetrics } from "../../utils/complexity";
 import type { FlowQualityMetrics } from "../../utils/flow-scanner";
+import type { FlowPathsResult } from "../../utils/flowPaths";
 import {
   getBadgeClass,
   getComplexityRange,
   getProgressBarColor,
 } from "../../utils/complexity";
+import { getProcessTypeLabel } from "../../utils/formatters";
 
 // ============================================================================
 // TYPES
@@ -41,40 +46,19 @@ export interface FlowHeaderProps {
   metadata: FlowMetadata;
   fileName?: string;
   complexity?: ComplexityMetrics | null;
+  /** Start-to-end paths, shown as test scenarios next to the score */
+  flowPaths?: FlowPathsResult | null;
+  onExportTestPlan?: (format: "markdown" | "csv") => void;
   qualityMetrics?: FlowQualityMetrics | null;
   onOpenQualityTab?: () => void;
+  /** Commit the shown version was taken from, if it is not the working copy */
+  revision?: FlowRevision | null;
 }
 
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
 
-/**
- * Get human-readable process type label
- */
-function getProcessTypeLabel(processType?: string): string {
-  const types: Record<string, string> = {
-    AutoLaunchedFlow: "Autolaunched Flow",
-    Flow: "Screen Flow",
-    Workflow: "Record-Triggered Flow",
-    CustomEvent: "Platform Event-Triggered Flow",
-    InvocableProcess: "Invocable Process",
-    LoginFlow: "Login Flow",
-    ActionPlan: "Action Plan",
-    CheckoutFlow: "Checkout Flow",
-    ContactRequestFlow: "Contact Request Flow",
-    FSCLending: "FSC Lending Flow",
-    FieldServiceMobile: "Field Service Mobile Flow",
-    FieldServiceWeb: "Field Service Web Flow",
-    IndividualObjectLinkingFlow: "Individual Object Linking Flow",
-    Survey: "Survey Flow",
-    SurveyEnrich: "Survey Enrich Flow",
-    TransactionSecurityFlow: "Transaction Security Flow",
-    UserProvisioningFlow: "User Provisioning Flow",
-  };
-  return types[processType || ""] || processType || "Flow";
-}
-
 /**
  * Get human-readable trigger type label (short version for header)
  */
@@ -140,14 +124,24 @@ function getStatusStyle(status?: string): {
 
 const QualityStatus: React.FC<{
   complexity: ComplexityMetrics;
+  flowPaths?: FlowPathsResult | null;
+  onExportTestPlan?: (format: "markdown" | "csv") => void;
   qualityMetrics?: FlowQualityMetrics | null;
   onOpenQualityTab?: () => void;
-}> = ({ complexity, qualityMetrics, onOpenQualityTab }) => {
+}> = ({
+  complexity,
+  flowPaths,
+  onExportTestPlan,
+  qualityMetrics,
+  onOpenQualityTab,
+}) => {
   const [showDetails, setShowDetails] = useState(false);
   const [activeTab, setActiveTab] = useState<"complexity" | "scan">("complexity");
 
   // Derive display values from score using centralized functions
   const { score, breakdown } = complexity;
+  const faultPathCount =
+    flowPaths?.paths.filter((path) => path.isFaultPath).length ?? 0;
   const range = getComplexityRange(score);
   
   // Determine overall status
@@ -353,6 +347,43 @@ const QualityStatus: React.FC<{
                     </div>
                   </div>
 
+                  {/* Test Scenarios */}
+                  {flowPaths && (
+                    <div>
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-wider">
+                          Test Scenarios
+                        </div>
+                        {onExportTestPlan && flowPaths.paths.length > 0 && (
+                          <div className="flex items-center gap-2 text-[10px]">
+                            <ListChecks size={12} className="text-slate-400" />
+                            <button
+                              onClick={() => onExportTestPlan("markdown")}
+                              className="text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              Markdown
+                            </button>
+                            <button
+                              onClick={() => onExportTestPlan("csv")}
+                              className="text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              CSV
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                      <p className="text-xs text-slate-600 dark:text-slate-400">
+                        <span className="font-semibold text-slate-800 dark:text-slate-200">
+                          {flowPaths.paths.length}
+                          {flowPaths.truncated && "+"}
+                        </span>{" "}
+                        distinct paths from Start to an end, {faultPathCount} of
+                        them through fault connectors. Loops are run over 0 or 1
+                        items.
+                      </p>
+                    </div>
+                  )}
+
                   {/* Explanation Footer (Restored) */}
                   <div className="pt-4 mt-2 border-t border-slate-100 dark:border-slate-700/50">
                     <div className="text-[10px] text-slate-500 dark:text-slate-400 space-y-1.5">
@@ -480,8 +511,11 @@ export const FlowHeader: React.FC<FlowHeaderProps> = ({
   metadata,
   fileName,
   complexity,
+  flowPaths,
+  onExportTestPlan,
   qualityMetrics,
   onOpenQualityTab,
+  revision,
 }) => {
   const flowName =
     metadata.label ||
@@ -564,6 +598,8 @@ export const FlowHeader: React.FC<FlowHeaderProps> = ({
         {complexity && (
           <QualityStatus
             complexity={complexity}
+            flowPaths={flowPaths}
+            onExportTestPlan={onExportTestPlan}
             qualityMetrics={qualityMetrics}
             onOpenQualityTab={onOpenQualityTab}
           />
@@ -587,6 +623,22 @@ export const FlowHeader: React.FC<FlowHeaderProps> = ({
           </div>
         )}
       </div>
+
+      {/* Historical version: commit metadata */}
+      {revision && (
+        <div className="mt-2 flex items-center gap-2 px-2.5 py-1.5 rounded-md bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 text-xs text-amber-800 dark:text-amber-300 min-w-0">
+          <GitCommit className="w-3.5 h-3.5 flex-shrink-0" />
+          <code className="font-mono font-semibold flex-shrink-0" title={revision.hash}>
+            {revision.shortHash}
+          </code>
+          <span className="truncate font-medium" title={revision.subject}>
+            {revision.subject}
+          </span>
+          <span className="ml-auto flex-shrink-0 text-amber-700/80 dark:text-amber-400/80" title={revision.authorEmail}>
+            {revision.author} · {new Date(revision.date).toLocaleString()}
+          </span>
+        </div>
+      )}
     </div>
   );
 };
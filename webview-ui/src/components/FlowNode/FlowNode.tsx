@@ -12,8 +12,14 @@
 
 import React from "react";
 import { ChevronDown, ChevronRight, ShieldAlert, Info } from "lucide-react";
-import type { FlowNode as FlowNodeType, NodeTypeConfig } from "../../types";
+import type {
+  DiffStatus,
+  FlowNode as FlowNodeType,
+  NodeTypeConfig,
+  ReferenceAccess,
+} from "../../types";
 import { NODE_CONFIG } from "../../constants";
+import type { NodeViolations, ViolationSeverity } from "../../utils/flow-scanner";
 import { Tooltip } from "../Tooltip";
 
 // ============================================================================
@@ -29,14 +35,51 @@ export interface FlowNodeProps {
   isBranchingNode?: boolean;
   onSelect: (node: FlowNodeType) => void;
   onToggleCollapse?: (nodeId: string) => void;
-  violations?: Array<{
-    severity: "error" | "warning" | "note";
-    rule: string;
-    message: string;
-  }>;
+  /** Scanner violations reported against this element */
+  issues?: NodeViolations;
   onOpenQualityTab?: () => void;
+  /** How this node uses the currently selected variable, if at all */
+  referenceAccess?: ReferenceAccess[];
+  /** How this node changed between the compared flow versions */
+  diffStatus?: DiffStatus;
+  /** Open the flow a SUBFLOW node calls (on double-click) */
+  onOpenSubflow?: (flowName: string) => void;
+  /** Simulate mode: step numbers this element ran at */
+  simulationSteps?: number[];
+  /** Simulate mode: the walk is waiting for a choice at this element */
+  isSimulationPending?: boolean;
+  /** Simulate mode: the walk can no longer reach this element */
+  isUnreachable?: boolean;
+  /** Issues filter: this element has no scanner violations */
+  isDimmed?: boolean;
 }
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Card border and pill styles for changed nodes in compare mode */
+const DIFF_STYLES: Record<
+  Exclude<DiffStatus, "unchanged">,
+  { border: string; pill: string; label: string }
+> = {
+  added: {
+    border: "border-green-500 ring-2 ring-green-200 dark:ring-green-900/50",
+    pill: "bg-green-500 text-white",
+    label: "Added",
+  },
+  removed: {
+    border: "border-red-400 border-dashed ring-2 ring-red-200 dark:ring-red-900/50",
+    pill: "bg-red-500 text-white",
+    label: "Removed",
+  },
+  modified: {
+    border: "border-amber-500 ring-2 ring-amber-200 dark:ring-amber-900/50",
+    pill: "bg-amber-500 text-white",
+    label: "Modified",
+  },
+};
+
 // ============================================================================
 // HELPER FUNCTIONS
 // ============================================================================
@@ -64,6 +107,90 @@ function getOptimizeForLabel(triggerType?: string): string {
   return "Actions and Related Records";
 }
 
+/** Card border for elements in Simulate mode */
+const SIMULATION_BORDERS = {
+  pending: "border-amber-500 ring-2 ring-amber-200 dark:ring-amber-900/50",
+  executed: "border-emerald-500 ring-2 ring-emerald-200 dark:ring-emerald-900/50",
+};
+
+/**
+ * Get label for the simulation pill, e.g. "Step 3" or "Steps 3, 7 +1"
+ */
+function getSimulationStepLabel(steps: number[]): string {
+  if (steps.length === 1) return `Step ${steps[0]}`;
+  const more = steps.length > 2 ? ` +${steps.length - 2}` : "";
+  return `Steps ${steps.slice(0, 2).join(", ")}${more}`;
+}
+
+/** Card border for elements with scanner errors or warnings */
+const ISSUE_BORDERS = {
+  error: "border-red-400 dark:border-red-700",
+  warning: "border-yellow-400 dark:border-yellow-600",
+};
+
+/** Dot color per severity in the violation tooltip */
+const SEVERITY_DOTS: Record<ViolationSeverity, string> = {
+  error: "bg-red-500",
+  warning: "bg-yellow-400",
+  note: "bg-blue-500",
+};
+
+/**
+ * Get the violation tooltip: one line per rule, most severe first
+ */
+function getViolationTooltip(issues: NodeViolations): React.ReactNode {
+  const order: ViolationSeverity[] = ["error", "warning", "note"];
+  const rules = new Map<
+    string,
+    { label: string; severity: ViolationSeverity; count: number }
+  >();
+  issues.violations.forEach((violation) => {
+    const entry = rules.get(violation.rule);
+    if (entry) {
+      entry.count++;
+      if (order.indexOf(violation.severity) < order.indexOf(entry.severity)) {
+        entry.severity = violation.severity;
+      }
+    } else {
+      rules.set(violation.rule, {
+        label: violation.ruleLabel || violation.rule,
+        severity: violation.severity,
+        count: 1,
+      });
+    }
+  });
+  const sorted = Array.from(rules.values()).sort(
+    (a, b) => order.indexOf(a.severity) - order.indexOf(b.severity)
+  );
+
+  return (
+    <div className="space-y-1 text-left">
+      {sorted.map((rule) => (
+        <div key={rule.label} className="flex items-center gap-1.5">
+          <span
+            className={`w-1.5 h-1.5 rounded-full flex-shrink-0 ${SEVERITY_DOTS[rule.severity]}`}
+          />
+          <span>
+            {rule.label}
+            {rule.count > 1 && ` (${rule.count})`}
+          </span>
+        </div>
+      ))}
+      <div className="pt-1 opacity-70">Click to view details</div>
+    </div>
+  );
+}
+
+/**
+ * Get label for the variable usage pill
+ */
+function getReferenceAccessLabel(access: ReferenceAccess[]): string {
+  if (access.includes("read") && access.includes("write")) {
+    return "Reads & Writes";
+  }
+  return access.includes("write") ? "Writes" : "Reads";
+}
+
 // ============================================================================
 // NODE COMPONENT
 // ============================================================================
@@ -77,16 +204,40 @@ export const FlowNodeComponent: React.FC<FlowNodeProps> = ({
   isBranchingNode = false,
   onSelect,
   onToggleCollapse,
-  violations = [],
+  issues,
   onOpenQualityTab,
+  referenceAccess = [],
+  diffStatus,
+  onOpenSubflow,
+  simulationSteps = [],
+  isSimulationPending = false,
+  isUnreachable = false,
+  isDimmed = false,
 }) => {
   const config: NodeTypeConfig = NODE_CONFIG[node.type] || NODE_CONFIG.ACTION;
+  const isReferenceHighlighted = referenceAccess.length > 0;
+  const diffStyle =
+    diffStatus && diffStatus !== "unchanged" ? DIFF_STYLES[diffStatus] : null;
+  // Removed elements are kept on the canvas but faded, and elements a
+  // simulation can no longer reach or the issues filter leaves out are dimmed
+  const fadeOpacity =
+    diffStatus === "removed"
+      ? "opacity-60"
+      : isUnreachable || isDimmed
+        ? "opacity-30"
+        : "";
+  const simulationBorder = isSimulationPending
+    ? SIMULATION_BORDERS.pending
+    : simulationSteps.length > 0
+      ? SIMULATION_BORDERS.executed
+      : null;
 
   // Get highest severity violation for badge
-  const highestSeverity = violations.length > 0
-    ? violations.some(v => v.severity === "error")
+  const violationCount = issues?.violations.length ?? 0;
+  const highestSeverity = issues && violationCount > 0
+    ? issues.hasError
       ? "error"
-      : violations.some(v => v.severity === "warning")
+      : issues.hasWarning
         ? "warning"
         : "note"
     : null;
@@ -122,7 +273,14 @@ export const FlowNodeComponent: React.FC<FlowNodeProps> = ({
   };
 
   const badgeStyle = getBadgeStyle();
+  const issueBorder =
+    highestSeverity === "error" || highestSeverity === "warning"
+      ? ISSUE_BORDERS[highestSeverity]
+      : null;
   const hasDescription = !!node.data.description;
+  // Subflows can be opened in place when the panel supports it
+  const subflowName =
+    node.type === "SUBFLOW" && onOpenSubflow ? node.data.flowName : undefined;
 
   // Special rendering for END nodes
   if (node.type === "END") {
@@ -132,7 +290,7 @@ export const FlowNodeComponent: React.FC<FlowNodeProps> = ({
     if (isFaultPath) {
       return (
         <div
-          className="flow-node absolute flex flex-row items-center"
+          className={`flow-node absolute flex flex-row items-center ${fadeOpacity}`}
           style={{ left: node.x, top: node.y, width: node.width }}
           onClick={(e) => {
             e.stopPropagation();
@@ -144,7 +302,7 @@ export const FlowNodeComponent: React.FC<FlowNodeProps> = ({
             className={`
               w-8 h-8 rounded-full bg-red-500 flex items-center justify-center cursor-pointer
               shadow transition-all relative
-              ${isSelected ? "ring-3 ring-red-200 dark:ring-red-900" : "hover:shadow-md"}
+              ${isSelected ? "ring-3 ring-red-200 dark:ring-red-900" : simulationSteps.length > 0 ? "ring-3 ring-emerald-300 dark:ring-emerald-800" : diffStatus === "added" ? "ring-3 ring-green-300 dark:ring-green-800" : "hover:shadow-md"}
             `}
           >
             <config.icon size={12} className="text-white" fill="white" />
@@ -177,7 +335,7 @@ export const FlowNodeComponent: React.FC<FlowNodeProps> = ({
     // Normal END node (vertical connection from above)
     return (
       <div
-        className="flow-node absolute flex flex-col items-center"
+        className={`flow-node absolute flex flex-col items-center ${fadeOpacity}`}
         style={{ left: node.x, top: node.y, width: node.width }}
         onClick={(e) => {
           e.stopPropagation();
@@ -192,7 +350,7 @@ export const FlowNodeComponent: React.FC<FlowNodeProps> = ({
           className={`
             w-8 h-8 rounded-full bg-red-500 flex items-center justify-center cursor-pointer
             shadow transition-all relative
-            ${isSelected ? "ring-3 ring-red-200 dark:ring-red-900" : "hover:shadow-md"}
+            ${isSelected ? "ring-3 ring-red-200 dark:ring-red-900" : simulationSteps.length > 0 ? "ring-3 ring-emerald-300 dark:ring-emerald-800" : diffStatus === "added" ? "ring-3 ring-green-300 dark:ring-green-800" : "hover:shadow-md"}
           `}
         >
           <config.icon size={12} className="text-white" fill="white" />
@@ -230,7 +388,7 @@ export const FlowNodeComponent: React.FC<FlowNodeProps> = ({
 
     return (
       <div
-        className="flow-node absolute"
+        className={`flow-node absolute ${fadeOpacity}`}
         style={{ left: node.x, top: node.y, width: node.width }}
         onClick={(e) => {
           e.stopPropagation();
@@ -243,7 +401,13 @@ export const FlowNodeComponent: React.FC<FlowNodeProps> = ({
             rounded-lg border shadow-sm cursor-pointer overflow-hidden transition-all relative
             ${isSelected
               ? "border-blue-500 shadow-lg ring-2 ring-blue-200 dark:ring-blue-900"
-              : "border-slate-200 dark:border-slate-600 hover:border-slate-300 dark:hover:border-slate-500 hover:shadow-md"
+              : isReferenceHighlighted
+                ? "border-purple-500 shadow-lg ring-2 ring-purple-200 dark:ring-purple-900/50"
+                : simulationBorder
+                  ? simulationBorder
+                  : diffStyle
+                    ? diffStyle.border
+                    : "border-slate-200 dark:border-slate-600 hover:border-slate-300 dark:hover:border-slate-500 hover:shadow-md"
             }
             bg-white dark:bg-slate-800
           `}
@@ -332,12 +496,21 @@ export const FlowNodeComponent: React.FC<FlowNodeProps> = ({
   // Standard node rendering
   return (
     <div
-      className="flow-node absolute"
+      className={`flow-node absolute ${fadeOpacity}`}
       style={{ left: node.x, top: node.y, width: node.width }}
       onClick={(e) => {
         e.stopPropagation();
         onSelect(node);
       }}
+      onDoubleClick={
+        subflowName
+          ? (e) => {
+              e.stopPropagation();
+              onOpenSubflow?.(subflowName);
+            }
+          : undefined
+      }
+      title={subflowName ? "Double-click to open subflow" : undefined}
     >
       {/* Top connector dot */}
       <div className="flex justify-center -mb-1 relative z-10">
@@ -358,25 +531,65 @@ export const FlowNodeComponent: React.FC<FlowNodeProps> = ({
           rounded-md border shadow-sm hover:shadow-md cursor-pointer overflow-visible transition-all duration-200 ease-out relative group
           ${isSelected
             ? "border-blue-500 ring-2 ring-blue-100 dark:ring-blue-900/50"
-            : isCollapsed
-              ? "border-amber-400 dark:border-amber-600 collapsed-blink"
-              : "border-slate-200 dark:border-slate-700 hover:border-blue-300 dark:hover:border-blue-700"
+            : isReferenceHighlighted
+              ? "border-purple-500 ring-2 ring-purple-200 dark:ring-purple-900/50"
+              : simulationBorder
+                ? simulationBorder
+                : diffStyle
+                  ? diffStyle.border
+                  : isCollapsed
+                    ? "border-amber-400 dark:border-amber-600 collapsed-blink"
+                    : issueBorder
+                      ? issueBorder
+                      : "border-slate-200 dark:border-slate-700 hover:border-blue-300 dark:hover:border-blue-700"
           }
           ${isCollapsed ? "bg-amber-50 dark:bg-amber-950/30" : "bg-white dark:bg-slate-800"}
         `}
       >
-        {/* Violation badge - integrated into top-right corner */}
-        {violations.length > 0 && (
+        {/* Variable usage pill - shown while a variable is selected */}
+        {isReferenceHighlighted && (
+          <div className="absolute -top-2.5 left-2 px-1.5 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-wider bg-purple-500 text-white shadow-sm z-20">
+            {getReferenceAccessLabel(referenceAccess)}
+          </div>
+        )}
+
+        {/* Simulation pill - shown in Simulate mode */}
+        {simulationBorder && !isReferenceHighlighted && (
           <div
-            className={`absolute -top-2 -right-2 px-1.5 py-1 rounded-full shadow-md cursor-pointer transition-transform duration-200 z-20 flex items-center gap-1 ${badgeStyle.bg} ${badgeStyle.text} hover:scale-110`}
-            onClick={(e) => {
-              e.stopPropagation();
-              onOpenQualityTab?.();
-            }}
-            title={`${violations.length} quality ${violations.length === 1 ? 'issue' : 'issues'} - Click to view details`}
+            className={`absolute -top-2.5 left-2 px-1.5 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-wider text-white shadow-sm z-20 ${isSimulationPending ? "bg-amber-500" : "bg-emerald-500"}`}
           >
-            <ShieldAlert className={`w-3.5 h-3.5 ${badgeStyle.icon}`} />
-            <span className="text-[10px] font-bold">{violations.length}</span>
+            {isSimulationPending
+              ? node.type === "LOOP"
+                ? "Set Iterations"
+                : "Choose Path"
+              : getSimulationStepLabel(simulationSteps)}
+          </div>
+        )}
+
+        {/* Change pill - shown in compare mode */}
+        {diffStyle && !isReferenceHighlighted && (
+          <div
+            className={`absolute -top-2.5 left-2 px-1.5 py-0.5 rounded-full text-[9px] font-bold uppercase tracking-wider shadow-sm z-20 ${diffStyle.pill}`}
+          >
+            {diffStyle.label}
+          </div>
+        )}
+
+        {/* Violation badge - integrated into top-right corner */}
+        {issues && violationCount > 0 && (
+          <div className="absolute -top-2 -right-2 z-20">
+            <Tooltip content={getViolationTooltip(issues)} maxWidth={260} side="top">
+              <div
+                className={`px-1.5 py-1 rounded-full shadow-md cursor-pointer transition-transform duration-200 flex items-center gap-1 ${badgeStyle.bg} ${badgeStyle.text} hover:scale-110`}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onOpenQualityTab?.();
+                }}
+              >
+                <ShieldAlert className={`w-3.5 h-3.5 ${badgeStyle.icon}`} />
+                <span className="text-[10px] font-bold">{violationCount}</span>
+              </div>
+            </Tooltip>
           </div>
         )}
 
@@ -0,0 +1,589 @@
+/**
+ * Quality Report Component
+ *
+ * Scanner violations across every flow in the workspace, for tech-debt
+ * reviews: grouped by rule, severity, flow or process type in a table
+ * sortable by each severity count, with the totals compared to earlier
+ * scans. The report exports as CSV, JSON or SARIF through the extension.
+ */
+
+import React, { useState, useMemo, useCallback } from "react";
+import {
+  AlertCircle,
+  AlertTriangle,
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ChevronRight,
+  ClipboardCheck,
+  Download,
+  ExternalLink,
+  Info,
+  RefreshCw,
+} from "lucide-react";
+import type {
+  FlowQualityEntry,
+  QualityScanTotals,
+  WorkspaceQualityReport,
+} from "../../types";
+import { useVSCodeMessaging } from "../../hooks";
+import type { ViolationSeverity } from "../../utils/flow-scanner";
+import {
+  SEVERITY_LABELS,
+  SEVERITY_ORDER,
+  getReportRows,
+  getScanTrend,
+  groupReportRows,
+  sortReportGroups,
+} from "../../utils/qualityReport";
+import type {
+  ReportGroup,
+  ReportGrouping,
+  ReportSort,
+  ReportSortKey,
+} from "../../utils/qualityReport";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const GROUPING_OPTIONS: Array<{ value: ReportGrouping; label: string }> = [
+  { value: "rule", label: "Rule" },
+  { value: "severity", label: "Severity" },
+  { value: "flow", label: "Flow" },
+  { value: "processType", label: "Process Type" },
+];
+
+const EXPORT_FORMATS: Array<{ value: string; label: string }> = [
+  { value: "csv", label: "CSV" },
+  { value: "json", label: "JSON" },
+  { value: "sarif", label: "SARIF" },
+];
+
+const SEVERITY_STYLES: Record<
+  ViolationSeverity,
+  { icon: typeof AlertCircle; color: string; badge: string }
+> = {
+  error: {
+    icon: AlertCircle,
+    color: "text-red-600 dark:text-red-400",
+    badge: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+  },
+  warning: {
+    icon: AlertTriangle,
+    color: "text-amber-600 dark:text-amber-400",
+    badge:
+      "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+  },
+  note: {
+    icon: Info,
+    color: "text-blue-600 dark:text-blue-400",
+    badge: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
+  },
+};
+
+// Scans listed in the history table, including the current one
+const HISTORY_ROWS = 10;
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+/**
+ * Change since the previous scan; fewer violations is an improvement
+ */
+const TrendDelta: React.FC<{ current: number; previous?: number }> = ({
+  current,
+  previous,
+}) => {
+  if (previous === undefined || previous === current) {
+    return null;
+  }
+  const increased = current > previous;
+  const Icon = increased ? ArrowUp : ArrowDown;
+  return (
+    <span
+      className={`inline-flex items-center text-[10px] ${
+        increased
+          ? "text-red-600 dark:text-red-400"
+          : "text-green-600 dark:text-green-400"
+      }`}
+      title={`${previous} in the previous scan`}
+    >
+      <Icon size={10} />
+      {Math.abs(current - previous)}
+    </span>
+  );
+};
+
+const SortHeader: React.FC<{
+  label: string;
+  sortKey: ReportSortKey;
+  sort: ReportSort;
+  onSort: (key: ReportSortKey) => void;
+  align?: "left" | "right";
+}> = ({ label, sortKey, sort, onSort, align = "right" }) => (
+  <th
+    className={`px-3 py-2 font-medium cursor-pointer select-none hover:text-slate-800 dark:hover:text-slate-100 ${
+      align === "right" ? "text-right" : "text-left"
+    }`}
+    onClick={() => onSort(sortKey)}
+  >
+    <span className="inline-flex items-center gap-1">
+      {label}
+      {sort.key === sortKey &&
+        (sort.descending ? <ArrowDown size={12} /> : <ArrowUp size={12} />)}
+    </span>
+  </th>
+);
+
+interface ReportGroupRowsProps {
+  group: ReportGroup;
+  grouping: ReportGrouping;
+  isExpanded: boolean;
+  onToggle: (key: string) => void;
+  onOpen: (flow: FlowQualityEntry) => void;
+}
+
+const ReportGroupRows: React.FC<ReportGroupRowsProps> = ({
+  group,
+  grouping,
+  isExpanded,
+  onToggle,
+  onOpen,
+}) => (
+  <>
+    <tr
+      className="border-t border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/40 cursor-pointer"
+      onClick={() => onToggle(group.key)}
+    >
+      <td className="px-3 py-2">
+        <div className="flex items-center gap-1.5 min-w-0">
+          {isExpanded ? (
+            <ChevronDown size={14} className="flex-shrink-0 text-slate-400" />
+          ) : (
+            <ChevronRight size={14} className="flex-shrink-0 text-slate-400" />
+          )}
+          <span className="font-medium text-slate-800 dark:text-slate-100 truncate">
+            {group.label}
+          </span>
+          {grouping === "rule" && (
+            <span className="text-[11px] text-slate-400">{group.key}</span>
+          )}
+          {grouping === "flow" && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onOpen(group.rows[0].flow);
+              }}
+              className="text-slate-400 hover:text-blue-600 dark:hover:text-blue-400"
+              title="Open the flow"
+            >
+              <ExternalLink size={12} />
+            </button>
+          )}
+          {group.docLink && (
+            <a
+              href={group.docLink}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-slate-400 hover:text-blue-600 dark:hover:text-blue-400"
+              title="Rule documentation"
+              onClick={(e) => e.stopPropagation()}
+            >
+              <ExternalLink size={12} />
+            </a>
+          )}
+        </div>
+      </td>
+      {SEVERITY_ORDER.map((severity) => (
+        <td
+          key={severity}
+          className={`px-3 py-2 text-right tabular-nums ${
+            group.counts[severity]
+              ? SEVERITY_STYLES[severity].color
+              : "text-slate-300 dark:text-slate-600"
+          }`}
+        >
+          {group.counts[severity]}
+        </td>
+      ))}
+      <td className="px-3 py-2 text-right tabular-nums font-semibold text-slate-700 dark:text-slate-200">
+        {group.total}
+      </td>
+      <td className="px-3 py-2 text-right tabular-nums text-slate-500 dark:text-slate-400">
+        {group.flows}
+      </td>
+    </tr>
+
+    {isExpanded && (
+      <tr>
+        <td colSpan={6} className="pl-8 pr-3 pb-3 pt-0">
+          <table className="w-full text-xs">
+            <tbody>
+              {group.rows.map(({ flow, violation }, index) => {
+                const style = SEVERITY_STYLES[violation.severity];
+                const Icon = style.icon;
+                return (
+                  <tr
+                    key={`${flow.name}-${violation.rule}-${index}`}
+                    className="border-t border-slate-100 dark:border-slate-700/60"
+                  >
+                    <td className="py-1 pr-3 w-6">
+                      <Icon size={12} className={style.color} />
+                    </td>
+                    {grouping !== "flow" && (
+                      <td className="py-1 pr-3">
+                        <button
+                          onClick={() => onOpen(flow)}
+                          className="text-slate-700 dark:text-slate-200 hover:text-blue-600 dark:hover:text-blue-400 hover:underline text-left"
+                          title={`Open ${flow.name}`}
+                        >
+                          {flow.label}
+                        </button>
+                      </td>
+                    )}
+                    <td className="py-1 pr-3 font-mono text-slate-600 dark:text-slate-300">
+                      {violation.elementName || (
+                        <span className="italic text-slate-400">Flow</span>
+                      )}
+                    </td>
+                    {grouping !== "rule" && (
+                      <td className="py-1 pr-3 text-slate-600 dark:text-slate-300">
+                        {violation.ruleLabel}
+                      </td>
+                    )}
+                    <td className="py-1 pr-3 text-slate-400 dark:text-slate-500">
+                      {violation.message}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </td>
+      </tr>
+    )}
+  </>
+);
+
+const ScanHistory: React.FC<{ scans: QualityScanTotals[] }> = ({ scans }) => (
+  <section className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+    <h2 className="px-3 py-2 font-semibold text-slate-800 dark:text-slate-100 border-b border-slate-200 dark:border-slate-700">
+      Scan History
+    </h2>
+    <table className="w-full text-xs">
+      <thead className="text-slate-500 dark:text-slate-400">
+        <tr>
+          <th className="px-3 py-1.5 text-left font-medium">Scanned</th>
+          <th className="px-3 py-1.5 text-right font-medium">Flows</th>
+          {SEVERITY_ORDER.map((severity) => (
+            <th key={severity} className="px-3 py-1.5 text-right font-medium">
+              {SEVERITY_LABELS[severity]}s
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {[...scans].reverse().map((scan, index) => {
+          // Newest first; compare each scan with the one before it
+          const previous = scans[scans.length - index - 2];
+          return (
+            <tr
+              key={scan.scannedAt}
+              className="border-t border-slate-100 dark:border-slate-700/60 text-slate-600 dark:text-slate-300"
+            >
+              <td className="px-3 py-1.5">
+                {new Date(scan.scannedAt).toLocaleString()}
+                {index === 0 && (
+                  <span className="ml-1.5 text-slate-400">(this scan)</span>
+                )}
+              </td>
+              <td className="px-3 py-1.5 text-right tabular-nums">
+                {scan.flows}
+              </td>
+              {SEVERITY_ORDER.map((severity) => (
+                <td
+                  key={severity}
+                  className="px-3 py-1.5 text-right tabular-nums"
+                >
+                  <span className="inline-flex items-center gap-1">
+                    <TrendDelta
+                      current={scan[severity]}
+                      previous={previous?.[severity]}
+                    />
+                    {scan[severity]}
+                  </span>
+                </td>
+              ))}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </section>
+);
+
+// ============================================================================
+// MAIN COMPONENT
+// ============================================================================
+
+export const QualityReport: React.FC = () => {
+  const [report, setReport] = useState<WorkspaceQualityReport | null>(null);
+  const [grouping, setGrouping] = useState<ReportGrouping>("rule");
+  const [sort, setSort] = useState<ReportSort>({
+    key: "error",
+    descending: true,
+  });
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const handleLoadQualityReport = useCallback(
+    (loaded: WorkspaceQualityReport) => {
+      setReport(loaded);
+    },
+    []
+  );
+
+  const { postMessage } = useVSCodeMessaging({
+    onLoadQualityReport: handleLoadQualityReport,
+  });
+
+  const rows = useMemo(() => (report ? getReportRows(report) : []), [report]);
+  const groups = useMemo(
+    () => sortReportGroups(groupReportRows(rows, grouping), sort, grouping),
+    [rows, grouping, sort]
+  );
+  const trend = useMemo(() => (report ? getScanTrend(report) : null), [report]);
+  const failedFlows = useMemo(
+    () => report?.flows.filter((flow) => flow.errorMessage) ?? [],
+    [report]
+  );
+
+  const handleSort = useCallback((key: ReportSortKey) => {
+    setSort((current) => ({
+      key,
+      // Counts read best largest first, labels A to Z
+      descending: current.key === key ? !current.descending : key !== "label",
+    }));
+  }, []);
+
+  const handleGrouping = useCallback((value: ReportGrouping) => {
+    setGrouping(value);
+    setExpanded(new Set());
+  }, []);
+
+  const handleToggle = useCallback((key: string) => {
+    setExpanded((current) => {
+      const next = new Set(current);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleOpen = useCallback(
+    (flow: FlowQualityEntry) => {
+      postMessage({ command: "openFlow", payload: { filePath: flow.filePath } });
+    },
+    [postMessage]
+  );
+
+  const handleRescan = useCallback(
+    () => postMessage({ command: "refreshQualityReport" }),
+    [postMessage]
+  );
+
+  if (!report || !trend) {
+    return (
+      <div className="flex flex-col h-screen items-center justify-center gap-3 text-sm text-slate-500 dark:text-slate-400 bg-slate-50 dark:bg-slate-900">
+        Scanning workspace flows…
+        <button
+          onClick={handleRescan}
+          className="flex items-center gap-1.5 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+          title="Start the scan again if it was cancelled"
+        >
+          <RefreshCw size={12} />
+          Scan again
+        </button>
+      </div>
+    );
+  }
+
+  const groupColumn =
+    GROUPING_OPTIONS.find((option) => option.value === grouping)?.label ??
+    "Group";
+
+  return (
+    <div className="flex flex-col h-screen w-full overflow-hidden font-sans text-sm bg-slate-100 dark:bg-slate-900">
+      {/* HEADER */}
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2 bg-white dark:bg-slate-800 border-b border-slate-200 dark:border-slate-700">
+        <ClipboardCheck size={18} className="text-blue-500" />
+        <div className="font-semibold text-slate-800 dark:text-slate-100">
+          Flow Quality Report
+        </div>
+        <div className="text-xs text-slate-500 dark:text-slate-400">
+          {report.flows.length} flow{report.flows.length === 1 ? "" : "s"} ·
+          scanned {new Date(report.scannedAt).toLocaleString()}
+        </div>
+        {SEVERITY_ORDER.map((severity) => {
+          const style = SEVERITY_STYLES[severity];
+          const Icon = style.icon;
+          return (
+            <div
+              key={severity}
+              className={`flex items-center gap-1 text-xs px-2 py-0.5 rounded-full ${style.badge}`}
+            >
+              <Icon size={12} />
+              {trend.current[severity]} {SEVERITY_LABELS[severity].toLowerCase()}
+              {trend.current[severity] === 1 ? "" : "s"}
+              <TrendDelta
+                current={trend.current[severity]}
+                previous={trend.previous?.[severity]}
+              />
+            </div>
+          );
+        })}
+        <div className="flex-1" />
+        <div className="flex items-center gap-1">
+          <Download size={14} className="text-slate-400" />
+          {EXPORT_FORMATS.map((format) => (
+            <button
+              key={format.value}
+              onClick={() =>
+                postMessage({
+                  command: "exportQualityReport",
+                  payload: { format: format.value },
+                })
+              }
+              className="px-2 py-1 text-xs rounded-md text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"
+              title={`Export the report as ${format.label}`}
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleRescan}
+          className="p-1.5 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-md"
+          title="Rescan workspace"
+        >
+          <RefreshCw size={16} className="text-slate-600 dark:text-slate-300" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="max-w-5xl mx-auto p-4 space-y-4">
+          {/* GROUPING */}
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-slate-500 dark:text-slate-400">
+              Group by
+            </span>
+            <div className="flex rounded-md border border-slate-200 dark:border-slate-600 overflow-hidden bg-white dark:bg-slate-800">
+              {GROUPING_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => handleGrouping(option.value)}
+                  className={`px-2.5 py-1 text-xs
+                    ${grouping === option.value
+                      ? "bg-blue-500 text-white"
+                      : "text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700"}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {failedFlows.length > 0 && (
+            <div className="flex items-start gap-2 text-xs text-amber-700 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 px-3 py-2 rounded-lg">
+              <AlertTriangle size={14} className="mt-0.5 flex-shrink-0" />
+              <span>
+                {failedFlows.length} flow{failedFlows.length === 1 ? "" : "s"}{" "}
+                could not be scanned:{" "}
+                {failedFlows.map((flow, index) => (
+                  <React.Fragment key={flow.name}>
+                    {index > 0 && ", "}
+                    <button
+                      onClick={() => handleOpen(flow)}
+                      className="underline"
+                      title={flow.errorMessage}
+                    >
+                      {flow.name}
+                    </button>
+                  </React.Fragment>
+                ))}
+              </span>
+            </div>
+          )}
+
+          {/* VIOLATIONS */}
+          {groups.length === 0 ? (
+            <div className="text-center text-slate-500 dark:text-slate-400 py-12">
+              No violations found in {report.flows.length} flow
+              {report.flows.length === 1 ? "" : "s"}.
+            </div>
+          ) : (
+            <section className="rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="text-xs text-slate-500 dark:text-slate-400 bg-slate-50 dark:bg-slate-900/40">
+                  <tr>
+                    <SortHeader
+                      label={groupColumn}
+                      sortKey="label"
+                      sort={sort}
+                      onSort={handleSort}
+                      align="left"
+                    />
+                    {SEVERITY_ORDER.map((severity) => (
+                      <SortHeader
+                        key={severity}
+                        label={`${SEVERITY_LABELS[severity]}s`}
+                        sortKey={severity}
+                        sort={sort}
+                        onSort={handleSort}
+                      />
+                    ))}
+                    <SortHeader
+                      label="Total"
+                      sortKey="total"
+                      sort={sort}
+                      onSort={handleSort}
+                    />
+                    <SortHeader
+                      label="Flows"
+                      sortKey="flows"
+                      sort={sort}
+                      onSort={handleSort}
+                    />
+                  </tr>
+                </thead>
+                <tbody>
+                  {groups.map((group) => (
+                    <ReportGroupRows
+                      key={group.key}
+                      group={group}
+                      grouping={grouping}
+                      isExpanded={expanded.has(group.key)}
+                      onToggle={handleToggle}
+                      onOpen={handleOpen}
+                    />
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          {/* TREND */}
+          <ScanHistory
+            scans={[...report.history, trend.current].slice(-HISTORY_ROWS)}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QualityReport;
@@ -0,0 +1,5 @@
+/**
+ * Quality Report Component Exports
+ */
+
+export { QualityReport } from "./QualityReport";
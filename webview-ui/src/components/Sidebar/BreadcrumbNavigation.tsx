@@ -0,0 +1,63 @@
+/**
+ * Breadcrumb Navigation Component
+ *
+ * Shows the chain of parent flows while viewing a subflow. Clicking a
+ * parent returns to it with the zoom and pan it was left at.
+ */
+
+import React from "react";
+import { ChevronRight, Workflow } from "lucide-react";
+import type { FlowBreadcrumb } from "../../types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BreadcrumbNavigationProps {
+  /** Parent flows, outermost first */
+  trail: FlowBreadcrumb[];
+  /** Label of the flow currently shown */
+  currentLabel: string;
+  onNavigate: (index: number) => void;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const BreadcrumbNavigation: React.FC<BreadcrumbNavigationProps> = ({
+  trail,
+  currentLabel,
+  onNavigate,
+}) => {
+  if (trail.length === 0) return null;
+
+  return (
+    <nav
+      aria-label="Subflow breadcrumbs"
+      className="absolute top-4 left-4 z-10 max-w-[40%] bg-white dark:bg-slate-800 rounded-lg shadow border border-slate-200 dark:border-slate-700 px-2 py-1 flex items-center gap-1 text-xs overflow-hidden"
+    >
+      <Workflow size={14} className="text-slate-400 flex-shrink-0" />
+      {trail.map((level, index) => (
+        <React.Fragment key={`${level.fileName}-${index}`}>
+          <button
+            onClick={() => onNavigate(index)}
+            className="px-1.5 py-0.5 rounded text-blue-600 dark:text-blue-400 hover:bg-slate-100 dark:hover:bg-slate-700 truncate max-w-[10rem]"
+            title={`Back to ${level.label}`}
+          >
+            {level.label}
+          </button>
+          <ChevronRight size={12} className="text-slate-400 flex-shrink-0" />
+        </React.Fragment>
+      ))}
+      <span
+        className="px-1.5 py-0.5 font-semibold text-slate-700 dark:text-slate-200 truncate"
+        title={currentLabel}
+      >
+        {currentLabel}
+      </span>
+    </nav>
+  );
+};
+
+export default BreadcrumbNavigation;
@@ -0,0 +1,246 @@
+/**
+ * Condition Evaluator Component
+ *
+ * Sample record and variable values for the selected decision or Start
+ * element, and the result of its conditions against them: which outcome
+ * fires (or whether the flow runs) and which conditions pass or fail.
+ */
+
+import React, { useMemo } from "react";
+import { CheckCircle2, XCircle } from "lucide-react";
+import type { FlowNode } from "../../types";
+import { formatOperator } from "../../utils/formatters";
+import {
+  evaluateDecision,
+  evaluateEntryConditions,
+  getSampleDataTemplate,
+} from "../../utils/conditionEvaluator";
+import type {
+  ConditionResult,
+  LogicResult,
+} from "../../utils/conditionEvaluator";
+import {
+  SampleDataInput,
+  formatSampleValue,
+  parseSampleInput,
+} from "./SampleDataInput";
+import type { SampleInput } from "./SampleDataInput";
+import { FormulaResult } from "./FormulaView";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ConditionEvaluatorProps {
+  node: FlowNode;
+  input: SampleInput;
+  onInputChange: (input: SampleInput) => void;
+}
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+const PassIcon: React.FC<{ passed: boolean }> = ({ passed }) =>
+  passed ? (
+    <CheckCircle2 size={12} className="text-emerald-500 flex-shrink-0" />
+  ) : (
+    <XCircle size={12} className="text-red-500 flex-shrink-0" />
+  );
+
+const ConditionRow: React.FC<{ result: ConditionResult; index: number }> = ({
+  result,
+  index,
+}) => (
+  <div className="flex items-start gap-1.5 text-xs">
+    <span className="text-[10px] font-bold text-slate-400 w-3 text-right mt-0.5">
+      {index + 1}
+    </span>
+    <span className="mt-0.5">
+      <PassIcon passed={result.passed} />
+    </span>
+    <div className="min-w-0">
+      <div className="font-mono break-all">
+        <span className="text-blue-600 dark:text-blue-400">
+          {result.condition.field}
+        </span>
+        <span className="text-slate-500 mx-1">
+          {formatOperator(result.condition.operator)}
+        </span>
+        <span className="text-green-600 dark:text-green-400">
+          {result.condition.value || "(empty)"}
+        </span>
+      </div>
+      <div className="text-[10px] text-slate-500 dark:text-slate-400 font-mono break-all">
+        {formatSampleValue(result.actual)}
+        {result.condition.valueType === "elementReference" &&
+          ` vs ${formatSampleValue(result.expected)}`}
+      </div>
+      {result.note && (
+        <div className="text-[10px] text-amber-600 dark:text-amber-400">
+          {result.note}
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+const LogicGroup: React.FC<{ result: LogicResult }> = ({ result }) => (
+  <div className="p-2 space-y-1">
+    {result.logic && result.logic.toLowerCase() !== "and" && (
+      <div className="text-[10px] text-slate-500 dark:text-slate-400">
+        Logic:{" "}
+        <code className="bg-slate-100 dark:bg-slate-700 px-1 rounded">
+          {result.logic}
+        </code>
+      </div>
+    )}
+    {result.conditions.map((condition, idx) => (
+      <ConditionRow key={idx} result={condition} index={idx} />
+    ))}
+    {result.logicError && (
+      <div className="text-[10px] text-red-600 dark:text-red-400">
+        {result.logicError}
+      </div>
+    )}
+  </div>
+);
+
+const Verdict: React.FC<{ passed: boolean; children: React.ReactNode }> = ({
+  passed,
+  children,
+}) => (
+  <div
+    className={`flex items-center gap-1.5 px-2 py-1.5 rounded border text-xs font-medium ${
+      passed
+        ? "bg-emerald-50 dark:bg-emerald-900/20 border-emerald-200 dark:border-emerald-800 text-emerald-700 dark:text-emerald-400"
+        : "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-400"
+    }`}
+  >
+    <PassIcon passed={passed} />
+    {children}
+  </div>
+);
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const ConditionEvaluator: React.FC<ConditionEvaluatorProps> = ({
+  node,
+  input,
+  onInputChange,
+}) => {
+  const { error, evaluation } = useMemo(() => {
+    const { data, error: parseError } = parseSampleInput(input);
+    if (!data) return { error: parseError, evaluation: null };
+    return {
+      error: undefined,
+      evaluation:
+        node.type === "START"
+          ? { entry: evaluateEntryConditions(node, data) }
+          : { decision: evaluateDecision(node, data) },
+    };
+  }, [node, input]);
+
+  return (
+    <div className="space-y-2">
+      <SampleDataInput
+        input={input}
+        onInputChange={onInputChange}
+        getTemplate={() => getSampleDataTemplate(node)}
+        error={error}
+      />
+
+      {/* Decision result */}
+      {evaluation?.decision && (
+        <div className="space-y-2 pt-1">
+          {evaluation.decision.outcomes.map((outcome) => {
+            const fires = outcome.name === evaluation.decision.firedOutcome;
+            return (
+              <div
+                key={outcome.name}
+                className={`rounded border overflow-hidden ${
+                  fires
+                    ? "border-emerald-300 dark:border-emerald-700"
+                    : "border-slate-200 dark:border-slate-700"
+                }`}
+              >
+                <div className="px-2 py-1.5 bg-slate-100 dark:bg-slate-800 flex items-center gap-1.5">
+                  <PassIcon passed={outcome.passed} />
+                  <span className="text-xs font-semibold text-slate-700 dark:text-slate-300 flex-1">
+                    {outcome.label}
+                  </span>
+                  {fires && (
+                    <span className="px-1.5 py-0.5 text-[10px] font-semibold rounded-full bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400">
+                      Fires
+                    </span>
+                  )}
+                </div>
+                <LogicGroup result={outcome} />
+              </div>
+            );
+          })}
+          <Verdict passed={evaluation.decision.firedOutcome !== null}>
+            {evaluation.decision.firedOutcome === null
+              ? `No outcome is met: takes ${evaluation.decision.defaultLabel}`
+              : `Takes ${
+                  evaluation.decision.outcomes.find(
+                    (o) => o.name === evaluation.decision.firedOutcome
+                  )?.label
+                }`}
+          </Verdict>
+        </div>
+      )}
+
+      {/* Entry criteria result */}
+      {evaluation?.entry && (
+        <div className="space-y-2 pt-1">
+          {evaluation.entry.conditions.length > 0 && (
+            <div className="rounded border border-slate-200 dark:border-slate-700">
+              <LogicGroup result={evaluation.entry} />
+            </div>
+          )}
+          {evaluation.entry.formula && (
+            <div className="rounded border border-slate-200 dark:border-slate-700 p-2 space-y-1">
+              <div className="flex items-center gap-1.5 text-xs font-medium text-slate-700 dark:text-slate-300">
+                <PassIcon passed={evaluation.entry.formula.passed} />
+                Entry formula
+              </div>
+              {evaluation.entry.formula.syntaxError && (
+                <div className="text-[10px] text-red-600 dark:text-red-400">
+                  {evaluation.entry.formula.syntaxError}
+                </div>
+              )}
+              {evaluation.entry.formula.evaluation && (
+                <FormulaResult
+                  evaluation={evaluation.entry.formula.evaluation}
+                />
+              )}
+            </div>
+          )}
+          {evaluation.entry.priorMetCriteria && (
+            <div className="text-[10px] text-amber-600 dark:text-amber-400">
+              $Record__Prior already met the criteria, and the flow only runs
+              when the record changes to meet them
+            </div>
+          )}
+          {evaluation.entry.requiresRecordChange &&
+            evaluation.entry.priorMetCriteria === undefined && (
+              <div className="text-[10px] text-amber-600 dark:text-amber-400">
+                Add $Record__Prior to the variables to check that the record
+                changed to meet the criteria
+              </div>
+            )}
+          <Verdict passed={evaluation.entry.runs}>
+            {evaluation.entry.runs
+              ? "The flow runs for this record"
+              : "The flow does not run for this record"}
+          </Verdict>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ConditionEvaluator;
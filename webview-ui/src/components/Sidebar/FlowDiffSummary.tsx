@@ -0,0 +1,264 @@
+/**
+ * Flow Diff Summary Component
+ *
+ * Lists the elements, connectors and resources that changed between the
+ * two compared versions of a flow.
+ */
+
+import React, { useMemo } from "react";
+import { GitCompare, ArrowRight } from "lucide-react";
+import type { DiffStatus, FlowDiff, FlowNode } from "../../types";
+import { NODE_CONFIG } from "../../constants";
+import { countDiffChanges } from "../../utils/flowDiff";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FlowDiffSummaryProps {
+  diff: FlowDiff;
+  nodes: FlowNode[];
+  onNodeSelect: (node: FlowNode) => void;
+}
+
+type ChangeStatus = Exclude<DiffStatus, "unchanged">;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const STATUS_ORDER: ChangeStatus[] = ["added", "modified", "removed"];
+
+const STATUS_STYLES: Record<ChangeStatus, { label: string; className: string }> = {
+  added: {
+    label: "Added",
+    className:
+      "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+  },
+  modified: {
+    label: "Modified",
+    className:
+      "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+  },
+  removed: {
+    label: "Removed",
+    className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+  },
+};
+
+/** Changed properties listed per element before collapsing into "+N more" */
+const MAX_PROPERTIES_SHOWN = 6;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function byStatus<T extends { status: DiffStatus }>(items: T[]): T[] {
+  return items
+    .filter((item) => item.status !== "unchanged")
+    .sort(
+      (a, b) =>
+        STATUS_ORDER.indexOf(a.status as ChangeStatus) -
+        STATUS_ORDER.indexOf(b.status as ChangeStatus)
+    );
+}
+
+const StatusPill: React.FC<{ status: DiffStatus }> = ({ status }) => {
+  if (status === "unchanged") return null;
+  const style = STATUS_STYLES[status];
+  return (
+    <span
+      className={`text-[9px] px-1.5 py-0.5 rounded-full font-bold uppercase tracking-wider flex-shrink-0 ${style.className}`}
+    >
+      {style.label}
+    </span>
+  );
+};
+
+const SectionTitle: React.FC<{ title: string; count: number }> = ({
+  title,
+  count,
+}) => (
+  <div className="flex items-center gap-2 mb-2">
+    <span className="text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wide">
+      {title}
+    </span>
+    <span className="px-1.5 py-0.5 text-[10px] font-medium bg-slate-200 dark:bg-slate-600 text-slate-600 dark:text-slate-300 rounded-full">
+      {count}
+    </span>
+  </div>
+);
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const FlowDiffSummary: React.FC<FlowDiffSummaryProps> = ({
+  diff,
+  nodes,
+  onNodeSelect,
+}) => {
+  const nodesById = useMemo(() => new Map(nodes.map((n) => [n.id, n])), [nodes]);
+
+  // Generated End elements follow their source; only list real elements
+  const changedNodes = useMemo(
+    () => byStatus(diff.nodes.filter((n) => n.type !== "END")),
+    [diff.nodes]
+  );
+  const changedEdges = useMemo(() => byStatus(diff.edges), [diff.edges]);
+  const changedResources = useMemo(
+    () => byStatus(diff.resources),
+    [diff.resources]
+  );
+
+  const totals = countDiffChanges([
+    ...changedNodes,
+    ...changedEdges,
+    ...changedResources,
+  ]);
+  const hasChanges = totals.added + totals.modified + totals.removed > 0;
+
+  const getLabel = (id: string) => nodesById.get(id)?.label || id;
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Compared versions */}
+      <div className="p-3 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 space-y-2">
+        <div className="flex items-center gap-1.5 text-xs text-slate-600 dark:text-slate-300 min-w-0">
+          <GitCompare className="w-3.5 h-3.5 text-blue-500 flex-shrink-0" />
+          <span className="truncate font-medium" title={diff.baseLabel}>
+            {diff.baseLabel}
+          </span>
+          <ArrowRight className="w-3 h-3 text-slate-400 flex-shrink-0" />
+          <span className="truncate font-medium" title={diff.targetLabel}>
+            {diff.targetLabel}
+          </span>
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {STATUS_ORDER.map((status) => (
+            <span
+              key={status}
+              className={`text-[10px] px-1.5 py-0.5 rounded-full font-semibold ${STATUS_STYLES[status].className}`}
+            >
+              {totals[status]} {STATUS_STYLES[status].label.toLowerCase()}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-4">
+        {!hasChanges && (
+          <p className="text-center text-xs text-slate-400 dark:text-slate-500">
+            No differences between the two versions
+          </p>
+        )}
+
+        {/* Elements */}
+        {changedNodes.length > 0 && (
+          <div>
+            <SectionTitle title="Elements" count={changedNodes.length} />
+            <div className="space-y-1.5">
+              {changedNodes.map((change) => {
+                const node = nodesById.get(change.id);
+                const config = NODE_CONFIG[change.type] || NODE_CONFIG.ACTION;
+                const hiddenCount =
+                  change.changedProperties.length - MAX_PROPERTIES_SHOWN;
+                return (
+                  <button
+                    key={change.id}
+                    disabled={!node}
+                    onClick={() => node && onNodeSelect(node)}
+                    className="w-full text-left bg-slate-50 dark:bg-slate-900/50 px-2 py-1.5 rounded border border-slate-200 dark:border-slate-700 enabled:hover:border-blue-300 dark:enabled:hover:border-blue-700 transition-colors"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="text-xs font-medium text-slate-700 dark:text-slate-300 truncate">
+                          {change.label}
+                        </div>
+                        <div className="text-[10px] text-slate-400 dark:text-slate-500">
+                          {config.label}
+                        </div>
+                      </div>
+                      <StatusPill status={change.status} />
+                    </div>
+                    {change.changedProperties.length > 0 && (
+                      <div className="mt-1 space-y-0.5">
+                        {change.changedProperties
+                          .slice(0, MAX_PROPERTIES_SHOWN)
+                          .map((property) => (
+                            <div
+                              key={property}
+                              className="text-[10px] font-mono text-amber-700 dark:text-amber-400 truncate"
+                              title={property}
+                            >
+                              {property}
+                            </div>
+                          ))}
+                        {hiddenCount > 0 && (
+                          <div className="text-[10px] text-slate-400 dark:text-slate-500">
+                            +{hiddenCount} more
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Connectors */}
+        {changedEdges.length > 0 && (
+          <div>
+            <SectionTitle title="Connectors" count={changedEdges.length} />
+            <div className="space-y-1.5">
+              {changedEdges.map((change) => (
+                <div
+                  key={change.id}
+                  className="bg-slate-50 dark:bg-slate-900/50 px-2 py-1.5 rounded border border-slate-200 dark:border-slate-700"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-1 min-w-0 text-xs text-slate-700 dark:text-slate-300">
+                      <span className="truncate">{getLabel(change.source)}</span>
+                      <ArrowRight className="w-3 h-3 text-slate-400 flex-shrink-0" />
+                      <span className="truncate">{getLabel(change.target)}</span>
+                    </div>
+                    <StatusPill status={change.status} />
+                  </div>
+                  {change.label && (
+                    <div className="text-[10px] text-slate-400 dark:text-slate-500 truncate">
+                      {change.label}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Resources */}
+        {changedResources.length > 0 && (
+          <div>
+            <SectionTitle title="Resources" count={changedResources.length} />
+            <div className="space-y-1.5">
+              {changedResources.map((change) => (
+                <div
+                  key={change.name}
+                  className="flex items-center justify-between gap-2 bg-slate-50 dark:bg-slate-900/50 px-2 py-1.5 rounded border border-slate-200 dark:border-slate-700"
+                >
+                  <span className="text-xs font-mono text-slate-700 dark:text-slate-300 truncate">
+                    {change.name}
+                  </span>
+                  <StatusPill status={change.status} />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FlowDiffSummary;
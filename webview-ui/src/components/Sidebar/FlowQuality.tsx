@@ -2,7 +2,9 @@
  * Flow Quality Component
  *
  * Displays flow quality violations detected by lightning-flow-scanner
- * in a tabbed interface organized by severity level.
+ * in a tabbed interface organized by severity level. Violations matched by
+ * a configured exception are listed under their own "Suppressed" tab.
+ * Clicking a violation on a canvas element shows that element.
  */
 
 import React, { useState } from "react";
@@ -12,7 +14,11 @@ import {
     Info,
     CheckCircle,
     ExternalLink,
+    EyeOff,
+    LocateFixed,
 } from "lucide-react";
+import type { FlowNode } from "../../types";
+import { findViolationNode } from "../../utils/flow-scanner";
 import type { FlowQualityMetrics } from "../../utils/flow-scanner";
 
 // ============================================================================
@@ -21,15 +27,23 @@ import type { FlowQualityMetrics } from "../../utils/flow-scanner";
 
 export interface FlowQualityProps {
     metrics: FlowQualityMetrics | null;
+    /** Canvas nodes, to find the element a violation is about */
+    nodes?: FlowNode[];
+    /** Pan and zoom the canvas to a violation's element */
+    onLocateNode?: (node: FlowNode) => void;
 }
 
-type SeverityFilter = "all" | "error" | "warning" | "note";
+type SeverityFilter = "all" | "error" | "warning" | "note" | "suppressed";
 
 // ============================================================================
 // COMPONENT
 // ============================================================================
 
-export const FlowQuality: React.FC<FlowQualityProps> = ({ metrics }) => {
+export const FlowQuality: React.FC<FlowQualityProps> = ({
+    metrics,
+    nodes = [],
+    onLocateNode,
+}) => {
     const [activeFilter, setActiveFilter] = useState<SeverityFilter>("all");
 
     // Initialize with all violations expanded by default
@@ -58,17 +72,27 @@ export const FlowQuality: React.FC<FlowQualityProps> = ({ metrics }) => {
         );
     }
 
-    const { violations, violationsBySeverity } = metrics;
+    const { violations, violationsBySeverity, suppressedViolations } = metrics;
 
     // Filter violations based on active severity filter
     const filteredViolations =
-        activeFilter === "all"
+        activeFilter === "suppressed"
+            ? suppressedViolations
+            : activeFilter === "all"
             ? violations
             : violations.filter((v) => v.severity === activeFilter);
 
     // Get icon and color for severity
     const getSeverityStyle = (severity: string) => {
         switch (severity) {
+            case "suppressed":
+                return {
+                    icon: EyeOff,
+                    color: "text-slate-500 dark:text-slate-400",
+                    bg: "bg-slate-50 dark:bg-slate-800/40",
+                    border: "border-slate-200 dark:border-slate-700",
+                    badge: "bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300",
+                };
             case "error":
                 return {
                     icon: AlertCircle,
@@ -122,7 +146,7 @@ export const FlowQuality: React.FC<FlowQualityProps> = ({ metrics }) => {
     };
 
     // Empty state - no violations
-    if (violations.length === 0) {
+    if (violations.length === 0 && suppressedViolations.length === 0) {
         return (
             <div className="p-4">
                 <div className="flex flex-col items-center justify-center py-8 text-center">
@@ -148,6 +172,8 @@ export const FlowQuality: React.FC<FlowQualityProps> = ({ metrics }) => {
                     </h3>
                     <span className="text-xs font-medium text-slate-500 dark:text-slate-400 bg-slate-200 dark:bg-slate-800 px-2 py-0.5 rounded-full">
                         {metrics.totalViolations} issues
+                        {suppressedViolations.length > 0 &&
+                            ` · ${suppressedViolations.length} suppressed`}
                     </span>
                 </div>
 
@@ -217,17 +243,40 @@ export const FlowQuality: React.FC<FlowQualityProps> = ({ metrics }) => {
                         Notes
                     </button>
                 )}
+                {suppressedViolations.length > 0 && (
+                    <button
+                        onClick={() => setActiveFilter("suppressed")}
+                        title="Violations matched by a scanner configuration exception"
+                        className={`flex-1 px-3 py-2 text-xs font-medium transition-colors ${activeFilter === "suppressed"
+                            ? "text-slate-700 dark:text-slate-200 border-b-2 border-slate-500 dark:border-slate-400"
+                            : "text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200"
+                            }`}
+                    >
+                        Suppressed
+                    </button>
+                )}
             </div>
 
             {/* Violations list */}
             <div className="flex-1 overflow-y-auto">
                 <div className="p-3 space-y-3">
+                    {filteredViolations.length === 0 && (
+                        <p className="py-6 text-center text-xs text-slate-500 dark:text-slate-400">
+                            All issues in this flow are suppressed
+                        </p>
+                    )}
                     {filteredViolations.map((violation, idx) => {
-                        const style = getSeverityStyle(violation.severity);
+                        const isSuppressed = Boolean(violation.suppressedBy);
+                        const style = getSeverityStyle(
+                            isSuppressed ? "suppressed" : violation.severity
+                        );
                         const Icon = style.icon;
-                        const violationKey = `${violation.rule}-${violation.elementName}-${idx}`;
+                        const violationKey = `${activeFilter === "suppressed" ? "suppressed-" : ""}${violation.rule}-${violation.elementName}-${idx}`;
                         const isExpanded = expandedViolations.has(violationKey);
                         const description = getRuleDescription(violation.ruleLabel);
+                        const node = onLocateNode
+                            ? findViolationNode(nodes, violation)
+                            : undefined;
 
                         return (
                             <div
@@ -237,7 +286,14 @@ export const FlowQuality: React.FC<FlowQualityProps> = ({ metrics }) => {
                                 {/* Violation header - always visible */}
                                 <div
                                     className="p-3 cursor-pointer hover:opacity-90 transition-opacity"
-                                    onClick={() => description && toggleExpanded(violationKey)}
+                                    onClick={() => {
+                                        if (node) {
+                                            onLocateNode?.(node);
+                                        } else if (description) {
+                                            toggleExpanded(violationKey);
+                                        }
+                                    }}
+                                    title={node ? "Show on canvas" : undefined}
                                 >
                                     <div className="flex items-start gap-3">
                                         <Icon className={`w-4 h-4 ${style.color} flex-shrink-0 mt-0.5`} />
@@ -249,14 +305,20 @@ export const FlowQuality: React.FC<FlowQualityProps> = ({ metrics }) => {
                                                 <span
                                                     className={`text-[9px] px-1.5 py-0.5 rounded-full font-bold uppercase tracking-wider ${style.badge} flex-shrink-0`}
                                                 >
-                                                    {violation.severity}
+                                                    {isSuppressed ? "suppressed" : violation.severity}
                                                 </span>
                                             </div>
                                             {violation.elementName && (
-                                                <div className="text-[10px] text-slate-600 dark:text-slate-400 font-mono bg-white/60 dark:bg-slate-800/60 px-1.5 py-0.5 rounded self-start border border-slate-200/50 dark:border-slate-700/50">
-                                                    <span className="opacity-70">{violation.elementType || "node"}:</span> <span className="font-medium">{violation.elementName}</span>
+                                                <div className="text-[10px] text-slate-600 dark:text-slate-400 font-mono bg-white/60 dark:bg-slate-800/60 px-1.5 py-0.5 rounded self-start border border-slate-200/50 dark:border-slate-700/50 flex items-center gap-1">
+                                                    {node && <LocateFixed className="w-2.5 h-2.5 flex-shrink-0" />}
+                                                    <span><span className="opacity-70">{violation.elementType || "node"}:</span> <span className="font-medium">{violation.elementName}</span></span>
                                                 </div>
                                             )}
+                                            {isSuppressed && (
+                                                <span className="text-[10px] text-slate-500 dark:text-slate-400">
+                                                    {violation.severity} · exception in {violation.suppressedBy}
+                                                </span>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
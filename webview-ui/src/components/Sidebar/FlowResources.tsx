@@ -0,0 +1,309 @@
+/**
+ * Flow Resources Component
+ *
+ * Lists the flow's resources (variables, constants, formulas, text templates,
+ * choices, dynamic choice sets and stages) grouped by kind.
+ */
+
+import React, { useMemo, useState } from "react";
+import { Search, Box } from "lucide-react";
+import type { FlowResource, FlowResourceKind } from "../../types";
+import { FormulaView } from "./FormulaView";
+import type { SampleInput } from "./SampleDataInput";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FlowResourcesProps {
+  resources: FlowResource[];
+  selectedReference?: string | null;
+  onResourceSelect?: (name: string) => void;
+  /** Lowercased names the flow defines, to flag undefined formula references */
+  definedNames?: Set<string>;
+  sampleInput?: SampleInput;
+  onSampleInputChange?: (input: SampleInput) => void;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const KIND_ORDER: FlowResourceKind[] = [
+  "variable",
+  "constant",
+  "formula",
+  "textTemplate",
+  "choice",
+  "dynamicChoiceSet",
+  "stage",
+];
+
+const KIND_LABELS: Record<FlowResourceKind, string> = {
+  variable: "Variables",
+  constant: "Constants",
+  formula: "Formulas",
+  textTemplate: "Text Templates",
+  choice: "Choices",
+  dynamicChoiceSet: "Record Choice Sets",
+  stage: "Stages",
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Build the type label, e.g. "SObject<Account>[]"
+ */
+function formatDataType(resource: FlowResource): string | null {
+  if (!resource.dataType) return null;
+  let label = resource.dataType;
+  if (resource.objectType && resource.kind === "variable") {
+    label += `<${resource.objectType}>`;
+  }
+  if (resource.isCollection) {
+    label += "[]";
+  }
+  return label;
+}
+
+function matchesQuery(resource: FlowResource, query: string): boolean {
+  if (!query) return true;
+  const haystack = [
+    resource.name,
+    resource.dataType,
+    resource.objectType,
+    resource.label,
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+  return haystack.includes(query.toLowerCase());
+}
+
+const Flag: React.FC<{ label: string; className: string }> = ({
+  label,
+  className,
+}) => (
+  <span
+    className={`text-[9px] px-1.5 py-0.5 rounded-full font-bold uppercase tracking-wider ${className}`}
+  >
+    {label}
+  </span>
+);
+
+const CodeBlock: React.FC<{ label: string; value: string }> = ({
+  label,
+  value,
+}) => (
+  <div className="mt-1.5">
+    <div className="text-[10px] font-medium text-slate-400 dark:text-slate-500 uppercase tracking-wide mb-0.5">
+      {label}
+    </div>
+    <code className="text-xs bg-slate-100 dark:bg-slate-900/50 text-slate-700 dark:text-slate-300 px-2 py-1 rounded border border-slate-200 dark:border-slate-700 font-mono block break-all whitespace-pre-wrap">
+      {value}
+    </code>
+  </div>
+);
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+interface ResourceCardProps
+  extends Pick<
+    FlowResourcesProps,
+    "definedNames" | "sampleInput" | "onSampleInputChange"
+  > {
+  resource: FlowResource;
+  isSelected: boolean;
+  onSelect?: (name: string) => void;
+}
+
+const ResourceCard: React.FC<ResourceCardProps> = ({
+  resource,
+  isSelected,
+  onSelect,
+  definedNames,
+  sampleInput,
+  onSampleInputChange,
+}) => {
+  const dataType = formatDataType(resource);
+
+  return (
+    <div
+      onClick={() => onSelect?.(resource.name)}
+      className={`p-2 rounded border transition-colors ${onSelect ? "cursor-pointer" : ""} ${isSelected
+        ? "bg-blue-50 dark:bg-blue-900/20 border-blue-300 dark:border-blue-700"
+        : "bg-slate-50 dark:bg-slate-900/50 border-slate-200 dark:border-slate-700 hover:border-blue-300 dark:hover:border-blue-700"
+        }`}
+      title={onSelect ? "Show where this resource is read and written" : undefined}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <span
+          className="text-xs font-semibold font-mono text-slate-700 dark:text-slate-300 break-all"
+          title={resource.name}
+        >
+          {resource.name}
+        </span>
+        {dataType && (
+          <span className="text-[10px] font-mono text-blue-600 dark:text-blue-400 flex-shrink-0">
+            {dataType}
+          </span>
+        )}
+      </div>
+
+      {(resource.isInput || resource.isOutput || resource.isCollection) && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {resource.isInput && (
+            <Flag
+              label="Input"
+              className="bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400"
+            />
+          )}
+          {resource.isOutput && (
+            <Flag
+              label="Output"
+              className="bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400"
+            />
+          )}
+          {resource.isCollection && (
+            <Flag
+              label="Collection"
+              className="bg-slate-200 text-slate-600 dark:bg-slate-700 dark:text-slate-300"
+            />
+          )}
+        </div>
+      )}
+
+      {resource.label && (
+        <div className="text-xs text-slate-600 dark:text-slate-400 mt-1">
+          {resource.label}
+          {resource.stageOrder !== undefined && (
+            <span className="ml-1 text-slate-400">
+              (order {resource.stageOrder})
+            </span>
+          )}
+        </div>
+      )}
+
+      {resource.kind === "dynamicChoiceSet" && resource.objectType && (
+        <div className="text-[10px] text-slate-500 dark:text-slate-400 mt-1 font-mono">
+          {resource.objectType}
+          {resource.picklistField && `.${resource.picklistField}`}
+          {resource.displayField && ` · display ${resource.displayField}`}
+          {resource.valueField && ` · value ${resource.valueField}`}
+        </div>
+      )}
+
+      {resource.description && (
+        <div className="text-[10px] text-slate-500 dark:text-slate-400 mt-1">
+          {resource.description}
+        </div>
+      )}
+
+      {resource.defaultValue !== undefined && resource.defaultValue !== "" && (
+        <CodeBlock
+          label={resource.kind === "variable" ? "Default" : "Value"}
+          value={resource.defaultValue}
+        />
+      )}
+      {resource.expression && (
+        <FormulaView
+          label="Formula"
+          expression={resource.expression}
+          definedNames={definedNames}
+          sampleInput={sampleInput}
+          onSampleInputChange={onSampleInputChange}
+        />
+      )}
+      {resource.text && <CodeBlock label="Text" value={resource.text} />}
+    </div>
+  );
+};
+
+export const FlowResources: React.FC<FlowResourcesProps> = ({
+  resources,
+  selectedReference,
+  onResourceSelect,
+  definedNames,
+  sampleInput,
+  onSampleInputChange,
+}) => {
+  const [query, setQuery] = useState("");
+
+  const groups = useMemo(
+    () =>
+      KIND_ORDER.map((kind) => ({
+        kind,
+        items: resources
+          .filter((r) => r.kind === kind && matchesQuery(r, query))
+          .sort((a, b) => a.name.localeCompare(b.name)),
+      })).filter((group) => group.items.length > 0),
+    [resources, query]
+  );
+
+  if (resources.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-slate-400 dark:text-slate-500 p-6">
+        <Box className="w-12 h-12 mb-3 opacity-20" />
+        <p className="text-center text-xs">This flow declares no resources</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Search */}
+      <div className="p-3 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+        <div className="flex items-center gap-2 px-2 py-1.5 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded">
+          <Search className="w-3.5 h-3.5 text-slate-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter by name or type"
+            className="flex-1 bg-transparent text-xs text-slate-700 dark:text-slate-300 outline-none"
+          />
+        </div>
+      </div>
+
+      {/* Grouped resources */}
+      <div className="flex-1 overflow-y-auto p-3 space-y-4">
+        {groups.map((group) => (
+          <div key={group.kind}>
+            <div className="flex items-center gap-2 mb-2">
+              <span className="text-xs font-semibold text-slate-600 dark:text-slate-300 uppercase tracking-wide">
+                {KIND_LABELS[group.kind]}
+              </span>
+              <span className="px-1.5 py-0.5 text-[10px] font-medium bg-slate-200 dark:bg-slate-600 text-slate-600 dark:text-slate-300 rounded-full">
+                {group.items.length}
+              </span>
+            </div>
+            <div className="space-y-2">
+              {group.items.map((resource) => (
+                <ResourceCard
+                  key={resource.name}
+                  resource={resource}
+                  isSelected={selectedReference === resource.name}
+                  onSelect={onResourceSelect}
+                  definedNames={definedNames}
+                  sampleInput={sampleInput}
+                  onSampleInputChange={onSampleInputChange}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+        {groups.length === 0 && (
+          <p className="text-center text-xs text-slate-400 dark:text-slate-500">
+            No resources match "{query}"
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FlowResources;
@@ -0,0 +1,205 @@
+/**
+ * Formula View Component
+ *
+ * Shows a flow formula as a syntax-highlighted, pretty-printed expression,
+ * flags merge fields that refer to resources the flow does not define, and
+ * can evaluate the formula against sample record and variable values.
+ */
+
+import React, { useMemo, useState } from "react";
+import { AlertTriangle, FlaskConical } from "lucide-react";
+import type { FormulaTokenKind } from "../../types";
+import { parseFormula } from "../../parser";
+import {
+  evaluateFormula,
+  formatFormula,
+  getFormulaSampleTemplate,
+  getUndefinedFormulaReferences,
+} from "../../utils/formula";
+import type { FormulaEvaluation } from "../../utils/formula";
+import {
+  SampleDataInput,
+  formatSampleValue,
+  parseSampleInput,
+} from "./SampleDataInput";
+import type { SampleInput } from "./SampleDataInput";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FormulaViewProps {
+  label: string;
+  expression: string;
+  /** Lowercased names the flow defines; undefined references are flagged */
+  definedNames?: Set<string>;
+  /** Shared sample data; evaluation is offered when both are given */
+  sampleInput?: SampleInput;
+  onSampleInputChange?: (input: SampleInput) => void;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const TOKEN_CLASSES: Record<FormulaTokenKind, string> = {
+  function: "text-purple-600 dark:text-purple-400 font-semibold",
+  reference: "text-blue-600 dark:text-blue-400",
+  string: "text-green-600 dark:text-green-400",
+  number: "text-orange-600 dark:text-orange-400",
+  keyword: "text-pink-600 dark:text-pink-400 font-semibold",
+  operator: "text-slate-500 dark:text-slate-400",
+  punctuation: "text-slate-400 dark:text-slate-500",
+};
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+/**
+ * Value of an evaluated formula, with why it may differ from the org
+ */
+export const FormulaResult: React.FC<{ evaluation: FormulaEvaluation }> = ({
+  evaluation,
+}) => (
+  <div className="space-y-1 text-[10px]">
+    {evaluation.error ? (
+      <div className="text-red-600 dark:text-red-400">{evaluation.error}</div>
+    ) : (
+      <div className="text-xs text-slate-600 dark:text-slate-400">
+        Result:{" "}
+        <code className="font-mono font-semibold text-slate-800 dark:text-slate-100">
+          {formatSampleValue(evaluation.value)}
+        </code>
+      </div>
+    )}
+    {evaluation.missingReferences.length > 0 && (
+      <div className="text-amber-600 dark:text-amber-400 break-all">
+        No sample value for {evaluation.missingReferences.join(", ")}; treated
+        as null
+      </div>
+    )}
+  </div>
+);
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const FormulaView: React.FC<FormulaViewProps> = ({
+  label,
+  expression,
+  definedNames,
+  sampleInput,
+  onSampleInputChange,
+}) => {
+  const [isEvaluating, setIsEvaluating] = useState(false);
+
+  const parsed = useMemo(() => parseFormula(expression), [expression]);
+  const lines = useMemo(
+    () => (parsed.ast ? formatFormula(parsed.ast) : []),
+    [parsed]
+  );
+  const undefinedReferences = useMemo(
+    () =>
+      parsed.ast && definedNames
+        ? getUndefinedFormulaReferences(parsed.ast, definedNames)
+        : [],
+    [parsed, definedNames]
+  );
+  const sample = useMemo(
+    () =>
+      isEvaluating && sampleInput ? parseSampleInput(sampleInput) : null,
+    [isEvaluating, sampleInput]
+  );
+  const evaluation = useMemo(
+    () =>
+      parsed.ast && sample?.data
+        ? evaluateFormula(parsed.ast, sample.data)
+        : null,
+    [parsed, sample]
+  );
+
+  const { ast } = parsed;
+  const canEvaluate = Boolean(ast && sampleInput && onSampleInputChange);
+
+  return (
+    <div className="mt-1.5">
+      <div className="flex items-center justify-between mb-0.5">
+        <span className="text-[10px] font-medium text-slate-400 dark:text-slate-500 uppercase tracking-wide">
+          {label}
+        </span>
+        {canEvaluate && (
+          <button
+            onClick={(e) => {
+              // Keep the click from selecting the card the formula is on
+              e.stopPropagation();
+              setIsEvaluating(!isEvaluating);
+            }}
+            className={`flex items-center gap-1 text-[10px] hover:underline ${
+              isEvaluating
+                ? "text-slate-500 dark:text-slate-400"
+                : "text-blue-600 dark:text-blue-400"
+            }`}
+            title="Evaluate the formula against sample data"
+          >
+            <FlaskConical size={10} />
+            {isEvaluating ? "Hide" : "Evaluate"}
+          </button>
+        )}
+      </div>
+
+      {ast ? (
+        <pre className="text-xs bg-slate-100 dark:bg-slate-900/50 text-slate-700 dark:text-slate-300 px-2 py-1 rounded border border-slate-200 dark:border-slate-700 font-mono whitespace-pre-wrap break-all">
+          {lines.map((line, lineIdx) => (
+            <div key={lineIdx} style={{ paddingLeft: `${line.indent}em` }}>
+              {line.tokens.map((token, tokenIdx) => (
+                <span key={tokenIdx} className={TOKEN_CLASSES[token.kind]}>
+                  {token.text}
+                </span>
+              ))}
+            </div>
+          ))}
+        </pre>
+      ) : (
+        <>
+          <code className="text-xs bg-slate-100 dark:bg-slate-900/50 text-slate-700 dark:text-slate-300 px-2 py-1 rounded border border-slate-200 dark:border-slate-700 font-mono block break-all whitespace-pre-wrap">
+            {expression}
+          </code>
+          {parsed.error && (
+            <div className="flex items-start gap-1.5 mt-1 text-[10px] text-red-600 dark:text-red-400">
+              <AlertTriangle size={12} className="flex-shrink-0" />
+              {parsed.error.message} (at character {parsed.error.position + 1})
+            </div>
+          )}
+        </>
+      )}
+
+      {undefinedReferences.length > 0 && (
+        <div className="flex items-start gap-1.5 mt-1 text-[10px] text-amber-600 dark:text-amber-400">
+          <AlertTriangle size={12} className="flex-shrink-0" />
+          <span className="break-all">
+            Not defined in this flow:{" "}
+            {undefinedReferences
+              .map((reference) => `{!${reference}}`)
+              .join(", ")}
+          </span>
+        </div>
+      )}
+
+      {isEvaluating && ast && sampleInput && onSampleInputChange && (
+        <div className="mt-2 space-y-2" onClick={(e) => e.stopPropagation()}>
+          <SampleDataInput
+            input={sampleInput}
+            onInputChange={onSampleInputChange}
+            getTemplate={() => getFormulaSampleTemplate(ast)}
+            error={sample?.error}
+          />
+          {evaluation && <FormulaResult evaluation={evaluation} />}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FormulaView;
@@ -0,0 +1,212 @@
+/**
+ * Governor Limits Component
+ *
+ * Estimated SOQL query and DML statement use per transaction, and the
+ * queries, DML, Apex actions and subflow calls that run inside loops.
+ * Selecting one highlights the path to it on the canvas.
+ */
+
+import React from "react";
+import { AlertTriangle, CheckCircle2, Gauge, Repeat } from "lucide-react";
+import {
+  GOVERNOR_LIMITS,
+  exceedsGovernorLimits,
+} from "../../utils/governorLimits";
+import type {
+  GovernorLimitAnalysis,
+  LimitOperationKind,
+  LimitRisk,
+} from "../../utils/governorLimits";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GovernorLimitsProps {
+  analysis: GovernorLimitAnalysis;
+  /** Called flows are still being looked up in the workspace */
+  isResolving: boolean;
+  selectedRisk: LimitRisk | null;
+  onRiskSelect: (risk: LimitRisk | null) => void;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const KIND_STYLES: Record<LimitOperationKind, { label: string; pill: string }> = {
+  soql: {
+    label: "SOQL",
+    pill: "bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300",
+  },
+  dml: {
+    label: "DML",
+    pill: "bg-red-100 dark:bg-red-900/40 text-red-700 dark:text-red-300",
+  },
+  apex: {
+    label: "Apex",
+    pill: "bg-purple-100 dark:bg-purple-900/40 text-purple-700 dark:text-purple-300",
+  },
+  subflow: {
+    label: "Subflow",
+    pill: "bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300",
+  },
+};
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+const LimitMeter: React.FC<{ label: string; used: number; limit: number }> = ({
+  label,
+  used,
+  limit,
+}) => {
+  const ratio = used / limit;
+  const barColor =
+    ratio > 1 ? "bg-red-500" : ratio > 0.5 ? "bg-amber-500" : "bg-emerald-500";
+  return (
+    <div>
+      <div className="flex justify-between text-[11px] text-slate-600 dark:text-slate-300">
+        <span>{label}</span>
+        <span className={`font-mono ${ratio > 1 ? "text-red-600 dark:text-red-400 font-semibold" : ""}`}>
+          {used.toLocaleString()} / {limit}
+        </span>
+      </div>
+      <div className="h-1.5 mt-1 rounded-full bg-slate-200 dark:bg-slate-700 overflow-hidden">
+        <div
+          className={`h-full rounded-full ${barColor}`}
+          style={{ width: `${Math.min(100, ratio * 100)}%` }}
+        />
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const GovernorLimits: React.FC<GovernorLimitsProps> = ({
+  analysis,
+  isResolving,
+  selectedRisk,
+  onRiskSelect,
+}) => {
+  const { risks, estimates, missingSubflows, loopIterations } = analysis;
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Summary */}
+      <div className="p-3 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+        <div className="flex items-center gap-1.5">
+          <Gauge className="w-3.5 h-3.5 text-blue-500 flex-shrink-0" />
+          <span className="text-xs font-medium text-slate-700 dark:text-slate-200 flex-1">
+            {risks.length} operation{risks.length === 1 ? "" : "s"} in loops
+          </span>
+          {isResolving && (
+            <span className="text-[10px] text-slate-400 dark:text-slate-500">
+              Finding subflows…
+            </span>
+          )}
+        </div>
+        <div className="text-[10px] text-slate-400 dark:text-slate-500 mt-1">
+          Worst case, assuming {loopIterations} items per loop
+        </div>
+      </div>
+
+      {/* Estimates per transaction */}
+      <div className="p-3 border-b border-slate-200 dark:border-slate-700 space-y-3">
+        {estimates.map((estimate) => (
+          <div key={estimate.transaction} className="space-y-1.5">
+            <div className="flex items-center gap-1.5 text-xs font-semibold text-slate-700 dark:text-slate-200">
+              {exceedsGovernorLimits(estimate) ? (
+                <AlertTriangle className="w-3.5 h-3.5 text-red-500" />
+              ) : (
+                <CheckCircle2 className="w-3.5 h-3.5 text-emerald-500" />
+              )}
+              {estimate.transaction}
+            </div>
+            <LimitMeter
+              label="SOQL queries"
+              used={estimate.queries}
+              limit={GOVERNOR_LIMITS.queries}
+            />
+            <LimitMeter
+              label="DML statements"
+              used={estimate.dmlStatements}
+              limit={GOVERNOR_LIMITS.dmlStatements}
+            />
+            {estimate.unknownCalls > 0 && (
+              <div className="text-[10px] text-slate-500 dark:text-slate-400">
+                Plus {estimate.unknownCalls.toLocaleString()} Apex or subflow
+                call{estimate.unknownCalls === 1 ? "" : "s"} that may use more
+              </div>
+            )}
+          </div>
+        ))}
+        {missingSubflows.length > 0 && !isResolving && (
+          <div className="flex items-start gap-1.5 text-[10px] text-amber-700 dark:text-amber-400">
+            <AlertTriangle className="w-3 h-3 flex-shrink-0 mt-0.5" />
+            <span>
+              Not found in the workspace: {missingSubflows.join(", ")}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Operations inside loops */}
+      {risks.length === 0 ? (
+        <div className="p-6 text-center text-xs text-slate-500 dark:text-slate-400">
+          <CheckCircle2 className="w-6 h-6 mx-auto mb-2 text-emerald-500" />
+          No queries, DML or actions run inside loops
+        </div>
+      ) : (
+        <ul className="flex-1 overflow-y-auto p-3 space-y-1.5">
+          {risks.map((risk, index) => {
+            const style = KIND_STYLES[risk.kind];
+            const isSelected = selectedRisk === risk;
+            return (
+              <li key={`${risk.node.id}-${risk.element.id}-${index}`}>
+                <button
+                  onClick={() => onRiskSelect(isSelected ? null : risk)}
+                  className={`w-full text-left px-2 py-1.5 rounded border transition-colors ${
+                    isSelected
+                      ? "border-blue-400 bg-blue-50 dark:bg-blue-900/20"
+                      : "border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700/50"
+                  }`}
+                  title={isSelected ? "Clear highlight" : "Highlight on canvas"}
+                >
+                  <div className="flex items-center gap-1.5">
+                    <span
+                      className={`text-[9px] px-1.5 py-0.5 rounded-full font-bold uppercase tracking-wider flex-shrink-0 ${style.pill}`}
+                    >
+                      {style.label}
+                    </span>
+                    <span className="text-xs font-medium text-slate-700 dark:text-slate-200 truncate flex-1">
+                      {risk.element.label}
+                    </span>
+                    <span className="text-[10px] font-mono text-slate-500 dark:text-slate-400 flex-shrink-0">
+                      ×{risk.executions.toLocaleString()}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-1 mt-1 text-[10px] text-slate-500 dark:text-slate-400 truncate">
+                    <Repeat className="w-3 h-3 flex-shrink-0" />
+                    {risk.loops.map((loop) => loop.label).join(" › ")}
+                  </div>
+                  {risk.subflows.length > 0 && (
+                    <div className="mt-0.5 text-[10px] text-slate-500 dark:text-slate-400 truncate">
+                      via {risk.node.label} → {risk.subflows.join(" › ")}
+                    </div>
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default GovernorLimits;
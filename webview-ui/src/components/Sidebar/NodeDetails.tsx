@@ -18,13 +18,30 @@ import {
   ArrowRightLeft,
   Database,
   Code,
+  Variable,
+  FlaskConical,
 } from "lucide-react";
 import type { FlowNode, FlowEdge, NodeTypeConfig } from "../../types";
 import { NODE_CONFIG } from "../../constants";
+import {
+  formatOperator,
+  formatTriggerType,
+  formatRecordTriggerType,
+} from "../../utils/formatters";
+import { ConditionEvaluator } from "./ConditionEvaluator";
+import { FormulaView } from "./FormulaView";
+import type { SampleInput } from "./SampleDataInput";
 
 export interface NodeDetailsProps {
   node: FlowNode;
   edges: FlowEdge[];
+  selectedReference?: string | null;
+  onReferenceSelect?: (reference: string) => void;
+  /** Sample data for evaluating decision and entry conditions */
+  sampleInput?: SampleInput;
+  onSampleInputChange?: (input: SampleInput) => void;
+  /** Lowercased names the flow defines, to flag undefined formula references */
+  definedNames?: Set<string>;
 }
 
 // Collapsible Section Component
@@ -102,51 +119,15 @@ const DataRow: React.FC<DataRowProps> = ({ label, value, isCode = false }) => (
   </div>
 );
 
-// Operator display helper
-function formatOperator(operator: string): string {
-  const operators: Record<string, string> = {
-    Assign: "=",
-    Add: "Add",
-    Subtract: "Subtract",
-    EqualTo: "=",
-    NotEqualTo: "≠",
-    GreaterThan: ">",
-    GreaterThanOrEqualTo: ">=",
-    LessThan: "<",
-    LessThanOrEqualTo: "<=",
-    Contains: "Contains",
-    StartsWith: "Starts With",
-    EndsWith: "Ends With",
-    IsNull: "Is Null",
-    IsBlank: "Is Blank",
-  };
-  return operators[operator] || operator;
-}
-
-// Format trigger type for display
-function formatTriggerType(triggerType: string): string {
-  const types: Record<string, string> = {
-    RecordAfterSave: "After Save",
-    RecordBeforeSave: "Before Save",
-    RecordBeforeDelete: "Before Delete",
-    Scheduled: "Scheduled",
-    PlatformEvent: "Platform Event",
-  };
-  return types[triggerType] || triggerType;
-}
-
-// Format record trigger type for display
-function formatRecordTriggerType(recordTriggerType: string): string {
-  const types: Record<string, string> = {
-    Create: "A record is created",
-    Update: "A record is updated",
-    CreateAndUpdate: "A record is created or updated",
-    Delete: "A record is deleted",
-  };
-  return types[recordTriggerType] || recordTriggerType;
-}
-
-export const NodeDetails: React.FC<NodeDetailsProps> = ({ node, edges }) => {
+export const NodeDetails: React.FC<NodeDetailsProps> = ({
+  node,
+  edges,
+  selectedReference,
+  onReferenceSelect,
+  sampleInput,
+  onSampleInputChange,
+  definedNames,
+}) => {
   const config: NodeTypeConfig = NODE_CONFIG[node.type] || NODE_CONFIG.ACTION;
   const data = node.data;
 
@@ -166,11 +147,13 @@ export const NodeDetails: React.FC<NodeDetailsProps> = ({ node, edges }) => {
     Array.isArray(data.screenFields) && data.screenFields.length > 0;
   const hasLoopInfo = Boolean(data.collectionReference);
   const hasRecordInfo = Boolean(data.object) || Boolean(data.inputReference);
+  const references = data.references || [];
 
   // START node specific checks
   const isStartNode = node.type === "START";
   const hasEntryConditions =
     Array.isArray(data.entryConditions) && data.entryConditions.length > 0;
+  const hasEntryFormula = Boolean(data.filterFormula);
   const hasScheduledPaths =
     Array.isArray(data.scheduledPaths) && data.scheduledPaths.length > 0;
   const hasTriggerInfo =
@@ -337,14 +320,11 @@ export const NodeDetails: React.FC<NodeDetailsProps> = ({ node, edges }) => {
 
             {/* Filter Formula */}
             {data.filterFormula && (
-              <div className="mt-2">
-                <div className="text-[10px] font-medium text-slate-400 dark:text-slate-500 uppercase tracking-wide mb-1">
-                  Formula
-                </div>
-                <code className="text-xs bg-slate-100 dark:bg-slate-900/50 text-slate-700 dark:text-slate-300 px-2 py-1.5 rounded border border-slate-200 dark:border-slate-700 font-mono block break-all">
-                  {data.filterFormula as string}
-                </code>
-              </div>
+              <FormulaView
+                label="Formula"
+                expression={data.filterFormula}
+                definedNames={definedNames}
+              />
             )}
           </Section>
         )}
@@ -593,6 +573,23 @@ export const NodeDetails: React.FC<NodeDetailsProps> = ({ node, edges }) => {
           </Section>
         )}
 
+        {/* Evaluate conditions against sample data */}
+        {(hasRules ||
+          (isStartNode && (hasEntryConditions || hasEntryFormula))) &&
+          sampleInput &&
+          onSampleInputChange && (
+            <Section
+              title="Evaluate with Sample Data"
+              icon={<FlaskConical size={12} />}
+            >
+              <ConditionEvaluator
+                node={node}
+                input={sampleInput}
+                onInputChange={onSampleInputChange}
+              />
+            </Section>
+          )}
+
         {/* Loop Info */}
         {hasLoopInfo && (
           <Section
@@ -654,6 +651,48 @@ export const NodeDetails: React.FC<NodeDetailsProps> = ({ node, edges }) => {
           </Section>
         )}
 
+        {/* Variable References */}
+        {references.length > 0 && (
+          <Section
+            title="Variables"
+            icon={<Variable size={12} />}
+            defaultOpen={true}
+            badge={references.length}
+          >
+            <div className="space-y-1">
+              {references.map((ref, idx) => (
+                <button
+                  key={`${ref.access}-${ref.context}-${ref.reference}-${idx}`}
+                  onClick={() => onReferenceSelect?.(ref.reference)}
+                  className={`w-full text-xs flex items-center gap-1.5 px-2 py-1.5 rounded border text-left transition-colors
+                    ${
+                      selectedReference === ref.reference
+                        ? "bg-blue-50 dark:bg-blue-900/20 border-blue-300 dark:border-blue-700"
+                        : "bg-slate-50 dark:bg-slate-900/50 border-slate-200 dark:border-slate-700 hover:border-blue-300 dark:hover:border-blue-700"
+                    }`}
+                  title="Highlight every element that reads or writes this reference"
+                >
+                  <span
+                    className={`text-[9px] px-1 rounded font-bold uppercase ${
+                      ref.access === "write"
+                        ? "bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400"
+                        : "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400"
+                    }`}
+                  >
+                    {ref.access === "write" ? "W" : "R"}
+                  </span>
+                  <span className="font-mono text-slate-700 dark:text-slate-300 truncate flex-1">
+                    {ref.reference}
+                  </span>
+                  <span className="text-[10px] text-slate-400 dark:text-slate-500 flex-shrink-0">
+                    {ref.context}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </Section>
+        )}
+
         {/* Connections */}
         <Section
           title="Connections"
@@ -0,0 +1,127 @@
+/**
+ * Reference Usages Component
+ *
+ * Lists every element (and formula / text template) that reads or writes
+ * the selected variable or record field.
+ */
+
+import React from "react";
+import { Variable, X, PenLine, Eye } from "lucide-react";
+import type { FlowNode } from "../../types";
+import type { ReferenceUsage, ReferenceUsages as Usages } from "../../model";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReferenceUsagesProps {
+  reference: string;
+  usages: Usages;
+  nodes: FlowNode[];
+  onNodeSelect: (node: FlowNode) => void;
+  onClear: () => void;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+const UsageList: React.FC<{
+  title: string;
+  icon: React.ReactNode;
+  usages: ReferenceUsage[];
+  nodesById: Map<string, FlowNode>;
+  onNodeSelect: (node: FlowNode) => void;
+}> = ({ title, icon, usages, nodesById, onNodeSelect }) => (
+  <div>
+    <div className="flex items-center gap-1.5 text-[10px] font-medium text-slate-400 dark:text-slate-500 uppercase tracking-wide mb-1">
+      {icon}
+      {title} ({usages.length})
+    </div>
+    {usages.length === 0 ? (
+      <div className="text-xs italic text-slate-400 dark:text-slate-500">
+        None
+      </div>
+    ) : (
+      <div className="space-y-1">
+        {usages.map((usage, idx) => {
+          const node =
+            usage.sourceType === "element"
+              ? nodesById.get(usage.sourceId)
+              : undefined;
+          return (
+            <button
+              key={`${usage.sourceId}-${usage.context}-${usage.reference}-${idx}`}
+              disabled={!node}
+              onClick={() => node && onNodeSelect(node)}
+              className="w-full text-left bg-slate-50 dark:bg-slate-900/50 px-2 py-1.5 rounded border border-slate-200 dark:border-slate-700 enabled:hover:border-blue-300 dark:enabled:hover:border-blue-700 transition-colors"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-xs font-medium text-slate-700 dark:text-slate-300 truncate">
+                  {node ? node.label : usage.sourceId}
+                </span>
+                <span className="text-[10px] text-slate-400 dark:text-slate-500 flex-shrink-0">
+                  {usage.sourceType === "resource" ? "Resource" : usage.context}
+                </span>
+              </div>
+              {usage.reference.includes(".") && (
+                <div className="text-[10px] font-mono text-blue-600 dark:text-blue-400 truncate">
+                  {usage.reference}
+                </div>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    )}
+  </div>
+);
+
+export const ReferenceUsages: React.FC<ReferenceUsagesProps> = ({
+  reference,
+  usages,
+  nodes,
+  onNodeSelect,
+  onClear,
+}) => {
+  const nodesById = new Map(nodes.map((n) => [n.id, n]));
+
+  return (
+    <div className="p-3 border-b border-slate-200 dark:border-slate-700 bg-blue-50/50 dark:bg-blue-900/10 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-1.5 min-w-0">
+          <Variable size={14} className="text-blue-500 flex-shrink-0" />
+          <code
+            className="text-xs font-semibold text-slate-800 dark:text-slate-100 truncate"
+            title={reference}
+          >
+            {reference}
+          </code>
+        </div>
+        <button
+          onClick={onClear}
+          className="p-0.5 rounded text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 hover:bg-slate-200 dark:hover:bg-slate-700"
+          title="Clear variable highlight"
+        >
+          <X size={14} />
+        </button>
+      </div>
+      <UsageList
+        title="Written by"
+        icon={<PenLine size={10} />}
+        usages={usages.writes}
+        nodesById={nodesById}
+        onNodeSelect={onNodeSelect}
+      />
+      <UsageList
+        title="Read by"
+        icon={<Eye size={10} />}
+        usages={usages.reads}
+        nodesById={nodesById}
+        onNodeSelect={onNodeSelect}
+      />
+    </div>
+  );
+};
+
+export default ReferenceUsages;
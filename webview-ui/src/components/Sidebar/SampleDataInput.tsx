@@ -0,0 +1,161 @@
+/**
+ * Sample Data Input Component
+ *
+ * JSON text boxes for a sample record ($Record) and variable values, shared
+ * by the condition and formula evaluators so one scenario can be tried
+ * against every decision and formula in the flow.
+ */
+
+import React from "react";
+import { AlertTriangle, Wand2 } from "lucide-react";
+import type { SampleData } from "../../utils/sampleData";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Sample data as typed by the user: JSON text for the record and variables
+ */
+export interface SampleInput {
+  record: string;
+  variables: string;
+}
+
+export interface SampleDataInputProps {
+  input: SampleInput;
+  onInputChange: (input: SampleInput) => void;
+  /** Skeleton with the fields and variables being evaluated */
+  getTemplate: () => SampleData;
+  /** Parse error from parseSampleInput, shown under the boxes */
+  error?: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Parse one JSON text box; blank means no values
+ */
+function parseJsonObject(
+  text: string,
+  name: string
+): { value: Record<string, unknown>; error?: string } {
+  if (!text.trim()) return { value: {} };
+  try {
+    const value: unknown = JSON.parse(text);
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return { value: {}, error: `${name} must be a JSON object` };
+    }
+    return { value: value as Record<string, unknown> };
+  } catch (error) {
+    return {
+      value: {},
+      error: `${name}: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+/**
+ * Turn the typed JSON into sample data, or the first parse error
+ */
+export function parseSampleInput(
+  input: SampleInput
+): { data: SampleData; error?: undefined } | { data: null; error: string } {
+  const record = parseJsonObject(input.record, "Record");
+  const variables = parseJsonObject(input.variables, "Variables");
+  const error = record.error || variables.error;
+  return error
+    ? { data: null, error }
+    : { data: { record: record.value, variables: variables.value } };
+}
+
+/**
+ * Add the template's keys the user has not filled in yet; text that is not
+ * valid JSON is left for the user to fix
+ */
+function mergeTemplate(
+  text: string,
+  template: Record<string, unknown>
+): string {
+  const current = parseJsonObject(text, "");
+  if (current.error) return text;
+  if (Object.keys(template).length === 0 && !text.trim()) return text;
+  return JSON.stringify({ ...template, ...current.value }, null, 2);
+}
+
+/**
+ * Sample value as shown next to a result
+ */
+export function formatSampleValue(value: unknown): string {
+  if (value === undefined || value === null) return "null";
+  return typeof value === "string" ? `"${value}"` : JSON.stringify(value);
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+const TEXTAREA_CLASS =
+  "w-full h-20 px-2 py-1.5 text-[11px] font-mono rounded border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-100 resize-y";
+
+export const SampleDataInput: React.FC<SampleDataInputProps> = ({
+  input,
+  onInputChange,
+  getTemplate,
+  error,
+}) => {
+  const fillTemplate = () => {
+    const template = getTemplate();
+    onInputChange({
+      record: mergeTemplate(input.record, template.record),
+      variables: mergeTemplate(input.variables, template.variables),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-medium text-slate-400 dark:text-slate-500 uppercase tracking-wide">
+          Record ($Record)
+        </span>
+        <button
+          onClick={fillTemplate}
+          className="flex items-center gap-1 text-[10px] text-blue-600 dark:text-blue-400 hover:underline"
+          title="Add the fields and variables being evaluated"
+        >
+          <Wand2 size={10} />
+          Add referenced fields
+        </button>
+      </div>
+      <textarea
+        value={input.record}
+        onChange={(e) => onInputChange({ ...input, record: e.target.value })}
+        placeholder={'{ "Rating": "Hot", "AnnualRevenue": 500000 }'}
+        className={TEXTAREA_CLASS}
+        spellCheck={false}
+      />
+      <span className="block text-[10px] font-medium text-slate-400 dark:text-slate-500 uppercase tracking-wide">
+        Variables
+      </span>
+      <textarea
+        value={input.variables}
+        onChange={(e) =>
+          onInputChange({ ...input, variables: e.target.value })
+        }
+        placeholder={'{ "varScore": 80, "$Record__Prior": { "Rating": "Warm" } }'}
+        className={TEXTAREA_CLASS}
+        spellCheck={false}
+      />
+      {error && (
+        <div className="flex items-start gap-1.5 text-[10px] text-red-600 dark:text-red-400">
+          <AlertTriangle size={12} className="flex-shrink-0" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SampleDataInput;
@@ -4,15 +4,40 @@
  * Collapsible sidebar showing flow stats and selected node details.
  */
 
-import React from "react";
-import { ChevronLeftCircle, ChevronRightCircle, Info, Activity } from "lucide-react";
-import type { FlowNode, FlowEdge } from "../../types";
+import React, { useMemo, useState } from "react";
+import {
+  ChevronLeftCircle,
+  ChevronRightCircle,
+  Info,
+  Activity,
+  Box,
+  GitCompare,
+  Footprints,
+  Gauge,
+} from "lucide-react";
+import type { FlowNode, FlowEdge, FlowResource, FlowDiff } from "../../types";
 import type { FlowQualityMetrics } from "../../utils/flow-scanner";
 import { FlowStats } from "./FlowStats";
 import { NodeDetails } from "./NodeDetails";
 import { FlowQuality } from "./FlowQuality";
+import { FlowResources } from "./FlowResources";
+import { ReferenceUsages } from "./ReferenceUsages";
+import { FlowDiffSummary } from "./FlowDiffSummary";
+import { SimulationLog } from "./SimulationLog";
+import type { SimulationLogProps } from "./SimulationLog";
+import { GovernorLimits } from "./GovernorLimits";
+import type { GovernorLimitsProps } from "./GovernorLimits";
+import type { SampleInput } from "./SampleDataInput";
+import { getDefinedReferenceNames } from "../../utils/formula";
+import type { ReferenceUsages as ReferenceUsagesData } from "../../model";
 
-export type TabView = "details" | "quality";
+export type TabView =
+  | "details"
+  | "resources"
+  | "quality"
+  | "changes"
+  | "simulation"
+  | "limits";
 
 export interface SidebarProps {
   isOpen: boolean;
@@ -20,21 +45,70 @@ export interface SidebarProps {
   selectedNode: FlowNode | null;
   nodes: FlowNode[];
   edges: FlowEdge[];
+  resources: FlowResource[];
   qualityMetrics: FlowQualityMetrics | null;
   activeTab: TabView;
   onTabChange: (tab: TabView) => void;
+  selectedReference: string | null;
+  referenceUsages: ReferenceUsagesData | null;
+  onReferenceSelect: (reference: string | null) => void;
+  onNodeSelect: (node: FlowNode) => void;
+  /** Pan and zoom the canvas to a node, e.g. from a scanner violation */
+  onLocateNode?: (node: FlowNode) => void;
+  /** Changes between compared versions; shows the Changes tab when set */
+  flowDiff?: FlowDiff | null;
+  /** Simulate mode walk and controls; shows the Simulate tab when set */
+  simulation?: SimulationLogProps | null;
+  /** Governor limit analysis; shows the Limits tab when set */
+  limits?: GovernorLimitsProps | null;
 }
 
+interface TabButtonProps {
+  isActive: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+const TabButton: React.FC<TabButtonProps> = ({ isActive, onClick, children }) => (
+  <button
+    onClick={onClick}
+    className={`flex-1 px-3 py-2 text-xs font-medium transition-colors flex items-center justify-center gap-1.5 ${isActive
+      ? "text-blue-600 dark:text-blue-400 border-b-2 border-blue-600 dark:border-blue-400 bg-blue-50 dark:bg-blue-900/10"
+      : "text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200"
+      }`}
+  >
+    {children}
+  </button>
+);
+
 export const Sidebar: React.FC<SidebarProps> = ({
   isOpen,
   onToggle,
   selectedNode,
   nodes,
   edges,
+  resources,
   qualityMetrics,
   activeTab,
   onTabChange,
+  selectedReference,
+  referenceUsages,
+  onReferenceSelect,
+  onNodeSelect,
+  onLocateNode,
+  flowDiff,
+  simulation,
+  limits,
 }) => {
+  // Sample data is kept while moving between decisions
+  const [sampleInput, setSampleInput] = useState<SampleInput>({
+    record: "",
+    variables: "",
+  });
+  const definedNames = useMemo(
+    () => getDefinedReferenceNames(nodes, resources),
+    [nodes, resources]
+  );
   // Show quality tab if there are violations
   const hasViolations = (qualityMetrics?.totalViolations || 0) > 0;
   return (
@@ -52,24 +126,57 @@ export const Sidebar: React.FC<SidebarProps> = ({
         />
 
         {/* Tab Navigation */}
-        {qualityMetrics && (
-          <div className="flex border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
-            <button
-              onClick={() => onTabChange("details")}
-              className={`flex-1 px-3 py-2 text-xs font-medium transition-colors flex items-center justify-center gap-1.5 ${activeTab === "details"
-                ? "text-blue-600 dark:text-blue-400 border-b-2 border-blue-600 dark:border-blue-400 bg-blue-50 dark:bg-blue-900/10"
-                : "text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200"
-                }`}
+        <div className="flex border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+          <TabButton
+            isActive={activeTab === "details"}
+            onClick={() => onTabChange("details")}
+          >
+            <Info className="w-3.5 h-3.5" />
+            Details
+          </TabButton>
+          <TabButton
+            isActive={activeTab === "resources"}
+            onClick={() => onTabChange("resources")}
+          >
+            <Box className="w-3.5 h-3.5" />
+            Resources
+          </TabButton>
+          {flowDiff && (
+            <TabButton
+              isActive={activeTab === "changes"}
+              onClick={() => onTabChange("changes")}
+            >
+              <GitCompare className="w-3.5 h-3.5" />
+              Changes
+            </TabButton>
+          )}
+          {simulation && (
+            <TabButton
+              isActive={activeTab === "simulation"}
+              onClick={() => onTabChange("simulation")}
+            >
+              <Footprints className="w-3.5 h-3.5" />
+              Simulate
+            </TabButton>
+          )}
+          {limits && (
+            <TabButton
+              isActive={activeTab === "limits"}
+              onClick={() => onTabChange("limits")}
             >
-              <Info className="w-3.5 h-3.5" />
-              Details
-            </button>
-            <button
+              <Gauge className="w-3.5 h-3.5" />
+              Limits
+              {limits.analysis.risks.length > 0 && (
+                <span className="ml-1 px-1.5 py-0.5 bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400 rounded-full text-[10px] font-semibold">
+                  {limits.analysis.risks.length}
+                </span>
+              )}
+            </TabButton>
+          )}
+          {qualityMetrics && (
+            <TabButton
+              isActive={activeTab === "quality"}
               onClick={() => onTabChange("quality")}
-              className={`flex-1 px-3 py-2 text-xs font-medium transition-colors flex items-center justify-center gap-1.5 ${activeTab === "quality"
-                ? "text-blue-600 dark:text-blue-400 border-b-2 border-blue-600 dark:border-blue-400 bg-blue-50 dark:bg-blue-900/10"
-                : "text-slate-600 dark:text-slate-400 hover:text-slate-900 dark:hover:text-slate-200"
-                }`}
             >
               <Activity className="w-3.5 h-3.5" />
               Quality
@@ -78,25 +185,72 @@ export const Sidebar: React.FC<SidebarProps> = ({
                   {qualityMetrics.totalViolations}
                 </span>
               )}
-            </button>
-          </div>
-        )}
+            </TabButton>
+          )}
+        </div>
 
         {/* Content Panel */}
         <div className="flex-1 overflow-y-auto">
           {activeTab === "details" ? (
-            selectedNode ? (
-              <NodeDetails node={selectedNode} edges={edges} />
-            ) : (
-              <div className="flex flex-col items-center justify-center h-full text-slate-400 dark:text-slate-500 p-6">
-                <Info className="w-12 h-12 mb-3 opacity-20" />
-                <p className="text-center text-xs">
-                  Select a node to view details
-                </p>
-              </div>
-            )
+            <div className="flex flex-col h-full">
+              {selectedReference && referenceUsages && (
+                <ReferenceUsages
+                  reference={selectedReference}
+                  usages={referenceUsages}
+                  nodes={nodes}
+                  onNodeSelect={onNodeSelect}
+                  onClear={() => onReferenceSelect(null)}
+                />
+              )}
+              {selectedNode ? (
+                <NodeDetails
+                  node={selectedNode}
+                  edges={edges}
+                  selectedReference={selectedReference}
+                  onReferenceSelect={onReferenceSelect}
+                  sampleInput={sampleInput}
+                  onSampleInputChange={setSampleInput}
+                  definedNames={definedNames}
+                />
+              ) : (
+                !selectedReference && (
+                  <div className="flex flex-col items-center justify-center h-full text-slate-400 dark:text-slate-500 p-6">
+                    <Info className="w-12 h-12 mb-3 opacity-20" />
+                    <p className="text-center text-xs">
+                      Select a node to view details
+                    </p>
+                  </div>
+                )
+              )}
+            </div>
+          ) : activeTab === "resources" ? (
+            <FlowResources
+              resources={resources}
+              selectedReference={selectedReference}
+              onResourceSelect={(name) => {
+                onReferenceSelect(name);
+                onTabChange("details");
+              }}
+              definedNames={definedNames}
+              sampleInput={sampleInput}
+              onSampleInputChange={setSampleInput}
+            />
+          ) : activeTab === "changes" && flowDiff ? (
+            <FlowDiffSummary
+              diff={flowDiff}
+              nodes={nodes}
+              onNodeSelect={onNodeSelect}
+            />
+          ) : activeTab === "simulation" && simulation ? (
+            <SimulationLog {...simulation} />
+          ) : activeTab === "limits" && limits ? (
+            <GovernorLimits {...limits} />
           ) : (
-            <FlowQuality metrics={qualityMetrics} />
+            <FlowQuality
+              metrics={qualityMetrics}
+              nodes={nodes}
+              onLocateNode={onLocateNode}
+            />
           )}
         </div>
       </div>
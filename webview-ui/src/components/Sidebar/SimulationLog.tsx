@@ -0,0 +1,209 @@
+/**
+ * Simulation Log Component
+ *
+ * Simulate mode controls: the choice the walk is waiting on (an outcome,
+ * wait event, path or loop iteration count) and the elements executed so
+ * far, in order.
+ */
+
+import React, { useState, useEffect } from "react";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  Footprints,
+  Repeat,
+  RotateCcw,
+  Square,
+  Undo2,
+} from "lucide-react";
+import type { FlowNode } from "../../types";
+import { NODE_CONFIG } from "../../constants";
+import type { SimulationResult } from "../../utils/flowSimulation";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SimulationLogProps {
+  simulation: SimulationResult;
+  onChooseEdge: (nodeId: string, edgeId: string) => void;
+  onChooseIterations: (nodeId: string, iterations: number) => void;
+  onUndo: () => void;
+  onRestart: () => void;
+  onStop: () => void;
+  onNodeSelect: (node: FlowNode) => void;
+}
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+const IterationPicker: React.FC<{
+  node: FlowNode;
+  onChoose: (iterations: number) => void;
+}> = ({ node, onChoose }) => {
+  const [iterations, setIterations] = useState(1);
+
+  // Start from one pass for each loop asked about
+  useEffect(() => setIterations(1), [node.id]);
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="number"
+        min={0}
+        value={iterations}
+        onChange={(e) => setIterations(Math.max(0, parseInt(e.target.value, 10) || 0))}
+        className="w-16 px-2 py-1 text-xs rounded border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-100"
+      />
+      <button
+        onClick={() => onChoose(iterations)}
+        className="flex-1 px-2 py-1 text-xs font-medium rounded bg-amber-500 hover:bg-amber-600 text-white"
+      >
+        {iterations === 0
+          ? "Skip the loop"
+          : `Run ${iterations} time${iterations === 1 ? "" : "s"}`}
+      </button>
+    </div>
+  );
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const SimulationLog: React.FC<SimulationLogProps> = ({
+  simulation,
+  onChooseEdge,
+  onChooseIterations,
+  onUndo,
+  onRestart,
+  onStop,
+  onNodeSelect,
+}) => {
+  const { steps, pending } = simulation;
+
+  return (
+    <div className="flex flex-col h-full">
+      {/* Controls */}
+      <div className="p-3 border-b border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50 flex items-center gap-1">
+        <Footprints className="w-3.5 h-3.5 text-emerald-500 flex-shrink-0" />
+        <span className="text-xs font-medium text-slate-700 dark:text-slate-200 flex-1">
+          {steps.length} step{steps.length === 1 ? "" : "s"} executed
+        </span>
+        <button
+          onClick={onUndo}
+          disabled={simulation.choicesUsed === 0}
+          className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700 disabled:opacity-40"
+          title="Undo last choice"
+        >
+          <Undo2 className="w-3.5 h-3.5 text-slate-600 dark:text-slate-300" />
+        </button>
+        <button
+          onClick={onRestart}
+          className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700"
+          title="Restart from Start"
+        >
+          <RotateCcw className="w-3.5 h-3.5 text-slate-600 dark:text-slate-300" />
+        </button>
+        <button
+          onClick={onStop}
+          className="p-1 rounded hover:bg-slate-200 dark:hover:bg-slate-700"
+          title="Stop simulating"
+        >
+          <Square className="w-3.5 h-3.5 text-slate-600 dark:text-slate-300" />
+        </button>
+      </div>
+
+      {/* Pending choice or outcome */}
+      <div className="p-3 border-b border-slate-200 dark:border-slate-700">
+        {pending?.kind === "path" && (
+          <div className="space-y-2">
+            <div className="text-xs text-slate-600 dark:text-slate-300">
+              Which way does{" "}
+              <span className="font-semibold">{pending.node.label}</span> go?
+            </div>
+            <div className="space-y-1">
+              {pending.options.map((option) => (
+                <button
+                  key={option.edge.id}
+                  onClick={() => onChooseEdge(pending.node.id, option.edge.id)}
+                  className="w-full text-left px-2 py-1.5 text-xs rounded border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/40"
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+        {pending?.kind === "iterations" && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-1.5 text-xs text-slate-600 dark:text-slate-300">
+              <Repeat className="w-3.5 h-3.5 text-amber-500" />
+              <span>
+                How many items does{" "}
+                <span className="font-semibold">{pending.node.label}</span>{" "}
+                loop over?
+              </span>
+            </div>
+            <IterationPicker
+              node={pending.node}
+              onChoose={(iterations) =>
+                onChooseIterations(pending.node.id, iterations)
+              }
+            />
+          </div>
+        )}
+        {simulation.finished && (
+          <div className="flex items-center gap-1.5 text-xs text-emerald-700 dark:text-emerald-400">
+            <CheckCircle2 className="w-3.5 h-3.5" />
+            The flow finishes on this path.
+          </div>
+        )}
+        {simulation.truncated && (
+          <div className="flex items-start gap-1.5 text-xs text-amber-700 dark:text-amber-400">
+            <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+            Stopped after {steps.length} steps: the path keeps looping without
+            reaching a choice.
+          </div>
+        )}
+      </div>
+
+      {/* Executed elements */}
+      <ol className="flex-1 overflow-y-auto p-3 space-y-1">
+        {steps.map((step, index) => {
+          const config = NODE_CONFIG[step.node.type] || NODE_CONFIG.ACTION;
+          const isBranch = step.edge?.label && step.node.type !== "START";
+          return (
+            <li key={index}>
+              <button
+                onClick={() => onNodeSelect(step.node)}
+                className="w-full text-left flex items-start gap-2 px-2 py-1 rounded hover:bg-slate-100 dark:hover:bg-slate-700"
+              >
+                <span className="text-[10px] font-mono text-slate-400 w-6 text-right flex-shrink-0 mt-0.5">
+                  {index + 1}
+                </span>
+                <span
+                  className="w-2 h-2 rounded-full flex-shrink-0 mt-1.5"
+                  style={{ backgroundColor: config.color }}
+                />
+                <span className="min-w-0">
+                  <span className="block text-xs text-slate-700 dark:text-slate-200 truncate">
+                    {step.node.label}
+                  </span>
+                  <span className="block text-[10px] text-slate-400 dark:text-slate-500 truncate">
+                    {config.label}
+                    {step.iteration !== undefined && ` · pass ${step.iteration}`}
+                    {isBranch && ` → ${step.edge!.label}`}
+                  </span>
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default SimulationLog;
@@ -5,10 +5,37 @@
  */
 
 export { Sidebar } from "./Sidebar";
-export type { SidebarProps } from "./Sidebar";
+export type { SidebarProps, TabView } from "./Sidebar";
 
 export { NodeDetails } from "./NodeDetails";
 export type { NodeDetailsProps } from "./NodeDetails";
 
 export { FlowStats } from "./FlowStats";
 export type { FlowStatsProps } from "./FlowStats";
+
+export { FlowResources } from "./FlowResources";
+export type { FlowResourcesProps } from "./FlowResources";
+
+export { ReferenceUsages } from "./ReferenceUsages";
+export type { ReferenceUsagesProps } from "./ReferenceUsages";
+
+export { FlowDiffSummary } from "./FlowDiffSummary";
+export type { FlowDiffSummaryProps } from "./FlowDiffSummary";
+
+export { SimulationLog } from "./SimulationLog";
+export type { SimulationLogProps } from "./SimulationLog";
+
+export { GovernorLimits } from "./GovernorLimits";
+export type { GovernorLimitsProps } from "./GovernorLimits";
+
+export { ConditionEvaluator } from "./ConditionEvaluator";
+export type { ConditionEvaluatorProps } from "./ConditionEvaluator";
+
+export { SampleDataInput } from "./SampleDataInput";
+export type { SampleDataInputProps, SampleInput } from "./SampleDataInput";
+
+export { FormulaView } from "./FormulaView";
+export type { FormulaViewProps } from "./FormulaView";
+
+export { BreadcrumbNavigation } from "./BreadcrumbNavigation";
+export type { BreadcrumbNavigationProps } from "./BreadcrumbNavigation";
@@ -9,6 +9,7 @@ export { FlowCanvas, CanvasToolbar, Minimap } from "./Canvas";
 export type {
   FlowCanvasProps,
   CanvasToolbarProps,
+  ExportFormat,
   MinimapProps,
 } from "./Canvas";
 
@@ -28,8 +29,14 @@ export { FlowNodeComponent } from "./FlowNode";
 export type { FlowNodeProps } from "./FlowNode";
 
 // Sidebar components
-export { Sidebar, NodeDetails, FlowStats } from "./Sidebar";
-export type { SidebarProps, NodeDetailsProps, FlowStatsProps } from "./Sidebar";
+export { Sidebar, NodeDetails, FlowStats, BreadcrumbNavigation } from "./Sidebar";
+export type {
+  SidebarProps,
+  TabView,
+  NodeDetailsProps,
+  FlowStatsProps,
+  BreadcrumbNavigationProps,
+} from "./Sidebar";
 
 // Header component
 export { FlowHeader } from "./FlowHeader";
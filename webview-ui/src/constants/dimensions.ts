@@ -49,6 +49,16 @@ export const FAULT_LANE_CLEARANCE = Math.max(GRID_H_GAP * 2.5, 150);
 export const START_X = 800; // Canvas center X (increased for wider flows)
 export const START_Y = 80; // Canvas top Y
 
+// ============================================================================
+// FREE-FORM CANVAS
+// Salesforce free-form coordinates are laid out for 48px icons; our cards are
+// much wider, so positions are stretched to keep neighbouring cards apart
+// ============================================================================
+
+export const FREE_FORM_SCALE_X = 1.75;
+export const FREE_FORM_SCALE_Y = 1.25;
+export const FREE_FORM_END_GAP = 50; // Distance from a terminal node to its generated END
+
 // ============================================================================
 // MENU DIMENSIONS
 // ============================================================================
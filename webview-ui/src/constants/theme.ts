@@ -20,6 +20,9 @@ export const CONNECTOR_COLORS = {
   goto: "#3b82f6", // Blue for GoTo connectors
   cut: "#3b82f6", // --lwc-brandAccessible
   delete: "#ef4444", // --lwc-colorBorderError
+  added: "#22c55e", // Compare mode: connector only in the newer version
+  removed: "#ef4444", // Compare mode: connector only in the older version
+  modified: "#f59e0b", // Compare mode: connector label changed
 };
 
 export const CONNECTOR_WIDTHS = {
@@ -27,6 +30,13 @@ export const CONNECTOR_WIDTHS = {
   highlight: 3, // Highlight width
 };
 
+/** Stroke, arrow head and dash pattern for changed connectors in compare mode */
+export const DIFF_CONNECTOR_STYLES = {
+  added: { color: CONNECTOR_COLORS.added, marker: "url(#arrow-added)", dasharray: undefined },
+  removed: { color: CONNECTOR_COLORS.removed, marker: "url(#arrow-removed)", dasharray: "4,4" },
+  modified: { color: CONNECTOR_COLORS.modified, marker: "url(#arrow-modified)", dasharray: undefined },
+} as const;
+
 // ============================================================================
 // NODE COLORS BY CATEGORY
 // Based on Salesforce's design system
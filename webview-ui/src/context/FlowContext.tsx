@@ -44,7 +44,11 @@ export interface FlowContextState {
   setAutoLayoutEnabled: (enabled: boolean) => void;
 
   // Flow loading
-  loadFlow: (xml: string, fileName?: string) => void;
+  loadFlow: (
+    xml: string,
+    fileName?: string,
+    options?: { preserveView?: boolean }
+  ) => void;
 
   // VS Code messaging
   postMessage: (message: unknown) => void;
@@ -9,6 +9,7 @@ export type {
   UseVSCodeMessagingOptions,
   UseVSCodeMessagingResult,
   VSCodeMessage,
+  LoadXmlOptions,
 } from "./useVSCodeMessaging";
 
 export { useCanvasInteraction } from "./useCanvasInteraction";
@@ -36,3 +37,18 @@ export type {
   UseEdgeSelectionOptions,
   UseEdgeSelectionResult,
 } from "./useEdgeSelection";
+
+export { useSubflowNavigation } from "./useSubflowNavigation";
+export type { UseSubflowNavigationResult } from "./useSubflowNavigation";
+
+export { useFlowSimulation } from "./useFlowSimulation";
+export type {
+  UseFlowSimulationOptions,
+  UseFlowSimulationResult,
+} from "./useFlowSimulation";
+
+export { useGovernorLimits } from "./useGovernorLimits";
+export type {
+  UseGovernorLimitsOptions,
+  UseGovernorLimitsResult,
+} from "./useGovernorLimits";
@@ -67,6 +67,8 @@ export interface UseCanvasInteractionResult {
   centerView: () => void;
   /** Fit all nodes in view (dynamic scale) */
   fitToView: () => void;
+  /** Pan and zoom so a node sits in the middle of the canvas */
+  focusNode: (node: FlowNode) => void;
   /** Set scale directly */
   setScale: (scale: number) => void;
   /** Set pan directly */
@@ -296,6 +298,27 @@ export function useCanvasInteraction(
     setPanState({ x: panX, y: panY });
   }, [centerView, clampScale]);
 
+  // Center a single node, zooming in far enough to read it
+  const focusNode = useCallback(
+    (node: FlowNode) => {
+      // The canvas is narrower than the window while the sidebar is open
+      const container = document.getElementById("flow-canvas-container");
+      const viewportWidth = container?.clientWidth || window.innerWidth;
+      const viewportHeight = container?.clientHeight || window.innerHeight;
+      const focusScale = clampScale(Math.max(scale, 1.2));
+
+      const centerX = node.x + node.width / 2;
+      const centerY = node.y + node.height / 2;
+
+      setScaleState(focusScale);
+      setPanState({
+        x: viewportWidth / 2 - centerX * focusScale,
+        y: viewportHeight / 2 - centerY * focusScale,
+      });
+    },
+    [scale, clampScale]
+  );
+
   // Reset to centered view (same as initial load) - always 90% scale
   const resetView = useCallback(() => {
     // Call centerView for consistent 90% scale, just like initial load
@@ -384,6 +407,7 @@ export function useCanvasInteraction(
     resetView,
     centerView,
     fitToView,
+    focusNode,
     setScale,
     setPan,
     isDragging: isDraggingState,
@@ -3,12 +3,21 @@
  *
  * Manages parsing of Salesforce Flow XML into visualization data.
  * Handles XML parsing, auto-layout, and maintains parsed flow state.
+ * With auto-layout off, flows that carry free-form canvas coordinates are
+ * shown at their saved positions. In compare mode the two versions are
+ * merged into a single diagram with a diff of their changes.
  */
 
-import { useState, useEffect, useMemo, useCallback } from "react";
-import type { ParsedFlow } from "../types";
-import { parseFlowXML } from "../parser";
-import { autoLayoutWithFaultLanes, type FaultLaneInfo } from "../layout";
+import { useState, useEffect, useMemo, useCallback, useRef } from "react";
+import type { FlowComparison, FlowDiff, ParsedFlow } from "../types";
+import { parseFlowXML, isValidFlowXML } from "../parser";
+import { diffFlows } from "../utils/flowDiff";
+import {
+  autoLayoutWithFaultLanes,
+  freeFormLayout,
+  hasFreeFormPositions,
+  type FaultLaneInfo,
+} from "../layout";
 
 // Demo XML for testing when no file is loaded
 const DEMO_XML = `<?xml version="1.0" encoding="UTF-8"?>
@@ -87,11 +96,21 @@ export interface UseFlowParserResult {
   /** Toggle auto-layout */
   setAutoLayoutEnabled: (enabled: boolean) => void;
   /** Load a new flow from XML */
-  loadFlow: (xml: string, fileName?: string) => void;
+  loadFlow: (
+    xml: string,
+    fileName?: string,
+    options?: { preserveView?: boolean }
+  ) => void;
+  /** Compare two versions of a flow in a merged diagram */
+  loadDiff: (comparison: FlowComparison, fileName?: string) => void;
+  /** Changes between the compared versions (null outside compare mode) */
+  flowDiff: FlowDiff | null;
   /** Map of node IDs that are targets of GoTo connectors with their counts */
   goToTargetCounts: Map<string, number>;
   /** Pre-calculated fault lane information for consistent connector routing */
   faultLanes: Map<string, FaultLaneInfo>;
+  /** Whether nodes are at their saved free-form canvas positions */
+  isFreeForm: boolean;
   /** Parsing error if any */
   error: Error | null;
   /** Whether parsing is in progress */
@@ -102,6 +121,7 @@ const EMPTY_PARSED_FLOW: ParsedFlow = {
   nodes: [],
   edges: [],
   metadata: {},
+  resources: [],
 };
 
 /**
@@ -121,20 +141,61 @@ export function useFlowParser(
   const [autoLayoutEnabled, setAutoLayoutEnabled] = useState(initialAutoLayout);
   const [parsedData, setParsedData] = useState<ParsedFlow>(EMPTY_PARSED_FLOW);
   const [faultLanes, setFaultLanes] = useState<Map<string, FaultLaneInfo>>(new Map());
+  const [isFreeForm, setIsFreeForm] = useState(false);
+  const [comparison, setComparison] = useState<FlowComparison | null>(null);
+  const [flowDiff, setFlowDiff] = useState<FlowDiff | null>(null);
   const [error, setError] = useState<Error | null>(null);
 
   const [isLoading, setIsLoading] = useState(false);
 
+  // Incremental updates (live editing) re-parse silently and keep the last
+  // good diagram while the XML is temporarily invalid
+  const incrementalUpdate = useRef(false);
+  // Read by loadFlow, which only sees the XML of its first render
+  const xmlInputRef = useRef(xmlInput);
+  xmlInputRef.current = xmlInput;
+
   // Parse XML whenever input or auto-layout setting changes
   useEffect(() => {
-    setIsLoading(true);
+    const isIncremental = incrementalUpdate.current;
+    incrementalUpdate.current = false;
+
+    if (isIncremental && !isValidFlowXML(xmlInput)) {
+      return;
+    }
+
+    if (!isIncremental) {
+      setIsLoading(true);
+    }
     // Use setTimeout to allow UI to update and show loading state
     const timer = setTimeout(() => {
       try {
-        const { nodes, edges, metadata } = parseFlowXML(xmlInput);
+        let parsed = parseFlowXML(xmlInput);
+        let diff: FlowDiff | null = null;
+        if (comparison) {
+          const result = diffFlows(parseFlowXML(comparison.baseXml), parsed, {
+            base: comparison.baseLabel,
+            target: comparison.targetLabel,
+          });
+          parsed = result.flow;
+          diff = result.diff;
+        }
+        const { nodes, edges, metadata, resources } = parsed;
   
-        if (autoLayoutEnabled && nodes.length > 0) {
-          // Use the enhanced layout function that also returns fault lane info
+        const useFreeForm = !autoLayoutEnabled && hasFreeFormPositions(nodes);
+
+        if (useFreeForm) {
+          setParsedData({
+            nodes: freeFormLayout(nodes, edges),
+            edges,
+            metadata,
+            resources,
+            xmlContent: xmlInput,
+          });
+          setFaultLanes(new Map());
+        } else if (nodes.length > 0) {
+          // Use the enhanced layout function that also returns fault lane info.
+          // Also used with auto-layout off when the flow has no stored positions.
           const { nodes: layoutedNodes, faultLanes: calculatedFaultLanes } = 
             autoLayoutWithFaultLanes(nodes, edges);
           
@@ -142,13 +203,22 @@ export function useFlowParser(
             nodes: layoutedNodes,
             edges,
             metadata,
+            resources,
             xmlContent: xmlInput, // Store for quality analysis
           });
           setFaultLanes(calculatedFaultLanes);
         } else {
-          setParsedData({ nodes, edges, metadata, xmlContent: xmlInput });
+          setParsedData({
+            nodes,
+            edges,
+            metadata,
+            resources,
+            xmlContent: xmlInput,
+          });
           setFaultLanes(new Map());
         }
+        setIsFreeForm(useFreeForm);
+        setFlowDiff(diff);
   
         setError(null);
       } catch (err) {
@@ -161,7 +231,7 @@ export function useFlowParser(
     }, 10);
 
     return () => clearTimeout(timer);
-  }, [xmlInput, autoLayoutEnabled]);
+  }, [xmlInput, autoLayoutEnabled, comparison]);
 
   // Compute GoTo target counts
   const goToTargetCounts = useMemo(() => {
@@ -175,12 +245,37 @@ export function useFlowParser(
   }, [parsedData.edges]);
 
   // Load a new flow
-  const loadFlow = useCallback((xml: string, newFileName?: string) => {
-    setXmlInput(xml);
-    if (newFileName !== undefined) {
-      setFileName(newFileName);
-    }
-  }, []);
+  const loadFlow = useCallback(
+    (
+      xml: string,
+      newFileName?: string,
+      loadOptions: { preserveView?: boolean } = {}
+    ) => {
+      // Unchanged XML doesn't re-render, so the parse effect would never
+      // clear the flag and the next full load would be treated as an edit
+      incrementalUpdate.current =
+        loadOptions.preserveView === true && xml !== xmlInputRef.current;
+      setComparison(null);
+      setXmlInput(xml);
+      if (newFileName !== undefined) {
+        setFileName(newFileName);
+      }
+    },
+    []
+  );
+
+  // Load two versions of a flow for comparison
+  const loadDiff = useCallback(
+    (newComparison: FlowComparison, newFileName?: string) => {
+      incrementalUpdate.current = false;
+      setComparison(newComparison);
+      setXmlInput(newComparison.targetXml);
+      if (newFileName !== undefined) {
+        setFileName(newFileName);
+      }
+    },
+    []
+  );
 
   return {
     xmlInput,
@@ -191,8 +286,11 @@ export function useFlowParser(
     autoLayoutEnabled,
     setAutoLayoutEnabled,
     loadFlow,
+    loadDiff,
+    flowDiff,
     goToTargetCounts,
     faultLanes,
+    isFreeForm,
     error,
     isLoading,
   };
@@ -0,0 +1,112 @@
+/**
+ * Flow Simulation Hook
+ *
+ * State for Simulate mode: whether it is on and the choices made so far.
+ * The walk itself is recomputed from the choices whenever they or the
+ * flow change, so live edits keep as much of the scenario as still fits.
+ */
+
+import { useState, useCallback, useMemo } from "react";
+import type { FlowModelStore } from "../model";
+import { getUnreachableNodeIds, simulateFlow } from "../utils/flowSimulation";
+import type { SimulationChoice, SimulationResult } from "../utils/flowSimulation";
+
+export interface UseFlowSimulationOptions {
+  flowModel: FlowModelStore;
+}
+
+export interface UseFlowSimulationResult {
+  isSimulating: boolean;
+  /** The walk so far; null while Simulate mode is off */
+  simulation: SimulationResult | null;
+  /** Elements the walk can no longer reach, dimmed on the canvas */
+  unreachableNodes: Set<string>;
+  startSimulation: () => void;
+  stopSimulation: () => void;
+  /** Take a connector at the branch waiting on a choice */
+  chooseEdge: (nodeId: string, edgeId: string) => void;
+  /** Run the loop waiting on a choice this many times */
+  chooseIterations: (nodeId: string, iterations: number) => void;
+  /** Drop the last choice */
+  undoChoice: () => void;
+  /** Start the walk over from Start */
+  restartSimulation: () => void;
+}
+
+/**
+ * Hook for stepping through a flow with user-chosen outcomes
+ */
+export function useFlowSimulation(
+  options: UseFlowSimulationOptions
+): UseFlowSimulationResult {
+  const { flowModel } = options;
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [choices, setChoices] = useState<SimulationChoice[]>([]);
+
+  const simulation = useMemo(
+    () => (isSimulating ? simulateFlow(flowModel, choices) : null),
+    [isSimulating, flowModel, choices]
+  );
+
+  const unreachableNodes = useMemo(
+    () =>
+      simulation
+        ? getUnreachableNodeIds(flowModel, simulation)
+        : new Set<string>(),
+    [flowModel, simulation]
+  );
+
+  const startSimulation = useCallback(() => {
+    setChoices([]);
+    setIsSimulating(true);
+  }, []);
+
+  const stopSimulation = useCallback(() => {
+    setIsSimulating(false);
+    setChoices([]);
+  }, []);
+
+  // Choices past the ones the replay used no longer apply after an edit
+  const usedChoices = useCallback(
+    (current: SimulationChoice[]) =>
+      current.slice(0, simulation?.choicesUsed ?? 0),
+    [simulation]
+  );
+
+  const chooseEdge = useCallback(
+    (nodeId: string, edgeId: string) => {
+      setChoices((current) => [...usedChoices(current), { nodeId, edgeId }]);
+    },
+    [usedChoices]
+  );
+
+  const chooseIterations = useCallback(
+    (nodeId: string, iterations: number) => {
+      setChoices((current) => [
+        ...usedChoices(current),
+        { nodeId, iterations },
+      ]);
+    },
+    [usedChoices]
+  );
+
+  const undoChoice = useCallback(() => {
+    setChoices((current) => usedChoices(current).slice(0, -1));
+  }, [usedChoices]);
+
+  const restartSimulation = useCallback(() => {
+    setChoices([]);
+  }, []);
+
+  return {
+    isSimulating,
+    simulation,
+    unreachableNodes,
+    startSimulation,
+    stopSimulation,
+    chooseEdge,
+    chooseIterations,
+    undoChoice,
+    restartSimulation,
+  };
+}
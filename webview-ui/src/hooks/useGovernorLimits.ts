@@ -0,0 +1,139 @@
+/**
+ * Governor Limits Hook
+ *
+ * Looks up the flows the current flow calls in the workspace, analyzes the
+ * flow for queries and DML inside loops, and keeps the risk selected for
+ * highlighting on the canvas.
+ */
+
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { createFlowModelStore } from "../model";
+import type { FlowModelStore } from "../model";
+import { parseFlowXML } from "../parser";
+import {
+  analyzeGovernorLimits,
+  getCalledFlowNames,
+} from "../utils/governorLimits";
+import type {
+  GovernorLimitAnalysis,
+  LimitRisk,
+} from "../utils/governorLimits";
+import { getVSCodeApi } from "../utils/vscodeApi";
+
+export interface UseGovernorLimitsOptions {
+  flowModel: FlowModelStore;
+  /** API name of the flow on the canvas */
+  flowName?: string;
+  /** XML of the flow on the canvas, sent to find the flows it calls */
+  xmlContent?: string;
+}
+
+export interface UseGovernorLimitsResult {
+  analysis: GovernorLimitAnalysis;
+  /** Called flows are still being looked up */
+  isResolving: boolean;
+  selectedRisk: LimitRisk | null;
+  selectRisk: (risk: LimitRisk | null) => void;
+}
+
+// Give up on the extension after this long and analyze without subflows
+const RESOLVE_TIMEOUT_MS = 30000;
+
+/**
+ * Parse the called flows the extension found, skipping any that don't parse
+ */
+function parseSubflows(
+  flows: Record<string, string>
+): Map<string, FlowModelStore> {
+  const models = new Map<string, FlowModelStore>();
+  Object.entries(flows).forEach(([flowName, xml]) => {
+    try {
+      const parsed = parseFlowXML(xml);
+      models.set(flowName, createFlowModelStore(parsed.nodes, parsed.edges));
+    } catch (error) {
+      console.warn(`[GovernorLimits] Could not parse ${flowName}`, error);
+    }
+  });
+  return models;
+}
+
+/**
+ * Hook for the governor limit analysis of the flow on the canvas
+ */
+export function useGovernorLimits(
+  options: UseGovernorLimitsOptions
+): UseGovernorLimitsResult {
+  const { flowModel, flowName, xmlContent } = options;
+  const [subflows, setSubflows] = useState<Map<string, FlowModelStore>>(
+    () => new Map()
+  );
+  const [isResolving, setIsResolving] = useState(false);
+  const [selectedRisk, setSelectedRisk] = useState<LimitRisk | null>(null);
+  // Read when the called flows change, so edits alone don't send a request
+  const xmlContentRef = useRef(xmlContent);
+  xmlContentRef.current = xmlContent;
+
+  // Look the called flows up again only when the set of them changes
+  const calledFlows = useMemo(
+    () => getCalledFlowNames(flowModel.getAllNodes()).join(","),
+    [flowModel]
+  );
+
+  useEffect(() => {
+    const api = getVSCodeApi();
+    const xml = xmlContentRef.current;
+    if (!calledFlows || !xml || !api) {
+      setSubflows(new Map());
+      setIsResolving(false);
+      return;
+    }
+
+    const requestId = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const finish = (flows: Record<string, string>) => {
+      window.removeEventListener("message", handleMessage);
+      window.clearTimeout(timeoutId);
+      setSubflows(parseSubflows(flows));
+      setIsResolving(false);
+    };
+    const handleMessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (
+        message.command === "subflowsResolved" &&
+        message.requestId === requestId
+      ) {
+        finish(message.payload ?? {});
+      }
+    };
+    const timeoutId = window.setTimeout(() => {
+      console.warn("[GovernorLimits] Subflow lookup timed out");
+      finish({});
+    }, RESOLVE_TIMEOUT_MS);
+
+    window.addEventListener("message", handleMessage);
+    setIsResolving(true);
+    api.postMessage({ command: "resolveSubflows", payload: xml, requestId });
+
+    return () => {
+      window.removeEventListener("message", handleMessage);
+      window.clearTimeout(timeoutId);
+    };
+  }, [calledFlows]);
+
+  const analysis = useMemo(
+    () =>
+      analyzeGovernorLimits(flowModel, {
+        flowName,
+        resolveSubflow: (calledFlow) => subflows.get(calledFlow),
+      }),
+    [flowModel, flowName, subflows]
+  );
+
+  // A new analysis has new risk objects; drop the highlight
+  useEffect(() => setSelectedRisk(null), [analysis]);
+
+  const selectRisk = useCallback((risk: LimitRisk | null) => {
+    setSelectedRisk(risk);
+  }, []);
+
+  return { analysis, isResolving, selectedRisk, selectRisk };
+}
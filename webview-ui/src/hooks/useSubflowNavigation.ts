@@ -0,0 +1,91 @@
+/**
+ * Subflow Navigation Hook
+ *
+ * Keeps the breadcrumb trail of parent flows while drilling into subflows,
+ * so each parent can be shown again with the viewport it was left at.
+ */
+
+import { useState, useCallback, useRef } from "react";
+import type { FlowBreadcrumb } from "../types";
+
+export interface UseSubflowNavigationResult {
+  /** Parent flows of the one shown, outermost first */
+  trail: FlowBreadcrumb[];
+  /** Remember the shown flow before a subflow replaces it */
+  enterSubflow: (parent: FlowBreadcrumb) => void;
+  /** Go back to the parent at `index`, dropping it and every level below */
+  navigateTo: (index: number) => FlowBreadcrumb | undefined;
+  /**
+   * Keep a parent's XML current while its file is edited.
+   * Returns false when no parent is showing that file.
+   */
+  updateParent: (fileName: string, xml: string) => boolean;
+  /** Forget the trail, e.g. when a different flow is loaded */
+  clearTrail: () => void;
+}
+
+/**
+ * Hook for drilling into subflows and back
+ *
+ * @returns Breadcrumb trail and navigation functions
+ */
+export function useSubflowNavigation(): UseSubflowNavigationResult {
+  const [trail, setTrail] = useState<FlowBreadcrumb[]>([]);
+  // Mirror of the trail for synchronous reads inside message handlers
+  const trailRef = useRef<FlowBreadcrumb[]>([]);
+
+  const setTrailState = useCallback((next: FlowBreadcrumb[]) => {
+    trailRef.current = next;
+    setTrail(next);
+  }, []);
+
+  const enterSubflow = useCallback(
+    (parent: FlowBreadcrumb) => {
+      setTrailState([...trailRef.current, parent]);
+    },
+    [setTrailState]
+  );
+
+  const navigateTo = useCallback(
+    (index: number) => {
+      const level = trailRef.current[index];
+      if (level) {
+        setTrailState(trailRef.current.slice(0, index));
+      }
+      return level;
+    },
+    [setTrailState]
+  );
+
+  const updateParent = useCallback(
+    (fileName: string, xml: string) => {
+      const index = trailRef.current.findIndex(
+        (level) => level.fileName === fileName
+      );
+      if (index === -1) return false;
+      setTrailState(
+        trailRef.current.map((level, i) =>
+          i === index ? { ...level, xml } : level
+        )
+      );
+      return true;
+    },
+    [setTrailState]
+  );
+
+  const clearTrail = useCallback(() => {
+    if (trailRef.current.length > 0) {
+      setTrailState([]);
+    }
+  }, [setTrailState]);
+
+  return {
+    trail,
+    enterSubflow,
+    navigateTo,
+    updateParent,
+    clearTrail,
+  };
+}
+
+export default useSubflowNavigation;
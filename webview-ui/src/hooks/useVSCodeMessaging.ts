@@ -7,6 +7,14 @@
 
 import { useEffect, useCallback, useRef } from "react";
 import { getVSCodeApi } from "../utils/vscodeApi";
+import type {
+  FlowComparison,
+  FlowDependencyGraph,
+  FlowRevision,
+  ObjectAutomation,
+  WorkspaceQualityReport,
+} from "../types";
+import type { DocumentationFormat } from "../utils/flowDocumentation";
 
 // Get shared VS Code API instance
 const vscode = getVSCodeApi();
@@ -15,11 +23,32 @@ export interface VSCodeMessage {
   command: string;
   payload?: unknown;
   fileName?: string;
+  /** Set on incremental updates pushed while the source file is edited */
+  preserveView?: boolean;
+  /** Set when the XML is a past version of the file from git history */
+  revision?: FlowRevision;
+  /** Requested document format for generateDocumentation */
+  format?: DocumentationFormat;
+  /** Flow to select in the dependency graph */
+  flowName?: string;
+}
+
+export interface LoadXmlOptions {
+  /** Keep zoom, pan, selection and collapse state instead of resetting the view */
+  preserveView?: boolean;
+  /** Commit the XML was taken from, for historical versions */
+  revision?: FlowRevision;
 }
 
 export interface UseVSCodeMessagingOptions {
-  onLoadXml: (xml: string, fileName?: string) => void;
+  onLoadXml?: (xml: string, fileName?: string, options?: LoadXmlOptions) => void;
   onAutoOpenPreference?: (enabled: boolean) => void;
+  onLoadDiff?: (comparison: FlowComparison, fileName?: string) => void;
+  onGenerateDocumentation?: (format: DocumentationFormat) => void;
+  onLoadSubflow?: (xml: string, fileName?: string) => void;
+  onLoadDependencies?: (graph: FlowDependencyGraph, flowName?: string) => void;
+  onLoadAutomation?: (automation: ObjectAutomation) => void;
+  onLoadQualityReport?: (report: WorkspaceQualityReport) => void;
 }
 
 export interface UseVSCodeMessagingResult {
@@ -36,21 +65,105 @@ export interface UseVSCodeMessagingResult {
 export function useVSCodeMessaging(
   options: UseVSCodeMessagingOptions
 ): UseVSCodeMessagingResult {
-  const { onLoadXml, onAutoOpenPreference } = options;
+  const {
+    onLoadXml,
+    onAutoOpenPreference,
+    onLoadDiff,
+    onGenerateDocumentation,
+    onLoadSubflow,
+    onLoadDependencies,
+    onLoadAutomation,
+    onLoadQualityReport,
+  } = options;
 
   // Use ref to avoid stale closure issues
   const onLoadXmlRef = useRef(onLoadXml);
   onLoadXmlRef.current = onLoadXml;
+  const onLoadDiffRef = useRef(onLoadDiff);
+  onLoadDiffRef.current = onLoadDiff;
+  const onGenerateDocumentationRef = useRef(onGenerateDocumentation);
+  onGenerateDocumentationRef.current = onGenerateDocumentation;
+  const onLoadSubflowRef = useRef(onLoadSubflow);
+  onLoadSubflowRef.current = onLoadSubflow;
+  const onLoadDependenciesRef = useRef(onLoadDependencies);
+  onLoadDependenciesRef.current = onLoadDependencies;
+  const onLoadAutomationRef = useRef(onLoadAutomation);
+  onLoadAutomationRef.current = onLoadAutomation;
+  const onLoadQualityReportRef = useRef(onLoadQualityReport);
+  onLoadQualityReportRef.current = onLoadQualityReport;
 
   // Message handler
   useEffect(() => {
     const handler = (event: MessageEvent<VSCodeMessage>) => {
-      const { command, payload, fileName } = event.data;
+      const {
+        command,
+        payload,
+        fileName,
+        preserveView,
+        revision,
+        format,
+        flowName,
+      } = event.data;
 
       switch (command) {
         case "loadXml":
           if (typeof payload === "string") {
-            onLoadXmlRef.current(payload, fileName);
+            onLoadXmlRef.current?.(payload, fileName, {
+              preserveView: preserveView === true,
+              revision,
+            });
+          }
+          break;
+        case "loadSubflow":
+          if (typeof payload === "string") {
+            onLoadSubflowRef.current?.(payload, fileName);
+          }
+          break;
+        case "loadDiff":
+          if (
+            payload &&
+            typeof payload === "object" &&
+            typeof (payload as FlowComparison).baseXml === "string" &&
+            typeof (payload as FlowComparison).targetXml === "string"
+          ) {
+            onLoadDiffRef.current?.(payload as FlowComparison, fileName);
+          }
+          break;
+        case "loadDependencies":
+          if (
+            payload &&
+            typeof payload === "object" &&
+            Array.isArray((payload as FlowDependencyGraph).flows)
+          ) {
+            onLoadDependenciesRef.current?.(
+              payload as FlowDependencyGraph,
+              flowName
+            );
+          }
+          break;
+        case "loadAutomation":
+          if (
+            payload &&
+            typeof payload === "object" &&
+            Array.isArray((payload as ObjectAutomation).flows)
+          ) {
+            onLoadAutomationRef.current?.(payload as ObjectAutomation);
+          }
+          break;
+        case "loadQualityReport":
+          if (
+            payload &&
+            typeof payload === "object" &&
+            Array.isArray((payload as WorkspaceQualityReport).flows)
+          ) {
+            onLoadQualityReportRef.current?.(
+              payload as WorkspaceQualityReport
+            );
+          }
+          break;
+        case "generateDocumentation":
+          if (format === "markdown" || format === "html") {
+            onGenerateDocumentationRef.current?.(format);
           }
           break;
         case "autoOpenPreference":
@@ -65,6 +178,11 @@ export function useVSCodeMessaging(
             );
           }
           break;
+        case "flowAnalysisResult":
+        case "subflowsResolved":
+          // Replies to requests, handled by the listeners that sent them
+          // (flow-scanner's analysis and useGovernorLimits)
+          break;
         // Add more commands as needed
         default:
           console.warn(`Unknown VS Code command: ${command}`);
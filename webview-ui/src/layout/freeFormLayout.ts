@@ -0,0 +1,81 @@
+/**
+ * Free-Form Layout
+ *
+ * Positions nodes from the <locationX>/<locationY> coordinates stored in the
+ * flow XML, for flows built on Salesforce's free-form canvas. Generated END
+ * nodes have no stored position and are placed next to their source.
+ */
+
+import type { FlowNode, FlowEdge } from "../types";
+import {
+  FREE_FORM_END_GAP,
+  FREE_FORM_SCALE_X,
+  FREE_FORM_SCALE_Y,
+  NODE_ICON_SIZE,
+  START_Y,
+} from "../constants/dimensions";
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function hasLocation(node: FlowNode): boolean {
+  return node.data.locationX !== undefined && node.data.locationY !== undefined;
+}
+
+/**
+ * Check whether the flow carries free-form coordinates.
+ * Every element except the generated END nodes needs a stored position.
+ */
+export function hasFreeFormPositions(nodes: FlowNode[]): boolean {
+  const elements = nodes.filter((n) => n.type !== "END");
+  return elements.length > 0 && elements.every(hasLocation);
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Lay out nodes at their stored free-form positions
+ */
+export function freeFormLayout(nodes: FlowNode[], edges: FlowEdge[]): FlowNode[] {
+  const positioned = new Map<string, FlowNode>();
+
+  // Stored coordinates are the top-left of the 48px icon; centre the card on it
+  nodes.forEach((node) => {
+    if (!hasLocation(node)) return;
+    const iconCenterX =
+      ((node.data.locationX as number) + NODE_ICON_SIZE / 2) * FREE_FORM_SCALE_X;
+    positioned.set(node.id, {
+      ...node,
+      x: iconCenterX - node.width / 2,
+      y: (node.data.locationY as number) * FREE_FORM_SCALE_Y + START_Y,
+    });
+  });
+
+  // END nodes sit below their source, or to its right on fault paths
+  return nodes.map((node) => {
+    const placed = positioned.get(node.id);
+    if (placed) return placed;
+
+    const incoming = edges.find((e) => e.target === node.id);
+    const source = incoming ? positioned.get(incoming.source) : undefined;
+    if (!source) return node;
+
+    if (node.data.isFaultPath) {
+      return {
+        ...node,
+        x: source.x + source.width + FREE_FORM_END_GAP,
+        y: source.y + source.height / 2 - 16,
+      };
+    }
+    return {
+      ...node,
+      x: source.x + (source.width - node.width) / 2,
+      y: source.y + source.height + FREE_FORM_END_GAP,
+    };
+  });
+}
+
+export default freeFormLayout;
@@ -8,6 +8,9 @@
 export { autoLayout, autoLayoutWithFaultLanes, TreeLayoutEngine } from "./treeLayoutEngine";
 export type { AutoLayoutOptions, LayoutResult, FaultLaneInfo } from "./treeLayoutEngine";
 
+// Free-form canvas layout (stored locationX/locationY)
+export { freeFormLayout, hasFreeFormPositions } from "./freeFormLayout";
+
 // Layout configuration
 export {
   DEFAULT_LAYOUT_CONFIG,
@@ -11,7 +11,13 @@
  * - autoLayoutCanvas: Node resolution utilities
  */
 
-import type { FlowNode, FlowEdge, NodeType } from "../types";
+import type {
+  FlowNode,
+  FlowEdge,
+  NodeType,
+  FlowResource,
+  ReferenceAccess,
+} from "../types";
 
 // ============================================================================
 // TYPES
@@ -20,6 +26,7 @@ import type { FlowNode, FlowEdge, NodeType } from "../types";
 export interface FlowModelStoreOptions {
   nodes: FlowNode[];
   edges: FlowEdge[];
+  resources?: FlowResource[];
 }
 
 export interface BranchInfo {
@@ -28,6 +35,25 @@ export interface BranchInfo {
   index: number;
 }
 
+/**
+ * A single read or write of a variable / record field
+ */
+export interface ReferenceUsage {
+  sourceId: string; // Node ID, or resource name for formulas / text templates
+  sourceType: "element" | "resource";
+  reference: string; // Full reference as written, e.g. "varAccount.Name"
+  access: ReferenceAccess;
+  context: string;
+}
+
+/**
+ * All usages of a variable / record field, split by access
+ */
+export interface ReferenceUsages {
+  reads: ReferenceUsage[];
+  writes: ReferenceUsage[];
+}
+
 // ============================================================================
 // FLOW MODEL STORE CLASS
 // ============================================================================
@@ -44,9 +70,10 @@ export class FlowModelStore {
   private edgeMap: Map<string, FlowEdge>;
   private outgoingEdges: Map<string, FlowEdge[]>;
   private incomingEdges: Map<string, FlowEdge[]>;
+  private referenceIndex: Map<string, ReferenceUsage[]>;
 
   constructor(options: FlowModelStoreOptions) {
-    const { nodes, edges } = options;
+    const { nodes, edges, resources = [] } = options;
 
     // Build node map
     this.nodeMap = new Map(nodes.map((n) => [n.id, n]));
@@ -69,6 +96,36 @@ export class FlowModelStore {
       list.push(e);
       this.incomingEdges.set(e.target, list);
     });
+
+    // Build reference index
+    this.referenceIndex = new Map();
+    nodes.forEach((node) => {
+      node.data.references?.forEach((ref) =>
+        this.indexReference({ ...ref, sourceId: node.id, sourceType: "element" })
+      );
+    });
+    resources.forEach((resource) => {
+      resource.references?.forEach((ref) =>
+        this.indexReference({
+          ...ref,
+          sourceId: resource.name,
+          sourceType: "resource",
+        })
+      );
+    });
+  }
+
+  /**
+   * Index a usage under its full reference and under its root variable,
+   * so "varAccount" also finds usages of "varAccount.Name"
+   */
+  private indexReference(usage: ReferenceUsage): void {
+    const keys = new Set([usage.reference, usage.reference.split(".")[0]]);
+    keys.forEach((key) => {
+      const list = this.referenceIndex.get(key) || [];
+      list.push(usage);
+      this.referenceIndex.set(key, list);
+    });
   }
 
   // ==========================================================================
@@ -371,6 +428,58 @@ export class FlowModelStore {
     }
   }
 
+  /**
+   * Order elements by walking the connectors breadth-first from Start, so
+   * exports read top-down and stay stable for the same flow. Elements that
+   * cannot be reached from Start follow in their original order.
+   */
+  getTraversalOrder(): FlowNode[] {
+    const ordered: FlowNode[] = [];
+    const visited = new Set<string>();
+    const queue: FlowNode[] = [];
+
+    const visit = (node: FlowNode | undefined) => {
+      if (!node || visited.has(node.id)) return;
+      visited.add(node.id);
+      queue.push(node);
+    };
+
+    const walk = () => {
+      while (queue.length > 0) {
+        const node = queue.shift()!;
+        ordered.push(node);
+        this.getOutgoingEdges(node.id).forEach((edge) =>
+          visit(this.nodeMap.get(edge.target))
+        );
+      }
+    };
+
+    visit(this.findStartElement());
+    walk();
+    this.nodeMap.forEach((node) => {
+      visit(node);
+      walk();
+    });
+
+    return ordered;
+  }
+
+  /**
+   * IDs of the nodes reachable from a node over non-fault connectors,
+   * including the node itself
+   */
+  getReachableNodeIds(startId: string): Set<string> {
+    const reached = new Set<string>();
+    const queue = [startId];
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      if (reached.has(id) || !this.nodeMap.has(id)) continue;
+      reached.add(id);
+      this.getPrimaryOutgoingEdges(id).forEach((e) => queue.push(e.target));
+    }
+    return reached;
+  }
+
   /**
    * Calculate depth of a branch
    */
@@ -469,6 +578,38 @@ export class FlowModelStore {
     return bestMerge;
   }
 
+  // ==========================================================================
+  // REFERENCE INDEX
+  // Which elements read and write each variable / record field
+  // ==========================================================================
+
+  /**
+   * Get all reads and writes of a variable or record field
+   */
+  getReferenceUsages(reference: string): ReferenceUsages {
+    const usages = this.referenceIndex.get(reference) || [];
+    return {
+      reads: usages.filter((u) => u.access === "read"),
+      writes: usages.filter((u) => u.access === "write"),
+    };
+  }
+
+  /**
+   * Get how each element uses a reference, keyed by node ID
+   */
+  getReferencingNodes(reference: string): Map<string, ReferenceAccess[]> {
+    const result = new Map<string, ReferenceAccess[]>();
+    (this.referenceIndex.get(reference) || []).forEach((usage) => {
+      if (usage.sourceType !== "element") return;
+      const accesses = result.get(usage.sourceId) || [];
+      if (!accesses.includes(usage.access)) {
+        accesses.push(usage.access);
+      }
+      result.set(usage.sourceId, accesses);
+    });
+    return result;
+  }
+
   // ==========================================================================
   // COLLECTION ACCESS
   // ==========================================================================
@@ -518,9 +659,10 @@ export class FlowModelStore {
  */
 export function createFlowModelStore(
   nodes: FlowNode[],
-  edges: FlowEdge[]
+  edges: FlowEdge[],
+  resources: FlowResource[] = []
 ): FlowModelStore {
-  return new FlowModelStore({ nodes, edges });
+  return new FlowModelStore({ nodes, edges, resources });
 }
 
 export default FlowModelStore;
@@ -5,4 +5,9 @@
  */
 
 export { FlowModelStore, createFlowModelStore } from "./FlowModelStore";
-export type { FlowModelStoreOptions, BranchInfo } from "./FlowModelStore";
+export type {
+  FlowModelStoreOptions,
+  BranchInfo,
+  ReferenceUsage,
+  ReferenceUsages,
+} from "./FlowModelStore";
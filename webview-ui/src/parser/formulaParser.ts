@@ -0,0 +1,288 @@
+/**
+ * Flow Formula Parser
+ *
+ * Parses Salesforce flow formula syntax into an expression tree: literals,
+ * merge fields ({!$Record.Name}), function calls (IF, ISBLANK, TEXT, ...)
+ * and the arithmetic, text, comparison and logical operators.
+ */
+
+import type {
+  FormulaNode,
+  FormulaParseResult,
+  FormulaSyntaxError,
+} from "../types";
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type TokenType =
+  | "number"
+  | "string"
+  | "mergeField"
+  | "identifier"
+  | "operator"
+  | "("
+  | ")"
+  | ","
+  | "end";
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+// Longest first, so "<=" is not read as "<" then "="
+const OPERATORS = [
+  "<=",
+  ">=",
+  "<>",
+  "!=",
+  "==",
+  "&&",
+  "||",
+  "=",
+  "<",
+  ">",
+  "+",
+  "-",
+  "*",
+  "/",
+  "^",
+  "&",
+  "!",
+];
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+};
+
+function syntaxError(message: string, position: number): FormulaSyntaxError {
+  return { message, position };
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < expression.length) {
+    const char = expression[pos];
+
+    if (/\s/.test(char)) {
+      pos++;
+      continue;
+    }
+
+    // Comments
+    if (expression.startsWith("/*", pos)) {
+      const end = expression.indexOf("*/", pos + 2);
+      if (end === -1) throw syntaxError("Unclosed comment", pos);
+      pos = end + 2;
+      continue;
+    }
+
+    // Merge fields
+    if (expression.startsWith("{!", pos)) {
+      const end = expression.indexOf("}", pos + 2);
+      if (end === -1) throw syntaxError("Unclosed merge field", pos);
+      const name = expression.slice(pos + 2, end).trim();
+      if (!name) throw syntaxError("Empty merge field", pos);
+      tokens.push({ type: "mergeField", text: name, position: pos });
+      pos = end + 1;
+      continue;
+    }
+
+    // Text literals
+    if (char === '"' || char === "'") {
+      const start = pos;
+      let value = "";
+      pos++;
+      while (pos < expression.length && expression[pos] !== char) {
+        if (expression[pos] === "\\" && pos + 1 < expression.length) {
+          const escaped = expression[pos + 1];
+          value += STRING_ESCAPES[escaped] ?? escaped;
+          pos += 2;
+        } else {
+          value += expression[pos++];
+        }
+      }
+      if (pos >= expression.length) {
+        throw syntaxError("Unclosed text literal", start);
+      }
+      pos++;
+      tokens.push({ type: "string", text: value, position: start });
+      continue;
+    }
+
+    const number = /^(\d+(\.\d*)?|\.\d+)/.exec(expression.slice(pos));
+    if (number) {
+      tokens.push({ type: "number", text: number[0], position: pos });
+      pos += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_$][\w$]*(\.[\w$]+)*/.exec(
+      expression.slice(pos)
+    );
+    if (identifier) {
+      tokens.push({ type: "identifier", text: identifier[0], position: pos });
+      pos += identifier[0].length;
+      continue;
+    }
+
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ type: char, text: char, position: pos });
+      pos++;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => expression.startsWith(op, pos));
+    if (operator) {
+      tokens.push({ type: "operator", text: operator, position: pos });
+      pos += operator.length;
+      continue;
+    }
+
+    throw syntaxError(`Unexpected character "${char}"`, pos);
+  }
+
+  tokens.push({ type: "end", text: "", position: expression.length });
+  return tokens;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+// Binary operators by precedence, loosest first
+const PRECEDENCE: string[][] = [
+  ["||"],
+  ["&&"],
+  ["=", "==", "!=", "<>", "<", "<=", ">", ">="],
+  ["+", "-", "&"],
+  ["*", "/"],
+  ["^"],
+];
+
+const UNARY_OPERATORS = ["-", "+", "!"];
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case "end":
+      return "end of formula";
+    case "mergeField":
+      return `{!${token.text}}`;
+    case "string":
+      return `text "${token.text}"`;
+    default:
+      return `"${token.text}"`;
+  }
+}
+
+/**
+ * Parse a flow formula expression
+ *
+ * @param expression - Formula as written, e.g. "IF(ISBLANK({!var}), 0, 1)"
+ * @returns The expression tree, or the first syntax error
+ */
+export function parseFormula(expression: string): FormulaParseResult {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(expression);
+  } catch (error) {
+    return { ast: null, error: error as FormulaSyntaxError };
+  }
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const expect = (type: TokenType) => {
+    const token = next();
+    if (token.type !== type) {
+      throw syntaxError(
+        `Expected "${type}" but found ${describe(token)}`,
+        token.position
+      );
+    }
+    return token;
+  };
+
+  const parseBinary = (level: number): FormulaNode => {
+    if (level >= PRECEDENCE.length) return parseUnary();
+    let left = parseBinary(level + 1);
+    while (
+      peek().type === "operator" &&
+      PRECEDENCE[level].includes(peek().text)
+    ) {
+      const operator = next().text;
+      const right = parseBinary(level + 1);
+      left = { type: "binary", operator, left, right };
+    }
+    return left;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    const token = peek();
+    if (token.type === "operator" && UNARY_OPERATORS.includes(token.text)) {
+      next();
+      return { type: "unary", operator: token.text, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+    switch (token.type) {
+      case "number":
+        return { type: "number", value: parseFloat(token.text) };
+      case "string":
+        return { type: "string", value: token.text };
+      case "mergeField":
+        return { type: "reference", name: token.text };
+      case "(": {
+        const expression = parseBinary(0);
+        expect(")");
+        return { type: "group", expression };
+      }
+      case "identifier": {
+        if (peek().type === "(") {
+          next();
+          const args: FormulaNode[] = [];
+          if (peek().type !== ")") {
+            args.push(parseBinary(0));
+            while (peek().type === ",") {
+              next();
+              args.push(parseBinary(0));
+            }
+          }
+          expect(")");
+          return { type: "call", name: token.text.toUpperCase(), args };
+        }
+        const keyword = token.text.toUpperCase();
+        if (keyword === "TRUE" || keyword === "FALSE") {
+          return { type: "boolean", value: keyword === "TRUE" };
+        }
+        if (keyword === "NULL") return { type: "null" };
+        return { type: "reference", name: token.text };
+      }
+      default:
+        throw syntaxError(`Unexpected ${describe(token)}`, token.position);
+    }
+  };
+
+  try {
+    if (peek().type === "end") {
+      throw syntaxError("The formula is empty", 0);
+    }
+    const ast = parseBinary(0);
+    if (peek().type !== "end") {
+      throw syntaxError(`Unexpected ${describe(peek())}`, peek().position);
+    }
+    return { ast };
+  } catch (error) {
+    return { ast: null, error: error as FormulaSyntaxError };
+  }
+}
@@ -2,3 +2,6 @@
  * Parser module exports
  */
 export { parseFlowXML, isValidFlowXML, getFlowLabel } from "./xmlParser";
+export { parseFlowDocument } from "./flowDocument";
+export type { FlowXmlDocument, FlowXmlElement } from "./flowDocument";
+export { parseFormula } from "./formulaParser";
@@ -8,6 +8,7 @@
  */
 
 import type { Point } from "../hooks/useCanvasInteraction";
+import type { FlowEdge, FlowNode } from "../types";
 import { FAULT_LANE_CLEARANCE } from "../constants/dimensions";
 
 // ============================================================================
@@ -38,6 +39,20 @@ export interface FaultPathOptions extends PathOptions {
   laneX?: number; // Pre-calculated lane X position (from layout engine)
 }
 
+/**
+ * How a connector is styled: fault (red dashed), GoTo (blue dashed),
+ * loop-back (highlight dashed) or a plain connector
+ */
+export type DirectEdgeKind = "fault" | "goto" | "loop-back" | "normal";
+
+export interface DirectEdgeRoute {
+  path: string;
+  kind: DirectEdgeKind;
+  /** Where the connector's label is drawn */
+  labelX: number;
+  labelY: number;
+}
+
 // ============================================================================
 // CONNECTOR PATH SERVICE
 // ============================================================================
@@ -131,6 +146,39 @@ export class ConnectorPathService {
             L ${tgt.x} ${tgt.y}`;
   }
 
+  /**
+   * Create an orthogonal path that leaves and enters horizontally
+   * (horizontal → vertical → horizontal), for side-by-side nodes on the
+   * free-form canvas
+   *
+   * @param src - Source point (left or right side of source node)
+   * @param tgt - Target point (facing side of target node)
+   * @param options - Path options
+   */
+  static createHorizontalOrthogonalPath(src: Point, tgt: Point, options: PathOptions = {}): string {
+    const { cornerRadius = DEFAULT_CORNER_RADIUS } = options;
+
+    const dx = tgt.x - src.x;
+    const dy = tgt.y - src.y;
+
+    // Straight horizontal line if aligned vertically (within tolerance)
+    if (Math.abs(dy) < 3) {
+      return this.createStraightPath(src, tgt);
+    }
+
+    const xSign = dx >= 0 ? 1 : -1;
+    const ySign = dy > 0 ? 1 : -1;
+    const bendX = src.x + dx / 2;
+    const r = Math.max(0, Math.min(cornerRadius, Math.abs(dx) / 2 - 1, Math.abs(dy) / 2 - 1));
+
+    return `M ${src.x} ${src.y}
+            L ${bendX - xSign * r} ${src.y}
+            Q ${bendX} ${src.y}, ${bendX} ${src.y + ySign * r}
+            L ${bendX} ${tgt.y - ySign * r}
+            Q ${bendX} ${tgt.y}, ${bendX + xSign * r} ${tgt.y}
+            L ${tgt.x} ${tgt.y}`;
+  }
+
   /**
    * Create a fault connector path following Salesforce's pattern
    *
@@ -310,6 +358,96 @@ export class ConnectorPathService {
             L ${tgt.x} ${tgt.y}`;
   }
 
+  /**
+   * Route a connector that is not drawn as part of a branch or merge line
+   *
+   * Fault connectors leave the source's right side for their fault lane,
+   * connectors back up the canvas loop around the left, and the rest run
+   * from the bottom of the source to the top of the target.
+   *
+   * @param laneX - Fault lane X from the layout engine, for fault connectors
+   */
+  static routeDirectEdge(edge: FlowEdge, src: FlowNode, tgt: FlowNode, laneX?: number): DirectEdgeRoute {
+    const srcCenterX = src.x + src.width / 2;
+    const srcBottomY = src.y + src.height;
+    const srcRightX = src.x + src.width;
+    const srcCenterY = src.y + src.height / 2;
+
+    const tgtCenterX = tgt.x + tgt.width / 2;
+    const tgtTopY = tgt.y;
+    const tgtLeftX = tgt.x;
+    const tgtRightX = tgt.x + tgt.width;
+    const tgtCenterY = tgt.y + tgt.height / 2;
+
+    const isFault = edge.type === "fault";
+    const isFaultEnd = edge.type === "fault-end";
+    const isGoTo = edge.isGoTo === true || edge.type === "goto";
+    const isLoopBack = !isFault && !isFaultEnd && tgtTopY < srcBottomY;
+    const kind: DirectEdgeKind =
+      isFault || isFaultEnd ? "fault" : isGoTo ? "goto" : isLoopBack ? "loop-back" : "normal";
+    const faultLaneX = laneX ?? srcRightX + FAULT_LANE_CLEARANCE;
+
+    if (isFaultEnd) {
+      // Straight horizontal line for fault-end (target is at same Y level)
+      return {
+        path: this.createStraightPath({ x: srcRightX, y: srcCenterY }, { x: tgtLeftX, y: srcCenterY }),
+        kind,
+        labelX: (srcRightX + tgtLeftX) / 2,
+        labelY: srcCenterY - 12,
+      };
+    }
+
+    if (isFault) {
+      let path: string;
+      if (isGoTo) {
+        // Fault GoTo: enter the target from the side facing the lane
+        const targetInFaultLane = tgt.x > faultLaneX;
+        path = this.createFaultGoToPath(
+          { x: srcRightX, y: srcCenterY },
+          { x: targetInFaultLane ? tgtLeftX : tgtRightX, y: tgtCenterY },
+          { laneX: faultLaneX, targetInFaultLane }
+        );
+      } else {
+        path = this.createFaultPath(
+          { x: srcRightX, y: srcCenterY },
+          { x: tgtLeftX, y: tgtCenterY },
+          { laneX: faultLaneX }
+        );
+      }
+      return {
+        path,
+        kind,
+        labelX: (srcRightX + faultLaneX) / 2,
+        labelY: srcCenterY - 12,
+      };
+    }
+
+    const from = { x: srcCenterX, y: srcBottomY };
+    const to = { x: tgtCenterX, y: tgtTopY };
+
+    if (isLoopBack) {
+      // Label on the left side of the loop, beside the path
+      const minX = Math.min(srcCenterX, tgtCenterX);
+      const offsetX = Math.max(60, Math.abs(srcCenterX - tgtCenterX) / 2 + 50);
+      return {
+        path: this.createLoopBackPath(from, to),
+        kind,
+        labelX: minX - offsetX - 10,
+        labelY: (srcBottomY + tgtTopY) / 2,
+      };
+    }
+
+    return {
+      path:
+        Math.abs(tgtCenterX - srcCenterX) < 5
+          ? this.createStraightPath(from, to)
+          : this.createOrthogonalPath(from, to),
+      kind,
+      labelX: (srcCenterX + tgtCenterX) / 2,
+      labelY: srcBottomY + 20,
+    };
+  }
+
   /**
    * Create a horizontal line path
    */
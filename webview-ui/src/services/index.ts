@@ -9,4 +9,6 @@ export type {
   PathOptions,
   OrthogonalPathOptions,
   FaultPathOptions,
+  DirectEdgeKind,
+  DirectEdgeRoute,
 } from "./ConnectorPathService";
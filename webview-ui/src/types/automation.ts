@@ -0,0 +1,21 @@
+/**
+ * Record-Triggered Automation Types
+ *
+ * The record-triggered flows on one sObject, found by the extension host.
+ */
+
+/**
+ * A record-triggered flow file; the webview parses the XML itself
+ */
+export interface RecordTriggeredFlowSource {
+  /** Flow API name (file name without .flow-meta.xml) */
+  name: string;
+  filePath: string;
+  xml: string;
+}
+
+export interface ObjectAutomation {
+  /** Object API name, e.g. "Account" */
+  object: string;
+  flows: RecordTriggeredFlowSource[];
+}
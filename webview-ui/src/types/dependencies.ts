@@ -0,0 +1,34 @@
+/**
+ * Flow Dependency Types
+ *
+ * The workspace call graph between flows, built by the extension host.
+ */
+
+/**
+ * One element in a flow that starts another flow
+ */
+export interface FlowCall {
+  /** API name of the called flow */
+  flowName: string;
+  /** Element making the call */
+  elementName: string;
+  elementLabel: string;
+  kind: "subflow" | "action";
+}
+
+export interface FlowDependencyNode {
+  /** Flow API name (file name without .flow-meta.xml) */
+  name: string;
+  label: string;
+  /** Undefined for flows that are called but not in the workspace */
+  filePath?: string;
+  processType?: string;
+  status?: string;
+  calls: FlowCall[];
+}
+
+export interface FlowDependencyGraph {
+  flows: FlowDependencyNode[];
+  /** Groups of flows that call each other in a loop, by API name */
+  cycles: string[][];
+}
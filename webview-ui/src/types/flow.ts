@@ -127,6 +127,31 @@ export interface FlowNode {
   isTerminal?: boolean; // Whether this is a terminal node
 }
 
+/**
+ * How an element uses a variable or record field
+ */
+export type ReferenceAccess = "read" | "write";
+
+/**
+ * A variable / record field reference made by an element or resource
+ */
+export interface ElementReference {
+  reference: string; // e.g. "varAccountId" or "$Record.Name"
+  access: ReferenceAccess;
+  context: string; // Where the reference appears, e.g. "Assignment", "Filter"
+}
+
+/**
+ * A condition of a decision outcome or of the Start element's entry criteria
+ */
+export interface FlowCondition {
+  field: string;
+  operator: string;
+  value: string;
+  /** How the value is given, e.g. "stringValue" or "elementReference" */
+  valueType?: string;
+}
+
 /**
  * Extended data stored on flow nodes
  */
@@ -142,7 +167,7 @@ export interface FlowNodeData {
   filterFormula?: string;
   filterLogic?: string;
   doesRequireRecordChangedToMeetCriteria?: boolean;
-  entryConditions?: Array<{ field: string; operator: string; value: string }>;
+  entryConditions?: FlowCondition[];
   scheduledPaths?: Array<{
     name: string;
     label: string;
@@ -172,7 +197,7 @@ export interface FlowNodeData {
     name: string;
     label: string;
     conditionLogic: string;
-    conditions: Array<{ field: string; operator: string; value: string }>;
+    conditions: FlowCondition[];
   }>;
   defaultConnectorLabel?: string;
   hasImplicitDefaultEnd?: boolean;
@@ -202,6 +227,13 @@ export interface FlowNodeData {
   actionName?: string;
   actionType?: string;
 
+  // Variables and record fields read or written by this element
+  references?: ElementReference[];
+
+  // Free-form canvas position from <locationX>/<locationY>
+  locationX?: number;
+  locationY?: number;
+
   // Allow additional properties
   [key: string]: unknown;
 }
@@ -227,6 +259,7 @@ export interface FlowEdge {
   isFault?: boolean;
   isHighlighted?: boolean;
   operationType?: "delete" | "cut";
+  diffStatus?: DiffStatus; // Set on changed connectors in compare mode
 }
 
 /**
@@ -318,6 +351,52 @@ export interface FlowMetadata {
   interviewLabel?: string;
   runInMode?: string;
   recordTriggerType?: string;
+  /** Position among record-triggered flows on the same object (1-2000) */
+  triggerOrder?: string;
+}
+
+// ============================================================================
+// FLOW RESOURCES
+// ============================================================================
+
+/**
+ * Resource kinds - non-canvas elements declared at the top level of a flow
+ */
+export type FlowResourceKind =
+  | "variable"
+  | "constant"
+  | "formula"
+  | "textTemplate"
+  | "choice"
+  | "dynamicChoiceSet"
+  | "stage";
+
+/**
+ * Flow resource - a variable, constant, formula, text template, choice,
+ * dynamic choice set or stage
+ */
+export interface FlowResource {
+  name: string;
+  kind: FlowResourceKind;
+  description?: string;
+  dataType?: string;
+  objectType?: string; // sObject type for record variables / choice sets
+  isCollection?: boolean;
+  isInput?: boolean;
+  isOutput?: boolean;
+  defaultValue?: string; // Variable default, constant or choice value
+  expression?: string; // Formula expression
+  text?: string; // Text template body
+  label?: string; // Choice text / stage label
+  // Dynamic choice set data
+  displayField?: string;
+  valueField?: string;
+  picklistField?: string;
+  // Stage data
+  stageOrder?: number;
+  isActive?: boolean;
+  // Merge fields used by formulas and text templates
+  references?: ElementReference[];
 }
 
 /**
@@ -327,9 +406,100 @@ export interface ParsedFlow {
   nodes: FlowNode[];
   edges: FlowEdge[];
   metadata: FlowMetadata;
+  resources: FlowResource[];
   xmlContent?: string; // Full flow XML content for quality analysis
 }
 
+// ============================================================================
+// FLOW DIFF
+// ============================================================================
+
+/**
+ * How an element, connector or resource changed between two flow versions
+ */
+export type DiffStatus = "added" | "removed" | "modified" | "unchanged";
+
+/**
+ * Change to a single element of the merged diagram
+ */
+export interface NodeDiff {
+  id: string;
+  label: string;
+  type: NodeType;
+  status: DiffStatus;
+  changedProperties: string[]; // XML property paths, e.g. "rules[0].conditions[1].rightValue.stringValue"
+}
+
+/**
+ * Change to a single connector of the merged diagram
+ */
+export interface EdgeDiff {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+  status: DiffStatus;
+}
+
+/**
+ * Change to a flow resource (variable, formula, ...)
+ */
+export interface ResourceDiff {
+  name: string;
+  kind: FlowResourceKind;
+  status: DiffStatus;
+}
+
+/**
+ * Two versions of a flow to compare, as sent by the extension
+ */
+export interface FlowComparison {
+  baseXml: string;
+  targetXml: string;
+  baseLabel: string;
+  targetLabel: string;
+}
+
+/**
+ * Result of comparing two versions of a flow
+ */
+export interface FlowDiff {
+  baseLabel: string; // e.g. "HEAD" or a file name
+  targetLabel: string; // e.g. "Working Copy"
+  nodes: NodeDiff[];
+  edges: EdgeDiff[];
+  resources: ResourceDiff[];
+}
+
+// ============================================================================
+// FLOW REVISION
+// ============================================================================
+
+/**
+ * Git commit a historical flow version was loaded from
+ */
+export interface FlowRevision {
+  hash: string;
+  shortHash: string;
+  author: string;
+  authorEmail: string;
+  date: string; // ISO 8601
+  subject: string;
+}
+
+/**
+ * A parent flow in the subflow breadcrumb trail, kept so it can be
+ * shown again exactly as it was left
+ */
+export interface FlowBreadcrumb {
+  fileName: string;
+  label: string;
+  xml: string;
+  revision: FlowRevision | null;
+  /** Zoom and pan when the subflow was opened */
+  viewport: { scale: number; pan: Point };
+}
+
 // ============================================================================
 // RENDER CONTEXT
 // ============================================================================
@@ -0,0 +1,27 @@
+/**
+ * Flow Scanner Types
+ *
+ * Violations reported by lightning-flow-scanner, as sent by the extension
+ * host.
+ */
+
+export type ViolationSeverity = "error" | "warning" | "note";
+
+export interface FlowViolation {
+  /** Rule name (e.g., "DMLStatementInLoop", "HardcodedId") */
+  rule: string;
+  /** Human-readable rule label */
+  ruleLabel: string;
+  /** Severity level */
+  severity: ViolationSeverity;
+  /** Violation message/description */
+  message: string;
+  /** Element name where violation occurred (if applicable) */
+  elementName?: string;
+  /** Element type (e.g., "recordUpdates", "decisions") */
+  elementType?: string;
+  /** Link to rule documentation */
+  docLink?: string;
+  /** Where the exception that suppresses this violation is declared */
+  suppressedBy?: string;
+}
@@ -0,0 +1,65 @@
+/**
+ * Flow Formula Types
+ *
+ * Expression tree of a flow formula, e.g. a <formulas> resource or the
+ * Start element's entry formula, and the tokens it is printed as.
+ */
+
+// ============================================================================
+// EXPRESSION TREE
+// ============================================================================
+
+export type FormulaNode =
+  | { type: "number"; value: number }
+  | { type: "string"; value: string }
+  | { type: "boolean"; value: boolean }
+  | { type: "null" }
+  /** Merge field such as {!$Record.Name} or {!varTotal} */
+  | { type: "reference"; name: string }
+  | { type: "unary"; operator: string; operand: FormulaNode }
+  | {
+      type: "binary";
+      operator: string;
+      left: FormulaNode;
+      right: FormulaNode;
+    }
+  | { type: "call"; name: string; args: FormulaNode[] }
+  /** Parentheses written by the author */
+  | { type: "group"; expression: FormulaNode };
+
+export interface FormulaSyntaxError {
+  message: string;
+  /** Character offset in the expression where the error was found */
+  position: number;
+}
+
+export interface FormulaParseResult {
+  ast: FormulaNode | null;
+  error?: FormulaSyntaxError;
+}
+
+// ============================================================================
+// PRINTING
+// ============================================================================
+
+export type FormulaTokenKind =
+  | "function"
+  | "reference"
+  | "string"
+  | "number"
+  | "keyword"
+  | "operator"
+  | "punctuation";
+
+export interface FormulaToken {
+  kind: FormulaTokenKind;
+  text: string;
+}
+
+/**
+ * One line of a pretty-printed formula
+ */
+export interface FormulaLine {
+  indent: number;
+  tokens: FormulaToken[];
+}
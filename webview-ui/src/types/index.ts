@@ -2,3 +2,8 @@
  * Export all flow types
  */
 export * from "./flow";
+export * from "./dependencies";
+export * from "./automation";
+export * from "./formula";
+export * from "./flowScanner";
+export * from "./qualityReport";
@@ -0,0 +1,39 @@
+/**
+ * Workspace Quality Report Types
+ *
+ * Scanner results for every flow in the workspace, gathered by the
+ * extension host.
+ */
+
+import type { FlowViolation } from "./flowScanner";
+
+/**
+ * Scanner results for one flow file
+ */
+export interface FlowQualityEntry {
+  /** Flow API name (file name without .flow-meta.xml) */
+  name: string;
+  filePath: string;
+  label: string;
+  processType?: string;
+  status?: string;
+  violations: FlowViolation[];
+  /** Set when the flow could not be scanned */
+  errorMessage?: string;
+}
+
+export interface QualityScanTotals {
+  /** ISO timestamp of the scan */
+  scannedAt: string;
+  flows: number;
+  error: number;
+  warning: number;
+  note: number;
+}
+
+export interface WorkspaceQualityReport {
+  scannedAt: string;
+  flows: FlowQualityEntry[];
+  /** Totals of earlier scans of this workspace, oldest first */
+  history: QualityScanTotals[];
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import type { AutomationFlow } from "./automationMap";
+import {
+  compareTriggerOrder,
+  getEntryConditionDependencies,
+  getExecutionPhases,
+  getTriggerOrderTies,
+  readAutomationFlow,
+} from "./automationMap";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function automationFlow(
+  name: string,
+  overrides: Partial<AutomationFlow> = {}
+): AutomationFlow {
+  return {
+    name,
+    filePath: `/flows/${name}.flow-meta.xml`,
+    label: name,
+    isActive: true,
+    triggerType: "RecordAfterSave",
+    recordTriggerType: "CreateAndUpdate",
+    entryConditions: [],
+    requiresRecordChange: false,
+    scheduledPaths: [],
+    fieldWrites: [],
+    ...overrides,
+  };
+}
+
+const names = (flows: AutomationFlow[]) => flows.map((flow) => flow.name);
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("readAutomationFlow", () => {
+  it("reads the trigger, order and $Record field writes", () => {
+    const flow = readAutomationFlow({
+      name: "Account_Before_Save",
+      filePath: "/flows/Account_Before_Save.flow-meta.xml",
+      xml: `<?xml version="1.0" encoding="UTF-8"?>
+<Flow xmlns="http://soap.sforce.com/2006/04/metadata">
+  <label>Account Before Save</label>
+  <processType>AutoLaunchedFlow</processType>
+  <status>Draft</status>
+  <triggerOrder>200</triggerOrder>
+  <start>
+    <connector><targetReference>Set_Rating</targetReference></connector>
+    <object>Account</object>
+    <recordTriggerType>Update</recordTriggerType>
+    <triggerType>RecordBeforeSave</triggerType>
+  </start>
+  <assignments>
+    <name>Set_Rating</name>
+    <label>Set Rating</label>
+    <assignmentItems>
+      <assignToReference>$Record.Rating</assignToReference>
+      <operator>Assign</operator>
+      <value><stringValue>Hot</stringValue></value>
+    </assignmentItems>
+  </assignments>
+</Flow>`,
+    });
+
+    expect(flow).toMatchObject({
+      label: "Account Before Save",
+      isActive: false,
+      triggerType: "RecordBeforeSave",
+      recordTriggerType: "Update",
+      triggerOrder: 200,
+      fieldWrites: ["Rating"],
+    });
+  });
+
+  it("skips flows that aren't record-triggered", () => {
+    const xml = `<Flow><start><connector><targetReference>X</targetReference></connector></start></Flow>`;
+
+    expect(readAutomationFlow({ name: "Screen", filePath: "", xml })).toBeNull();
+  });
+});
+
+describe("compareTriggerOrder", () => {
+  it("runs 1-1000 first, then unordered flows, then 1001-2000", () => {
+    const flows = [
+      automationFlow("Late", { triggerOrder: 1500 }),
+      automationFlow("Unordered_B"),
+      automationFlow("Early", { triggerOrder: 10 }),
+      automationFlow("Unordered_A"),
+    ];
+
+    expect(names([...flows].sort(compareTriggerOrder))).toEqual([
+      "Early",
+      "Unordered_A",
+      "Unordered_B",
+      "Late",
+    ]);
+  });
+});
+
+describe("getExecutionPhases", () => {
+  const flows = [
+    automationFlow("After_Update", {
+      recordTriggerType: "Update",
+      scheduledPaths: [
+        { name: "Later", label: "Later", pathType: "AsyncAfterCommit" },
+      ],
+    }),
+    automationFlow("Before_Save", { triggerType: "RecordBeforeSave" }),
+    automationFlow("Before_Delete", {
+      triggerType: "RecordBeforeDelete",
+      recordTriggerType: "Delete",
+    }),
+    automationFlow("After_Create", { recordTriggerType: "Create" }),
+  ];
+
+  it("groups flows into the phases of a save", () => {
+    const phases = getExecutionPhases(flows);
+
+    expect(phases.map((phase) => [phase.id, names(phase.flows)])).toEqual([
+      ["beforeSave", ["Before_Save"]],
+      ["afterSave", ["After_Create", "After_Update"]],
+      ["asyncPaths", ["After_Update"]],
+      ["beforeDelete", ["Before_Delete"]],
+    ]);
+  });
+
+  it("keeps only the flows an event fires, dropping empty phases", () => {
+    const phases = getExecutionPhases(flows, "Create");
+
+    expect(phases.map((phase) => [phase.id, names(phase.flows)])).toEqual([
+      ["beforeSave", ["Before_Save"]],
+      ["afterSave", ["After_Create"]],
+    ]);
+  });
+});
+
+describe("getTriggerOrderTies", () => {
+  it("finds flows sharing a trigger order", () => {
+    const [phase] = getExecutionPhases([
+      automationFlow("A", { triggerOrder: 100 }),
+      automationFlow("B", { triggerOrder: 100 }),
+      automationFlow("C", { triggerOrder: 200 }),
+      automationFlow("D"),
+      automationFlow("E"),
+    ]);
+
+    expect([...getTriggerOrderTies(phase)].sort()).toEqual(["A", "B"]);
+  });
+});
+
+describe("getEntryConditionDependencies", () => {
+  it("lists earlier flows writing a field the entry conditions check", () => {
+    const writer = automationFlow("Writer", { fieldWrites: ["Status__c"] });
+    const reader = automationFlow("Reader", {
+      entryConditions: [
+        { field: "Status__c", operator: "EqualTo", value: "Open" },
+      ],
+    });
+    const laterWriter = automationFlow("Later", { fieldWrites: ["Status__c"] });
+    const ordered = [writer, reader, laterWriter];
+
+    expect(getEntryConditionDependencies(ordered, reader)).toEqual([
+      { field: "Status__c", writtenBy: [writer] },
+    ]);
+    expect(getEntryConditionDependencies(ordered, writer)).toEqual([]);
+  });
+});
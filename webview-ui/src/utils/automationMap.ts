@@ -0,0 +1,276 @@
+/**
+ * Record-Triggered Automation Utilities
+ *
+ * Reads the START node of each record-triggered flow on an object and puts
+ * the flows in Salesforce's order of execution: before-save flows, then
+ * after-save flows, then asynchronous and scheduled paths once the
+ * transaction commits; before-delete flows run in their own transaction.
+ * Within each phase flows run by trigger order.
+ */
+
+import { parseFlowXML } from "../parser";
+import type { FlowNodeData, RecordTriggeredFlowSource } from "../types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** The DML event a record-triggered flow can fire on */
+export type AutomationEvent = "Create" | "Update" | "Delete";
+
+export type AutomationPhaseId =
+  | "beforeSave"
+  | "afterSave"
+  | "asyncPaths"
+  | "beforeDelete";
+
+/**
+ * A record-triggered flow with the START node details that decide when,
+ * and in which position, it runs
+ */
+export interface AutomationFlow {
+  name: string;
+  filePath: string;
+  label: string;
+  status?: string;
+  /** Only active flows run; drafts and obsolete versions are shown greyed */
+  isActive: boolean;
+  triggerType: string;
+  recordTriggerType: string;
+  triggerOrder?: number;
+  entryConditions: NonNullable<FlowNodeData["entryConditions"]>;
+  filterLogic?: string;
+  filterFormula?: string;
+  requiresRecordChange: boolean;
+  scheduledPaths: NonNullable<FlowNodeData["scheduledPaths"]>;
+  /** $Record fields the flow assigns or updates, without the prefix */
+  fieldWrites: string[];
+}
+
+export interface AutomationPhase {
+  id: AutomationPhaseId;
+  title: string;
+  description: string;
+  /** Platform steps that run between the previous phase and this one */
+  precededBy?: string;
+  flows: AutomationFlow[];
+}
+
+/**
+ * A field an earlier flow writes and a later flow's entry conditions check,
+ * so the later flow's outcome depends on the earlier one running first
+ */
+export interface FieldDependency {
+  field: string;
+  writtenBy: AutomationFlow[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const RECORD_PREFIX = "$Record.";
+
+// Record trigger types each DML event fires
+const EVENT_TRIGGER_TYPES: Record<AutomationEvent, string[]> = {
+  Create: ["Create", "CreateAndUpdate"],
+  Update: ["Update", "CreateAndUpdate"],
+  Delete: ["Delete"],
+};
+
+// Trigger orders up to this run before flows without a trigger order
+const EARLY_ORDER_LIMIT = 1000;
+
+// ============================================================================
+// READING FLOWS
+// ============================================================================
+
+/**
+ * Parse a record-triggered flow and read its START node. Returns null for
+ * files that are not record-triggered flows or fail to parse.
+ */
+export function readAutomationFlow(
+  source: RecordTriggeredFlowSource
+): AutomationFlow | null {
+  try {
+    const { nodes, metadata } = parseFlowXML(source.xml);
+    const start = nodes.find((node) => node.type === "START");
+    if (!start?.data.triggerType) return null;
+
+    const fieldWrites = new Set<string>();
+    for (const node of nodes) {
+      for (const ref of node.data.references ?? []) {
+        if (ref.access === "write" && ref.reference.startsWith(RECORD_PREFIX)) {
+          fieldWrites.add(ref.reference.slice(RECORD_PREFIX.length));
+        }
+      }
+    }
+
+    const triggerOrder = parseInt(metadata.triggerOrder ?? "", 10);
+    return {
+      name: source.name,
+      filePath: source.filePath,
+      label: metadata.label || source.name,
+      status: metadata.status,
+      isActive: !metadata.status || metadata.status === "Active",
+      triggerType: start.data.triggerType,
+      recordTriggerType: start.data.recordTriggerType ?? "",
+      triggerOrder: Number.isNaN(triggerOrder) ? undefined : triggerOrder,
+      entryConditions: start.data.entryConditions ?? [],
+      filterLogic: start.data.filterLogic || undefined,
+      filterFormula: start.data.filterFormula || undefined,
+      requiresRecordChange:
+        start.data.doesRequireRecordChangedToMeetCriteria === true,
+      scheduledPaths: start.data.scheduledPaths ?? [],
+      fieldWrites: [...fieldWrites].sort(),
+    };
+  } catch (error) {
+    console.error(`[AutomationMap] Failed to parse ${source.name}`, error);
+    return null;
+  }
+}
+
+// ============================================================================
+// ORDER OF EXECUTION
+// ============================================================================
+
+/**
+ * Whether a flow fires on the given DML event (all events when omitted)
+ */
+export function runsOnEvent(
+  flow: AutomationFlow,
+  event?: AutomationEvent
+): boolean {
+  return !event || EVENT_TRIGGER_TYPES[event].includes(flow.recordTriggerType);
+}
+
+/**
+ * Compare flows by trigger order: 1-1000 first, then flows without an
+ * order, then 1001-2000. Flows without an order really run in the order
+ * they were created, which the metadata does not record, so they and ties
+ * fall back to API name.
+ */
+export function compareTriggerOrder(
+  a: AutomationFlow,
+  b: AutomationFlow
+): number {
+  const rank = (flow: AutomationFlow) =>
+    flow.triggerOrder === undefined
+      ? EARLY_ORDER_LIMIT + 0.5
+      : flow.triggerOrder;
+  return rank(a) - rank(b) || a.name.localeCompare(b.name);
+}
+
+/**
+ * Group flows into the phases of a save or delete, each sorted by trigger
+ * order. Phases without flows are left out.
+ */
+export function getExecutionPhases(
+  flows: AutomationFlow[],
+  event?: AutomationEvent
+): AutomationPhase[] {
+  const matching = flows
+    .filter((flow) => runsOnEvent(flow, event))
+    .sort(compareTriggerOrder);
+  const ofType = (triggerType: string) =>
+    matching.filter((flow) => flow.triggerType === triggerType);
+
+  const phases: AutomationPhase[] = [
+    {
+      id: "beforeSave",
+      title: "Before Save (Fast Field Updates)",
+      description:
+        "Runs before the record is saved. Field assignments on $Record are saved without another DML.",
+      precededBy: "System validation",
+      flows: ofType("RecordBeforeSave"),
+    },
+    {
+      id: "afterSave",
+      title: "After Save (Actions and Related Records)",
+      description: "Runs after the record is saved, in the same transaction.",
+      precededBy:
+        "Apex before triggers, validation and duplicate rules, save, Apex after triggers, assignment, auto-response and workflow rules, escalation and entitlement rules",
+      flows: ofType("RecordAfterSave"),
+    },
+    {
+      id: "asyncPaths",
+      title: "Asynchronous and Scheduled Paths",
+      description:
+        "Paths of after-save flows that run once the transaction commits. Their relative order is not guaranteed.",
+      precededBy: "Transaction commits",
+      flows: ofType("RecordAfterSave").filter(
+        (flow) => flow.scheduledPaths.length > 0
+      ),
+    },
+    {
+      id: "beforeDelete",
+      title: "Before Delete",
+      description:
+        "Runs in the delete transaction, before the record is deleted.",
+      precededBy: "Delete requested (a separate transaction from saves)",
+      flows: ofType("RecordBeforeDelete"),
+    },
+  ];
+  return phases.filter((phase) => phase.flows.length > 0);
+}
+
+/**
+ * Flows in the same phase that share a trigger order, so only their API
+ * names decide which runs first
+ */
+export function getTriggerOrderTies(phase: AutomationPhase): Set<string> {
+  const byOrder = new Map<number, string[]>();
+  for (const flow of phase.flows) {
+    if (flow.triggerOrder === undefined) continue;
+    byOrder.set(flow.triggerOrder, [
+      ...(byOrder.get(flow.triggerOrder) ?? []),
+      flow.name,
+    ]);
+  }
+  return new Set(
+    [...byOrder.values()].filter((names) => names.length > 1).flat()
+  );
+}
+
+// ============================================================================
+// INTERFERENCE
+// ============================================================================
+
+/**
+ * Fields written by more than one of the given flows, with the flows that
+ * write each one
+ */
+export function getSharedFieldWrites(
+  flows: AutomationFlow[]
+): Map<string, AutomationFlow[]> {
+  const writers = new Map<string, AutomationFlow[]>();
+  for (const flow of flows) {
+    for (const field of flow.fieldWrites) {
+      writers.set(field, [...(writers.get(field) ?? []), flow]);
+    }
+  }
+  return new Map(
+    [...writers.entries()].filter(([, writtenBy]) => writtenBy.length > 1)
+  );
+}
+
+/**
+ * Entry condition fields of a flow that flows running earlier in the same
+ * transaction write
+ *
+ * @param ordered - Flows in order of execution
+ * @param flow - The flow whose entry conditions are checked
+ */
+export function getEntryConditionDependencies(
+  ordered: AutomationFlow[],
+  flow: AutomationFlow
+): FieldDependency[] {
+  const earlier = ordered.slice(0, ordered.indexOf(flow));
+  const fields = new Set(flow.entryConditions.map((cond) => cond.field));
+  return [...fields]
+    .map((field) => ({
+      field,
+      writtenBy: earlier.filter((other) => other.fieldWrites.includes(field)),
+    }))
+    .filter((dependency) => dependency.writtenBy.length > 0);
+}
@@ -293,6 +293,22 @@ export function computeVisibility(
   return { hiddenNodes: allHiddenNodes, hiddenEdges };
 }
 
+/**
+ * Get the collapsed branching nodes that hide a node, i.e. the ones to
+ * expand to bring it back on the canvas
+ */
+export function getCollapsedAncestors(
+  nodeId: string,
+  collapsedNodeIds: Set<string>,
+  nodes: FlowNode[],
+  edges: FlowEdge[]
+): string[] {
+  const nodeMap = new Map(nodes.map((n) => [n.id, n]));
+  return Array.from(collapsedNodeIds).filter((collapsedId) =>
+    getHiddenNodesForCollapse(collapsedId, edges, nodeMap).has(nodeId)
+  );
+}
+
 /**
  * Get the list of branching node IDs from a flow
  */
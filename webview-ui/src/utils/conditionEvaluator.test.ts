@@ -0,0 +1,169 @@
+import { describe, expect, it } from "vitest";
+import type { FlowNode, FlowNodeData } from "../types";
+import {
+  evaluateConditionLogic,
+  evaluateDecision,
+  evaluateEntryConditions,
+  getSampleDataTemplate,
+} from "./conditionEvaluator";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function node(type: FlowNode["type"], data: FlowNodeData): FlowNode {
+  return { id: type, type, label: type, x: 0, y: 0, width: 0, height: 0, data };
+}
+
+const DECISION = node("DECISION", {
+  defaultConnectorLabel: "Small",
+  rules: [
+    {
+      name: "Is_Big",
+      label: "Is Big",
+      conditionLogic: "and",
+      conditions: [
+        {
+          field: "$Record.Amount",
+          operator: "GreaterThan",
+          value: "1000",
+          valueType: "numberValue",
+        },
+        {
+          field: "$Record.StageName",
+          operator: "EqualTo",
+          value: "varStage",
+          valueType: "elementReference",
+        },
+      ],
+    },
+    {
+      name: "Is_Closed",
+      label: "Is Closed",
+      conditionLogic: "or",
+      conditions: [
+        {
+          field: "$Record.IsClosed",
+          operator: "EqualTo",
+          value: "true",
+          valueType: "booleanValue",
+        },
+      ],
+    },
+  ],
+});
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("evaluateConditionLogic", () => {
+  it("evaluates and, or and custom logic", () => {
+    expect(evaluateConditionLogic("and", [true, false])).toBe(false);
+    expect(evaluateConditionLogic("or", [true, false])).toBe(true);
+    const results = [true, false, false];
+    expect(evaluateConditionLogic("(1 AND 2) OR NOT 3", results)).toBe(true);
+    expect(evaluateConditionLogic("1 AND (2 OR 3)", results)).toBe(false);
+  });
+
+  it("rejects malformed logic and missing conditions", () => {
+    expect(() => evaluateConditionLogic("1 AND", [true])).toThrow("ends early");
+    expect(() => evaluateConditionLogic("(1 OR 2", [true, true])).toThrow(
+      'Expected ")"'
+    );
+    expect(() => evaluateConditionLogic("1 OR 3", [true, true])).toThrow(
+      "Condition 3 does not exist"
+    );
+  });
+});
+
+describe("evaluateDecision", () => {
+  it("fires the first outcome whose conditions are met", () => {
+    const result = evaluateDecision(DECISION, {
+      record: { Amount: 5000, StageName: "Won", IsClosed: true },
+      variables: { varStage: "Won" },
+    });
+
+    expect(result.outcomes.map((outcome) => outcome.passed)).toEqual([
+      true,
+      true,
+    ]);
+    expect(result.firedOutcome).toBe("Is_Big");
+  });
+
+  it("takes the default outcome and notes missing sample values", () => {
+    const result = evaluateDecision(DECISION, {
+      record: { Amount: 10, IsClosed: false },
+      variables: {},
+    });
+
+    expect(result.firedOutcome).toBeNull();
+    expect(result.defaultLabel).toBe("Small");
+    expect(result.outcomes[0].conditions[1].note).toBe(
+      "No sample value for $Record.StageName. No sample value for varStage"
+    );
+  });
+});
+
+describe("evaluateEntryConditions", () => {
+  const start = node("START", {
+    filterLogic: "and",
+    doesRequireRecordChangedToMeetCriteria: true,
+    entryConditions: [
+      { field: "Status__c", operator: "EqualTo", value: "Open" },
+    ],
+  });
+
+  it("runs when the record is updated to meet the criteria", () => {
+    const result = evaluateEntryConditions(start, {
+      record: { Status__c: "Open" },
+      variables: { $Record__Prior: { Status__c: "New" } },
+    });
+
+    expect(result.passed).toBe(true);
+    expect(result.priorMetCriteria).toBe(false);
+    expect(result.runs).toBe(true);
+  });
+
+  it("doesn't run when the prior record already met them", () => {
+    const result = evaluateEntryConditions(start, {
+      record: { Status__c: "Open" },
+      variables: { $Record__Prior: { Status__c: "Open" } },
+    });
+
+    expect(result.priorMetCriteria).toBe(true);
+    expect(result.runs).toBe(false);
+  });
+
+  it("requires the entry formula to be true", () => {
+    const withFormula = node("START", {
+      filterFormula: "{!$Record.Amount} > 100",
+    });
+
+    expect(
+      evaluateEntryConditions(withFormula, {
+        record: { Amount: 50 },
+        variables: {},
+      }).runs
+    ).toBe(false);
+    expect(
+      evaluateEntryConditions(withFormula, {
+        record: { Amount: 500 },
+        variables: {},
+      }).runs
+    ).toBe(true);
+  });
+});
+
+describe("getSampleDataTemplate", () => {
+  it("lists every field and variable the conditions read", () => {
+    const template = getSampleDataTemplate(DECISION);
+
+    expect(Object.keys(template.record).sort()).toEqual([
+      "Amount",
+      "IsClosed",
+      "StageName",
+    ]);
+    expect(Object.keys(template.variables)).toEqual(["varStage"]);
+  });
+});
@@ -0,0 +1,416 @@
+/**
+ * Condition Evaluator
+ *
+ * Evaluates decision outcomes and Start entry conditions against sample
+ * data: a JSON record standing in for $Record and values for variables and
+ * other references. Used to answer "which outcome would fire, and why"
+ * without running the flow in an org.
+ */
+
+import type { FlowCondition, FlowNode } from "../types";
+import { parseFormula } from "../parser";
+import { evaluateFormula, getFormulaSampleTemplate } from "./formula";
+import type { FormulaEvaluation } from "./formula";
+import {
+  PRIOR_RECORD_REFERENCE,
+  RECORD_REFERENCE,
+  addSampleReference,
+  compareSampleValues,
+  getPriorReference,
+  isBlankValue,
+  isSampleObject,
+  resolveSampleReference,
+  sampleValuesEqual,
+  textOfValue,
+  toBooleanValue,
+} from "./sampleData";
+import type { ResolvedReference, SampleData } from "./sampleData";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ConditionResult {
+  condition: FlowCondition;
+  passed: boolean;
+  /** Value of the left-hand side */
+  actual: unknown;
+  /** Value the condition compares against */
+  expected: unknown;
+  /** Why the result may not match the org, e.g. a value was not supplied */
+  note?: string;
+}
+
+export interface LogicResult {
+  /** Condition logic as written, e.g. "and" or "(1 AND 2) OR 3" */
+  logic: string;
+  conditions: ConditionResult[];
+  passed: boolean;
+  /** Set when custom logic could not be read; the group counts as failed */
+  logicError?: string;
+}
+
+export interface OutcomeEvaluation extends LogicResult {
+  name: string;
+  label: string;
+}
+
+export interface DecisionEvaluation {
+  outcomes: OutcomeEvaluation[];
+  /** API name of the first outcome whose conditions are met; null for default */
+  firedOutcome: string | null;
+  defaultLabel: string;
+}
+
+export interface EntryFormulaResult {
+  passed: boolean;
+  evaluation?: FormulaEvaluation;
+  /** Set when the formula could not be parsed; it counts as not met */
+  syntaxError?: string;
+}
+
+export interface EntryEvaluation extends LogicResult {
+  /** The record must change to meet the criteria; checked against $Record__Prior */
+  requiresRecordChange: boolean;
+  /** The prior record already met the criteria, so the flow does not run */
+  priorMetCriteria?: boolean;
+  /** Result of the entry formula, when the Start element has one */
+  formula?: EntryFormulaResult;
+  /** Whether the flow would run for this record */
+  runs: boolean;
+}
+
+// ============================================================================
+// CONDITIONS
+// ============================================================================
+
+/**
+ * Value a condition compares against: a literal or another reference
+ */
+function resolveConditionValue(
+  condition: FlowCondition,
+  data: SampleData
+): ResolvedReference {
+  switch (condition.valueType) {
+    case "elementReference":
+      return resolveSampleReference(condition.value, data);
+    case "numberValue":
+      return { found: true, value: Number(condition.value) };
+    case "booleanValue":
+      return { found: true, value: condition.value.toLowerCase() === "true" };
+    default:
+      return { found: true, value: condition.value };
+  }
+}
+
+/**
+ * Evaluate one condition
+ *
+ * @param condition - The condition, with the field as a full reference
+ * @param data - Sample record and variable values
+ */
+function evaluateCondition(
+  condition: FlowCondition,
+  data: SampleData
+): ConditionResult {
+  const left = resolveSampleReference(condition.field, data);
+  const right = resolveConditionValue(condition, data);
+  const notes: string[] = [];
+  if (!left.found) notes.push(`No sample value for ${condition.field}`);
+  if (!right.found) notes.push(`No sample value for ${condition.value}`);
+
+  let passed: boolean;
+  switch (condition.operator) {
+    case "EqualTo":
+      passed = sampleValuesEqual(left.value, right.value);
+      break;
+    case "NotEqualTo":
+      passed = !sampleValuesEqual(left.value, right.value);
+      break;
+    case "GreaterThan":
+      passed = (compareSampleValues(left.value, right.value) ?? 0) > 0;
+      break;
+    case "GreaterThanOrEqualTo":
+      passed = (compareSampleValues(left.value, right.value) ?? -1) >= 0;
+      break;
+    case "LessThan":
+      passed = (compareSampleValues(left.value, right.value) ?? 0) < 0;
+      break;
+    case "LessThanOrEqualTo":
+      passed = (compareSampleValues(left.value, right.value) ?? 1) <= 0;
+      break;
+    case "Contains":
+      passed = Array.isArray(left.value)
+        ? left.value.some((item) => sampleValuesEqual(item, right.value))
+        : textOfValue(left.value).includes(textOfValue(right.value));
+      break;
+    case "StartsWith":
+      passed = textOfValue(left.value).startsWith(textOfValue(right.value));
+      break;
+    case "EndsWith":
+      passed = textOfValue(left.value).endsWith(textOfValue(right.value));
+      break;
+    case "IsNull":
+      passed =
+        (left.value === null || left.value === undefined) ===
+        toBooleanValue(right.value);
+      break;
+    case "IsBlank":
+      passed = isBlankValue(left.value) === toBooleanValue(right.value);
+      break;
+    case "IsChanged": {
+      const priorReference = getPriorReference(condition.field);
+      const prior = priorReference
+        ? resolveSampleReference(priorReference, data)
+        : { found: false, value: null };
+      if (!prior.found) {
+        notes.push(`No ${PRIOR_RECORD_REFERENCE} value; treated as unchanged`);
+      }
+      const changed =
+        prior.found && left.found && !sampleValuesEqual(left.value, prior.value);
+      passed = changed === toBooleanValue(right.value);
+      break;
+    }
+    default:
+      passed = false;
+      notes.push(`${condition.operator} can't be evaluated; treated as false`);
+  }
+
+  return {
+    condition,
+    passed,
+    actual: left.value,
+    expected: right.value,
+    note: notes.length > 0 ? notes.join(". ") : undefined,
+  };
+}
+
+// ============================================================================
+// CONDITION LOGIC
+// ============================================================================
+
+/**
+ * Evaluate condition logic: "and", "or", or custom logic such as
+ * "(1 AND 2) OR NOT 3", where numbers refer to conditions (1-based)
+ *
+ * @throws Error when custom logic is malformed or refers to a missing condition
+ */
+export function evaluateConditionLogic(
+  logic: string,
+  results: boolean[]
+): boolean {
+  const normalized = logic.trim().toLowerCase();
+  if (normalized === "" || normalized === "and") return results.every(Boolean);
+  if (normalized === "or") return results.some(Boolean);
+
+  const tokens = normalized.match(/\d+|and|or|not|\(|\)|\S/g) ?? [];
+  let pos = 0;
+
+  const expect = (token: string) => {
+    if (tokens[pos] !== token) {
+      throw new Error(`Expected "${token}" in condition logic "${logic}"`);
+    }
+    pos++;
+  };
+
+  const parseFactor = (): boolean => {
+    const token = tokens[pos++];
+    if (token === "not") return !parseFactor();
+    if (token === "(") {
+      const value = parseOr();
+      expect(")");
+      return value;
+    }
+    if (token && /^\d+$/.test(token)) {
+      const index = parseInt(token, 10) - 1;
+      if (index < 0 || index >= results.length) {
+        throw new Error(`Condition ${token} does not exist`);
+      }
+      return results[index];
+    }
+    throw new Error(
+      token
+        ? `Unexpected "${token}" in condition logic "${logic}"`
+        : `Condition logic "${logic}" ends early`
+    );
+  };
+
+  const parseAnd = (): boolean => {
+    let value = parseFactor();
+    while (tokens[pos] === "and") {
+      pos++;
+      // Evaluate both sides so every token is checked
+      const right = parseFactor();
+      value = value && right;
+    }
+    return value;
+  };
+
+  const parseOr = (): boolean => {
+    let value = parseAnd();
+    while (tokens[pos] === "or") {
+      pos++;
+      const right = parseAnd();
+      value = value || right;
+    }
+    return value;
+  };
+
+  const value = parseOr();
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected "${tokens[pos]}" in condition logic "${logic}"`);
+  }
+  return value;
+}
+
+function evaluateGroup(
+  logic: string,
+  conditions: FlowCondition[],
+  data: SampleData
+): LogicResult {
+  const results = conditions.map((condition) =>
+    evaluateCondition(condition, data)
+  );
+  try {
+    return {
+      logic,
+      conditions: results,
+      passed: evaluateConditionLogic(
+        logic,
+        results.map((r) => r.passed)
+      ),
+    };
+  } catch (error) {
+    return {
+      logic,
+      conditions: results,
+      passed: false,
+      logicError: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Evaluate a decision's outcomes in order; the first one met fires
+ */
+export function evaluateDecision(
+  node: FlowNode,
+  data: SampleData
+): DecisionEvaluation {
+  const outcomes = (node.data.rules ?? []).map((rule) => ({
+    name: rule.name,
+    label: rule.label,
+    ...evaluateGroup(rule.conditionLogic, rule.conditions, data),
+  }));
+  return {
+    outcomes,
+    firedOutcome: outcomes.find((outcome) => outcome.passed)?.name ?? null,
+    defaultLabel: node.data.defaultConnectorLabel || "Default Outcome",
+  };
+}
+
+/**
+ * Evaluate the entry formula; it is met only when it evaluates to true
+ */
+function evaluateEntryFormula(
+  expression: string,
+  data: SampleData
+): EntryFormulaResult {
+  const { ast, error } = parseFormula(expression);
+  if (!ast) {
+    return { passed: false, syntaxError: error?.message };
+  }
+  const evaluation = evaluateFormula(ast, data);
+  return { passed: evaluation.value === true, evaluation };
+}
+
+/**
+ * Evaluate the Start element's entry conditions, whose fields are on $Record,
+ * and its entry formula
+ */
+export function evaluateEntryConditions(
+  node: FlowNode,
+  data: SampleData
+): EntryEvaluation {
+  const toRecordConditions = (root: string) =>
+    (node.data.entryConditions ?? []).map((condition) => ({
+      ...condition,
+      field: `${root}.${condition.field}`,
+    }));
+  const filterFormula = node.data.filterFormula;
+  // A formula replaces the conditions, and filterLogic no longer applies
+  const logic =
+    filterFormula && !node.data.entryConditions?.length
+      ? "and"
+      : node.data.filterLogic || "and";
+  const meetsCriteria = (sample: SampleData) => {
+    const group = evaluateGroup(
+      logic,
+      toRecordConditions(RECORD_REFERENCE),
+      sample
+    );
+    const formula = filterFormula
+      ? evaluateEntryFormula(filterFormula, sample)
+      : undefined;
+    return { group, formula, passed: group.passed && formula?.passed !== false };
+  };
+  const current = meetsCriteria(data);
+
+  const requiresRecordChange = Boolean(
+    node.data.doesRequireRecordChangedToMeetCriteria
+  );
+  // With "only when updated to meet the criteria", the prior record must not
+  const priorRecord = resolveSampleReference(PRIOR_RECORD_REFERENCE, data);
+  const priorMetCriteria =
+    requiresRecordChange &&
+    priorRecord.found &&
+    isSampleObject(priorRecord.value)
+      ? meetsCriteria({ ...data, record: priorRecord.value }).passed
+      : undefined;
+
+  return {
+    ...current.group,
+    requiresRecordChange,
+    priorMetCriteria,
+    formula: current.formula,
+    runs: current.passed && !priorMetCriteria,
+  };
+}
+
+/**
+ * Sample data skeleton with every field and variable the node's conditions
+ * read, for the user to fill in
+ */
+export function getSampleDataTemplate(node: FlowNode): SampleData {
+  const template: SampleData = { record: {}, variables: {} };
+  const add = (reference: string) => addSampleReference(template, reference);
+
+  const requiresRecordChange = Boolean(
+    node.data.doesRequireRecordChangedToMeetCriteria
+  );
+  for (const condition of node.data.entryConditions ?? []) {
+    add(`${RECORD_REFERENCE}.${condition.field}`);
+    if (requiresRecordChange || condition.operator === "IsChanged") {
+      add(`${PRIOR_RECORD_REFERENCE}.${condition.field}`);
+    }
+  }
+  if (node.data.filterFormula) {
+    const { ast } = parseFormula(node.data.filterFormula);
+    if (ast) getFormulaSampleTemplate(ast, template);
+  }
+  for (const rule of node.data.rules ?? []) {
+    for (const condition of rule.conditions) {
+      add(condition.field);
+      if (condition.valueType === "elementReference") add(condition.value);
+      const priorReference = getPriorReference(condition.field);
+      if (condition.operator === "IsChanged" && priorReference) {
+        add(priorReference);
+      }
+    }
+  }
+  return template;
+}
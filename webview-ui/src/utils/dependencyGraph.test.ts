@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import type { FlowDependencyGraph, FlowDependencyNode } from "../types";
+import {
+  getCallees,
+  getCallers,
+  getDependencyEdges,
+  layoutDependencyGraph,
+} from "./dependencyGraph";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function flow(name: string, calls: string[]): FlowDependencyNode {
+  return {
+    name,
+    label: name,
+    calls: calls.map((flowName, index) => ({
+      flowName,
+      elementName: `Call_${flowName}_${index}`,
+      elementLabel: `Call ${flowName}`,
+      kind: "subflow",
+    })),
+  };
+}
+
+/**
+ * Order calls Pricing twice; Pricing and Discounts call each other
+ */
+const GRAPH: FlowDependencyGraph = {
+  flows: [
+    flow("Order", ["Pricing", "Pricing", "Shipping"]),
+    flow("Pricing", ["Discounts"]),
+    flow("Discounts", ["Pricing"]),
+    flow("Shipping", []),
+  ],
+  cycles: [["Pricing", "Discounts"]],
+};
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("getDependencyEdges", () => {
+  it("merges calls between the same flows and marks cycle edges", () => {
+    const edges = getDependencyEdges(GRAPH);
+
+    expect(
+      edges.map(({ id, calls, inCycle }) => [id, calls.length, inCycle])
+    ).toEqual([
+      ["Order->Pricing", 2, false],
+      ["Order->Shipping", 1, false],
+      ["Pricing->Discounts", 1, true],
+      ["Discounts->Pricing", 1, true],
+    ]);
+  });
+});
+
+describe("getCallers / getCallees", () => {
+  it("lists the flows on each side of a call", () => {
+    expect(getCallers(GRAPH, "Pricing").map((link) => link.name)).toEqual([
+      "Order",
+      "Discounts",
+    ]);
+
+    const callees = getCallees(GRAPH, "Order");
+    expect(callees.map((link) => [link.name, link.calls.length])).toEqual([
+      ["Pricing", 2],
+      ["Shipping", 1],
+    ]);
+  });
+
+  it("leaves called flows outside the workspace without a node", () => {
+    const graph = { flows: [flow("Order", ["Missing_Flow"])], cycles: [] };
+
+    expect(getCallees(graph, "Order")[0].flow).toBeUndefined();
+  });
+});
+
+describe("layoutDependencyGraph", () => {
+  it("places callees in columns right of their callers", () => {
+    const layout = layoutDependencyGraph(
+      GRAPH.flows,
+      getDependencyEdges(GRAPH)
+    );
+    const levels = Object.fromEntries(
+      layout.nodes.map((node) => [node.flow.name, node.level])
+    );
+
+    expect(levels).toEqual({
+      Order: 0,
+      Pricing: 1,
+      Shipping: 1,
+      Discounts: 2,
+    });
+    const [first, second] = layout.nodes.filter((node) => node.level === 1);
+    expect(second.x).toBe(first.x);
+    expect(second.y).toBeGreaterThan(first.y);
+  });
+
+  it("drops edges to flows that aren't placed", () => {
+    const flows = [flow("Order", ["Missing_Flow"])];
+    const layout = layoutDependencyGraph(
+      flows,
+      getDependencyEdges({ flows, cycles: [] })
+    );
+
+    expect(layout.nodes).toHaveLength(1);
+    expect(layout.edges).toEqual([]);
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Flow Dependency Graph Utilities
+ *
+ * Lookups and layout for the workspace call graph: who calls a flow, what
+ * it calls, and a left-to-right layered layout with callers before callees.
+ */
+
+import type {
+  FlowCall,
+  FlowDependencyGraph,
+  FlowDependencyNode,
+} from "../types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEPENDENCY_NODE_WIDTH = 220;
+export const DEPENDENCY_NODE_HEIGHT = 64;
+const COLUMN_GAP = 120;
+const ROW_GAP = 32;
+const MARGIN = 80;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** All calls from one flow to another, merged into a single edge */
+export interface DependencyEdge {
+  id: string;
+  source: string;
+  target: string;
+  calls: FlowCall[];
+  /** Both ends belong to the same call cycle */
+  inCycle: boolean;
+}
+
+export interface PositionedFlow {
+  flow: FlowDependencyNode;
+  /** Column, counted from flows nothing calls */
+  level: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface DependencyLayout {
+  nodes: PositionedFlow[];
+  edges: DependencyEdge[];
+}
+
+/** A flow linked to the selected one, with the elements making the calls */
+export interface FlowLink {
+  name: string;
+  flow?: FlowDependencyNode;
+  calls: FlowCall[];
+}
+
+// ============================================================================
+// LOOKUPS
+// ============================================================================
+
+/**
+ * Merge each flow's calls into one edge per caller/callee pair
+ */
+export function getDependencyEdges(
+  graph: FlowDependencyGraph
+): DependencyEdge[] {
+  const cycleOf = new Map<string, number>();
+  graph.cycles.forEach((cycle, index) =>
+    cycle.forEach((name) => cycleOf.set(name, index))
+  );
+
+  const edges = new Map<string, DependencyEdge>();
+  for (const flow of graph.flows) {
+    for (const call of flow.calls) {
+      const id = `${flow.name}->${call.flowName}`;
+      const edge = edges.get(id);
+      if (edge) {
+        edge.calls.push(call);
+        continue;
+      }
+      const sourceCycle = cycleOf.get(flow.name);
+      edges.set(id, {
+        id,
+        source: flow.name,
+        target: call.flowName,
+        calls: [call],
+        inCycle:
+          sourceCycle !== undefined &&
+          sourceCycle === cycleOf.get(call.flowName),
+      });
+    }
+  }
+  return [...edges.values()];
+}
+
+/**
+ * Flows that call the given flow ("who calls this flow")
+ */
+export function getCallers(
+  graph: FlowDependencyGraph,
+  name: string
+): FlowLink[] {
+  return graph.flows
+    .map((flow) => ({
+      name: flow.name,
+      flow,
+      calls: flow.calls.filter((call) => call.flowName === name),
+    }))
+    .filter((link) => link.calls.length > 0);
+}
+
+/**
+ * Flows the given flow calls
+ */
+export function getCallees(
+  graph: FlowDependencyGraph,
+  name: string
+): FlowLink[] {
+  const flow = graph.flows.find((f) => f.name === name);
+  const byTarget = new Map<string, FlowCall[]>();
+  for (const call of flow?.calls ?? []) {
+    byTarget.set(call.flowName, [...(byTarget.get(call.flowName) ?? []), call]);
+  }
+  return [...byTarget.entries()].map(([target, calls]) => ({
+    name: target,
+    flow: graph.flows.find((f) => f.name === target),
+    calls,
+  }));
+}
+
+// ============================================================================
+// LAYOUT
+// ============================================================================
+
+/**
+ * Assign columns so every flow sits right of its callers. Calls that close
+ * a cycle are ignored when ranking, so cycles still get a column each.
+ */
+function assignLevels(
+  flows: FlowDependencyNode[],
+  edges: DependencyEdge[]
+): Map<string, number> {
+  const names = new Set(flows.map((flow) => flow.name));
+  const incoming = new Map<string, Set<string>>();
+  const outgoing = new Map<string, string[]>();
+  for (const name of names) {
+    incoming.set(name, new Set());
+    outgoing.set(name, []);
+  }
+  for (const edge of edges) {
+    if (edge.source === edge.target) continue;
+    if (!names.has(edge.source) || !names.has(edge.target)) continue;
+    incoming.get(edge.target)!.add(edge.source);
+    outgoing.get(edge.source)!.push(edge.target);
+  }
+
+  const levels = new Map<string, number>();
+  const remaining = new Set(names);
+  const queue = [...names].filter((name) => incoming.get(name)!.size === 0);
+
+  while (remaining.size > 0) {
+    if (queue.length === 0) {
+      // Only cycles are left: enter one where a placed flow calls into it,
+      // else start from the first remaining flow
+      const candidates = [...remaining].sort();
+      queue.push(
+        candidates.find((name) =>
+          [...incoming.get(name)!].some((caller) => levels.has(caller))
+        ) ?? candidates[0]
+      );
+    }
+    const name = queue.shift()!;
+    if (!remaining.has(name)) continue;
+    remaining.delete(name);
+
+    const placedCallers = [...incoming.get(name)!].filter((caller) =>
+      levels.has(caller)
+    );
+    levels.set(
+      name,
+      placedCallers.length > 0
+        ? Math.max(...placedCallers.map((caller) => levels.get(caller)!)) + 1
+        : 0
+    );
+
+    for (const callee of outgoing.get(name)!) {
+      const callers = incoming.get(callee)!;
+      if ([...callers].every((caller) => !remaining.has(caller))) {
+        queue.push(callee);
+      }
+    }
+  }
+  return levels;
+}
+
+/**
+ * Lay out the given flows in columns, ordering each column by the average
+ * row of its callers to keep edges short
+ */
+export function layoutDependencyGraph(
+  flows: FlowDependencyNode[],
+  edges: DependencyEdge[]
+): DependencyLayout {
+  const levels = assignLevels(flows, edges);
+  const columns: FlowDependencyNode[][] = [];
+  for (const flow of flows) {
+    const level = levels.get(flow.name) ?? 0;
+    (columns[level] ??= []).push(flow);
+  }
+
+  const rowOf = new Map<string, number>();
+  const nodes: PositionedFlow[] = [];
+  columns.forEach((column, level) => {
+    const barycenter = (flow: FlowDependencyNode) => {
+      const rows = edges
+        .filter((edge) => edge.target === flow.name && rowOf.has(edge.source))
+        .map((edge) => rowOf.get(edge.source)!);
+      return rows.length > 0
+        ? rows.reduce((sum, row) => sum + row, 0) / rows.length
+        : Infinity;
+    };
+    const ordered = [...column].sort(
+      (a, b) => barycenter(a) - barycenter(b) || a.name.localeCompare(b.name)
+    );
+    ordered.forEach((flow, row) => {
+      rowOf.set(flow.name, row);
+      nodes.push({
+        flow,
+        level,
+        x: MARGIN + level * (DEPENDENCY_NODE_WIDTH + COLUMN_GAP),
+        y: MARGIN + row * (DEPENDENCY_NODE_HEIGHT + ROW_GAP),
+        width: DEPENDENCY_NODE_WIDTH,
+        height: DEPENDENCY_NODE_HEIGHT,
+      });
+    });
+  });
+
+  const placed = new Set(nodes.map((node) => node.flow.name));
+  return {
+    nodes,
+    edges: edges.filter(
+      (edge) => placed.has(edge.source) && placed.has(edge.target)
+    ),
+  };
+}
+
+/**
+ * SVG path for a call edge. Forward calls curve left to right; calls back
+ * to an earlier column loop underneath, and self-calls loop above the node.
+ */
+export function getDependencyEdgePath(
+  source: PositionedFlow,
+  target: PositionedFlow
+): string {
+  if (source === target) {
+    const x = source.x + source.width - 40;
+    const y = source.y;
+    return `M ${x} ${y} C ${x} ${y - 50}, ${x + 60} ${y - 50}, ${x + 40} ${y}`;
+  }
+
+  if (target.level > source.level) {
+    const sx = source.x + source.width;
+    const sy = source.y + source.height / 2;
+    const tx = target.x;
+    const ty = target.y + target.height / 2;
+    const bend = (tx - sx) / 2;
+    return `M ${sx} ${sy} C ${sx + bend} ${sy}, ${tx - bend} ${ty}, ${tx} ${ty}`;
+  }
+
+  const sx = source.x + source.width / 2;
+  const sy = source.y + source.height;
+  const tx = target.x + target.width / 2;
+  const ty = target.y + target.height;
+  const dip = Math.max(sy, ty) + 60;
+  return `M ${sx} ${sy} C ${sx} ${dip}, ${tx} ${dip}, ${tx} ${ty}`;
+}
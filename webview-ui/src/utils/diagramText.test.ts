@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import { createFlowModelStore } from "../model";
+import { parseFlowXML } from "../parser";
+import type { FlowNode } from "../types";
+import { exportToMermaid, exportToPlantUml } from "./diagramText";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const FLOW_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<Flow xmlns="http://soap.sforce.com/2006/04/metadata">
+  <apiVersion>60.0</apiVersion>
+  <label>Diagram</label>
+  <processType>AutoLaunchedFlow</processType>
+  <start>
+    <locationX>50</locationX>
+    <locationY>0</locationY>
+    <connector><targetReference>Check_Amount</targetReference></connector>
+  </start>
+  <decisions>
+    <name>Check_Amount</name>
+    <label>Check "Amount"</label>
+    <locationX>176</locationX>
+    <locationY>150</locationY>
+    <defaultConnectorLabel>Small</defaultConnectorLabel>
+    <rules>
+      <name>Is_Big</name>
+      <conditionLogic>and</conditionLogic>
+      <conditions>
+        <leftValueReference>varAmount</leftValueReference>
+        <operator>GreaterThan</operator>
+        <rightValue><numberValue>100</numberValue></rightValue>
+      </conditions>
+      <connector><targetReference>Create_Task</targetReference></connector>
+      <label>Is Big</label>
+    </rules>
+  </decisions>
+  <recordCreates>
+    <name>Create_Task</name>
+    <label>Create Task</label>
+    <locationX>176</locationX>
+    <locationY>300</locationY>
+    <faultConnector><targetReference>Log_Error</targetReference></faultConnector>
+    <inputReference>varTask</inputReference>
+  </recordCreates>
+  <assignments>
+    <name>Log_Error</name>
+    <label>Log Error</label>
+    <locationX>400</locationX>
+    <locationY>300</locationY>
+    <assignmentItems>
+      <assignToReference>varError</assignToReference>
+      <operator>Assign</operator>
+      <value><elementReference>$Flow.FaultMessage</elementReference></value>
+    </assignmentItems>
+  </assignments>
+</Flow>`;
+
+function createStore() {
+  const parsed = parseFlowXML(FLOW_XML);
+  return createFlowModelStore(parsed.nodes, parsed.edges);
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("exportToMermaid", () => {
+  it("writes elements with their shapes and escaped labels", () => {
+    const text = exportToMermaid(createStore(), { title: "Diagram" });
+
+    expect(text.startsWith('---\ntitle: "Diagram"\n---\nflowchart TD\n')).toBe(
+      true
+    );
+    expect(text).toContain('    START_NODE(["Start"])');
+    expect(text).toContain('    Check_Amount{"Check #quot;Amount#quot;"}');
+    expect(text).toContain('    Create_Task[("Create Task")]');
+    expect(text).toContain('    Log_Error["Log Error"]');
+  });
+
+  it("labels outcomes and draws fault connectors dashed in red", () => {
+    const lines = exportToMermaid(createStore()).split("\n");
+
+    expect(lines).toContain('    Check_Amount -->|"Is Big"| Create_Task');
+    expect(lines).toContain('    Create_Task -.->|"Fault"| Log_Error');
+
+    const links = lines.filter((line) => / -(->|\.->)/.test(line));
+    const faultIndex = links.indexOf('    Create_Task -.->|"Fault"| Log_Error');
+    const linkStyle = lines.find((line) => line.includes("linkStyle"));
+    expect(linkStyle?.trim().split(" ")[1].split(",")).toContain(
+      String(faultIndex)
+    );
+  });
+
+  it("renames ids Mermaid reserves", () => {
+    const node = (id: string, type: FlowNode["type"]): FlowNode => ({
+      id,
+      type,
+      label: id,
+      x: 0,
+      y: 0,
+      width: 0,
+      height: 0,
+      data: {},
+    });
+    const store = createFlowModelStore(
+      [node("START_NODE", "START"), node("end", "ASSIGNMENT")],
+      [{ id: "e1", source: "START_NODE", target: "end", type: "normal" }]
+    );
+
+    expect(exportToMermaid(store)).toContain("    START_NODE --> end_\n");
+  });
+});
+
+describe("exportToPlantUml", () => {
+  it("declares each element once and maps End elements to the end point", () => {
+    const text = exportToPlantUml(createStore(), { title: "Diagram" });
+
+    expect(text.split("\n")).toEqual([
+      "@startuml",
+      "title Diagram",
+      '(*) --> "Start" as START_NODE',
+      `START_NODE --> "Check 'Amount'" as Check_Amount`,
+      'Check_Amount -->[Is Big] "Create Task" as Create_Task',
+      "Check_Amount -->[Small] (*)",
+      'Create_Task -->[Fault] "Log Error" as Log_Error',
+      "Create_Task --> (*)",
+      "Log_Error --> (*)",
+      "@enduml",
+      "",
+    ]);
+  });
+});
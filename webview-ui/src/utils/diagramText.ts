@@ -0,0 +1,217 @@
+/**
+ * Diagram Text Export
+ *
+ * Walks the flow model and writes it out as diagram-as-code: a Mermaid
+ * `flowchart` or a PlantUML activity diagram. Both keep decision outcome
+ * labels, loop "For Each" / "After Last" paths, fault connectors and GoTo
+ * connectors, so the text can be committed next to the flow metadata and
+ * rendered by Markdown viewers and wikis.
+ */
+
+import type { FlowEdge, FlowNode, NodeType } from "../types";
+import type { FlowModelStore } from "../model";
+import { CONNECTOR_COLORS, NODE_CONFIG } from "../constants";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DiagramTextOptions {
+  /** Diagram title, usually the flow label */
+  title?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Words Mermaid treats as syntax when used as a node id */
+const MERMAID_RESERVED_IDS = new Set([
+  "end",
+  "graph",
+  "flowchart",
+  "subgraph",
+  "direction",
+  "style",
+  "class",
+  "classdef",
+  "click",
+  "linkstyle",
+  "default",
+]);
+
+/** Mermaid shape delimiters per element type; anything else is a rectangle */
+const MERMAID_SHAPES: Partial<Record<NodeType, [string, string]>> = {
+  START: ["([", "])"],
+  END: ["((", "))"],
+  DECISION: ["{", "}"],
+  WAIT: ["{", "}"],
+  LOOP: ["{{", "}}"],
+  SCREEN: ["[/", "/]"],
+  RECORD_CREATE: ["[(", ")]"],
+  RECORD_UPDATE: ["[(", ")]"],
+  RECORD_LOOKUP: ["[(", ")]"],
+  RECORD_DELETE: ["[(", ")]"],
+  SUBFLOW: ["[[", "]]"],
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function isFaultEdge(edge: FlowEdge): boolean {
+  return edge.type === "fault" || edge.type === "fault-end";
+}
+
+/**
+ * Connector label as shown on the canvas, with fault and GoTo connectors
+ * named explicitly so they survive renderers that ignore link styles.
+ * "fault-end" only continues a fault path to its End, so it stays unlabelled.
+ */
+function getEdgeLabel(edge: FlowEdge): string | undefined {
+  const label = edge.label || (edge.type === "fault" ? "Fault" : undefined);
+  if (edge.isGoTo) {
+    return label ? `${label} (GoTo)` : "GoTo";
+  }
+  return label;
+}
+
+// ============================================================================
+// MERMAID
+// ============================================================================
+
+function toMermaidId(nodeId: string): string {
+  const id = nodeId.replace(/[^A-Za-z0-9_]/g, "_");
+  return MERMAID_RESERVED_IDS.has(id.toLowerCase()) ? `${id}_` : id;
+}
+
+function toMermaidText(text: string): string {
+  return `"${text.replace(/"/g, "#quot;").replace(/\r?\n/g, "<br/>")}"`;
+}
+
+/**
+ * Export the flow as a Mermaid flowchart
+ */
+export function exportToMermaid(
+  store: FlowModelStore,
+  options: DiagramTextOptions = {}
+): string {
+  const nodes = store.getTraversalOrder();
+  const lines: string[] = [];
+
+  if (options.title) {
+    lines.push("---", `title: ${JSON.stringify(options.title)}`, "---");
+  }
+  lines.push("flowchart TD");
+
+  // Elements
+  const idsByType = new Map<NodeType, string[]>();
+  nodes.forEach((node) => {
+    const id = toMermaidId(node.id);
+    const [open, close] = MERMAID_SHAPES[node.type] || ["[", "]"];
+    lines.push(`    ${id}${open}${toMermaidText(node.label)}${close}`);
+
+    const ids = idsByType.get(node.type) || [];
+    ids.push(id);
+    idsByType.set(node.type, ids);
+  });
+
+  // Connectors, grouped by source in walk order
+  const faultLinks: number[] = [];
+  let linkIndex = 0;
+  nodes.forEach((node) => {
+    store.getOutgoingEdges(node.id).forEach((edge) => {
+      if (!store.hasNode(edge.target)) return;
+      const arrow = isFaultEdge(edge) || edge.isGoTo ? "-.->" : "-->";
+      const label = getEdgeLabel(edge);
+      const labelText = label ? `|${toMermaidText(label)}|` : "";
+      lines.push(
+        `    ${toMermaidId(edge.source)} ${arrow}${labelText} ${toMermaidId(edge.target)}`
+      );
+      if (isFaultEdge(edge)) faultLinks.push(linkIndex);
+      linkIndex++;
+    });
+  });
+
+  // Styling: element colours as on the canvas, fault connectors in red
+  idsByType.forEach((ids, type) => {
+    const config = NODE_CONFIG[type] || NODE_CONFIG.ACTION;
+    const className = `type_${type.toLowerCase()}`;
+    lines.push(
+      `    classDef ${className} stroke:${config.color},stroke-width:2px`,
+      `    class ${ids.join(",")} ${className}`
+    );
+  });
+  if (faultLinks.length > 0) {
+    lines.push(
+      `    linkStyle ${faultLinks.join(",")} stroke:${CONNECTOR_COLORS.fault}`
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+// ============================================================================
+// PLANTUML
+// ============================================================================
+
+function toPlantUmlId(nodeId: string): string {
+  return nodeId.replace(/[^A-Za-z0-9_]/g, "_");
+}
+
+function toPlantUmlText(text: string): string {
+  return `"${text.replace(/"/g, "'").replace(/\r?\n/g, "\\n")}"`;
+}
+
+/**
+ * Export the flow as a PlantUML activity diagram.
+ *
+ * Uses the arrow-based activity syntax, which can express any connector
+ * (GoTo jumps included) rather than only nested if/while blocks. Each
+ * element is declared with an alias the first time an arrow reaches it;
+ * End elements map to the diagram's end point.
+ */
+export function exportToPlantUml(
+  store: FlowModelStore,
+  options: DiagramTextOptions = {}
+): string {
+  const nodes = store.getTraversalOrder();
+  const declared = new Set<string>();
+  const lines: string[] = ["@startuml"];
+
+  if (options.title) {
+    lines.push(`title ${options.title.replace(/\r?\n/g, " ")}`);
+  }
+
+  const reference = (node: FlowNode): string => {
+    if (node.type === "END") return "(*)";
+    const id = toPlantUmlId(node.id);
+    if (declared.has(node.id)) return id;
+    declared.add(node.id);
+    return `${toPlantUmlText(node.label)} as ${id}`;
+  };
+
+  const start = store.findStartElement();
+  if (start) {
+    lines.push(`(*) --> ${reference(start)}`);
+  }
+
+  nodes.forEach((node) => {
+    if (node.type === "END") return;
+    if (!declared.has(node.id)) {
+      // Not reachable from Start, so no arrow has introduced it yet
+      lines.push(`' Not connected to Start: ${node.label} (${node.id})`);
+      return;
+    }
+    store.getOutgoingEdges(node.id).forEach((edge) => {
+      const target = store.resolveNode(edge.target);
+      if (!target) return;
+      const label = getEdgeLabel(edge);
+      const arrow = label ? `-->[${label.replace(/]/g, ")")}]` : "-->";
+      lines.push(`${toPlantUmlId(node.id)} ${arrow} ${reference(target)}`);
+    });
+  });
+
+  lines.push("@enduml");
+  return `${lines.join("\n")}\n`;
+}
@@ -11,30 +11,14 @@
  * - Maintainability (complexity, descriptions, inactive flows)
  */
 
+import type { FlowNode, FlowViolation, NodeConfig } from "../types";
 import { getVSCodeApi } from "../utils/vscodeApi";
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export type ViolationSeverity = "error" | "warning" | "note";
-
-export interface FlowViolation {
-  /** Rule name (e.g., "DMLStatementInLoop", "HardcodedId") */
-  rule: string;
-  /** Human-readable rule label */
-  ruleLabel: string;
-  /** Severity level */
-  severity: ViolationSeverity;
-  /** Violation message/description */
-  message: string;
-  /** Element name where violation occurred (if applicable) */
-  elementName?: string;
-  /** Element type (e.g., "recordUpdates", "decisions") */
-  elementType?: string;
-  /** Link to rule documentation */
-  docLink?: string;
-}
+export type { FlowViolation, ViolationSeverity } from "../types";
 
 export interface FlowQualityMetrics {
   /** Cyclomatic complexity from flow-scanner */
@@ -51,6 +35,17 @@ export interface FlowQualityMetrics {
   };
   /** Total violation count */
   totalViolations: number;
+  /** Violations matched by a configured exception; not counted above */
+  suppressedViolations: FlowViolation[];
+}
+
+/**
+ * Scanner violations on one canvas element, with the NodeConfig flags its
+ * card is drawn from
+ */
+export interface NodeViolations
+  extends Pick<NodeConfig, "hasError" | "hasWarning"> {
+  violations: FlowViolation[];
 }
 
 export interface FlowScannerOptions {
@@ -93,6 +88,7 @@ export async function analyzeFlow(
           violationsByRule: {},
           violationsBySeverity: { error: 0, warning: 0, note: 0 },
           totalViolations: 0,
+          suppressedViolations: [],
         });
         return;
       }
@@ -137,6 +133,7 @@ export async function analyzeFlow(
               violationsByRule: groupViolationsByRule(result.violations),
               violationsBySeverity: result.violationsBySeverity,
               totalViolations: result.totalViolations,
+              suppressedViolations: result.suppressedViolations ?? [],
             });
           } else {
             console.error(
@@ -149,6 +146,7 @@ export async function analyzeFlow(
               violationsByRule: {},
               violationsBySeverity: { error: 0, warning: 0, note: 0 },
               totalViolations: 0,
+              suppressedViolations: [],
             });
           }
         }
@@ -179,6 +177,7 @@ export async function analyzeFlow(
           violationsByRule: {},
           violationsBySeverity: { error: 0, warning: 0, note: 0 },
           totalViolations: 0,
+          suppressedViolations: [],
         });
       }, 30000);
     });
@@ -190,6 +189,7 @@ export async function analyzeFlow(
       violationsByRule: {},
       violationsBySeverity: { error: 0, warning: 0, note: 0 },
       totalViolations: 0,
+      suppressedViolations: [],
     };
   }
 }
@@ -239,3 +239,56 @@ export function getQualitySummary(metrics: FlowQualityMetrics): string {
 
   return parts.join(", ");
 }
+
+// ============================================================================
+// CANVAS MAPPING
+// ============================================================================
+
+/**
+ * Lookup of canvas nodes by API name. Salesforce API names are unique
+ * regardless of case, so the scanner's spelling may differ from the node's.
+ */
+function getNodesByName(nodes: FlowNode[]): Map<string, FlowNode> {
+  return new Map(nodes.map((node) => [node.id.toLowerCase(), node]));
+}
+
+/**
+ * The canvas node a violation is about. Violations about the flow itself
+ * or its resources have none.
+ */
+export function findViolationNode(
+  nodes: FlowNode[],
+  violation: FlowViolation
+): FlowNode | undefined {
+  return violation.elementName
+    ? getNodesByName(nodes).get(violation.elementName.toLowerCase())
+    : undefined;
+}
+
+/**
+ * Map each violation onto the canvas node for its element
+ */
+export function getViolationsByNode(
+  nodes: FlowNode[],
+  violations: FlowViolation[]
+): Map<string, NodeViolations> {
+  const nodesByName = getNodesByName(nodes);
+  const byNode = new Map<string, NodeViolations>();
+
+  violations.forEach((violation) => {
+    const node = violation.elementName
+      ? nodesByName.get(violation.elementName.toLowerCase())
+      : undefined;
+    if (!node) return;
+
+    let entry = byNode.get(node.id);
+    if (!entry) {
+      entry = { violations: [], hasError: false, hasWarning: false };
+      byNode.set(node.id, entry);
+    }
+    entry.violations.push(violation);
+    entry.hasError = entry.hasError || violation.severity === "error";
+    entry.hasWarning = entry.hasWarning || violation.severity === "warning";
+  });
+  return byNode;
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { parseFlowXML } from "../parser";
+import { countDiffChanges, diffFlows } from "./flowDiff";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+const LABELS = { base: "HEAD", target: "Working Copy" };
+
+function flowXml(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<Flow xmlns="http://soap.sforce.com/2006/04/metadata">
+  <apiVersion>60.0</apiVersion>
+  <label>Diff</label>
+  <processType>AutoLaunchedFlow</processType>
+  <start>
+    <locationX>50</locationX>
+    <locationY>0</locationY>
+    <connector><targetReference>Set_Count</targetReference></connector>
+  </start>
+  ${body}
+</Flow>`;
+}
+
+function assignment(
+  name: string,
+  value: number,
+  next?: string,
+  locationX = 176
+): string {
+  return `<assignments>
+    <name>${name}</name>
+    <label>${name}</label>
+    <locationX>${locationX}</locationX>
+    <locationY>150</locationY>
+    <assignmentItems>
+      <assignToReference>varCount</assignToReference>
+      <operator>Assign</operator>
+      <value><numberValue>${value}</numberValue></value>
+    </assignmentItems>
+    ${next ? `<connector><targetReference>${next}</targetReference></connector>` : ""}
+  </assignments>`;
+}
+
+function variable(name: string, dataType: string): string {
+  return `<variables>
+    <name>${name}</name>
+    <dataType>${dataType}</dataType>
+    <isCollection>false</isCollection>
+    <isInput>false</isInput>
+    <isOutput>false</isOutput>
+  </variables>`;
+}
+
+function diff(baseBody: string, targetBody: string) {
+  return diffFlows(
+    parseFlowXML(flowXml(baseBody)),
+    parseFlowXML(flowXml(targetBody)),
+    LABELS
+  );
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("diffFlows", () => {
+  it("ignores canvas positions", () => {
+    const { diff: result } = diff(
+      assignment("Set_Count", 1, undefined, 176),
+      assignment("Set_Count", 1, undefined, 400)
+    );
+
+    expect(countDiffChanges(result.nodes)).toEqual({
+      added: 0,
+      removed: 0,
+      modified: 0,
+    });
+    expect(countDiffChanges(result.edges).added).toBe(0);
+  });
+
+  it("lists the changed properties of a modified element", () => {
+    const { diff: result } = diff(
+      assignment("Set_Count", 1),
+      assignment("Set_Count", 2)
+    );
+
+    const setCount = result.nodes.find((node) => node.id === "Set_Count");
+    expect(setCount?.status).toBe("modified");
+    expect(setCount?.changedProperties).toEqual([
+      "assignmentItems.value.numberValue",
+    ]);
+  });
+
+  it("keeps removed elements and connectors in the merged diagram", () => {
+    const { flow, diff: result } = diff(
+      assignment("Set_Count", 1, "Reset_Count") + assignment("Reset_Count", 0),
+      assignment("Set_Count", 1, "Double_Count") +
+        assignment("Double_Count", 2)
+    );
+
+    const statuses = Object.fromEntries(
+      result.nodes.map((node) => [node.id, node.status])
+    );
+    expect(statuses.Double_Count).toBe("added");
+    expect(statuses.Reset_Count).toBe("removed");
+    expect(flow.nodes.map((node) => node.id)).toContain("Reset_Count");
+
+    const removedEdge = flow.edges.find(
+      (edge) => edge.target === "Reset_Count"
+    );
+    expect(removedEdge?.diffStatus).toBe("removed");
+    expect(removedEdge?.id).toMatch(/-removed$/);
+    expect(
+      flow.edges.find((edge) => edge.target === "Double_Count")?.diffStatus
+    ).toBe("added");
+  });
+
+  it("compares resources by name", () => {
+    const { diff: result } = diff(
+      assignment("Set_Count", 1) +
+        variable("varCount", "Number") +
+        variable("varOld", "String"),
+      assignment("Set_Count", 1) +
+        variable("varCount", "Currency") +
+        variable("varNew", "String")
+    );
+
+    expect(result.resources).toEqual([
+      { name: "varCount", kind: "variable", status: "modified" },
+      { name: "varNew", kind: "variable", status: "added" },
+      { name: "varOld", kind: "variable", status: "removed" },
+    ]);
+  });
+});
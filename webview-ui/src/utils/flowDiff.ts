@@ -0,0 +1,332 @@
+/**
+ * Flow Diff
+ *
+ * Compares two parsed versions of a flow and merges them into a single
+ * diagram: every element and connector of the newer version, plus the ones
+ * that were removed from the older version. Elements are matched by their
+ * API name; changed properties are found by comparing each element's XML.
+ */
+
+import type {
+  DiffStatus,
+  EdgeDiff,
+  FlowDiff,
+  FlowEdge,
+  FlowNode,
+  FlowResource,
+  NodeDiff,
+  ParsedFlow,
+  ResourceDiff,
+} from "../types";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Canvas positions move whenever Flow Builder re-saves; they are not changes */
+const IGNORED_PROPERTIES = new Set(["locationX", "locationY"]);
+
+/** Suffix for ids of removed connectors, so they never clash with current ones */
+const REMOVED_EDGE_SUFFIX = "-removed";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FlowDiffResult {
+  /** Merged diagram containing current and removed elements */
+  flow: ParsedFlow;
+  diff: FlowDiff;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Give generated END nodes an id derived from their source element.
+ * The parser numbers them in document order, so the same End would
+ * otherwise get a different id in each version.
+ */
+function normalizeEndNodes(flow: ParsedFlow): ParsedFlow {
+  const renamed = new Map<string, string>();
+  flow.edges.forEach((edge) => {
+    if (edge.target.startsWith("END_NODE_")) {
+      renamed.set(edge.target, `END_NODE_${edge.source}`);
+    }
+  });
+  if (renamed.size === 0) return flow;
+
+  return {
+    ...flow,
+    nodes: flow.nodes.map((node) =>
+      renamed.has(node.id) ? { ...node, id: renamed.get(node.id)! } : node
+    ),
+    edges: flow.edges.map((edge) => {
+      const target = renamed.get(edge.target);
+      if (!target) return edge;
+      return {
+        ...edge,
+        id: edge.id.replace(edge.target, target),
+        target,
+      };
+    }),
+  };
+}
+
+/**
+ * Flatten an element's XML into "path → value" pairs.
+ * Repeated tags are indexed, e.g. "rules[1].conditions[0].operator".
+ */
+function flattenXml(xml: string | undefined): Map<string, string> {
+  const values = new Map<string, string>();
+  if (!xml) return values;
+
+  const doc = new DOMParser().parseFromString(xml, "text/xml");
+  const root = doc.documentElement;
+  if (!root || doc.getElementsByTagName("parsererror").length > 0) {
+    values.set("", xml);
+    return values;
+  }
+
+  const walk = (el: Element, prefix: string) => {
+    const children = Array.from(el.children);
+    const tagCounts = new Map<string, number>();
+    children.forEach((child) =>
+      tagCounts.set(child.localName, (tagCounts.get(child.localName) || 0) + 1)
+    );
+
+    const seen = new Map<string, number>();
+    children.forEach((child) => {
+      const tag = child.localName;
+      if (!prefix && IGNORED_PROPERTIES.has(tag)) return;
+
+      const index = seen.get(tag) || 0;
+      seen.set(tag, index + 1);
+      const segment = (tagCounts.get(tag) || 0) > 1 ? `${tag}[${index}]` : tag;
+      const path = prefix ? `${prefix}.${segment}` : segment;
+
+      if (child.children.length > 0) {
+        walk(child, path);
+      } else {
+        values.set(path, child.textContent?.trim() || "");
+      }
+    });
+  };
+
+  walk(root, "");
+  return values;
+}
+
+/**
+ * List the property paths whose values differ between two element versions
+ */
+function getChangedProperties(
+  baseXml: string | undefined,
+  targetXml: string | undefined
+): string[] {
+  const base = flattenXml(baseXml);
+  const target = flattenXml(targetXml);
+  const changed = new Set<string>();
+
+  base.forEach((value, path) => {
+    if (target.get(path) !== value) changed.add(path);
+  });
+  target.forEach((_value, path) => {
+    if (!base.has(path)) changed.add(path);
+  });
+
+  return Array.from(changed).sort();
+}
+
+/**
+ * Key connectors by what they connect rather than by id, since ids embed
+ * outcome indexes that shift when outcomes are reordered
+ */
+function getEdgeKeys(edges: FlowEdge[]): Map<string, FlowEdge> {
+  const keyed = new Map<string, FlowEdge>();
+  const occurrences = new Map<string, number>();
+  edges.forEach((edge) => {
+    const baseKey = `${edge.source}->${edge.target}:${edge.type}`;
+    const count = occurrences.get(baseKey) || 0;
+    occurrences.set(baseKey, count + 1);
+    keyed.set(count === 0 ? baseKey : `${baseKey}#${count}`, edge);
+  });
+  return keyed;
+}
+
+function isSameResource(a: FlowResource, b: FlowResource): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Compare two versions of a flow
+ *
+ * @param base - Older version
+ * @param target - Newer version
+ * @param labels - Display names for both versions, e.g. "HEAD" and "Working Copy"
+ */
+export function diffFlows(
+  base: ParsedFlow,
+  target: ParsedFlow,
+  labels: { base: string; target: string }
+): FlowDiffResult {
+  const baseFlow = normalizeEndNodes(base);
+  const targetFlow = normalizeEndNodes(target);
+
+  // Elements
+  const baseNodes = new Map(baseFlow.nodes.map((n) => [n.id, n]));
+  const targetNodeIds = new Set(targetFlow.nodes.map((n) => n.id));
+  const nodeDiffs: NodeDiff[] = [];
+  const mergedNodes: FlowNode[] = [];
+
+  targetFlow.nodes.forEach((node) => {
+    const previous = baseNodes.get(node.id);
+    let status: DiffStatus = "added";
+    let changedProperties: string[] = [];
+    if (previous) {
+      changedProperties =
+        node.type === "END"
+          ? []
+          : getChangedProperties(previous.data.xmlElement, node.data.xmlElement);
+      status = changedProperties.length > 0 ? "modified" : "unchanged";
+    }
+    mergedNodes.push(node);
+    nodeDiffs.push({
+      id: node.id,
+      label: node.label,
+      type: node.type,
+      status,
+      changedProperties,
+    });
+  });
+
+  baseFlow.nodes.forEach((node) => {
+    // A generated End only marks where a path stopped; once that path
+    // continues it would just sit on top of the new element
+    if (targetNodeIds.has(node.id) || node.type === "END") return;
+    mergedNodes.push(node);
+    nodeDiffs.push({
+      id: node.id,
+      label: node.label,
+      type: node.type,
+      status: "removed",
+      changedProperties: [],
+    });
+  });
+
+  // Connectors
+  const baseEdges = getEdgeKeys(baseFlow.edges);
+  const targetEdges = getEdgeKeys(targetFlow.edges);
+  const edgeDiffs: EdgeDiff[] = [];
+  const mergedEdges: FlowEdge[] = [];
+
+  targetEdges.forEach((edge, key) => {
+    const previous = baseEdges.get(key);
+    let status: DiffStatus = "added";
+    if (previous) {
+      status = (previous.label || "") === (edge.label || "") ? "unchanged" : "modified";
+    }
+    mergedEdges.push(status === "unchanged" ? edge : { ...edge, diffStatus: status });
+    edgeDiffs.push({
+      id: edge.id,
+      source: edge.source,
+      target: edge.target,
+      label: edge.label,
+      status,
+    });
+  });
+
+  const mergedNodeIds = new Set(mergedNodes.map((n) => n.id));
+  baseEdges.forEach((edge, key) => {
+    if (targetEdges.has(key) || !mergedNodeIds.has(edge.target)) return;
+    const removed: FlowEdge = {
+      ...edge,
+      id: `${edge.id}${REMOVED_EDGE_SUFFIX}`,
+      diffStatus: "removed",
+    };
+    mergedEdges.push(removed);
+    edgeDiffs.push({
+      id: removed.id,
+      source: removed.source,
+      target: removed.target,
+      label: removed.label,
+      status: "removed",
+    });
+  });
+
+  // An End added where an element was removed would sit on top of it; the
+  // removed element already shows that the path now stops there
+  const removedSources = new Set(
+    edgeDiffs.filter((e) => e.status === "removed").map((e) => e.source)
+  );
+  const hiddenEnds = new Set(
+    edgeDiffs
+      .filter(
+        (e) =>
+          e.status === "added" &&
+          removedSources.has(e.source) &&
+          baseNodes.get(e.target) === undefined &&
+          mergedNodes.some((n) => n.id === e.target && n.type === "END")
+      )
+      .map((e) => e.target)
+  );
+  const visibleNodes = mergedNodes.filter((n) => !hiddenEnds.has(n.id));
+  const visibleEdges = mergedEdges.filter((e) => !hiddenEnds.has(e.target));
+
+  // Resources
+  const baseResources = new Map(baseFlow.resources.map((r) => [r.name, r]));
+  const targetResourceNames = new Set(targetFlow.resources.map((r) => r.name));
+  const resourceDiffs: ResourceDiff[] = [];
+
+  targetFlow.resources.forEach((resource) => {
+    const previous = baseResources.get(resource.name);
+    let status: DiffStatus = "added";
+    if (previous) {
+      status = isSameResource(previous, resource) ? "unchanged" : "modified";
+    }
+    resourceDiffs.push({ name: resource.name, kind: resource.kind, status });
+  });
+  baseFlow.resources.forEach((resource) => {
+    if (targetResourceNames.has(resource.name)) return;
+    resourceDiffs.push({
+      name: resource.name,
+      kind: resource.kind,
+      status: "removed",
+    });
+  });
+
+  return {
+    flow: {
+      nodes: visibleNodes,
+      edges: visibleEdges,
+      metadata: targetFlow.metadata,
+      resources: targetFlow.resources,
+      xmlContent: targetFlow.xmlContent,
+    },
+    diff: {
+      baseLabel: labels.base,
+      targetLabel: labels.target,
+      nodes: nodeDiffs.filter((n) => !hiddenEnds.has(n.id)),
+      edges: edgeDiffs.filter((e) => !hiddenEnds.has(e.target)),
+      resources: resourceDiffs,
+    },
+  };
+}
+
+/**
+ * Count changed items by status, ignoring unchanged ones
+ */
+export function countDiffChanges(
+  items: Array<{ status: DiffStatus }>
+): Record<Exclude<DiffStatus, "unchanged">, number> {
+  const counts = { added: 0, removed: 0, modified: 0 };
+  items.forEach((item) => {
+    if (item.status !== "unchanged") counts[item.status]++;
+  });
+  return counts;
+}
@@ -0,0 +1,570 @@
+/**
+ * Flow Documentation
+ *
+ * Builds a self-contained technical document for a flow: its metadata,
+ * trigger and entry criteria, complexity rating, scanner findings, a
+ * diagram image and one section per element with the same fields the
+ * Details tab shows. The document is rendered as Markdown or HTML.
+ */
+
+import type { FlowEdge, FlowNode, ParsedFlow } from "../types";
+import { NODE_CONFIG } from "../constants";
+import { createFlowModelStore } from "../model";
+import { getComplexityRange } from "./complexity";
+import type { ComplexityMetrics } from "./complexity";
+import type { FlowViolation } from "./flow-scanner";
+import {
+  formatOperator,
+  formatRecordTriggerType,
+  formatTriggerType,
+  getProcessTypeLabel,
+} from "./formatters";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type DocumentationFormat = "markdown" | "html";
+
+export interface FlowDocumentationInput {
+  flow: ParsedFlow;
+  /** Flow file name, e.g. "My_Flow.flow-meta.xml" */
+  fileName: string;
+  complexity: ComplexityMetrics;
+  violations: FlowViolation[];
+  /** Diagram image as a data URL, embedded so the document stands alone */
+  diagram?: string | null;
+}
+
+/**
+ * Format-neutral building blocks, rendered by renderMarkdown / renderHtml
+ */
+type DocBlock =
+  | { kind: "heading"; level: 1 | 2 | 3 | 4; text: string }
+  | { kind: "paragraph"; text: string }
+  | { kind: "fields"; rows: Array<[string, string | undefined]> }
+  | { kind: "table"; headers: string[]; rows: string[][] }
+  | { kind: "code"; text: string }
+  | { kind: "list"; items: string[] }
+  | { kind: "image"; alt: string; src: string };
+
+type Condition = { field: string; operator: string; value: string };
+
+// ============================================================================
+// SECTIONS
+// ============================================================================
+
+function conditionTable(conditions: Condition[]): DocBlock {
+  return {
+    kind: "table",
+    headers: ["#", "Field", "Operator", "Value"],
+    rows: conditions.map((cond, idx) => [
+      String(idx + 1),
+      cond.field,
+      formatOperator(cond.operator),
+      cond.value || "(empty)",
+    ]),
+  };
+}
+
+function logicParagraph(logic: string | undefined): DocBlock[] {
+  return logic && logic !== "and"
+    ? [{ kind: "paragraph", text: `Logic: ${logic}` }]
+    : [];
+}
+
+function overviewSection(flow: ParsedFlow, fileName: string): DocBlock[] {
+  const { metadata } = flow;
+  return [
+    { kind: "heading", level: 2, text: "Overview" },
+    {
+      kind: "fields",
+      rows: [
+        ["API Name", fileName.replace(".flow-meta.xml", "")],
+        ["Label", metadata.label],
+        ["Type", getProcessTypeLabel(metadata.processType)],
+        ["Status", metadata.status],
+        ["API Version", metadata.apiVersion],
+        ["Run Mode", metadata.runInMode],
+        ["Trigger Order", metadata.triggerOrder],
+        ["Environments", metadata.environments],
+        ["Interview Label", metadata.interviewLabel],
+      ],
+    },
+  ];
+}
+
+function triggerSection(start: FlowNode | undefined): DocBlock[] {
+  if (!start) return [];
+  const data = start.data;
+  const blocks: DocBlock[] = [];
+
+  if (data.triggerType || data.recordTriggerType || data.object) {
+    blocks.push({
+      kind: "fields",
+      rows: [
+        ["Object", data.object],
+        [
+          "Trigger",
+          data.triggerType ? formatTriggerType(data.triggerType) : undefined,
+        ],
+        [
+          "When",
+          data.recordTriggerType
+            ? formatRecordTriggerType(data.recordTriggerType)
+            : undefined,
+        ],
+        [
+          "Run Condition",
+          data.doesRequireRecordChangedToMeetCriteria
+            ? "Only when record changes to meet criteria"
+            : undefined,
+        ],
+        ["Schedule", data.schedule],
+        ["Frequency", data.frequency],
+      ],
+    });
+  }
+
+  if (data.entryConditions && data.entryConditions.length > 0) {
+    blocks.push(
+      { kind: "heading", level: 3, text: "Entry Conditions" },
+      ...logicParagraph(data.filterLogic),
+      conditionTable(data.entryConditions)
+    );
+  }
+
+  if (data.filterFormula) {
+    blocks.push(
+      { kind: "heading", level: 3, text: "Entry Formula" },
+      { kind: "code", text: data.filterFormula }
+    );
+  }
+
+  if (data.scheduledPaths && data.scheduledPaths.length > 0) {
+    blocks.push(
+      { kind: "heading", level: 3, text: "Scheduled Paths" },
+      {
+        kind: "table",
+        headers: ["Path", "Runs"],
+        rows: data.scheduledPaths.map((path) => [
+          path.label,
+          [
+            path.pathType === "AsyncAfterCommit"
+              ? "Runs asynchronously after commit"
+              : path.pathType,
+            path.timeOffset !== undefined && path.timeOffsetUnit
+              ? `(${path.timeOffset} ${path.timeOffsetUnit})`
+              : "",
+          ]
+            .filter(Boolean)
+            .join(" "),
+        ]),
+      }
+    );
+  }
+
+  if (blocks.length === 0) return [];
+  return [
+    { kind: "heading", level: 2, text: "Trigger & Entry Criteria" },
+    ...blocks,
+  ];
+}
+
+function complexitySection(complexity: ComplexityMetrics): DocBlock[] {
+  const range = getComplexityRange(complexity.score);
+  const { breakdown } = complexity;
+  const blocks: DocBlock[] = [
+    { kind: "heading", level: 2, text: "Complexity" },
+    {
+      kind: "fields",
+      rows: [
+        ["Cyclomatic Complexity", String(complexity.score)],
+        ["Rating", `${range.label} (${range.range}) - ${range.description}`],
+        ["Testability", range.testability],
+        ["Elements", String(complexity.totalNodes)],
+        ["Connectors", String(complexity.totalEdges)],
+      ],
+    },
+    {
+      kind: "table",
+      headers: ["Factor", "Points"],
+      rows: [
+        ["Base", String(breakdown.base)],
+        ["Decisions", String(breakdown.decisions)],
+        ["Loops", String(breakdown.loops)],
+        ["Waits", String(breakdown.waits)],
+        ["Fault paths", String(breakdown.faults)],
+      ],
+    },
+  ];
+  if (complexity.recommendations.length > 0) {
+    blocks.push({ kind: "list", items: complexity.recommendations });
+  }
+  return blocks;
+}
+
+function violationsSection(violations: FlowViolation[]): DocBlock[] {
+  const blocks: DocBlock[] = [
+    { kind: "heading", level: 2, text: "Scanner Findings" },
+  ];
+  if (violations.length === 0) {
+    blocks.push({ kind: "paragraph", text: "No issues found." });
+    return blocks;
+  }
+  blocks.push({
+    kind: "table",
+    headers: ["Severity", "Rule", "Element", "Message"],
+    rows: violations.map((v) => [
+      v.severity,
+      v.ruleLabel || v.rule,
+      v.elementName || "",
+      v.message,
+    ]),
+  });
+  return blocks;
+}
+
+/**
+ * One element, with the same sections as the Details tab
+ */
+function elementSection(
+  node: FlowNode,
+  edges: FlowEdge[],
+  getLabel: (id: string) => string
+): DocBlock[] {
+  const config = NODE_CONFIG[node.type] || NODE_CONFIG.ACTION;
+  const data = node.data;
+  const blocks: DocBlock[] = [
+    { kind: "heading", level: 3, text: node.label },
+    {
+      kind: "fields",
+      rows: [
+        ["Type", config.label],
+        ["API Name", node.id],
+        ["Object", data.object],
+        ["Action", data.actionName],
+        ["Action Type", data.actionType],
+        ["Subflow", data.flowName],
+      ],
+    },
+  ];
+
+  if (data.description) {
+    blocks.push({ kind: "paragraph", text: data.description });
+  }
+
+  if (data.assignmentItems && data.assignmentItems.length > 0) {
+    blocks.push(
+      { kind: "heading", level: 4, text: "Assignments" },
+      {
+        kind: "table",
+        headers: ["Variable", "Operator", "Value"],
+        rows: data.assignmentItems.map((item) => [
+          item.field,
+          formatOperator(item.operator),
+          item.value || "(empty)",
+        ]),
+      }
+    );
+  }
+
+  if (data.object || data.inputReference) {
+    blocks.push(
+      { kind: "heading", level: 4, text: "Record Settings" },
+      {
+        kind: "fields",
+        rows: [
+          ["Object", data.object],
+          ["Record Variable", data.inputReference],
+          [
+            "Records",
+            data.getFirstRecordOnly === undefined
+              ? undefined
+              : data.getFirstRecordOnly
+                ? "First record only"
+                : "All records",
+          ],
+          [
+            "Sort By",
+            data.sortField
+              ? `${data.sortField} (${data.sortOrder || "Asc"})`
+              : undefined,
+          ],
+          [
+            "Store Output",
+            data.storeOutputAutomatically ? "Automatically" : undefined,
+          ],
+        ],
+      }
+    );
+  }
+
+  if (data.inputAssignments && data.inputAssignments.length > 0) {
+    blocks.push(
+      { kind: "heading", level: 4, text: "Input Values" },
+      {
+        kind: "table",
+        headers: ["Field", "Value"],
+        rows: data.inputAssignments.map((item) => [
+          item.field,
+          item.value || "(empty)",
+        ]),
+      }
+    );
+  }
+
+  if (data.filters && data.filters.length > 0) {
+    blocks.push(
+      { kind: "heading", level: 4, text: "Filter Conditions" },
+      ...logicParagraph(data.filterLogic),
+      conditionTable(data.filters)
+    );
+  }
+
+  if (data.rules && data.rules.length > 0) {
+    blocks.push({ kind: "heading", level: 4, text: "Outcomes" });
+    data.rules.forEach((rule) => {
+      blocks.push({ kind: "paragraph", text: `Outcome: ${rule.label}` });
+      if (rule.conditions.length > 0) {
+        blocks.push(
+          ...logicParagraph(rule.conditionLogic),
+          conditionTable(rule.conditions)
+        );
+      }
+    });
+    if (data.defaultConnectorLabel) {
+      blocks.push({
+        kind: "paragraph",
+        text: `Default: ${data.defaultConnectorLabel}`,
+      });
+    }
+  }
+
+  if (data.collectionReference) {
+    blocks.push(
+      { kind: "heading", level: 4, text: "Loop Settings" },
+      {
+        kind: "fields",
+        rows: [
+          ["Collection Variable", data.collectionReference],
+          ["Direction", data.iterationOrder],
+          ["Loop Variable", data.assignNextValueToReference],
+        ],
+      }
+    );
+  }
+
+  if (data.screenFields && data.screenFields.length > 0) {
+    blocks.push(
+      { kind: "heading", level: 4, text: "Screen Fields" },
+      {
+        kind: "table",
+        headers: ["Label", "Type", "Required"],
+        rows: data.screenFields.map((field) => [
+          field.label,
+          field.type,
+          field.required ? "Yes" : "",
+        ]),
+      }
+    );
+  }
+
+  if (data.references && data.references.length > 0) {
+    blocks.push(
+      { kind: "heading", level: 4, text: "Variables" },
+      {
+        kind: "table",
+        headers: ["Access", "Reference", "Used In"],
+        rows: data.references.map((ref) => [
+          ref.access === "write" ? "Write" : "Read",
+          ref.reference,
+          ref.context,
+        ]),
+      }
+    );
+  }
+
+  const outgoing = edges.filter((e) => e.source === node.id);
+  const incoming = edges.filter((e) => e.target === node.id);
+  if (outgoing.length + incoming.length > 0) {
+    blocks.push(
+      { kind: "heading", level: 4, text: "Connections" },
+      {
+        kind: "list",
+        items: [
+          ...outgoing.map(
+            (e) =>
+              `→ ${getLabel(e.target)}${e.label ? ` (${e.label})` : ""}${
+                e.type === "fault" ? " [fault]" : ""
+              }`
+          ),
+          ...incoming.map((e) => `← ${getLabel(e.source)}`),
+        ],
+      }
+    );
+  }
+
+  return blocks;
+}
+
+// ============================================================================
+// RENDERING
+// ============================================================================
+
+function presentRows(rows: Array<[string, string | undefined]>) {
+  return rows.filter((row): row is [string, string] => Boolean(row[1]));
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+function renderMarkdown(blocks: DocBlock[]): string {
+  const table = (headers: string[], rows: string[][]) =>
+    [
+      `| ${headers.map(escapeMarkdownCell).join(" | ")} |`,
+      `| ${headers.map(() => "---").join(" | ")} |`,
+      ...rows.map((row) => `| ${row.map(escapeMarkdownCell).join(" | ")} |`),
+    ].join("\n");
+
+  return (
+    blocks
+      .map((block) => {
+        switch (block.kind) {
+          case "heading":
+            return `${"#".repeat(block.level)} ${block.text}`;
+          case "paragraph":
+            return block.text;
+          case "fields": {
+            const rows = presentRows(block.rows);
+            return rows.length > 0 ? table(["Property", "Value"], rows) : "";
+          }
+          case "table":
+            return table(block.headers, block.rows);
+          case "code":
+            return `\`\`\`\n${block.text}\n\`\`\``;
+          case "list":
+            return block.items.map((item) => `- ${item}`).join("\n");
+          case "image":
+            return `![${block.alt}](${block.src})`;
+        }
+      })
+      .filter(Boolean)
+      .join("\n\n") + "\n"
+  );
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+const HTML_STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #1e293b; max-width: 960px; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+h1, h2 { border-bottom: 1px solid #e2e8f0; padding-bottom: 0.3rem; }
+h3 { margin-top: 2rem; }
+table { border-collapse: collapse; margin: 0.5rem 0 1rem; }
+th, td { border: 1px solid #e2e8f0; padding: 0.3rem 0.6rem; text-align: left; vertical-align: top; font-size: 0.9rem; }
+th { background: #f8fafc; }
+pre { background: #f1f5f9; padding: 0.75rem; border-radius: 4px; white-space: pre-wrap; word-break: break-all; }
+img { max-width: 100%; border: 1px solid #e2e8f0; border-radius: 4px; }
+`;
+
+function renderHtml(blocks: DocBlock[], title: string): string {
+  const table = (headers: string[], rows: string[][]) =>
+    `<table>\n<thead><tr>${headers.map((h) => `<th>${escapeHtml(h)}</th>`).join("")}</tr></thead>\n<tbody>\n${rows
+      .map(
+        (row) =>
+          `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`
+      )
+      .join("\n")}\n</tbody>\n</table>`;
+
+  const body = blocks
+    .map((block) => {
+      switch (block.kind) {
+        case "heading":
+          return `<h${block.level}>${escapeHtml(block.text)}</h${block.level}>`;
+        case "paragraph":
+          return `<p>${escapeHtml(block.text)}</p>`;
+        case "fields": {
+          const rows = presentRows(block.rows);
+          return rows.length > 0 ? table(["Property", "Value"], rows) : "";
+        }
+        case "table":
+          return table(block.headers, block.rows);
+        case "code":
+          return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+        case "list":
+          return `<ul>\n${block.items.map((item) => `<li>${escapeHtml(item)}</li>`).join("\n")}\n</ul>`;
+        case "image":
+          return `<img alt="${escapeHtml(block.alt)}" src="${block.src}">`;
+      }
+    })
+    .filter(Boolean)
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+/**
+ * Generate documentation for a flow
+ */
+export function generateFlowDocumentation(
+  input: FlowDocumentationInput,
+  format: DocumentationFormat
+): string {
+  const { flow, fileName, complexity, violations, diagram } = input;
+  const store = createFlowModelStore(flow.nodes, flow.edges, flow.resources);
+  const title = flow.metadata.label || fileName.replace(".flow-meta.xml", "");
+  const getLabel = (id: string) => store.resolveNode(id)?.label || id;
+
+  const blocks: DocBlock[] = [{ kind: "heading", level: 1, text: title }];
+  if (flow.metadata.description) {
+    blocks.push({ kind: "paragraph", text: flow.metadata.description });
+  }
+  if (diagram) {
+    blocks.push(
+      { kind: "heading", level: 2, text: "Diagram" },
+      { kind: "image", alt: `${title} diagram`, src: diagram }
+    );
+  }
+
+  blocks.push(
+    ...overviewSection(flow, fileName),
+    ...triggerSection(store.findStartElement()),
+    ...complexitySection(complexity),
+    ...violationsSection(violations)
+  );
+
+  // Start is covered by the trigger section and generated Ends carry no data
+  const elements = store
+    .getTraversalOrder()
+    .filter((node) => node.type !== "START" && node.type !== "END");
+  if (elements.length > 0) {
+    blocks.push({ kind: "heading", level: 2, text: "Elements" });
+    elements.forEach((node) =>
+      blocks.push(...elementSection(node, flow.edges, getLabel))
+    );
+  }
+
+  return format === "html" ? renderHtml(blocks, title) : renderMarkdown(blocks);
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { createFlowModelStore } from "../model";
+import type { FlowModelStore } from "../model";
+import type { EdgeType, FlowEdge, FlowNode } from "../types";
+import type { FlowPath } from "./flowPaths";
+import {
+  enumerateFlowPaths,
+  exportTestPlanCsv,
+  exportTestPlanMarkdown,
+} from "./flowPaths";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function node(id: string, type: FlowNode["type"]): FlowNode {
+  return { id, type, label: id, x: 0, y: 0, width: 0, height: 0, data: {} };
+}
+
+function edge(
+  source: string,
+  target: string,
+  type: EdgeType = "normal",
+  label?: string
+): FlowEdge {
+  return { id: `${source}-${target}`, source, target, type, label };
+}
+
+/**
+ * Large orders loop over their items, updating each one; updates that fail
+ * are logged. Other orders end straight away.
+ */
+function createOrderFlow(): FlowModelStore {
+  return createFlowModelStore(
+    [
+      node("START_NODE", "START"),
+      node("Check_Size", "DECISION"),
+      node("Loop_Items", "LOOP"),
+      node("Update_Item", "RECORD_UPDATE"),
+      node("Log_Error", "ASSIGNMENT"),
+      node("END", "END"),
+    ],
+    [
+      edge("START_NODE", "Check_Size"),
+      edge("Check_Size", "Loop_Items", "normal", "Large"),
+      edge("Check_Size", "END"),
+      edge("Loop_Items", "Update_Item", "loop-next"),
+      edge("Update_Item", "Loop_Items"),
+      edge("Update_Item", "Log_Error", "fault"),
+      edge("Log_Error", "END"),
+      edge("Loop_Items", "END", "loop-end"),
+    ]
+  );
+}
+
+function stepIds(path: FlowPath): string[] {
+  return path.steps.map((step) => step.id);
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("enumerateFlowPaths", () => {
+  it("runs loops over 0 and 1 items and follows each fault connector", () => {
+    const { paths, truncated } = enumerateFlowPaths(createOrderFlow());
+
+    expect(truncated).toBe(false);
+    expect(paths.map(stepIds)).toEqual([
+      ["START_NODE", "Check_Size", "Loop_Items", "END"],
+      [
+        "START_NODE",
+        "Check_Size",
+        "Loop_Items",
+        "Update_Item",
+        "Loop_Items",
+        "END",
+      ],
+      [
+        "START_NODE",
+        "Check_Size",
+        "Loop_Items",
+        "Update_Item",
+        "Log_Error",
+        "END",
+      ],
+      ["START_NODE", "Check_Size", "END"],
+    ]);
+    expect(paths.map((path) => path.isFaultPath)).toEqual([
+      false,
+      false,
+      true,
+      false,
+    ]);
+    expect(paths[3].choices).toMatchObject([
+      { kind: "outcome", label: "Go to END" },
+    ]);
+  });
+
+  it("stops a path where it would take a connector again", () => {
+    const model = createFlowModelStore(
+      [
+        node("START_NODE", "START"),
+        node("Get_Lead", "RECORD_LOOKUP"),
+        node("Retry", "DECISION"),
+        node("END", "END"),
+      ],
+      [
+        edge("START_NODE", "Get_Lead"),
+        edge("Get_Lead", "Retry"),
+        edge("Retry", "Get_Lead", "goto", "Try Again"),
+        edge("Retry", "END", "normal", "Done"),
+      ]
+    );
+
+    const { paths } = enumerateFlowPaths(model);
+
+    const repeating = paths.filter((path) => path.repeats);
+    expect(repeating).toHaveLength(1);
+    expect(stepIds(repeating[0])).toEqual([
+      "START_NODE",
+      "Get_Lead",
+      "Retry",
+      "Get_Lead",
+    ]);
+  });
+});
+
+describe("test plan export", () => {
+  it("lists one scenario per path in Markdown", () => {
+    const markdown = exportTestPlanMarkdown(
+      enumerateFlowPaths(createOrderFlow()),
+      { title: "Order Items" }
+    );
+
+    expect(markdown.split("\n")).toEqual([
+      "# Test Plan: Order Items",
+      "",
+      "4 scenarios from Start to an end of the flow. Loops run over 0 or 1 " +
+        "items, and each fault path is a scenario of its own.",
+      "",
+      "| Scenario | Outcomes | Loops | Fault | Elements |",
+      "| --- | --- | --- | --- | --- |",
+      "| 1 | Check_Size: Large | Loop_Items: 0 items | — | START_NODE → Check_Size → Loop_Items |",
+      "| 2 | Check_Size: Large | Loop_Items: 1 item | — | START_NODE → Check_Size → Loop_Items → Update_Item → Loop_Items |",
+      "| 3 | Check_Size: Large | Loop_Items: 1 item | Update_Item fails | START_NODE → Check_Size → Loop_Items → Update_Item → Log_Error |",
+      "| 4 | Check_Size: Go to END | — | — | START_NODE → Check_Size |",
+      "",
+    ]);
+  });
+
+  it("quotes CSV cells with commas and ends rows with CRLF", () => {
+    const model = createFlowModelStore(
+      [
+        node("START_NODE", "START"),
+        node("Route", "DECISION"),
+        node("Notify", "ASSIGNMENT"),
+        node("END", "END"),
+      ],
+      [
+        edge("START_NODE", "Route"),
+        edge("Route", "END", "normal", 'Hot, "urgent"'),
+        edge("Route", "Notify", "normal", "Cold"),
+        edge("Notify", "END"),
+      ]
+    );
+
+    const csv = exportTestPlanCsv(enumerateFlowPaths(model));
+
+    expect(csv).toBe(
+      "Scenario,Outcomes,Loops,Fault,Elements\r\n" +
+        '1,"Route: Hot, ""urgent""",,,START_NODE → Route\r\n' +
+        "2,Route: Cold,,,START_NODE → Route → Notify\r\n"
+    );
+  });
+});
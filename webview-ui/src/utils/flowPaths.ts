@@ -0,0 +1,283 @@
+/**
+ * Flow Path Enumeration
+ *
+ * Lists every distinct path from Start to an end of the flow, as test
+ * scenarios: the decision outcomes, wait events and scheduled paths taken,
+ * how many items each loop runs over (bounded to 0 or 1) and which fault
+ * connector is followed. Exported as a test-plan table in Markdown or CSV.
+ */
+
+import type { FlowModelStore } from "../model";
+import type { FlowEdge, FlowNode } from "../types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What a scenario needs to happen where the flow branches
+ */
+export type PathChoice =
+  | { kind: "outcome"; node: FlowNode; edge: FlowEdge; label: string }
+  | { kind: "loop"; node: FlowNode; iterations: 0 | 1 }
+  | { kind: "fault"; node: FlowNode; edge: FlowEdge };
+
+export interface FlowPath {
+  /** Elements executed, in order */
+  steps: FlowNode[];
+  /** Connectors taken, for highlighting the path */
+  edgeIds: string[];
+  choices: PathChoice[];
+  /** An element fails and its fault connector is followed */
+  isFaultPath: boolean;
+  /** The path was stopped where it would repeat a connector (GoTo cycle) */
+  repeats: boolean;
+}
+
+export interface FlowPathsResult {
+  paths: FlowPath[];
+  /** Enumeration stopped at MAX_PATHS; the flow has more paths */
+  truncated: boolean;
+}
+
+export interface TestPlanOptions {
+  /** Plan title, usually the flow label */
+  title?: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Paths grow exponentially with sequential decisions, so stop somewhere
+export const MAX_PATHS = 1000;
+
+const TEST_PLAN_HEADERS = [
+  "Scenario",
+  "Outcomes",
+  "Loops",
+  "Fault",
+  "Elements",
+];
+
+// ============================================================================
+// ENUMERATION
+// ============================================================================
+
+function getChoiceLabel(model: FlowModelStore, edge: FlowEdge): string {
+  if (edge.label) return edge.label;
+  const target = model.resolveNode(edge.target);
+  return target ? `Go to ${target.label}` : edge.target;
+}
+
+interface PathState {
+  steps: FlowNode[];
+  edgeIds: string[];
+  choices: PathChoice[];
+  /** Loops whose single pass is running */
+  activeLoops: string[];
+}
+
+/**
+ * Enumerate the distinct paths from Start to an end of the flow. Each loop
+ * is run over 0 items and over 1 item, and every fault connector starts a
+ * scenario of its own, listed after the paths where nothing fails.
+ *
+ * @param model - Flow model of the current flow
+ */
+export function enumerateFlowPaths(model: FlowModelStore): FlowPathsResult {
+  const paths: FlowPath[] = [];
+  let truncated = false;
+
+  const finish = (state: PathState, repeats = false) => {
+    if (paths.length >= MAX_PATHS) {
+      truncated = true;
+      return;
+    }
+    paths.push({
+      steps: state.steps,
+      edgeIds: state.edgeIds,
+      choices: state.choices,
+      isFaultPath: state.choices.some((choice) => choice.kind === "fault"),
+      repeats,
+    });
+  };
+
+  const follow = (
+    state: PathState,
+    edge: FlowEdge | undefined,
+    choice?: PathChoice,
+    activeLoops = state.activeLoops
+  ) => {
+    if (truncated) return;
+    const choices = choice ? [...state.choices, choice] : state.choices;
+    if (!edge) {
+      finish({ ...state, choices });
+      return;
+    }
+    if (state.edgeIds.includes(edge.id)) {
+      finish({ ...state, choices }, true);
+      return;
+    }
+    const next = model.resolveNode(edge.target);
+    const nextState: PathState = {
+      steps: state.steps,
+      edgeIds: [...state.edgeIds, edge.id],
+      choices,
+      activeLoops,
+    };
+    if (next) {
+      visit(next, nextState);
+    } else {
+      finish(nextState);
+    }
+  };
+
+  const visit = (node: FlowNode, state: PathState) => {
+    if (truncated) return;
+    const current: PathState = { ...state, steps: [...state.steps, node] };
+    followPrimary(node, current);
+
+    // Each element that can fail also gets a scenario where it does, once
+    // per scenario: a path that is already handling a fault goes on as is
+    if (!current.choices.some((choice) => choice.kind === "fault")) {
+      model
+        .getFaultEdges(node.id)
+        .forEach((edge) =>
+          follow(current, edge, { kind: "fault", node, edge })
+        );
+    }
+  };
+
+  const followPrimary = (node: FlowNode, current: PathState) => {
+    const edges = model.getPrimaryOutgoingEdges(node.id);
+
+    if (node.type === "LOOP") {
+      const loopNext = edges.find((e) => e.type === "loop-next");
+      const loopEnd = edges.find((e) => e.type === "loop-end");
+      if (current.activeLoops.includes(node.id)) {
+        // Back from the single pass: the collection is done
+        follow(
+          current,
+          loopEnd,
+          undefined,
+          current.activeLoops.filter((id) => id !== node.id)
+        );
+        return;
+      }
+      follow(current, loopEnd, { kind: "loop", node, iterations: 0 });
+      if (loopNext) {
+        follow(current, loopNext, { kind: "loop", node, iterations: 1 }, [
+          ...current.activeLoops,
+          node.id,
+        ]);
+      }
+      return;
+    }
+
+    if (edges.length > 1) {
+      edges.forEach((edge) =>
+        follow(current, edge, {
+          kind: "outcome",
+          node,
+          edge,
+          label: getChoiceLabel(model, edge),
+        })
+      );
+      return;
+    }
+    follow(current, edges[0]);
+  };
+
+  const start = model.findStartElement();
+  if (start) {
+    visit(start, { steps: [], edgeIds: [], choices: [], activeLoops: [] });
+  }
+  return { paths, truncated };
+}
+
+// ============================================================================
+// TEST PLAN EXPORT
+// ============================================================================
+
+/**
+ * One row per path: scenario number, outcomes, loops, fault and elements
+ */
+function getTestPlanRows(result: FlowPathsResult): string[][] {
+  return result.paths.map((path, index) => {
+    const outcomes: string[] = [];
+    const loops: string[] = [];
+    const faults: string[] = [];
+    path.choices.forEach((choice) => {
+      if (choice.kind === "outcome") {
+        outcomes.push(`${choice.node.label}: ${choice.label}`);
+      } else if (choice.kind === "loop") {
+        const items = choice.iterations === 1 ? "1 item" : "0 items";
+        loops.push(`${choice.node.label}: ${items}`);
+      } else {
+        faults.push(`${choice.node.label} fails`);
+      }
+    });
+    const elements = path.steps
+      .filter((node) => node.type !== "END")
+      .map((node) => node.label);
+    return [
+      String(index + 1),
+      outcomes.join("; "),
+      loops.join("; "),
+      faults.join("; "),
+      elements.join(" → ") + (path.repeats ? " → (repeats)" : ""),
+    ];
+  });
+}
+
+function describePlan(result: FlowPathsResult): string {
+  const count = result.paths.length;
+  const summary =
+    `${count} scenario${count === 1 ? "" : "s"} from Start to an end of the ` +
+    "flow. Loops run over 0 or 1 items, and each fault path is a scenario " +
+    "of its own.";
+  return result.truncated
+    ? `${summary} Only the first ${MAX_PATHS} paths are listed.`
+    : summary;
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Export the paths as a Markdown test-plan table
+ */
+export function exportTestPlanMarkdown(
+  result: FlowPathsResult,
+  options: TestPlanOptions = {}
+): string {
+  const row = (cells: string[]) =>
+    `| ${cells.map((cell) => escapeMarkdownCell(cell || "—")).join(" | ")} |`;
+  return [
+    `# Test Plan${options.title ? `: ${options.title}` : ""}`,
+    "",
+    describePlan(result),
+    "",
+    row(TEST_PLAN_HEADERS),
+    `| ${TEST_PLAN_HEADERS.map(() => "---").join(" | ")} |`,
+    ...getTestPlanRows(result).map(row),
+    "",
+  ].join("\n");
+}
+
+function escapeCsvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export the paths as a CSV test plan, one row per scenario
+ */
+export function exportTestPlanCsv(result: FlowPathsResult): string {
+  return (
+    [TEST_PLAN_HEADERS, ...getTestPlanRows(result)]
+      .map((cells) => cells.map(escapeCsvCell).join(","))
+      .join("\r\n") + "\r\n"
+  );
+}
@@ -0,0 +1,223 @@
+/**
+ * Flow Simulation
+ *
+ * Walks a flow from Start through the flow model, following the outcome,
+ * wait event or path the user picked at each branch and running loops the
+ * chosen number of times. The walk is replayed from the list of choices,
+ * so undoing a step is just dropping the last choice.
+ */
+
+import type { FlowModelStore } from "../model";
+import type { FlowEdge, FlowNode } from "../types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * A decision made by the user where the path branches
+ */
+export type SimulationChoice =
+  | { nodeId: string; edgeId: string }
+  | { nodeId: string; iterations: number };
+
+/**
+ * One executed element, in order
+ */
+export interface SimulationStep {
+  node: FlowNode;
+  /** Connector taken to leave the element, if any */
+  edge?: FlowEdge;
+  /** Loop pass this element ran in, for elements inside loops (1-based) */
+  iteration?: number;
+}
+
+/**
+ * A connector offered at a branch, e.g. a decision outcome
+ */
+export interface SimulationOption {
+  edge: FlowEdge;
+  label: string;
+}
+
+/**
+ * The branch the walk is waiting on
+ */
+export type PendingChoice =
+  | { kind: "path"; node: FlowNode; options: SimulationOption[] }
+  | { kind: "iterations"; node: FlowNode };
+
+export interface SimulationResult {
+  steps: SimulationStep[];
+  /** Branch needing a choice before the walk can go on; null when finished */
+  pending: PendingChoice | null;
+  /** The walk reached an element with no further connectors */
+  finished: boolean;
+  /** The walk was cut short by the step limit (e.g. an endless GoTo loop) */
+  truncated: boolean;
+  /** Connectors taken, for highlighting the path */
+  traversedEdges: Set<string>;
+  /** Elements executed, with the step numbers they ran at (1-based) */
+  stepNumbers: Map<string, number[]>;
+  /** How many of the given choices the walk used; the rest no longer apply */
+  choicesUsed: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Guards against connectors that loop forever without a choice in between
+const MAX_STEPS = 500;
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/**
+ * Label for a connector offered as a choice
+ */
+function getOptionLabel(model: FlowModelStore, edge: FlowEdge): string {
+  if (edge.label) return edge.label;
+  const target = model.resolveNode(edge.target);
+  return target ? `Go to ${target.label}` : edge.target;
+}
+
+/**
+ * Connectors the user chooses between when leaving a node, or an empty
+ * list when there is only one way to go
+ */
+function getPathOptions(model: FlowModelStore, node: FlowNode): FlowEdge[] {
+  const edges = model.getPrimaryOutgoingEdges(node.id);
+  return edges.length > 1 ? edges : [];
+}
+
+/**
+ * Replay the user's choices from Start
+ *
+ * @param model - Flow model of the current flow
+ * @param choices - Choices made so far, in the order they were asked for
+ */
+export function simulateFlow(
+  model: FlowModelStore,
+  choices: SimulationChoice[]
+): SimulationResult {
+  const steps: SimulationStep[] = [];
+  const traversedEdges = new Set<string>();
+  const stepNumbers = new Map<string, number[]>();
+  // Passes left for each loop currently running, and the pass number
+  const loopsRemaining = new Map<string, number>();
+  const loopPass = new Map<string, number>();
+  const loopStack: string[] = [];
+  let choiceIndex = 0;
+
+  const result = (
+    pending: PendingChoice | null,
+    truncated = false
+  ): SimulationResult => ({
+    steps,
+    pending,
+    finished: !pending && !truncated,
+    truncated,
+    traversedEdges,
+    stepNumbers,
+    choicesUsed: choiceIndex,
+  });
+
+  let current = model.findStartElement();
+  while (current) {
+    if (steps.length >= MAX_STEPS) {
+      return result(null, true);
+    }
+    const node: FlowNode = current;
+    let edge: FlowEdge | undefined;
+
+    if (node.type === "LOOP") {
+      if (!loopsRemaining.has(node.id)) {
+        const choice = choices[choiceIndex];
+        if (!choice || choice.nodeId !== node.id || !("iterations" in choice)) {
+          return result({ kind: "iterations", node });
+        }
+        choiceIndex++;
+        loopsRemaining.set(node.id, Math.max(0, choice.iterations));
+        loopPass.set(node.id, 0);
+        loopStack.push(node.id);
+      }
+      const edges = model.getPrimaryOutgoingEdges(node.id);
+      const remaining = loopsRemaining.get(node.id)!;
+      if (remaining > 0) {
+        loopsRemaining.set(node.id, remaining - 1);
+        loopPass.set(node.id, loopPass.get(node.id)! + 1);
+        edge = edges.find((e) => e.type === "loop-next");
+      } else {
+        // Done: the next time the loop is reached it starts over
+        loopsRemaining.delete(node.id);
+        loopStack.splice(loopStack.lastIndexOf(node.id), 1);
+        edge = edges.find((e) => e.type === "loop-end");
+      }
+    } else {
+      const options = getPathOptions(model, node);
+      if (options.length > 0) {
+        const choice = choices[choiceIndex];
+        const chosen =
+          choice && choice.nodeId === node.id && "edgeId" in choice
+            ? options.find((e) => e.id === choice.edgeId)
+            : undefined;
+        if (!chosen) {
+          return result({
+            kind: "path",
+            node,
+            options: options.map((e) => ({
+              edge: e,
+              label: getOptionLabel(model, e),
+            })),
+          });
+        }
+        choiceIndex++;
+        edge = chosen;
+      } else {
+        edge = model.getPrimaryOutgoingEdges(node.id)[0];
+      }
+    }
+
+    const innermostLoop = loopStack[loopStack.length - 1];
+    steps.push({
+      node,
+      edge,
+      iteration:
+        innermostLoop && innermostLoop !== node.id
+          ? loopPass.get(innermostLoop)
+          : undefined,
+    });
+    stepNumbers.set(node.id, [
+      ...(stepNumbers.get(node.id) ?? []),
+      steps.length,
+    ]);
+    if (!edge) break;
+    traversedEdges.add(edge.id);
+    current = model.resolveNode(edge.target);
+  }
+
+  return result(null);
+}
+
+/**
+ * Elements the simulation can no longer reach: not executed, and not
+ * reachable from the element waiting on a choice
+ */
+export function getUnreachableNodeIds(
+  model: FlowModelStore,
+  simulation: SimulationResult
+): Set<string> {
+  const reachable = simulation.pending
+    ? model.getReachableNodeIds(simulation.pending.node.id)
+    : new Set<string>();
+  return new Set(
+    model
+      .getAllNodes()
+      .filter(
+        (node) => !simulation.stepNumbers.has(node.id) && !reachable.has(node.id)
+      )
+      .map((node) => node.id)
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * Display Formatters
+ *
+ * Human-readable labels for flow metadata values, shared by the sidebar,
+ * the header and generated documentation.
+ */
+
+/**
+ * Get human-readable process type label
+ */
+export function getProcessTypeLabel(processType?: string): string {
+  const types: Record<string, string> = {
+    AutoLaunchedFlow: "Autolaunched Flow",
+    Flow: "Screen Flow",
+    Workflow: "Record-Triggered Flow",
+    CustomEvent: "Platform Event-Triggered Flow",
+    InvocableProcess: "Invocable Process",
+    LoginFlow: "Login Flow",
+    ActionPlan: "Action Plan",
+    CheckoutFlow: "Checkout Flow",
+    ContactRequestFlow: "Contact Request Flow",
+    FSCLending: "FSC Lending Flow",
+    FieldServiceMobile: "Field Service Mobile Flow",
+    FieldServiceWeb: "Field Service Web Flow",
+    IndividualObjectLinkingFlow: "Individual Object Linking Flow",
+    Survey: "Survey Flow",
+    SurveyEnrich: "Survey Enrich Flow",
+    TransactionSecurityFlow: "Transaction Security Flow",
+    UserProvisioningFlow: "User Provisioning Flow",
+  };
+  return types[processType || ""] || processType || "Flow";
+}
+
+/**
+ * Operator display helper
+ */
+export function formatOperator(operator: string): string {
+  const operators: Record<string, string> = {
+    Assign: "=",
+    Add: "Add",
+    Subtract: "Subtract",
+    EqualTo: "=",
+    NotEqualTo: "≠",
+    GreaterThan: ">",
+    GreaterThanOrEqualTo: ">=",
+    LessThan: "<",
+    LessThanOrEqualTo: "<=",
+    Contains: "Contains",
+    StartsWith: "Starts With",
+    EndsWith: "Ends With",
+    IsNull: "Is Null",
+    IsBlank: "Is Blank",
+  };
+  return operators[operator] || operator;
+}
+
+/**
+ * Format trigger type for display
+ */
+export function formatTriggerType(triggerType: string): string {
+  const types: Record<string, string> = {
+    RecordAfterSave: "After Save",
+    RecordBeforeSave: "Before Save",
+    RecordBeforeDelete: "Before Delete",
+    Scheduled: "Scheduled",
+    PlatformEvent: "Platform Event",
+  };
+  return types[triggerType] || triggerType;
+}
+
+/**
+ * Format record trigger type for display
+ */
+export function formatRecordTriggerType(recordTriggerType: string): string {
+  const types: Record<string, string> = {
+    Create: "A record is created",
+    Update: "A record is updated",
+    CreateAndUpdate: "A record is created or updated",
+    Delete: "A record is deleted",
+  };
+  return types[recordTriggerType] || recordTriggerType;
+}
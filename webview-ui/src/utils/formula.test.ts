@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import { parseFormula } from "../parser";
+import type { FormulaNode } from "../types";
+import {
+  evaluateFormula,
+  formatFormula,
+  getFormulaSampleTemplate,
+  getUndefinedFormulaReferences,
+} from "./formula";
+import type { SampleData } from "./sampleData";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function parse(expression: string): FormulaNode {
+  const { ast, error } = parseFormula(expression);
+  if (!ast) throw new Error(`Cannot parse ${expression}: ${error?.message}`);
+  return ast;
+}
+
+function evaluate(
+  expression: string,
+  data: SampleData = { record: {}, variables: {} }
+) {
+  return evaluateFormula(parse(expression), data);
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("evaluateFormula", () => {
+  it("evaluates functions against record and variable values", () => {
+    const data: SampleData = {
+      record: { Amount: 1500, Account: { Name: "Acme" } },
+      variables: { varDiscount: 0.1 },
+    };
+
+    expect(
+      evaluate(
+        'IF({!$Record.Amount} > 1000, "Large: " & {!$Record.Account.Name}, "Small")',
+        data
+      ).value
+    ).toBe("Large: Acme");
+    expect(
+      evaluate("ROUND({!$Record.Amount} * {!varDiscount}, 0)", data)
+    ).toEqual({ value: 150, missingReferences: [] });
+  });
+
+  it("evaluates missing references as null and lists them", () => {
+    const result = evaluate('BLANKVALUE({!varName}, "Unknown")');
+
+    expect(result.value).toBe("Unknown");
+    expect(result.missingReferences).toEqual(["varName"]);
+  });
+
+  it("rounds half away from zero and clamps ADDMONTHS to the month end", () => {
+    expect(evaluate("ROUND(-2.5, 0)").value).toBe(-3);
+    expect(evaluate("ADDMONTHS(DATE(2024, 1, 31), 1)").value).toBe(
+      "2024-02-29"
+    );
+    expect(evaluate('WEEKDAY(DATEVALUE("2024-06-02"))').value).toBe(1);
+  });
+
+  it("compares the record with the prior record for ISCHANGED", () => {
+    const data: SampleData = {
+      record: { Status: "Closed" },
+      variables: { $Record__Prior: { Status: "Open" } },
+    };
+
+    expect(evaluate("ISCHANGED({!$Record.Status})", data).value).toBe(true);
+    expect(evaluate("PRIORVALUE({!$Record.Status})", data).value).toBe("Open");
+    expect(evaluate("ISNEW()", data).value).toBe(false);
+  });
+
+  it("treats ISCHANGED without a prior record as a create", () => {
+    const result = evaluate("ISCHANGED({!$Record.Status})", {
+      record: { Status: "Closed" },
+      variables: {},
+    });
+
+    expect(result.value).toBe(false);
+    expect(result.missingReferences).toEqual(["$Record__Prior.Status"]);
+  });
+
+  it("reports unsupported functions and wrong arguments as errors", () => {
+    expect(evaluate('REGEX("a", "b")')).toMatchObject({
+      value: null,
+      error: "REGEX is not supported by the evaluator",
+    });
+    expect(evaluate("NOT(TRUE, FALSE)").error).toBe(
+      "NOT has the wrong number of arguments"
+    );
+    expect(evaluate("MOD(5, 0)").error).toBe("Division by zero");
+  });
+});
+
+describe("getFormulaSampleTemplate", () => {
+  it("adds every reference and the prior record fields ISCHANGED reads", () => {
+    const template = getFormulaSampleTemplate(
+      parse(
+        "AND(ISCHANGED({!$Record.Status}), {!Get_Account.Owner.Name} = {!varOwner}, {!$GlobalConstant.True})"
+      )
+    );
+
+    expect(template).toEqual({
+      record: { Status: null },
+      variables: {
+        Get_Account: { Owner: { Name: null } },
+        varOwner: null,
+        $Record__Prior: { Status: null },
+      },
+    });
+  });
+
+  it("keeps values already in the given template", () => {
+    const template = getFormulaSampleTemplate(parse("{!varA} + {!varB}"), {
+      record: {},
+      variables: { varA: 1 },
+    });
+
+    expect(template.variables).toEqual({ varA: 1, varB: null });
+  });
+});
+
+describe("getUndefinedFormulaReferences", () => {
+  it("ignores global variables and the case of defined names", () => {
+    const ast = parse("{!$User.Id} & {!VARNAME} & {!Get_Lead.Email} & {!varX}");
+
+    expect(
+      getUndefinedFormulaReferences(ast, new Set(["varname", "get_lead"]))
+    ).toEqual(["varX"]);
+  });
+});
+
+describe("formatFormula", () => {
+  it("keeps short formulas on one line and breaks long calls by argument", () => {
+    const short = formatFormula(parse("IF({!a}, 1, 2)"));
+    const long = formatFormula(
+      parse(
+        'IF(ISBLANK({!$Record.Account.Name}), "No account name", {!$Record.Account.Name})'
+      )
+    );
+
+    expect(short).toHaveLength(1);
+    expect(
+      long.map(
+        (line) =>
+          "  ".repeat(line.indent) +
+          line.tokens.map((token) => token.text).join("")
+      )
+    ).toEqual([
+      "IF(",
+      "  ISBLANK({!$Record.Account.Name}),",
+      '  "No account name",',
+      "  {!$Record.Account.Name}",
+      ")",
+    ]);
+  });
+});
@@ -0,0 +1,700 @@
+/**
+ * Flow Formula Utilities
+ *
+ * Works on the expression tree from parseFormula: pretty-prints it as
+ * highlighted lines, lists the resources it reads (and which of them the
+ * flow does not define), and evaluates it against sample data.
+ */
+
+import type {
+  FlowNode,
+  FlowResource,
+  FormulaLine,
+  FormulaNode,
+  FormulaToken,
+} from "../types";
+import {
+  PRIOR_RECORD_REFERENCE,
+  addSampleReference,
+  compareSampleValues,
+  getPriorReference,
+  isBlankValue,
+  resolveSampleReference,
+  sampleValuesEqual,
+  textOfValue,
+  toBooleanValue,
+  toNumberValue,
+} from "./sampleData";
+import type { SampleData } from "./sampleData";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FormulaEvaluation {
+  value: unknown;
+  /** Set when the formula cannot be evaluated, e.g. an unsupported function */
+  error?: string;
+  /** References with no sample value, evaluated as null */
+  missingReferences: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Longest a sub-expression may print on one line before it is broken up
+const MAX_LINE_LENGTH = 48;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// PRINTING
+// ============================================================================
+
+function quote(value: string): string {
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+  return `"${escaped}"`;
+}
+
+/**
+ * Tokens of a sub-expression printed on one line
+ */
+function inlineTokens(node: FormulaNode): FormulaToken[] {
+  switch (node.type) {
+    case "number":
+      return [{ kind: "number", text: String(node.value) }];
+    case "string":
+      return [{ kind: "string", text: quote(node.value) }];
+    case "boolean":
+      return [{ kind: "keyword", text: node.value ? "TRUE" : "FALSE" }];
+    case "null":
+      return [{ kind: "keyword", text: "NULL" }];
+    case "reference":
+      return [{ kind: "reference", text: `{!${node.name}}` }];
+    case "unary":
+      return [
+        { kind: "operator", text: node.operator },
+        ...inlineTokens(node.operand),
+      ];
+    case "binary":
+      return [
+        ...inlineTokens(node.left),
+        { kind: "operator", text: ` ${node.operator} ` },
+        ...inlineTokens(node.right),
+      ];
+    case "group":
+      return [
+        { kind: "punctuation", text: "(" },
+        ...inlineTokens(node.expression),
+        { kind: "punctuation", text: ")" },
+      ];
+    case "call":
+      return [
+        { kind: "function", text: node.name },
+        { kind: "punctuation", text: "(" },
+        ...node.args.flatMap((arg, i) => [
+          ...(i > 0 ? [{ kind: "punctuation" as const, text: ", " }] : []),
+          ...inlineTokens(arg),
+        ]),
+        { kind: "punctuation", text: ")" },
+      ];
+  }
+}
+
+function tokensLength(tokens: FormulaToken[]): number {
+  return tokens.reduce((sum, token) => sum + token.text.length, 0);
+}
+
+function printNode(
+  node: FormulaNode,
+  indent: number,
+  lines: FormulaLine[],
+  prefix: FormulaToken[],
+  suffix: FormulaToken[]
+): void {
+  const inline = [...prefix, ...inlineTokens(node), ...suffix];
+  if (tokensLength(inline) + indent * 2 <= MAX_LINE_LENGTH) {
+    lines.push({ indent, tokens: inline });
+    return;
+  }
+
+  switch (node.type) {
+    case "call":
+      lines.push({
+        indent,
+        tokens: [
+          ...prefix,
+          { kind: "function", text: node.name },
+          { kind: "punctuation", text: "(" },
+        ],
+      });
+      node.args.forEach((arg, i) =>
+        printNode(
+          arg,
+          indent + 1,
+          lines,
+          [],
+          i < node.args.length - 1 ? [{ kind: "punctuation", text: "," }] : []
+        )
+      );
+      lines.push({
+        indent,
+        tokens: [{ kind: "punctuation", text: ")" }, ...suffix],
+      });
+      return;
+    case "group":
+      lines.push({
+        indent,
+        tokens: [...prefix, { kind: "punctuation", text: "(" }],
+      });
+      printNode(node.expression, indent + 1, lines, [], []);
+      lines.push({
+        indent,
+        tokens: [{ kind: "punctuation", text: ")" }, ...suffix],
+      });
+      return;
+    case "binary":
+      // Break before the operator, keeping operands at the same depth
+      printNode(node.left, indent, lines, prefix, []);
+      printNode(
+        node.right,
+        indent,
+        lines,
+        [{ kind: "operator", text: `${node.operator} ` }],
+        suffix
+      );
+      return;
+    case "unary":
+      printNode(
+        node.operand,
+        indent,
+        lines,
+        [...prefix, { kind: "operator", text: node.operator }],
+        suffix
+      );
+      return;
+    default:
+      lines.push({ indent, tokens: inline });
+  }
+}
+
+/**
+ * Pretty-print a formula: short sub-expressions stay on one line, longer
+ * function calls get one argument per indented line
+ */
+export function formatFormula(ast: FormulaNode): FormulaLine[] {
+  const lines: FormulaLine[] = [];
+  printNode(ast, 0, lines, [], []);
+  return lines;
+}
+
+// ============================================================================
+// REFERENCES
+// ============================================================================
+
+/**
+ * Every merge field the formula reads, in order of appearance
+ */
+export function getFormulaReferences(ast: FormulaNode): string[] {
+  const references = new Set<string>();
+  const visit = (node: FormulaNode) => {
+    switch (node.type) {
+      case "reference":
+        references.add(node.name);
+        break;
+      case "unary":
+        visit(node.operand);
+        break;
+      case "binary":
+        visit(node.left);
+        visit(node.right);
+        break;
+      case "group":
+        visit(node.expression);
+        break;
+      case "call":
+        node.args.forEach(visit);
+        break;
+    }
+  };
+  visit(ast);
+  return Array.from(references);
+}
+
+/**
+ * Names a formula can refer to: resources, elements (and their outputs)
+ * and screen components, lowercased as flow API names ignore case
+ */
+export function getDefinedReferenceNames(
+  nodes: FlowNode[],
+  resources: FlowResource[]
+): Set<string> {
+  const names = new Set<string>();
+  resources.forEach((resource) => names.add(resource.name.toLowerCase()));
+  nodes.forEach((node) => {
+    names.add(node.id.toLowerCase());
+    node.data.screenFields?.forEach((field) =>
+      names.add(field.name.toLowerCase())
+    );
+  });
+  return names;
+}
+
+/**
+ * References whose resource or element the flow does not define.
+ * Global variables such as $Record, $User and $Flow are always defined.
+ */
+export function getUndefinedFormulaReferences(
+  ast: FormulaNode,
+  definedNames: Set<string>
+): string[] {
+  return getFormulaReferences(ast).filter((reference) => {
+    const root = reference.split(".")[0];
+    return !root.startsWith("$") && !definedNames.has(root.toLowerCase());
+  });
+}
+
+/**
+ * Sample data skeleton with every reference the formula reads, added to
+ * the given template when there is one
+ */
+export function getFormulaSampleTemplate(
+  ast: FormulaNode,
+  template: SampleData = { record: {}, variables: {} }
+): SampleData {
+  getFormulaReferences(ast).forEach((reference) =>
+    addSampleReference(template, reference)
+  );
+  // ISCHANGED and PRIORVALUE read the prior record
+  const visit = (node: FormulaNode) => {
+    if (node.type === "call") {
+      const priorReference =
+        (node.name === "ISCHANGED" || node.name === "PRIORVALUE") &&
+        node.args[0]?.type === "reference"
+          ? getPriorReference(node.args[0].name)
+          : null;
+      if (priorReference) addSampleReference(template, priorReference);
+      node.args.forEach(visit);
+    } else if (node.type === "unary") {
+      visit(node.operand);
+    } else if (node.type === "binary") {
+      visit(node.left);
+      visit(node.right);
+    } else if (node.type === "group") {
+      visit(node.expression);
+    }
+  };
+  visit(ast);
+  return template;
+}
+
+// ============================================================================
+// EVALUATION HELPERS
+// ============================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isDate(value: unknown): value is string {
+  return typeof value === "string" && DATE_PATTERN.test(value);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function toDate(value: unknown, fn: string): Date {
+  const time =
+    typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value)
+      ? Date.parse(value.length === 10 ? `${value}T00:00:00Z` : value)
+      : NaN;
+  if (isNaN(time)) {
+    throw new Error(`${fn} expects a date, got ${JSON.stringify(value)}`);
+  }
+  return new Date(time);
+}
+
+function toNumber(value: unknown, fn: string): number | null {
+  if (isBlankValue(value)) return null;
+  const num = toNumberValue(value);
+  if (num === null) {
+    throw new Error(`${fn} expects a number, got ${JSON.stringify(value)}`);
+  }
+  return num;
+}
+
+function toText(value: unknown): string {
+  if (typeof value === "boolean") return value ? "true" : "false";
+  return textOfValue(value);
+}
+
+/**
+ * Arithmetic with flow semantics: blank operands give a blank result, a
+ * date plus a number adds days, and "+" on text concatenates
+ */
+function arithmetic(operator: string, left: unknown, right: unknown): unknown {
+  if (isBlankValue(left) || isBlankValue(right)) {
+    const isText = typeof left === "string" || typeof right === "string";
+    return operator === "+" && isText ? toText(left) + toText(right) : null;
+  }
+  if (isDate(left) && (operator === "+" || operator === "-")) {
+    if (isDate(right) && operator === "-") {
+      const difference =
+        toDate(left, operator).getTime() - toDate(right, operator).getTime();
+      return difference / MS_PER_DAY;
+    }
+    const days = toNumber(right, operator) ?? 0;
+    const date = toDate(left, operator);
+    date.setUTCDate(date.getUTCDate() + (operator === "+" ? days : -days));
+    return formatDate(date);
+  }
+  const leftNum = toNumberValue(left);
+  const rightNum = toNumberValue(right);
+  if (leftNum === null || rightNum === null) {
+    if (operator === "+") return toText(left) + toText(right);
+    throw new Error(
+      `Cannot apply "${operator}" to ${JSON.stringify(left)} and ` +
+        JSON.stringify(right)
+    );
+  }
+  switch (operator) {
+    case "+":
+      return leftNum + rightNum;
+    case "-":
+      return leftNum - rightNum;
+    case "*":
+      return leftNum * rightNum;
+    case "/":
+      if (rightNum === 0) throw new Error("Division by zero");
+      return leftNum / rightNum;
+    default:
+      return Math.pow(leftNum, rightNum);
+  }
+}
+
+function compare(operator: string, left: unknown, right: unknown): boolean {
+  switch (operator) {
+    case "=":
+    case "==":
+      return sampleValuesEqual(left, right);
+    case "!=":
+    case "<>":
+      return !sampleValuesEqual(left, right);
+  }
+  const order = compareSampleValues(left, right);
+  if (order === null) return false;
+  switch (operator) {
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    default:
+      return order >= 0;
+  }
+}
+
+// Allowed argument counts; max undefined means any number
+const FUNCTION_ARITY: Record<string, [number, number?]> = {
+  IF: [3, 3],
+  CASE: [3],
+  AND: [1],
+  OR: [1],
+  NOT: [1, 1],
+  ISBLANK: [1, 1],
+  ISNULL: [1, 1],
+  BLANKVALUE: [2, 2],
+  NULLVALUE: [2, 2],
+  ISNUMBER: [1, 1],
+  TEXT: [1, 1],
+  VALUE: [1, 1],
+  LEN: [1, 1],
+  LEFT: [2, 2],
+  RIGHT: [2, 2],
+  MID: [3, 3],
+  UPPER: [1, 1],
+  LOWER: [1, 1],
+  TRIM: [1, 1],
+  CONTAINS: [2, 2],
+  BEGINS: [2, 2],
+  FIND: [2, 3],
+  SUBSTITUTE: [3, 3],
+  LPAD: [2, 3],
+  RPAD: [2, 3],
+  ISPICKVAL: [2, 2],
+  INCLUDES: [2, 2],
+  ISCHANGED: [1, 1],
+  ISNEW: [0, 0],
+  PRIORVALUE: [1, 1],
+  ABS: [1, 1],
+  ROUND: [2, 2],
+  FLOOR: [1, 1],
+  CEILING: [1, 1],
+  MOD: [2, 2],
+  SQRT: [1, 1],
+  MAX: [1],
+  MIN: [1],
+  TODAY: [0, 0],
+  NOW: [0, 0],
+  DATE: [3, 3],
+  DATEVALUE: [1, 1],
+  YEAR: [1, 1],
+  MONTH: [1, 1],
+  DAY: [1, 1],
+  WEEKDAY: [1, 1],
+  ADDMONTHS: [2, 2],
+};
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Evaluate a formula against sample record and variable values
+ */
+export function evaluateFormula(
+  ast: FormulaNode,
+  data: SampleData
+): FormulaEvaluation {
+  const missing = new Set<string>();
+
+  const lookup = (reference: string): unknown => {
+    const resolved = resolveSampleReference(reference, data);
+    if (!resolved.found) missing.add(reference);
+    return resolved.value ?? null;
+  };
+
+  const referenceArg = (node: FormulaNode, fn: string): string => {
+    if (node.type !== "reference") {
+      throw new Error(`${fn} expects a field reference`);
+    }
+    return node.name;
+  };
+
+  const priorValue = (reference: string): unknown => {
+    const priorReference = getPriorReference(reference);
+    if (!priorReference) return null;
+    const prior = resolveSampleReference(priorReference, data);
+    return prior.found ? prior.value ?? null : null;
+  };
+
+  const call = (name: string, args: FormulaNode[]): unknown => {
+    const arity = FUNCTION_ARITY[name];
+    if (!arity) throw new Error(`${name} is not supported by the evaluator`);
+    const [min, max] = arity;
+    if (args.length < min || (max !== undefined && args.length > max)) {
+      throw new Error(`${name} has the wrong number of arguments`);
+    }
+    const arg = (i: number) => evaluate(args[i]);
+    const text = (i: number) => toText(arg(i));
+    const num = (i: number) => toNumber(arg(i), name);
+
+    switch (name) {
+      case "IF":
+        return toBooleanValue(arg(0)) ? arg(1) : arg(2);
+      case "CASE": {
+        const value = arg(0);
+        for (let i = 1; i + 1 < args.length; i += 2) {
+          if (sampleValuesEqual(value, arg(i))) return arg(i + 1);
+        }
+        return args.length % 2 === 0 ? arg(args.length - 1) : null;
+      }
+      case "AND":
+        return args.every((_, i) => toBooleanValue(arg(i)));
+      case "OR":
+        return args.some((_, i) => toBooleanValue(arg(i)));
+      case "NOT":
+        return !toBooleanValue(arg(0));
+      case "ISBLANK":
+        return isBlankValue(arg(0));
+      case "ISNULL":
+        return arg(0) === null || arg(0) === undefined;
+      case "BLANKVALUE":
+      case "NULLVALUE":
+        return isBlankValue(arg(0)) ? arg(1) : arg(0);
+      case "ISNUMBER":
+        return toNumberValue(arg(0)) !== null;
+      case "TEXT":
+        return text(0);
+      case "VALUE": {
+        const value = text(0);
+        return value === "" ? null : toNumber(value, name);
+      }
+      case "LEN":
+        return text(0).length;
+      case "LEFT":
+        return text(0).slice(0, Math.max(0, num(1) ?? 0));
+      case "RIGHT": {
+        const count = Math.max(0, num(1) ?? 0);
+        return count === 0 ? "" : text(0).slice(-count);
+      }
+      case "MID": {
+        const start = Math.max(1, num(1) ?? 1) - 1;
+        return text(0).slice(start, start + Math.max(0, num(2) ?? 0));
+      }
+      case "UPPER":
+        return text(0).toUpperCase();
+      case "LOWER":
+        return text(0).toLowerCase();
+      case "TRIM":
+        return text(0).trim();
+      case "CONTAINS":
+        return text(0).includes(text(1));
+      case "BEGINS":
+        return text(0).startsWith(text(1));
+      case "FIND": {
+        const start = args.length > 2 ? Math.max(1, num(2) ?? 1) - 1 : 0;
+        return text(1).indexOf(text(0), start) + 1;
+      }
+      case "SUBSTITUTE":
+        return text(1) === "" ? text(0) : text(0).split(text(1)).join(text(2));
+      case "LPAD":
+      case "RPAD": {
+        const length = Math.max(0, num(1) ?? 0);
+        const pad = args.length > 2 ? text(2) : " ";
+        const value = text(0).slice(0, length);
+        return name === "LPAD"
+          ? value.padStart(length, pad)
+          : value.padEnd(length, pad);
+      }
+      case "ISPICKVAL":
+        return text(0) === text(1);
+      case "INCLUDES":
+        return text(0)
+          .split(";")
+          .map((v) => v.trim())
+          .includes(text(1));
+      case "ISCHANGED": {
+        const reference = referenceArg(args[0], name);
+        const prior = getPriorReference(reference);
+        if (!prior || !resolveSampleReference(prior, data).found) {
+          // Without a prior record this is a create, where nothing changed
+          missing.add(prior ?? PRIOR_RECORD_REFERENCE);
+          return false;
+        }
+        return !sampleValuesEqual(lookup(reference), priorValue(reference));
+      }
+      case "ISNEW":
+        return !resolveSampleReference(PRIOR_RECORD_REFERENCE, data).found;
+      case "PRIORVALUE":
+        return priorValue(referenceArg(args[0], name));
+      case "ABS":
+        return num(0) === null ? null : Math.abs(num(0)!);
+      case "ROUND": {
+        const value = num(0);
+        if (value === null) return null;
+        const factor = Math.pow(10, num(1) ?? 0);
+        // Round half away from zero, as Salesforce does
+        const rounded = Math.round(Math.abs(value) * factor) / factor;
+        return Math.sign(value) * rounded;
+      }
+      case "FLOOR":
+        return num(0) === null ? null : Math.floor(num(0)!);
+      case "CEILING":
+        return num(0) === null ? null : Math.ceil(num(0)!);
+      case "MOD": {
+        const divisor = num(1);
+        if (divisor === 0) throw new Error("Division by zero");
+        return num(0) === null || divisor === null ? null : num(0)! % divisor;
+      }
+      case "SQRT":
+        return num(0) === null ? null : Math.sqrt(num(0)!);
+      case "MAX":
+      case "MIN": {
+        const values = args.map((_, i) => num(i));
+        if (values.some((v) => v === null)) return null;
+        return name === "MAX"
+          ? Math.max(...(values as number[]))
+          : Math.min(...(values as number[]));
+      }
+      case "TODAY":
+        return formatDate(new Date());
+      case "NOW":
+        return new Date().toISOString();
+      case "DATE": {
+        const [year, month, day] = [num(0), num(1), num(2)];
+        if (year === null || month === null || day === null) return null;
+        return formatDate(new Date(Date.UTC(year, month - 1, day)));
+      }
+      case "DATEVALUE":
+        return isBlankValue(arg(0)) ? null : formatDate(toDate(arg(0), name));
+      case "YEAR":
+      case "MONTH":
+      case "DAY":
+      case "WEEKDAY": {
+        if (isBlankValue(arg(0))) return null;
+        const date = toDate(arg(0), name);
+        if (name === "YEAR") return date.getUTCFullYear();
+        if (name === "MONTH") return date.getUTCMonth() + 1;
+        if (name === "DAY") return date.getUTCDate();
+        return date.getUTCDay() + 1;
+      }
+      case "ADDMONTHS": {
+        if (isBlankValue(arg(0))) return null;
+        const date = toDate(arg(0), name);
+        const day = date.getUTCDate();
+        date.setUTCDate(1);
+        date.setUTCMonth(date.getUTCMonth() + (num(1) ?? 0));
+        // Clamp to the last day of a shorter month
+        const lastDay = new Date(
+          Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)
+        ).getUTCDate();
+        date.setUTCDate(Math.min(day, lastDay));
+        return formatDate(date);
+      }
+      default:
+        throw new Error(`${name} is not supported by the evaluator`);
+    }
+  };
+
+  const evaluate = (node: FormulaNode): unknown => {
+    switch (node.type) {
+      case "number":
+      case "string":
+      case "boolean":
+        return node.value;
+      case "null":
+        return null;
+      case "reference":
+        return lookup(node.name);
+      case "group":
+        return evaluate(node.expression);
+      case "unary": {
+        const operand = evaluate(node.operand);
+        if (node.operator === "!") return !toBooleanValue(operand);
+        const value = toNumber(operand, node.operator);
+        return value === null ? null : node.operator === "-" ? -value : value;
+      }
+      case "binary": {
+        if (node.operator === "&&" || node.operator === "||") {
+          const left = toBooleanValue(evaluate(node.left));
+          if (left === (node.operator === "||")) return left;
+          return toBooleanValue(evaluate(node.right));
+        }
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+        if (node.operator === "&") return toText(left) + toText(right);
+        if (["+", "-", "*", "/", "^"].includes(node.operator)) {
+          return arithmetic(node.operator, left, right);
+        }
+        return compare(node.operator, left, right);
+      }
+      case "call":
+        return call(node.name, node.args);
+    }
+  };
+
+  try {
+    return { value: evaluate(ast), missingReferences: Array.from(missing) };
+  } catch (error) {
+    return {
+      value: null,
+      error: error instanceof Error ? error.message : String(error),
+      missingReferences: Array.from(missing),
+    };
+  }
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { createFlowModelStore } from "../model";
+import type { FlowModelStore } from "../model";
+import type { EdgeType, FlowEdge, FlowNode, FlowNodeData } from "../types";
+import { analyzeGovernorLimits } from "./governorLimits";
+
+// ============================================================================
+// FIXTURES
+// ============================================================================
+
+function node(
+  id: string,
+  type: FlowNode["type"],
+  data: Partial<FlowNodeData> = {}
+): FlowNode {
+  return { id, type, label: id, x: 0, y: 0, width: 0, height: 0, data };
+}
+
+function edge(
+  source: string,
+  target: string,
+  type: EdgeType = "normal"
+): FlowEdge {
+  return { id: `${source}-${target}`, source, target, type };
+}
+
+/**
+ * Parent loops over contacts, updating each one and calling Child for it
+ */
+function createParent(): FlowModelStore {
+  return createFlowModelStore(
+    [
+      node("START_NODE", "START"),
+      node("Loop_Contacts", "LOOP"),
+      node("Update_Contact", "RECORD_UPDATE"),
+      node("Call_Child", "SUBFLOW", { flowName: "Child" }),
+      node("END", "END"),
+    ],
+    [
+      edge("START_NODE", "Loop_Contacts"),
+      edge("Loop_Contacts", "Update_Contact", "loop-next"),
+      edge("Update_Contact", "Call_Child"),
+      edge("Call_Child", "Loop_Contacts"),
+      edge("Loop_Contacts", "END", "loop-end"),
+    ]
+  );
+}
+
+/**
+ * Child creates a task, then calls `calledFlow`
+ */
+function createChild(calledFlow: string): FlowModelStore {
+  return createFlowModelStore(
+    [
+      node("START_NODE", "START"),
+      node("Create_Task", "RECORD_CREATE"),
+      node("Call_Back", "SUBFLOW", { flowName: calledFlow }),
+      node("END", "END"),
+    ],
+    [
+      edge("START_NODE", "Create_Task"),
+      edge("Create_Task", "Call_Back"),
+      edge("Call_Back", "END"),
+    ]
+  );
+}
+
+// ============================================================================
+// TESTS
+// ============================================================================
+
+describe("analyzeGovernorLimits", () => {
+  it("counts DML in a subflow called inside a loop", () => {
+    const parent = createParent();
+    const analysis = analyzeGovernorLimits(parent, {
+      flowName: "Parent",
+      resolveSubflow: (flowName) =>
+        flowName === "Child" ? createChild("Grandchild") : undefined,
+    });
+
+    expect(analysis.estimates[0].dmlStatements).toBe(400);
+    expect(analysis.missingSubflows).toEqual(["Grandchild"]);
+    const createTask = analysis.risks.find(
+      (risk) => risk.element.id === "Create_Task"
+    );
+    expect(createTask?.subflows).toEqual(["Child"]);
+    expect(createTask?.node.id).toBe("Call_Child");
+  });
+
+  it("stops at a subflow calling back into the flow analysed", () => {
+    const parent = createParent();
+    const child = createChild("Parent");
+    const flows = new Map([
+      ["Parent", parent],
+      ["Child", child],
+    ]);
+    const analysis = analyzeGovernorLimits(parent, {
+      flowName: "Parent",
+      resolveSubflow: (flowName) => flows.get(flowName),
+    });
+
+    // Update_Contact and Create_Task once per contact, not again via Child
+    const [estimate] = analysis.estimates;
+    expect(estimate.dmlStatements).toBe(400);
+    expect(estimate.unknownCalls).toBe(200);
+    expect(analysis.missingSubflows).toEqual([]);
+    const callBack = analysis.risks.find(
+      (risk) => risk.element.id === "Call_Back"
+    );
+    expect(callBack?.kind).toBe("subflow");
+    expect(callBack?.subflows).toEqual(["Child"]);
+  });
+
+  it("counts elements on both the immediate and an asynchronous path", () => {
+    const model = createFlowModelStore(
+      [
+        node("START_NODE", "START"),
+        node("Loop_Contacts", "LOOP"),
+        node("Update_Contact", "RECORD_UPDATE"),
+        node("END", "END"),
+      ],
+      [
+        edge("START_NODE", "Loop_Contacts"),
+        {
+          ...edge("START_NODE", "Loop_Contacts"),
+          id: "START_NODE-async",
+          label: "Asynchronous Path",
+        },
+        edge("Loop_Contacts", "Update_Contact", "loop-next"),
+        edge("Update_Contact", "Loop_Contacts"),
+        edge("Loop_Contacts", "END", "loop-end"),
+      ]
+    );
+
+    const analysis = analyzeGovernorLimits(model);
+
+    expect(
+      analysis.estimates.map(({ transaction, dmlStatements }) => [
+        transaction,
+        dmlStatements,
+      ])
+    ).toEqual([
+      ["Run Immediately", 200],
+      ["Asynchronous Path", 200],
+    ]);
+    expect(analysis.risks.map((risk) => risk.edgeIds[0])).toEqual([
+      "START_NODE-Loop_Contacts",
+      "START_NODE-async",
+    ]);
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * Governor Limit Analysis
+ *
+ * Finds the queries, DML, Apex actions and subflow calls that run inside
+ * loops, where a flow hits Salesforce's per-transaction limits, and
+ * estimates the SOQL queries and DML statements a transaction can use.
+ * Loops are followed through nested loops, GoTo connectors and subflows
+ * found in the workspace, so a DML element two subflows down from a loop is
+ * counted against that loop.
+ *
+ * The metadata doesn't say how many items a loop runs over, so each loop is
+ * assumed to run over a full trigger batch. Every element inside a loop
+ * counts once per item whichever branch it is on, which makes the
+ * estimates upper bounds.
+ */
+
+import type { FlowModelStore } from "../model";
+import type { FlowEdge, FlowNode } from "../types";
+import { isAsyncStartEdge } from "./graph";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * What an element costs: a SOQL query, a DML statement, or a call whose
+ * cost is unknown (an Apex action, or a subflow not in the workspace)
+ */
+export type LimitOperationKind = "soql" | "dml" | "apex" | "subflow";
+
+export interface LimitOperation {
+  kind: LimitOperationKind;
+  /** Element that runs the operation, in a subflow when `subflows` is set */
+  element: FlowNode;
+  /** Subflows called on the way to the element, outermost first */
+  subflows: string[];
+  /** Loops around the element, outermost first, across subflows */
+  loops: FlowNode[];
+  /** Worst-case runs per transaction */
+  executions: number;
+}
+
+/**
+ * An operation inside a loop, located on the canvas
+ */
+export interface LimitRisk extends LimitOperation {
+  /** Canvas element: the operation itself, or the subflow element calling it */
+  node: FlowNode;
+  /** Elements from Start to the canvas element */
+  nodeIds: string[];
+  /** Connectors from Start to the canvas element, for highlighting */
+  edgeIds: string[];
+}
+
+/**
+ * Worst-case use of one transaction. Scheduled and asynchronous paths run
+ * in transactions of their own.
+ */
+export interface LimitEstimate {
+  /** "Run Immediately", or the label of the asynchronous path */
+  transaction: string;
+  queries: number;
+  dmlStatements: number;
+  /** Apex actions and unresolved subflow calls, which may use more */
+  unknownCalls: number;
+}
+
+export interface GovernorLimitAnalysis {
+  /** Operations inside loops, most executions first */
+  risks: LimitRisk[];
+  estimates: LimitEstimate[];
+  /** Called subflows that weren't found, by API name */
+  missingSubflows: string[];
+  /** Items each loop was assumed to run over */
+  loopIterations: number;
+}
+
+export interface GovernorLimitOptions {
+  /** API name of the flow analysed, so subflows calling back into it stop */
+  flowName?: string;
+  /** Parsed model of a called flow, by API name */
+  resolveSubflow?: (flowName: string) => FlowModelStore | undefined;
+  /** Items each loop is assumed to run over (default: 200) */
+  loopIterations?: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Synchronous per-transaction limits */
+export const GOVERNOR_LIMITS = {
+  queries: 100,
+  dmlStatements: 150,
+};
+
+// Records reach a record-triggered flow in batches of up to 200
+export const DEFAULT_LOOP_ITERATIONS = 200;
+
+const IMMEDIATE_TRANSACTION = "Run Immediately";
+
+const DML_TYPES = ["RECORD_CREATE", "RECORD_UPDATE", "RECORD_DELETE"];
+
+// ============================================================================
+// TRAVERSAL
+// ============================================================================
+
+interface ElementContext {
+  /** Loops the element runs inside, outermost first */
+  loops: FlowNode[];
+  /** Label of the asynchronous Start path the element is on */
+  asyncPath?: string;
+}
+
+interface TransactionWalk {
+  contexts: Map<string, ElementContext>;
+  /** Connector each element was reached by, for the path from Start */
+  parentEdges: Map<string, FlowEdge>;
+}
+
+/** Elements reached in each transaction, by transaction name */
+type FlowWalk = Map<string, TransactionWalk>;
+
+function getTransaction(context: ElementContext): string {
+  return context.asyncPath ?? IMMEDIATE_TRANSACTION;
+}
+
+/**
+ * Walk the flow from Start, recording the loops around each element. Every
+ * connector is followed, including fault and GoTo connectors; an element
+ * reached again inside more loops is walked again, so the deepest nesting
+ * wins. Each transaction is walked on its own, so an element reached from
+ * both the immediate path and an asynchronous path counts in both.
+ */
+function walkFlow(model: FlowModelStore): FlowWalk {
+  const walk: FlowWalk = new Map();
+  const start = model.findStartElement();
+  if (!start) return walk;
+
+  const queue: Array<{
+    node: FlowNode;
+    context: ElementContext;
+    edge?: FlowEdge;
+  }> = [{ node: start, context: { loops: [] } }];
+
+  while (queue.length > 0) {
+    const { node, context, edge } = queue.shift()!;
+    const transaction = getTransaction(context);
+    let visits = walk.get(transaction);
+    if (!visits) {
+      visits = { contexts: new Map(), parentEdges: new Map() };
+      walk.set(transaction, visits);
+    }
+    const known = visits.contexts.get(node.id);
+    if (known && known.loops.length >= context.loops.length) continue;
+    visits.contexts.set(node.id, context);
+    if (edge) visits.parentEdges.set(node.id, edge);
+
+    model.getOutgoingEdges(node.id).forEach((out) => {
+      const target = model.resolveNode(out.target);
+      if (!target) return;
+
+      let next = context;
+      if (node.type === "LOOP" && out.type === "loop-next") {
+        next = { ...context, loops: [...context.loops, node] };
+      } else if (node.type === "START" && isAsyncStartEdge(out)) {
+        next = { ...context, asyncPath: out.label || "Asynchronous Path" };
+      }
+      // Back to a loop for its next item
+      if (next.loops.some((loop) => loop.id === target.id)) return;
+      queue.push({ node: target, context: next, edge: out });
+    });
+  }
+  return walk;
+}
+
+/**
+ * Elements and connectors from Start to an element, along the connectors
+ * the walk of its transaction reached each one by
+ */
+function getPathFromStart(
+  walk: TransactionWalk,
+  nodeId: string
+): { nodeIds: string[]; edgeIds: string[] } {
+  const nodeIds = [nodeId];
+  const edgeIds: string[] = [];
+  let edge = walk.parentEdges.get(nodeId);
+  while (edge && !edgeIds.includes(edge.id)) {
+    edgeIds.unshift(edge.id);
+    nodeIds.unshift(edge.source);
+    edge = walk.parentEdges.get(edge.source);
+  }
+  return { nodeIds, edgeIds };
+}
+
+// ============================================================================
+// OPERATIONS
+// ============================================================================
+
+/** The flow a SUBFLOW element, or a flow action, calls */
+function getCalledFlowName(node: FlowNode): string | undefined {
+  if (node.type === "SUBFLOW") {
+    return node.data.flowName || undefined;
+  }
+  if (node.type === "ACTION" && node.data.actionType === "flow") {
+    return node.data.actionName || undefined;
+  }
+  return undefined;
+}
+
+function getOperationKind(node: FlowNode): LimitOperationKind | undefined {
+  if (node.type === "RECORD_LOOKUP") return "soql";
+  if (DML_TYPES.includes(node.type)) return "dml";
+  if (node.type === "APEX_CALL") return "apex";
+  return undefined;
+}
+
+interface FoundOperation {
+  /** Element of the flow analysed: the operation, or the subflow calling it */
+  node: FlowNode;
+  context: ElementContext;
+  operation: LimitOperation;
+}
+
+interface OperationSearch {
+  resolveSubflow: (flowName: string) => FlowModelStore | undefined;
+  loopIterations: number;
+  missingSubflows: Set<string>;
+  /** Operations of each subflow, per run of the subflow */
+  subflowOperations: Map<string, LimitOperation[]>;
+}
+
+/**
+ * Every operation a flow runs, counted per run of the flow
+ *
+ * @param callers - Flows above this one, to stop at recursive calls
+ */
+function findOperations(
+  model: FlowModelStore,
+  walk: FlowWalk,
+  search: OperationSearch,
+  callers: string[]
+): FoundOperation[] {
+  const found: FoundOperation[] = [];
+
+  // Elements Start can't reach never run
+  const reached = Array.from(walk.values()).flatMap(({ contexts }) =>
+    model.getAllNodes().flatMap((node) => {
+      const context = contexts.get(node.id);
+      return context ? [{ node, context }] : [];
+    })
+  );
+  reached.forEach(({ node, context }) => {
+    const executions = Math.pow(search.loopIterations, context.loops.length);
+
+    const kind = getOperationKind(node);
+    if (kind) {
+      found.push({
+        node,
+        context,
+        operation: {
+          kind,
+          element: node,
+          subflows: [],
+          loops: context.loops,
+          executions,
+        },
+      });
+      return;
+    }
+
+    const flowName = getCalledFlowName(node);
+    if (!flowName) return;
+    const inner = getSubflowOperations(flowName, search, callers);
+    if (!inner) {
+      found.push({
+        node,
+        context,
+        operation: {
+          kind: "subflow",
+          element: node,
+          subflows: [],
+          loops: context.loops,
+          executions,
+        },
+      });
+      return;
+    }
+    inner.forEach((operation) =>
+      found.push({
+        node,
+        context,
+        operation: {
+          ...operation,
+          subflows: [flowName, ...operation.subflows],
+          loops: [...context.loops, ...operation.loops],
+          executions: executions * operation.executions,
+        },
+      })
+    );
+  });
+  return found;
+}
+
+/**
+ * Operations of a called flow per call, or undefined when the flow isn't in
+ * the workspace or calls itself
+ */
+function getSubflowOperations(
+  flowName: string,
+  search: OperationSearch,
+  callers: string[]
+): LimitOperation[] | undefined {
+  const cached = search.subflowOperations.get(flowName);
+  if (cached) return cached;
+  if (callers.includes(flowName)) return undefined;
+
+  const model = search.resolveSubflow(flowName);
+  if (!model) {
+    search.missingSubflows.add(flowName);
+    return undefined;
+  }
+  const operations = findOperations(model, walkFlow(model), search, [
+    ...callers,
+    flowName,
+  ]).map((found) => found.operation);
+  search.subflowOperations.set(flowName, operations);
+  return operations;
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/**
+ * Find the operations inside loops and estimate each transaction's use of
+ * the SOQL query and DML statement limits
+ *
+ * @param model - Flow model of the flow on the canvas
+ */
+export function analyzeGovernorLimits(
+  model: FlowModelStore,
+  options: GovernorLimitOptions = {}
+): GovernorLimitAnalysis {
+  const loopIterations = options.loopIterations ?? DEFAULT_LOOP_ITERATIONS;
+  const search: OperationSearch = {
+    resolveSubflow: options.resolveSubflow ?? (() => undefined),
+    loopIterations,
+    missingSubflows: new Set(),
+    subflowOperations: new Map(),
+  };
+  const walk = walkFlow(model);
+  const found = findOperations(
+    model,
+    walk,
+    search,
+    options.flowName ? [options.flowName] : []
+  );
+
+  const risks: LimitRisk[] = found
+    .filter(({ operation }) => operation.loops.length > 0)
+    .map(({ node, context, operation }) => ({
+      ...operation,
+      node,
+      ...getPathFromStart(walk.get(getTransaction(context))!, node.id),
+    }))
+    .sort((a, b) => b.executions - a.executions);
+
+  const estimates = new Map<string, LimitEstimate>();
+  const getEstimate = (transaction: string) => {
+    let estimate = estimates.get(transaction);
+    if (!estimate) {
+      estimate = { transaction, queries: 0, dmlStatements: 0, unknownCalls: 0 };
+      estimates.set(transaction, estimate);
+    }
+    return estimate;
+  };
+  // Listed first even when it does nothing
+  getEstimate(IMMEDIATE_TRANSACTION);
+  found.forEach(({ context, operation }) => {
+    const estimate = getEstimate(getTransaction(context));
+    if (operation.kind === "soql") {
+      estimate.queries += operation.executions;
+    } else if (operation.kind === "dml") {
+      estimate.dmlStatements += operation.executions;
+    } else {
+      estimate.unknownCalls += operation.executions;
+    }
+  });
+
+  return {
+    risks,
+    estimates: Array.from(estimates.values()),
+    missingSubflows: Array.from(search.missingSubflows).sort(),
+    loopIterations,
+  };
+}
+
+/**
+ * API names of the flows a flow calls directly
+ */
+export function getCalledFlowNames(nodes: FlowNode[]): string[] {
+  const names = new Set<string>();
+  nodes.forEach((node) => {
+    const flowName = getCalledFlowName(node);
+    if (flowName) names.add(flowName);
+  });
+  return Array.from(names).sort();
+}
+
+/**
+ * Whether an estimate goes over a synchronous limit
+ */
+export function exceedsGovernorLimits(estimate: LimitEstimate): boolean {
+  return (
+    estimate.queries > GOVERNOR_LIMITS.queries ||
+    estimate.dmlStatements > GOVERNOR_LIMITS.dmlStatements
+  );
+}
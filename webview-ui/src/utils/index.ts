@@ -6,5 +6,18 @@ export * from "./graph";
 export * from "./vscodeApi";
 export * from "./complexity";
 export * from "./flow-scanner";
+export * from "./flowDiff";
+export * from "./diagramText";
+export * from "./formatters";
+export * from "./flowDocumentation";
+export * from "./dependencyGraph";
+export * from "./automationMap";
+export * from "./flowSimulation";
+export * from "./flowPaths";
+export * from "./sampleData";
+export * from "./conditionEvaluator";
+export * from "./formula";
+export * from "./qualityReport";
+export * from "./governorLimits";
 
 export * from "./collapse";
@@ -0,0 +1,212 @@
+/**
+ * Workspace Quality Report
+ *
+ * Groups the scanner violations of every flow in the workspace by rule,
+ * severity, flow or process type, with per-group severity counts for the
+ * sortable report, and compares the scan's totals with the previous scan.
+ */
+
+import type {
+  FlowQualityEntry,
+  QualityScanTotals,
+  WorkspaceQualityReport,
+} from "../types";
+import type { FlowViolation, ViolationSeverity } from "./flow-scanner";
+import { getProcessTypeLabel } from "./formatters";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ReportGrouping = "rule" | "severity" | "flow" | "processType";
+
+/** Report columns the groups can be sorted by */
+export type ReportSortKey = ViolationSeverity | "label" | "total" | "flows";
+
+export interface ReportSort {
+  key: ReportSortKey;
+  descending: boolean;
+}
+
+export interface ReportRow {
+  flow: FlowQualityEntry;
+  violation: FlowViolation;
+}
+
+export interface ReportGroup {
+  key: string;
+  label: string;
+  /** Rule documentation, when grouped by rule */
+  docLink?: string;
+  rows: ReportRow[];
+  counts: Record<ViolationSeverity, number>;
+  total: number;
+  /** Distinct flows with violations in the group */
+  flows: number;
+}
+
+export interface ScanTrend {
+  current: QualityScanTotals;
+  /** Undefined for the first scan of the workspace */
+  previous?: QualityScanTotals;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SEVERITY_ORDER: ViolationSeverity[] = ["error", "warning", "note"];
+
+export const SEVERITY_LABELS: Record<ViolationSeverity, string> = {
+  error: "Error",
+  warning: "Warning",
+  note: "Note",
+};
+
+// ============================================================================
+// GROUPING
+// ============================================================================
+
+function getGroupKey(row: ReportRow, grouping: ReportGrouping): string {
+  switch (grouping) {
+    case "rule":
+      return row.violation.rule;
+    case "severity":
+      return row.violation.severity;
+    case "flow":
+      return row.flow.name;
+    default:
+      return row.flow.processType ?? "";
+  }
+}
+
+function getGroupLabel(row: ReportRow, grouping: ReportGrouping): string {
+  switch (grouping) {
+    case "rule":
+      return row.violation.ruleLabel;
+    case "severity":
+      return SEVERITY_LABELS[row.violation.severity];
+    case "flow":
+      return row.flow.label;
+    default:
+      return getProcessTypeLabel(row.flow.processType);
+  }
+}
+
+/**
+ * One row per violation, most severe first, then by flow
+ */
+export function getReportRows(report: WorkspaceQualityReport): ReportRow[] {
+  return report.flows
+    .flatMap((flow) => flow.violations.map((violation) => ({ flow, violation })))
+    .sort(
+      (a, b) =>
+        SEVERITY_ORDER.indexOf(a.violation.severity) -
+          SEVERITY_ORDER.indexOf(b.violation.severity) ||
+        a.flow.label.localeCompare(b.flow.label) ||
+        (a.violation.elementName ?? "").localeCompare(
+          b.violation.elementName ?? ""
+        )
+    );
+}
+
+/**
+ * Group the rows, counting violations by severity in each group
+ */
+export function groupReportRows(
+  rows: ReportRow[],
+  grouping: ReportGrouping
+): ReportGroup[] {
+  const groups = new Map<string, ReportGroup>();
+  const flowsByGroup = new Map<string, Set<string>>();
+
+  rows.forEach((row) => {
+    const key = getGroupKey(row, grouping);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        label: getGroupLabel(row, grouping),
+        docLink: grouping === "rule" ? row.violation.docLink : undefined,
+        rows: [],
+        counts: { error: 0, warning: 0, note: 0 },
+        total: 0,
+        flows: 0,
+      };
+      groups.set(key, group);
+      flowsByGroup.set(key, new Set());
+    }
+    group.rows.push(row);
+    group.counts[row.violation.severity]++;
+    group.total++;
+    flowsByGroup.get(key)?.add(row.flow.name);
+  });
+
+  return Array.from(groups.values()).map((group) => ({
+    ...group,
+    flows: flowsByGroup.get(group.key)?.size ?? 0,
+  }));
+}
+
+function compareByLabel(
+  a: ReportGroup,
+  b: ReportGroup,
+  grouping: ReportGrouping
+): number {
+  // Severities read best in order of severity rather than alphabetically
+  if (grouping === "severity") {
+    return (
+      SEVERITY_ORDER.indexOf(a.key as ViolationSeverity) -
+      SEVERITY_ORDER.indexOf(b.key as ViolationSeverity)
+    );
+  }
+  return a.label.localeCompare(b.label);
+}
+
+/**
+ * Sort groups by a column; ties keep label order
+ */
+export function sortReportGroups(
+  groups: ReportGroup[],
+  sort: ReportSort,
+  grouping: ReportGrouping
+): ReportGroup[] {
+  const direction = sort.descending ? -1 : 1;
+  const value = (group: ReportGroup): number =>
+    sort.key === "total" || sort.key === "flows"
+      ? group[sort.key]
+      : group.counts[sort.key as ViolationSeverity];
+
+  return [...groups].sort((a, b) => {
+    if (sort.key === "label") {
+      return direction * compareByLabel(a, b, grouping);
+    }
+    return (
+      direction * (value(a) - value(b)) || compareByLabel(a, b, grouping)
+    );
+  });
+}
+
+// ============================================================================
+// TREND
+// ============================================================================
+
+/**
+ * Totals of this scan and of the scan before it
+ */
+export function getScanTrend(report: WorkspaceQualityReport): ScanTrend {
+  const current: QualityScanTotals = {
+    scannedAt: report.scannedAt,
+    flows: report.flows.length,
+    error: 0,
+    warning: 0,
+    note: 0,
+  };
+  report.flows.forEach((flow) =>
+    flow.violations.forEach((violation) => current[violation.severity]++)
+  );
+  return {
+    current,
+    previous: report.history[report.history.length - 1],
+  };
+}
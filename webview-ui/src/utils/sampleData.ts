@@ -0,0 +1,216 @@
+/**
+ * Sample Data
+ *
+ * Sample record and variable values that formulas and conditions are
+ * evaluated against, with the reference lookup and the loose comparison
+ * rules flow conditions use (blank equals null, numbers and dates compare
+ * by value).
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Sample input the conditions are evaluated against
+ */
+export interface SampleData {
+  /** Field values of the triggering record ($Record) */
+  record: Record<string, unknown>;
+  /**
+   * Values of variables and other references by name, e.g. "varAmount",
+   * "Get_Account" or "$Record__Prior"
+   */
+  variables: Record<string, unknown>;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const RECORD_REFERENCE = "$Record";
+export const PRIOR_RECORD_REFERENCE = "$Record__Prior";
+
+const GLOBAL_CONSTANTS: Record<string, unknown> = {
+  "$GlobalConstant.True": true,
+  "$GlobalConstant.False": false,
+  "$GlobalConstant.EmptyString": "",
+  "$GlobalConstant.Null": null,
+};
+
+// ============================================================================
+// REFERENCE RESOLUTION
+// ============================================================================
+
+export interface ResolvedReference {
+  found: boolean;
+  value: unknown;
+}
+
+export function isSampleObject(
+  value: unknown
+): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Look up a field, ignoring case like Salesforce API names do
+ */
+function getField(
+  obj: Record<string, unknown>,
+  field: string
+): ResolvedReference {
+  if (field in obj) return { found: true, value: obj[field] };
+  const key = Object.keys(obj).find(
+    (k) => k.toLowerCase() === field.toLowerCase()
+  );
+  return key ? { found: true, value: obj[key] } : { found: false, value: null };
+}
+
+/**
+ * Resolve a reference such as "$Record.Account.Name" or "varAmount"
+ */
+export function resolveSampleReference(
+  reference: string,
+  data: SampleData
+): ResolvedReference {
+  if (reference in GLOBAL_CONSTANTS) {
+    return { found: true, value: GLOBAL_CONSTANTS[reference] };
+  }
+  // Allow flat keys such as "Get_Account.Name" in the variables
+  const flat = getField(data.variables, reference);
+  if (flat.found) return flat;
+
+  const [root, ...path] = reference.split(".");
+  let current: ResolvedReference =
+    root === RECORD_REFERENCE
+      ? { found: true, value: data.record }
+      : getField(data.variables, root);
+  for (const field of path) {
+    if (!current.found || !isSampleObject(current.value)) {
+      return { found: false, value: null };
+    }
+    current = getField(current.value, field);
+  }
+  return current;
+}
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Null, empty text or an empty collection
+ */
+export function isBlankValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * A number, or numeric text, as a number; null otherwise
+ */
+export function toNumberValue(value: unknown): number | null {
+  if (typeof value === "number") return value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const num = Number(value);
+    return isNaN(num) ? null : num;
+  }
+  return null;
+}
+
+function toTime(value: unknown): number | null {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}/.test(value)) {
+    return null;
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+export function toBooleanValue(value: unknown): boolean {
+  return value === true || String(value).toLowerCase() === "true";
+}
+
+/**
+ * Order two values: numbers, then dates, then text. Null when either is blank
+ */
+export function compareSampleValues(
+  left: unknown,
+  right: unknown
+): number | null {
+  if (isBlankValue(left) || isBlankValue(right)) return null;
+  const leftNum = toNumberValue(left);
+  const rightNum = toNumberValue(right);
+  if (leftNum !== null && rightNum !== null) return leftNum - rightNum;
+  const leftTime = toTime(left);
+  const rightTime = toTime(right);
+  if (leftTime !== null && rightTime !== null) return leftTime - rightTime;
+  return String(left).localeCompare(String(right));
+}
+
+/**
+ * Equality as flow conditions see it: blank matches null, "10" matches 10
+ */
+export function sampleValuesEqual(left: unknown, right: unknown): boolean {
+  if (isBlankValue(left) || isBlankValue(right)) {
+    return isBlankValue(left) && isBlankValue(right);
+  }
+  if (typeof left === "boolean" || typeof right === "boolean") {
+    return toBooleanValue(left) === toBooleanValue(right);
+  }
+  return compareSampleValues(left, right) === 0;
+}
+
+export function textOfValue(value: unknown): string {
+  return isBlankValue(value) ? "" : String(value);
+}
+
+/**
+ * The prior value of a $Record field, for IsChanged
+ */
+export function getPriorReference(reference: string): string | null {
+  return reference.startsWith(`${RECORD_REFERENCE}.`)
+    ? PRIOR_RECORD_REFERENCE + reference.slice(RECORD_REFERENCE.length)
+    : null;
+}
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+/**
+ * Add a reference to a sample data skeleton as a null value, nesting
+ * "$Record.Account.Name" as { Account: { Name: null } } under the record
+ */
+export function addSampleReference(
+  template: SampleData,
+  reference: string
+): void {
+  if (reference in GLOBAL_CONSTANTS) return;
+  const [root, ...path] = reference.split(".");
+  let target: Record<string, unknown>;
+  if (root === RECORD_REFERENCE) {
+    target = template.record;
+  } else {
+    if (path.length === 0) {
+      template.variables[root] ??= null;
+      return;
+    }
+    if (!isSampleObject(template.variables[root])) {
+      template.variables[root] = {};
+    }
+    target = template.variables[root] as Record<string, unknown>;
+  }
+  path.forEach((field, i) => {
+    if (i === path.length - 1) {
+      target[field] ??= null;
+    } else {
+      if (!isSampleObject(target[field])) target[field] = {};
+      target = target[field] as Record<string, unknown>;
+    }
+  });
+}
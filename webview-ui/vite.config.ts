@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
@@ -14,6 +15,10 @@ export default defineConfig({
       },
     },
   },
+  test: {
+    // The parser and diff read XML with the browser's DOMParser
+    environment: "jsdom",
+  },
   define: {
     // For webview compatibility
     "process.env": {},